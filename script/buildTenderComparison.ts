@@ -0,0 +1,2510 @@
+// GENERATED FILE - do not edit. Source: src/scripts/buildTenderComparison.ts (rebuild with `npm run build`)
+
+/**
+ * ExcelScript Module: Build Tender Comparison
+ *
+ * Writes a "Tender Comparison" sheet with one row per section: each pricing
+ * column pair's section total (live links to the BQ), the lowest total and
+ * who priced it, then the grand totals. Pricing pairs are named in
+ * "Pricing Names" (e.g. "Estimate, Bidder 1, Bidder 2") and placed from
+ * "Pricing Start Column" on BQ_Config; the formula update rolls each pair up
+ * like the main cost column.
+ *
+ * @entryPoint `main(workbook: ExcelScript.Workbook)`
+ */
+
+// ===== MAIN FUNCTION ===== //
+function main(workbook: ExcelScript.Workbook) {
+
+  const layout = readTableLayout(workbook);
+  const sectionCount = writeTenderComparisonSheet(workbook, layout);
+
+  console.log(`✅ Tender Comparison written for ${sectionCount} section(s)`);
+}
+
+
+// ===== BUNDLED MODULE - src/excel/pricing.ts ===== //
+
+/**
+ * ExcelScript Adapter: Tender Pricing
+ *
+ * Writes the named rate/cost pricing pairs (see `core/pricing`) and the
+ * "Tender Comparison" sheet.
+ */
+
+/** Number format for costs and totals. */
+const PRICING_NUMBER_FORMAT = "_(* #,##0.00_);_(* (#,##0.00);_(* \"-\"??_);_(@_)";
+
+/**
+ * Rewrites the header labels, changed rate/cost formulas and grand totals of every
+ * pricing pair, keeping the leaf rates already entered.
+ *
+ * @param {ExcelScript.Worksheet} sheet - The worksheet containing the activity table.
+ * @param {TableLayout} layout - The table layout.
+ * @param {Activity[]} activities - The parsed activities, with `hasChild` set.
+ * @param {CellFormula[][]} tableData2D - The formulas the activities were parsed from.
+ * @param {number} grandTotalRow - The grand total row.
+ * @param {number[]} [rowIndices] - Only refresh these rows (see `getRefreshIndices`); every row if omitted.
+ */
+function writePricingColumns(
+  sheet: ExcelScript.Worksheet,
+  layout: TableLayout,
+  activities: Activity[],
+  tableData2D: CellFormula[][],
+  grandTotalRow: number,
+  rowIndices?: number[]
+): void {
+  const dataTopRow = layout.headerRow + 1;
+
+  getPricingColumns(layout).forEach(pricing => {
+    const pricingRows = computePricingFormulas(activities, tableData2D, layout, pricing);
+
+    sheet.getRange(`${pricing.rateColumn}${layout.headerRow}:${pricing.costColumn}${layout.headerRow}`)
+      .setValues([[`${pricing.name} Rate`, `${pricing.name} Cost`]]);
+
+    [pricing.rateColumn, pricing.costColumn].forEach((columnLetter, i) => {
+      const currentFormulas = getColumnFormulas(tableData2D, layout, columnLetter);
+      setChangedColumnFormulas(sheet, columnLetter, dataTopRow, currentFormulas, pricingRows.map(row => row[i]), rowIndices);
+    });
+
+    sheet.getRange(`${pricing.costColumn}${grandTotalRow}`).setFormula(buildPricingTotalFormula(activities, layout, pricing));
+    sheet.getRange(`${pricing.costColumn}${dataTopRow}:${pricing.costColumn}${grandTotalRow}`).setNumberFormatLocal(PRICING_NUMBER_FORMAT);
+  });
+}
+
+/**
+ * Creates or regenerates the "Tender Comparison" sheet for the active BQ worksheet.
+ *
+ * @param {ExcelScript.Workbook} workbook - The workbook containing the active worksheet.
+ * @param {TableLayout} layout - The table layout.
+ * @returns {number} The number of sections compared.
+ * @throws If fewer than two pricing pairs are configured.
+ */
+function writeTenderComparisonSheet(workbook: ExcelScript.Workbook, layout: TableLayout): number {
+  const pricingCount = getPricingColumns(layout).length;
+
+  if (pricingCount < 2) {
+    throw new Error(`Comparison not written - list at least two names in "Pricing Names" on BQ_Config!`);
+  }
+
+  // 01 - Build the rows from the active BQ sheet
+  const sheet = workbook.getActiveWorksheet();
+  const { activityObjectsArray } = transformTableToActivityObjects(sheet, layout);
+  const rows = buildTenderComparisonRows(activityObjectsArray, sheet.getName(), layout, getBottomTotalsRow(sheet, layout));
+
+  // 02 - Replace the comparison sheet contents
+  const comparisonSheet = workbook.getWorksheet(TENDER_COMPARISON_SHEET_NAME) || workbook.addWorksheet(TENDER_COMPARISON_SHEET_NAME);
+  comparisonSheet.getRange().clear(ExcelScript.ClearApplyTo.all);
+
+  const comparisonRange = comparisonSheet.getRangeByIndexes(0, 0, rows.length, rows[0].length);
+  comparisonRange.setFormulas(rows as string[][]);
+
+  // 03 - Format the header, amounts and grand total row
+  comparisonSheet.getRangeByIndexes(1, 2, rows.length - 1, pricingCount + 1).setNumberFormatLocal(PRICING_NUMBER_FORMAT);
+
+  [0, rows.length - 1].forEach(rowIndex => {
+    const format = comparisonSheet.getRangeByIndexes(rowIndex, 0, 1, rows[0].length).getFormat();
+    format.getFont().setBold(true);
+    format.getFill().setColor("#D9D9D9");
+  });
+
+  comparisonRange.getFormat().autofitColumns();
+
+  return rows.length - 2;
+}
+
+
+// ===== BUNDLED MODULE - src/core/activity.ts ===== //
+
+/**
+ * Core BQ Model: Activity Table
+ *
+ * Pure, workbook-independent representation of the BQ activity table.
+ * Everything in `src/core` operates on plain 2D arrays as returned by
+ * `Range.getFormulas()` so it can be unit tested in Node and bundled
+ * unchanged into each ExcelScript file.
+ *
+ * @assumptions:
+ * - Rows are read across the layout's column span (B to J by default)
+ * - The item code column holds hyphenated item codes (e.g., A, A-1, A-1-1)
+ */
+
+/** A single cell formula or constant as returned by `Range.getFormulas()`. */
+type CellFormula = string | number | boolean;
+
+/** One activity row of the BQ table. */
+interface Activity {
+  rowNumber: number,
+  itemCode: string,
+  activityName: string,
+  quantity: (number | string),
+  unit: string,
+  rate: (number | string),
+  cost: string,
+  itemType: string,
+  rollUpMode: string,
+  hierarchyLevel: number,
+  hasChild: boolean,
+}
+
+/** The parsed activity table together with its worksheet row bounds. */
+interface BQTable {
+  activityObjectsArray: Activity[],
+  dataTopRow: number,
+  dataBottomRow: number,
+}
+
+/**
+ * Converts one row of formulas into an activity object.
+ *
+ * @param {CellFormula[]} row - Formulas across the table's column span for a single row.
+ * @param {number} rowNumber - The worksheet row number (1-based) of the row.
+ * @param {TableLayout} layout - The table layout the row was read with.
+ * @returns {Activity} The activity with `hasChild` initialised to false.
+ */
+function parseActivityRow(row: CellFormula[], rowNumber: number, layout: TableLayout): Activity {
+  const itemCode = String(row[getColumnOffset(layout, layout.itemCodeColumn)]);
+
+  return {
+    rowNumber,
+    itemCode,
+    activityName: row[getColumnOffset(layout, layout.descriptionStartColumn)] as string,
+    quantity: row[getColumnOffset(layout, layout.quantityColumn)] as (number | string),
+    unit: row[getColumnOffset(layout, layout.unitColumn)] as string,
+    rate: row[getColumnOffset(layout, layout.rateColumn)] as (number | string),
+    cost: row[getColumnOffset(layout, layout.costColumn)] as string,
+    itemType: layout.itemTypeColumn === "" ? "" : String(row[getColumnOffset(layout, layout.itemTypeColumn)]).trim(),
+    rollUpMode: layout.rollUpModeColumn === "" ? "" : String(row[getColumnOffset(layout, layout.rollUpModeColumn)]).trim(),
+    hierarchyLevel: getHierarchyLevel(itemCode),
+    hasChild: false
+  };
+}
+
+/**
+ * Parses the formulas of the data rows into a `BQTable`, marking every
+ * activity that acts as a parent in the hierarchy.
+ *
+ * @param {CellFormula[][]} tableData2D - Formulas across the table's column span for every data row.
+ * @param {number} dataTopRow - The worksheet row number of the first data row.
+ * @param {TableLayout} layout - The table layout the rows were read with.
+ * @returns {BQTable} The parsed table.
+ *
+ * @example
+ * const table = parseBQTable(sheet.getRange("B10:J20").getFormulas(), 10, DEFAULT_TABLE_LAYOUT);
+ */
+function parseBQTable(tableData2D: CellFormula[][], dataTopRow: number, layout: TableLayout): BQTable {
+
+  // 01 - Convert each row of formulas into an activity object
+  const activityObjectsArray = tableData2D.map((row, i) => parseActivityRow(row, dataTopRow + i, layout));
+
+  // 02 - Identify parent-child relationships based on itemCode structure
+  markParentActivities(activityObjectsArray);
+
+  return {
+    activityObjectsArray,
+    dataTopRow,
+    dataBottomRow: dataTopRow + tableData2D.length - 1
+  };
+}
+
+/**
+ * Builds the initial cell values for a newly inserted activity row,
+ * with placeholders in the description, quantity, unit, rate and cost columns.
+ *
+ * @param {string} itemCode - The item code of the new activity.
+ * @param {TableLayout} layout - The table layout.
+ * @returns {CellFormula[]} One row spanning the table's columns.
+ */
+function buildNewActivityRow(itemCode: string, layout: TableLayout): CellFormula[] {
+  const { lastColumn } = getTableColumnSpan(layout);
+  const row: CellFormula[] = new Array(getColumnOffset(layout, lastColumn) + 1).fill("");
+
+  row[getColumnOffset(layout, layout.itemCodeColumn)] = itemCode;
+  row[getColumnOffset(layout, layout.descriptionStartColumn)] = "[Insert Activity/Item]";
+  row[getColumnOffset(layout, layout.quantityColumn)] = "[qty]";
+  row[getColumnOffset(layout, layout.unitColumn)] = "[unit]";
+  row[getColumnOffset(layout, layout.rateColumn)] = "[rate]";
+  row[getColumnOffset(layout, layout.costColumn)] = "[insert formula]";
+
+  return row;
+}
+
+
+// ===== BUNDLED MODULE - src/core/hierarchy.ts ===== //
+
+/**
+ * Core BQ Model: Item Code Hierarchy
+ *
+ * Hierarchy helpers derived purely from hyphenated item codes
+ * (e.g., "A" = level 0, "A-1" = level 1, "A-1-2" = level 2).
+ */
+
+/**
+ * Returns the depth of an item code in the hierarchy, i.e. its number of hyphens.
+ * Example: 'A' → 0, 'A-1-2' → 2
+ *
+ * @param {string} itemCode - The hyphenated item code.
+ * @returns {number} The 0-based hierarchy level.
+ */
+function getHierarchyLevel(itemCode: string): number {
+  return (itemCode.match(/-/g) || []).length;
+}
+
+/**
+ * Determines whether `childCode` sits exactly one level beneath `parentCode`.
+ *
+ * @param {string} parentCode - The candidate parent item code (e.g., "A-1").
+ * @param {string} childCode - The candidate child item code (e.g., "A-1-3").
+ * @returns {boolean} True if `childCode` is an immediate child of `parentCode`.
+ */
+function isImmediateChildCode(parentCode: string, childCode: string): boolean {
+  return (
+    childCode.startsWith(parentCode + "-") &&
+    getHierarchyLevel(childCode) === getHierarchyLevel(parentCode) + 1
+  );
+}
+
+/**
+ * Parent/child links between the rows of the table, by index in worksheet order.
+ * `parentIndices[i]` is -1 for sections and for orphans (rows whose parent is
+ * missing or out of order), which are also listed in `orphanIndices`.
+ */
+interface ActivityTree {
+  parentIndices: number[],
+  childIndices: number[][],
+  orphanIndices: number[],
+}
+
+/**
+ * Builds the hierarchy as a real tree. Each row's parent must be the nearest
+ * row above it one level up; e.g. "A-1-1" directly under section B (with no
+ * A-1 open above it) is an orphan rather than a child of some A-1 elsewhere.
+ *
+ * @param {string[]} itemCodes - Item codes in depth-first (worksheet) order.
+ * @returns {ActivityTree} The parent and child indices of every row.
+ */
+function buildActivityTree(itemCodes: string[]): ActivityTree {
+  const tree: ActivityTree = {
+    parentIndices: [],
+    childIndices: itemCodes.map(() => []),
+    orphanIndices: [],
+  };
+
+  // Index of the nearest open row at each level
+  const pathStack: number[] = [];
+
+  itemCodes.forEach((code, i) => {
+    const level = getHierarchyLevel(code);
+    const candidateIndex = level > 0 && pathStack.length >= level ? pathStack[level - 1] : -1;
+
+    if (level === 0) {
+      tree.parentIndices.push(-1);
+    } else if (candidateIndex !== -1 && isImmediateChildCode(itemCodes[candidateIndex], code)) {
+      tree.parentIndices.push(candidateIndex);
+      tree.childIndices[candidateIndex].push(i);
+    } else {
+      tree.parentIndices.push(-1);
+      tree.orphanIndices.push(i);
+    }
+
+    pathStack.length = level;
+    pathStack[level] = i;
+  });
+
+  return tree;
+}
+
+/**
+ * Sets `hasChild` on every activity that has at least one child in the tree
+ * (see `buildActivityTree`). Activities must be in depth-first (worksheet) order.
+ *
+ * @param {Activity[]} activities - The activities to mark, in worksheet order.
+ */
+function markParentActivities(activities: Activity[]): void {
+  const { childIndices } = buildActivityTree(activities.map(activity => activity.itemCode));
+
+  activities.forEach((activity, i) => {
+    activity.hasChild = childIndices[i].length > 0;
+  });
+}
+
+/**
+ * Returns the immediate children of the given parent activity.
+ *
+ * @param {Activity} parent - The parent activity.
+ * @param {Activity[]} activities - All activities in the table, in worksheet order.
+ * @returns {Activity[]} The activities one level beneath `parent` in the tree, in worksheet order.
+ */
+function getImmediateChildActivities(parent: Activity, activities: Activity[]): Activity[] {
+  const { childIndices } = buildActivityTree(activities.map(activity => activity.itemCode));
+  const parentIndex = activities.indexOf(parent);
+
+  return parentIndex === -1 ? [] : childIndices[parentIndex].map(i => activities[i]);
+}
+
+/**
+ * Throws if any row is an orphan, so formulas are never written for a broken hierarchy.
+ *
+ * @param {Activity[]} activities - All activities in worksheet order.
+ * @param {ActivityTree} tree - The tree built from the same activities.
+ * @param {string} outcome - What did not happen, leading the error message.
+ * @throws Listing the orphaned rows and their missing parents.
+ */
+function assertNoOrphanActivities(activities: Activity[], tree: ActivityTree, outcome: string = "Formulas not written"): void {
+  if (tree.orphanIndices.length === 0) return;
+
+  const details = tree.orphanIndices.map(i => {
+    const { itemCode, rowNumber } = activities[i];
+    return `${itemCode} (row ${rowNumber}) has no parent ${itemCode.slice(0, itemCode.lastIndexOf("-"))} directly above it`;
+  });
+
+  throw new Error(`${outcome} - ${details.join("; ")}. Run Validate BQ to list every problem.`);
+}
+
+
+// ===== BUNDLED MODULE - src/core/layout.ts ===== //
+
+/**
+ * Core BQ Model: Table Layout
+ *
+ * Describes where the activity table sits on the worksheet so templates
+ * with extra or re-ordered columns work without changing the code.
+ *
+ * Settings are plain key/value pairs (e.g. "Header Row" → 9,
+ * "Cost Column" → "K") read from the "BQ_Config" sheet or `BQ_*`
+ * named ranges; keys are matched case-insensitively ignoring spaces,
+ * underscores and an optional "BQ" prefix. Unknown keys are ignored so
+ * the config sheet can hold other settings.
+ */
+
+/**
+ * Worksheet positions of the activity table. Columns are letters (e.g. "B").
+ * `itemTypeColumn` (PS, PC, RO, DW markers) is "" when items are not typed;
+ * `rollUpModeColumn` (LS, Rate, Manual markers) is "" when every parent's roll-up is inferred;
+ * `valuationStartColumn` is "" unless the valuation columns are switched on;
+ * `pricingNames` lists the extra rate/cost pairs placed from `pricingStartColumn`.
+ */
+interface TableLayout {
+  headerRow: number,
+  itemCodeColumn: string,
+  descriptionStartColumn: string,
+  descriptionEndColumn: string,
+  quantityColumn: string,
+  unitColumn: string,
+  rateColumn: string,
+  costColumn: string,
+  itemTypeColumn: string,
+  rollUpModeColumn: string,
+  valuationStartColumn: string,
+  pricingStartColumn: string,
+  pricingNames: string[],
+}
+
+/** The five consecutive valuation columns, starting at `valuationStartColumn`. */
+interface ValuationColumns {
+  previousQuantityColumn: string,
+  periodQuantityColumn: string,
+  cumulativeQuantityColumn: string,
+  percentCompleteColumn: string,
+  valueToDateColumn: string,
+}
+
+/** One named rate/cost column pair for tender comparison (e.g. "Bidder 1"). */
+interface PricingColumns {
+  name: string,
+  rateColumn: string,
+  costColumn: string,
+}
+
+/** The original template: header on row 9, codes in B, description C:F, G:J priced columns. */
+const DEFAULT_TABLE_LAYOUT: TableLayout = {
+  headerRow: 9,
+  itemCodeColumn: "B",
+  descriptionStartColumn: "C",
+  descriptionEndColumn: "F",
+  quantityColumn: "G",
+  unitColumn: "H",
+  rateColumn: "I",
+  costColumn: "J",
+  itemTypeColumn: "",
+  rollUpModeColumn: "",
+  valuationStartColumn: "",
+  pricingStartColumn: "",
+  pricingNames: [],
+};
+
+/**
+ * Converts a column letter to its 1-based column number.
+ * Example: 'A' → 1, 'J' → 10, 'AA' → 27
+ *
+ * @param {string} columnLetter - The column letter(s).
+ * @returns {number} The 1-based column number.
+ * @throws If the input is not a valid column letter.
+ */
+function columnLetterToNumber(columnLetter: string): number {
+  if (!/^[A-Za-z]{1,3}$/.test(columnLetter)) {
+    throw new Error(`Invalid column letter: ${columnLetter}`);
+  }
+
+  return columnLetter
+    .toUpperCase()
+    .split("")
+    .reduce((total, letter) => total * 26 + (letter.charCodeAt(0) - 64), 0);
+}
+
+/**
+ * Converts a 1-based column number to its column letter.
+ * Example: 1 → 'A', 10 → 'J', 27 → 'AA'
+ *
+ * @param {number} columnNumber - The 1-based column number.
+ * @returns {string} The column letter(s).
+ */
+function columnNumberToLetter(columnNumber: number): string {
+  let letters = "";
+  let remaining = columnNumber;
+
+  while (remaining > 0) {
+    const remainder = (remaining - 1) % 26;
+    letters = String.fromCharCode(65 + remainder) + letters;
+    remaining = Math.floor((remaining - 1) / 26);
+  }
+
+  return letters;
+}
+
+/**
+ * Returns the left-most and right-most columns used by the layout.
+ * Activity rows are read and formatted across this span.
+ *
+ * @param {TableLayout} layout - The table layout.
+ * @returns The first and last column letters of the table.
+ */
+function getTableColumnSpan(layout: TableLayout): { firstColumn: string, lastColumn: string } {
+  const columnNumbers = getLayoutColumns(layout).map(columnLetterToNumber);
+
+  return {
+    firstColumn: columnNumberToLetter(Math.min(...columnNumbers)),
+    lastColumn: columnNumberToLetter(Math.max(...columnNumbers)),
+  };
+}
+
+/**
+ * Returns the 0-based index of a column within a row read across the table's column span.
+ *
+ * @param {TableLayout} layout - The table layout.
+ * @param {string} columnLetter - The column to locate.
+ * @returns {number} The index into a row returned for `getTableColumnSpan(layout)`.
+ */
+function getColumnOffset(layout: TableLayout, columnLetter: string): number {
+  return columnLetterToNumber(columnLetter) - columnLetterToNumber(getTableColumnSpan(layout).firstColumn);
+}
+
+/**
+ * Returns the valuation columns (previous, this period and cumulative quantity,
+ * % complete, value to date) if the layout has them switched on.
+ *
+ * @param {TableLayout} layout - The table layout.
+ * @returns {ValuationColumns | undefined} The column letters, or undefined if valuation is off.
+ */
+function getValuationColumns(layout: TableLayout): ValuationColumns | undefined {
+  if (layout.valuationStartColumn === "") return undefined;
+
+  const startNumber = columnLetterToNumber(layout.valuationStartColumn);
+
+  return {
+    previousQuantityColumn: columnNumberToLetter(startNumber),
+    periodQuantityColumn: columnNumberToLetter(startNumber + 1),
+    cumulativeQuantityColumn: columnNumberToLetter(startNumber + 2),
+    percentCompleteColumn: columnNumberToLetter(startNumber + 3),
+    valueToDateColumn: columnNumberToLetter(startNumber + 4),
+  };
+}
+
+/**
+ * Returns the named rate/cost column pairs, side by side from the pricing start column.
+ *
+ * @param {TableLayout} layout - The table layout.
+ * @returns {PricingColumns[]} One pair per pricing name, in order (none if not configured).
+ */
+function getPricingColumns(layout: TableLayout): PricingColumns[] {
+  if (layout.pricingStartColumn === "") return [];
+
+  const startNumber = columnLetterToNumber(layout.pricingStartColumn);
+
+  return layout.pricingNames.map((name, i) => ({
+    name,
+    rateColumn: columnNumberToLetter(startNumber + 2 * i),
+    costColumn: columnNumberToLetter(startNumber + 2 * i + 1),
+  }));
+}
+
+/**
+ * Builds a table layout from key/value settings, falling back to
+ * `DEFAULT_TABLE_LAYOUT` for anything not configured.
+ *
+ * @param {[string, CellFormula][]} settings - Key/value pairs, later pairs override earlier ones.
+ * @returns {TableLayout} The validated layout.
+ * @throws If a setting has an invalid value or the columns overlap.
+ *
+ * @example
+ * resolveTableLayout([["Header Row", 12], ["BQ_CostColumn", "K"]]);
+ */
+function resolveTableLayout(settings: [string, CellFormula][]): TableLayout {
+  const layout: TableLayout = { ...DEFAULT_TABLE_LAYOUT };
+
+  // 01 - Apply each recognised setting over the defaults
+  settings.forEach(([key, value]) => {
+    const field = findLayoutField(key);
+    if (!field || value === "" || value === null || value === undefined) return;
+
+    if (field === "headerRow") {
+      const headerRow = Number(value);
+      if (!Number.isInteger(headerRow) || headerRow < 1) {
+        throw new Error(`Invalid table layout setting "${key}": ${value} is not a row number`);
+      }
+      layout.headerRow = headerRow;
+    } else if (field === "pricingNames") {
+      layout.pricingNames = String(value).split(/[,;]/).map(name => name.trim()).filter(name => name !== "");
+    } else {
+      const columnLetter = String(value).trim().toUpperCase();
+      if (!/^[A-Z]{1,3}$/.test(columnLetter)) {
+        throw new Error(`Invalid table layout setting "${key}": ${value} is not a column letter`);
+      }
+      layout[field] = columnLetter;
+    }
+  });
+
+  // 02 - Validate the description span and that no two roles share a column
+  if (layout.pricingNames.length > 0 && layout.pricingStartColumn === "") {
+    throw new Error(`Invalid table layout: set "Pricing Start Column" for the pricing columns ${layout.pricingNames.join(", ")}`);
+  }
+
+  const descriptionStart = columnLetterToNumber(layout.descriptionStartColumn);
+  const descriptionEnd = columnLetterToNumber(layout.descriptionEndColumn);
+
+  if (descriptionEnd < descriptionStart) {
+    throw new Error(`Invalid table layout: description columns ${layout.descriptionStartColumn}:${layout.descriptionEndColumn} are reversed`);
+  }
+
+  const occupied: string[] = [];
+  for (let column = descriptionStart; column <= descriptionEnd; column++) {
+    occupied.push(columnNumberToLetter(column));
+  }
+
+  [
+    layout.itemCodeColumn,
+    layout.quantityColumn,
+    layout.unitColumn,
+    layout.rateColumn,
+    layout.costColumn,
+    ...getOptionalColumnLetters(layout),
+  ].forEach(columnLetter => {
+    if (occupied.includes(columnLetter)) {
+      throw new Error(`Invalid table layout: column ${columnLetter} is assigned more than once`);
+    }
+    occupied.push(columnLetter);
+  });
+
+  return layout;
+}
+
+/**
+ * Returns every column letter referenced by the layout.
+ */
+function getLayoutColumns(layout: TableLayout): string[] {
+  return [
+    layout.itemCodeColumn,
+    layout.descriptionStartColumn,
+    layout.descriptionEndColumn,
+    layout.quantityColumn,
+    layout.unitColumn,
+    layout.rateColumn,
+    layout.costColumn,
+    ...getOptionalColumnLetters(layout),
+  ];
+}
+
+/**
+ * Returns the letters of the optional columns that are switched on
+ * (item type, roll-up mode, valuation and pricing columns).
+ */
+function getOptionalColumnLetters(layout: TableLayout): string[] {
+  return [
+    ...(layout.itemTypeColumn === "" ? [] : [layout.itemTypeColumn]),
+    ...(layout.rollUpModeColumn === "" ? [] : [layout.rollUpModeColumn]),
+    ...getValuationColumnLetters(layout),
+    ...getPricingColumnLetters(layout),
+  ];
+}
+
+/**
+ * Returns the valuation column letters in order, or none if valuation is off.
+ */
+function getValuationColumnLetters(layout: TableLayout): string[] {
+  const columns = getValuationColumns(layout);
+  if (!columns) return [];
+
+  return [
+    columns.previousQuantityColumn,
+    columns.periodQuantityColumn,
+    columns.cumulativeQuantityColumn,
+    columns.percentCompleteColumn,
+    columns.valueToDateColumn,
+  ];
+}
+
+/**
+ * Matches a settings key such as "Item Code Column" or "BQ_ItemCodeColumn" to a layout field.
+ */
+function findLayoutField(key: string): keyof TableLayout | undefined {
+  const normalizedKey = normalizeSettingKey(key);
+
+  return (Object.keys(DEFAULT_TABLE_LAYOUT) as (keyof TableLayout)[])
+    .find(field => field.toLowerCase() === normalizedKey);
+}
+
+/**
+ * Returns the pricing rate and cost column letters in order.
+ */
+function getPricingColumnLetters(layout: TableLayout): string[] {
+  const letters: string[] = [];
+
+  getPricingColumns(layout).forEach(pricing => {
+    letters.push(pricing.rateColumn, pricing.costColumn);
+  });
+
+  return letters;
+}
+
+
+// ===== BUNDLED MODULE - src/core/settings.ts ===== //
+
+/**
+ * Core BQ Model: Settings
+ *
+ * Looks up key/value settings read from the "BQ_Config" sheet or `BQ_*`
+ * named ranges. Keys are matched case-insensitively ignoring spaces,
+ * underscores and an optional "BQ" prefix, so "Reletter Sections" and
+ * "BQ_ReletterSections" name the same setting.
+ */
+
+/**
+ * Normalizes a settings key for comparison.
+ * Example: 'BQ_Header Row' → 'headerrow'
+ *
+ * @param {string} key - The raw setting name.
+ * @returns {string} The key in lowercase with non-alphanumerics and the "bq" prefix removed.
+ */
+function normalizeSettingKey(key: string): string {
+  return String(key).toLowerCase().replace(/[^a-z0-9]/g, "").replace(/^bq/, "");
+}
+
+/**
+ * Returns the last non-empty value configured for a setting.
+ *
+ * @param {[string, CellFormula][]} settings - Key/value pairs, later pairs override earlier ones.
+ * @param {string} name - The setting name (e.g. "Reletter Sections").
+ * @returns {CellFormula | undefined} The value, or undefined if the setting is not configured.
+ */
+function findSetting(settings: [string, CellFormula][], name: string): CellFormula | undefined {
+  const normalizedName = normalizeSettingKey(name);
+  let found: CellFormula | undefined;
+
+  settings.forEach(([key, value]) => {
+    if (normalizeSettingKey(key) === normalizedName && value !== "" && value !== null && value !== undefined) {
+      found = value;
+    }
+  });
+
+  return found;
+}
+
+/**
+ * Reads a yes/no setting. Accepts TRUE/FALSE cells as well as "yes"/"no", "on"/"off" and 1/0.
+ *
+ * @param {[string, CellFormula][]} settings - Key/value pairs, later pairs override earlier ones.
+ * @param {string} name - The setting name.
+ * @param {boolean} defaultValue - Returned if the setting is not configured.
+ * @returns {boolean} The configured value.
+ * @throws If the value is not recognised as yes or no.
+ */
+function resolveBooleanSetting(settings: [string, CellFormula][], name: string, defaultValue: boolean): boolean {
+  const value = findSetting(settings, name);
+  if (value === undefined) return defaultValue;
+  if (typeof value === "boolean") return value;
+
+  const normalizedValue = String(value).trim().toLowerCase();
+  if (["true", "yes", "y", "on", "1"].includes(normalizedValue)) return true;
+  if (["false", "no", "n", "off", "0"].includes(normalizedValue)) return false;
+
+  throw new Error(`Invalid setting "${name}": ${value} is not yes or no`);
+}
+
+/**
+ * Converts a settings cell to the value its owner typed: a number in a
+ * percentage-formatted cell is read as its displayed percentage (0.1 → "10%"),
+ * so that it is not mistaken for a bare 0.1.
+ *
+ * @param {CellFormula} value - The cell value.
+ * @param {string} numberFormat - The cell's number format (e.g. "0.0%" or "General").
+ * @returns {CellFormula} The setting value.
+ */
+function toSettingValue(value: CellFormula, numberFormat: string): CellFormula {
+  if (typeof value !== "number" || !/%/.test(numberFormat.replace(/"[^"]*"/g, ""))) return value;
+  return `${Number((value * 100).toPrecision(12))}%`;
+}
+
+/**
+ * Reads a fraction setting (e.g. a match threshold), given as 0.6 or as 60%.
+ *
+ * @param {[string, CellFormula][]} settings - Key/value pairs, later pairs override earlier ones.
+ * @param {string} name - The setting name.
+ * @param {number} defaultValue - Returned if the setting is not configured.
+ * @returns {number} The fraction, or NaN if the value is not a number.
+ */
+function resolveFractionSetting(settings: [string, CellFormula][], name: string, defaultValue: number): number {
+  const value = findSetting(settings, name);
+  if (value === undefined) return defaultValue;
+
+  const text = String(value).trim();
+  return text.endsWith("%") ? Number(text.slice(0, -1)) / 100 : Number(text);
+}
+
+
+// ===== BUNDLED MODULE - src/core/pricing.ts ===== //
+
+/**
+ * Core BQ Model: Tender Pricing
+ *
+ * Extra named rate/cost column pairs (e.g. Estimate, Bidder 1, Bidder 2)
+ * placed from the layout's "Pricing Start Column" (see `getPricingColumns`).
+ * Each pair shares the BQ quantities and is rolled up through the hierarchy
+ * exactly like the main rate and cost columns, by running the same formula
+ * generation against that pair's columns.
+ */
+
+/** Name of the tender comparison sheet. */
+const TENDER_COMPARISON_SHEET_NAME = "Tender Comparison";
+
+/**
+ * Computes the rate and cost cells of one pricing pair for every activity.
+ *
+ * @param {Activity[]} activities - All activities in worksheet order, with `hasChild` set.
+ * @param {CellFormula[][]} tableData2D - The same rows as read across the table's column span.
+ * @param {TableLayout} layout - The table layout.
+ * @param {PricingColumns} pricing - The pricing pair.
+ * @returns {CellFormula[][]} One `[rate, cost]` row per activity.
+ */
+function computePricingFormulas(
+  activities: Activity[],
+  tableData2D: CellFormula[][],
+  layout: TableLayout,
+  pricing: PricingColumns
+): CellFormula[][] {
+  const pricingLayout = getPricingLayout(layout, pricing);
+  const rateOffset = getColumnOffset(layout, pricing.rateColumn);
+  const costOffset = getColumnOffset(layout, pricing.costColumn);
+
+  // Each activity as if the pair's columns were the main rate and cost columns
+  const pricedActivities = activities.map((activity, i) => ({
+    ...activity,
+    rate: tableData2D[i][rateOffset] as (number | string),
+    cost: tableData2D[i][costOffset] as string,
+  }));
+
+  const tree = buildActivityTree(activities.map(activity => activity.itemCode));
+
+  return computeRowFormulasFromTree(pricedActivities, tree, pricingLayout).map(row => [row[2], row[3]]);
+}
+
+/**
+ * Builds the grand total formula of one pricing pair.
+ *
+ * @param {Activity[]} activities - All activities in the table.
+ * @param {TableLayout} layout - The table layout.
+ * @param {PricingColumns} pricing - The pricing pair.
+ * @returns {string} e.g. "=SUM(M10,M25)"
+ */
+function buildPricingTotalFormula(activities: Activity[], layout: TableLayout, pricing: PricingColumns): string {
+  return buildGrandTotalFormula(activities, getPricingLayout(layout, pricing));
+}
+
+/**
+ * Builds the conditional format rule that marks the lowest priced cost on a row,
+ * for a range starting at `rowNumber` in the given cost column.
+ *
+ * @param {TableLayout} layout - The table layout.
+ * @param {string} costColumn - The pricing cost column being formatted.
+ * @param {number} rowNumber - The first row of the formatted range.
+ * @returns {string} e.g. =AND(ISNUMBER($M10), $M10=MIN($M10,$O10))
+ */
+function buildLowestBidFormula(layout: TableLayout, costColumn: string, rowNumber: number): string {
+  const costCells = getPricingColumns(layout).map(pricing => `$${pricing.costColumn}${rowNumber}`);
+  return `=AND(ISNUMBER($${costColumn}${rowNumber}), $${costColumn}${rowNumber}=MIN(${costCells.join(",")}))`;
+}
+
+/**
+ * Builds the tender comparison sheet: one row per section with each pricing pair's
+ * section total (live links to the BQ), the lowest total and who priced it.
+ *
+ * @param {Activity[]} activities - The parsed activity rows.
+ * @param {string} bqSheetName - The name of the BQ worksheet the rows link to.
+ * @param {TableLayout} layout - The table layout.
+ * @param {number} grandTotalRow - The grand total row of the activity table.
+ * @returns {CellFormula[][]} The header row, one row per section and a grand total row.
+ */
+function buildTenderComparisonRows(
+  activities: Activity[],
+  bqSheetName: string,
+  layout: TableLayout,
+  grandTotalRow: number
+): CellFormula[][] {
+  const pricings = getPricingColumns(layout);
+  const firstTotal = "C";
+  const lastTotal = columnNumberToLetter(columnLetterToNumber(firstTotal) + pricings.length - 1);
+  const lowestColumn = columnNumberToLetter(columnLetterToNumber(lastTotal) + 1);
+
+  const buildRow = (code: string, description: string, bqRow: number, sheetRow: number): CellFormula[] => [
+    code,
+    description,
+    ...pricings.map(pricing => buildSheetCellReference(bqSheetName, `${pricing.costColumn}${bqRow}`)),
+    `=MIN(${firstTotal}${sheetRow}:${lastTotal}${sheetRow})`,
+    `=IFERROR(INDEX($${firstTotal}$1:$${lastTotal}$1, MATCH(${lowestColumn}${sheetRow}, ${firstTotal}${sheetRow}:${lastTotal}${sheetRow}, 0)), "")`,
+  ];
+
+  const rows: CellFormula[][] = [["Section", "Description", ...pricings.map(pricing => pricing.name), "Lowest", "Lowest Bid"]];
+
+  activities
+    .filter(activity => activity.hierarchyLevel === 0)
+    .forEach(activity => {
+      rows.push(buildRow(activity.itemCode, String(activity.activityName || ""), activity.rowNumber, rows.length + 1));
+    });
+
+  rows.push(buildRow("", "Grand Total", grandTotalRow, rows.length + 1));
+
+  return rows;
+}
+
+/**
+ * Returns a copy of the layout with the pricing pair standing in for the main rate and cost columns.
+ */
+function getPricingLayout(layout: TableLayout, pricing: PricingColumns): TableLayout {
+  return { ...layout, rateColumn: pricing.rateColumn, costColumn: pricing.costColumn };
+}
+
+
+// ===== BUNDLED MODULE - src/core/billSummary.ts ===== //
+
+/**
+ * Core BQ Model: Summary of Bills
+ *
+ * The "Summary of Bills" (collection) sheet lists each section with its total
+ * and ends with the grand total:
+ *
+ *   Item | Description   | Amount
+ *   A    | Substructure  | ='Bill'!J10
+ *   A-1  |   Earthworks  | ='Bill'!J11     (only with level 1 items included)
+ *   B    | Preliminaries | ='Bill'!J17
+ *        | Grand Total   | ='Bill'!J19
+ *
+ * Amounts are live references to the BQ cost cells and item codes link to
+ * their rows, so the sheet only needs regenerating when sections are added,
+ * removed or renamed.
+ */
+
+/** Name of the generated summary sheet. */
+const BILL_SUMMARY_SHEET_NAME = "Summary of Bills";
+
+/** The role of a summary sheet row, used for formatting. */
+type BillSummaryRowKind = "header" | "section" | "item" | "total";
+
+/** One row of the summary sheet (columns A to C). */
+interface BillSummaryRow {
+  kind: BillSummaryRowKind,
+  cells: CellFormula[],
+}
+
+/**
+ * Builds the summary sheet rows for the sections (and optionally their level 1 items).
+ *
+ * @param {Activity[]} activities - The parsed activity rows.
+ * @param {string} bqSheetName - The name of the BQ worksheet the rows link to.
+ * @param {TableLayout} layout - The table layout.
+ * @param {number} grandTotalRow - The grand total row of the activity table.
+ * @param {boolean} includeLevel1 - Whether to list each section's level 1 items under it.
+ * @returns {BillSummaryRow[]} The header, one row per listed activity and the grand total.
+ */
+function buildBillSummaryRows(
+  activities: Activity[],
+  bqSheetName: string,
+  layout: TableLayout,
+  grandTotalRow: number,
+  includeLevel1: boolean
+): BillSummaryRow[] {
+  const rows: BillSummaryRow[] = [{ kind: "header", cells: ["Item", "Description", "Amount"] }];
+
+  activities
+    .filter(activity => activity.hierarchyLevel === 0 || (includeLevel1 && activity.hierarchyLevel === 1))
+    .forEach(activity => {
+      rows.push({
+        kind: activity.hierarchyLevel === 0 ? "section" : "item",
+        cells: [
+          buildCellLinkFormula(bqSheetName, `${layout.itemCodeColumn}${activity.rowNumber}`, activity.itemCode),
+          String(activity.activityName || ""),
+          buildSheetCellReference(bqSheetName, `${layout.costColumn}${activity.rowNumber}`),
+        ],
+      });
+    });
+
+  rows.push({
+    kind: "total",
+    cells: ["", "Grand Total", buildSheetCellReference(bqSheetName, `${layout.costColumn}${grandTotalRow}`)],
+  });
+
+  return rows;
+}
+
+/**
+ * Builds a formula referencing a cell on another worksheet.
+ *
+ * @param {string} sheetName - The target worksheet name.
+ * @param {string} cellAddress - The target cell (e.g. "J12").
+ * @returns {string} e.g. ='Bill 1'!J12
+ */
+function buildSheetCellReference(sheetName: string, cellAddress: string): string {
+  return `='${sheetName.replace(/'/g, "''")}'!${cellAddress}`;
+}
+
+
+// ===== BUNDLED MODULE - src/core/validation.ts ===== //
+
+/**
+ * Core BQ Model: Validation
+ *
+ * Checks the activity table for structural problems and leftover
+ * placeholders, returning one finding per offending cell:
+ * - Errors: malformed or duplicate codes, children without their parent,
+ *   parent cost cells that no longer hold the expected roll-up formula,
+ *   unrecognised item types and roll-up modes
+ * - Warnings: numbering gaps, placeholders left on leaf rows, item types on
+ *   parent rows, roll-up modes on leaf rows, units outside the catalogue,
+ *   children that do not make sense per unit of a parent that keeps its own
+ *   quantity
+ */
+
+/** How serious a finding is. Errors break scripts or totals; warnings need attention before issue. */
+type IssueSeverity = "Error" | "Warning";
+
+/** A single validation finding. */
+interface ValidationIssue {
+  severity: IssueSeverity,
+  rowNumber: number,
+  column: string,
+  itemCode: string,
+  message: string,
+}
+
+/** Matches a section letter followed by numeric segments, e.g. "A", "AB-1-12". */
+const ITEM_CODE_PATTERN = /^[A-Z]+(-[1-9][0-9]*)*$/;
+
+/**
+ * Validates every activity in the table.
+ *
+ * @param {Activity[]} activities - All activities in worksheet order, with `hasChild` set.
+ * @param {TableLayout} layout - The table layout.
+ * @returns {ValidationIssue[]} The findings, ordered by row.
+ */
+function validateBQTable(activities: Activity[], layout: TableLayout): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const seenCodes: Record<string, number> = {};
+  const tree = buildActivityTree(activities.map(activity => activity.itemCode));
+  const expectedFormulas = computeRowFormulasFromTree(activities, tree, layout);
+
+  // Last sibling number used under each parent (by row index)
+  const lastSiblingNumbers: Record<number, number> = {};
+
+  activities.forEach((activity, i) => {
+    const { itemCode, rowNumber, hierarchyLevel } = activity;
+    const addIssue = (severity: IssueSeverity, column: string, message: string) => {
+      issues.push({ severity, rowNumber, column, itemCode, message });
+    };
+
+    // 01 - Code format (non-numeric segments would break code generation)
+    if (!ITEM_CODE_PATTERN.test(itemCode)) {
+      addIssue("Error", layout.itemCodeColumn, itemCode === ""
+        ? "Missing item code"
+        : "Invalid item code: expected a section letter followed by numeric segments (e.g. A-1-2)");
+      return;
+    }
+
+    // 02 - Duplicates
+    if (seenCodes[itemCode] !== undefined) {
+      addIssue("Error", layout.itemCodeColumn, `Duplicate item code (also on row ${seenCodes[itemCode]})`);
+    } else {
+      seenCodes[itemCode] = rowNumber;
+    }
+
+    // 03 - Parent must be the nearest item one level up (see `buildActivityTree`)
+    const parentCode = itemCode.slice(0, itemCode.lastIndexOf("-"));
+    const parentIndex = tree.parentIndices[i];
+
+    if (tree.orphanIndices.includes(i)) {
+      addIssue("Error", layout.itemCodeColumn, `Parent ${parentCode} not found directly above this item`);
+    } else if (hierarchyLevel > 0) {
+
+      // 04 - Sibling numbering must be contiguous
+      const siblingNumber = Number(itemCode.slice(itemCode.lastIndexOf("-") + 1));
+      const expectedNumber = (lastSiblingNumbers[parentIndex] || 0) + 1;
+
+      if (siblingNumber !== expectedNumber) {
+        addIssue("Warning", layout.itemCodeColumn, `Numbering gap: expected ${parentCode}-${expectedNumber}`);
+      }
+      lastSiblingNumbers[parentIndex] = siblingNumber;
+    }
+
+    // 05 - Placeholders left on leaf rows
+    if (!activity.hasChild) {
+      if (activity.activityName === "[Insert Activity/Item]") addIssue("Warning", layout.descriptionStartColumn, "Description placeholder not replaced");
+      if (activity.quantity === "[qty]") addIssue("Warning", layout.quantityColumn, "Quantity placeholder [qty] not replaced");
+      if (activity.unit === "[unit]") addIssue("Warning", layout.unitColumn, "Unit placeholder [unit] not replaced");
+      if (activity.rate === "[rate]") addIssue("Warning", layout.rateColumn, "Rate placeholder [rate] not replaced");
+    }
+
+    // 06 - Parent cost must still roll up its children
+    const expectedCost = expectedFormulas[i][3];
+
+    if (activity.hasChild && activity.cost !== expectedCost) {
+      addIssue("Error", layout.costColumn, `Cost formula does not match the expected roll-up ${expectedCost}`);
+    }
+
+    // 07 - Item types must be recognised, and only price leaf rows
+    if (layout.itemTypeColumn !== "" && activity.itemType !== "") {
+      if (resolveItemType(activity.itemType) === undefined) {
+        addIssue("Error", layout.itemTypeColumn, `Unknown item type "${activity.itemType}" (use PS, PC, RO or DW)`);
+      } else if (activity.hasChild) {
+        addIssue("Warning", layout.itemTypeColumn, "Item type ignored on a parent row");
+      }
+    }
+
+    // 08 - Leaf units should come from the units catalogue
+    const unit = String(activity.unit);
+
+    if (!activity.hasChild && unit !== "" && unit !== "[unit]" && !findCatalogueUnit(unit)) {
+      addIssue("Warning", layout.unitColumn, `Unit "${unit}" is not in the units catalogue`);
+    }
+
+    // 09 - Children of a parent that keeps its own quantity are priced per unit of that parent
+    const parent = parentIndex === -1 ? undefined : activities[parentIndex];
+
+    if (parent && isQtyAndUnitPreserved(parent)) {
+      const parentUnit = findCatalogueUnit(String(parent.unit));
+
+      if (isLumpSumUnit(unit)) {
+        addIssue("Warning", layout.unitColumn, `Lump sum under ${parent.itemCode} is priced per ${parent.unit} and multiplied by its quantity`);
+      } else if (parentUnit && parentUnit === findCatalogueUnit(unit) && typeof activity.quantity === "number" && activity.quantity > 1) {
+        addIssue("Warning", layout.quantityColumn, `${activity.quantity} ${parentUnit.unit} per ${parentUnit.unit} of ${parent.itemCode} - check the quantity is per unit of the parent`);
+      }
+    }
+
+    // 10 - Roll-up modes must be recognised, and only apply to parent rows
+    if (layout.rollUpModeColumn !== "" && activity.rollUpMode !== "") {
+      if (resolveRollUpMode(activity.rollUpMode) === undefined) {
+        addIssue("Error", layout.rollUpModeColumn, `Unknown roll-up mode "${activity.rollUpMode}" (use LS, Rate or Manual)`);
+      } else if (!activity.hasChild) {
+        addIssue("Warning", layout.rollUpModeColumn, "Roll-up mode ignored on a leaf row");
+      }
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Builds an in-workbook hyperlink formula to a cell.
+ *
+ * @param {string} sheetName - The target worksheet name.
+ * @param {string} cellAddress - The target cell (e.g. "B12").
+ * @param {string} label - The link text (defaults to the cell address).
+ * @returns {string} e.g. =HYPERLINK("#'Bill 1'!B12", "B12")
+ */
+function buildCellLinkFormula(sheetName: string, cellAddress: string, label: string = cellAddress): string {
+  const quotedSheetName = `'${sheetName.replace(/'/g, "''")}'`.replace(/"/g, '""');
+  return `=HYPERLINK("#${quotedSheetName}!${cellAddress}", "${label.replace(/"/g, '""')}")`;
+}
+
+
+// ===== BUNDLED MODULE - src/core/formulas.ts ===== //
+
+/**
+ * Core BQ Model: Formula Generation
+ *
+ * Generates the quantity, unit, rate and cost formulas for every activity
+ * row, and the grand total formula beneath the table.
+ *
+ * Parent rows, by roll-up mode (see `core/rollUpModes`), either:
+ * - become a lump sum (qty 1, unit "LS", cost = SUM of children),
+ * - keep their own quantity and unit, with rate = SUM of children, or
+ * - are left as typed (manual override).
+ * Units in the catalogue are written back in their catalogue form (see `core/units`).
+ * Leaf rows receive placeholders for missing values and cost = qty * rate,
+ * unless their item type prices them differently (see `core/itemTypes`).
+ */
+
+/**
+ * Builds the cost formula for a row priced as quantity multiplied by rate.
+ *
+ * @param {number} rowNumber - The worksheet row number of the activity.
+ * @param {TableLayout} layout - The table layout.
+ * @returns {string} The formula for the cost column.
+ */
+function buildQtyTimesRateFormula(rowNumber: number, layout: TableLayout): string {
+  const quantityCell = `${layout.quantityColumn}${rowNumber}`;
+  const rateCell = `${layout.rateColumn}${rowNumber}`;
+
+  return `=IFERROR(IF(${quantityCell}="-", "-", ${quantityCell}*${rateCell}), "[pending values]")`;
+}
+
+/**
+ * Builds a SUM formula over the cost cells of the given activities.
+ *
+ * @param {Activity[]} activities - The activities to sum.
+ * @param {TableLayout} layout - The table layout.
+ * @returns {string} e.g. "=SUM(J11,J14)"
+ */
+function buildCostSumFormula(activities: Activity[], layout: TableLayout): string {
+  return `=SUM(${activities.map(item => `${layout.costColumn}${item.rowNumber}`).join(",")})`;
+}
+
+/**
+ * Determines whether a parent activity keeps its own quantity and unit
+ * (rate = SUM of children), i.e. is rolled up in the "Rate" mode.
+ * Without an explicit mode, lump sum units (LS, sum and their variants) and
+ * a quantity of 1 are converted to a lump sum.
+ *
+ * @param {Activity} activity - The parent activity.
+ * @returns {boolean} True if quantity and unit are preserved.
+ */
+function isQtyAndUnitPreserved(activity: Activity): boolean {
+  return getRollUpMode(activity) === "Rate";
+}
+
+/**
+ * Computes the quantity, unit, rate and cost formulas for every activity.
+ * The input activities are not modified.
+ *
+ * @param {Activity[]} activities - All activities in worksheet order, with `hasChild` set.
+ * @param {TableLayout} layout - The table layout.
+ * @returns {CellFormula[][]} One `[quantity, unit, rate, cost]` row per activity.
+ * @throws If a row's parent is missing or out of order (roll-ups would be wrong).
+ */
+function computeActivityRowFormulas(activities: Activity[], layout: TableLayout): CellFormula[][] {
+
+  const tree = buildActivityTree(activities.map(activity => activity.itemCode));
+  assertNoOrphanActivities(activities, tree);
+
+  return computeRowFormulasFromTree(activities, tree, layout);
+}
+
+/**
+ * Computes the row formulas from an already built tree, without checking for
+ * orphans (they are simply left out of every roll-up). Used by validation to
+ * compare existing formulas even when the hierarchy is broken.
+ *
+ * @param {Activity[]} activities - All activities in worksheet order, with `hasChild` set.
+ * @param {ActivityTree} tree - The tree built from the same activities.
+ * @param {TableLayout} layout - The table layout.
+ * @returns {CellFormula[][]} One `[quantity, unit, rate, cost]` row per activity.
+ */
+function computeRowFormulasFromTree(activities: Activity[], tree: ActivityTree, layout: TableLayout): CellFormula[][] {
+
+  return activities.map((activity, i) => {
+
+    if (activity.hasChild) {
+
+      const children = tree.childIndices[i].map(childIndex => activities[childIndex]);
+      const mode = getRollUpMode(activity);
+
+      if (mode === "Manual") {
+
+        // Leave the parent exactly as typed
+        return [activity.quantity, activity.unit, activity.rate, activity.cost];
+      }
+
+      if (mode === "Rate") {
+
+        // Keep original quantity and unit, roll children up into the rate
+        return [
+          activity.quantity,
+          normalizeUnit(activity.unit),
+          buildCostSumFormula(children, layout),
+          buildQtyTimesRateFormula(activity.rowNumber, layout)
+        ];
+      }
+
+      // Aggregate children into a lump sum
+      return [1, "LS", "", buildCostSumFormula(children, layout)];
+    }
+
+    // Assign placeholders or cost formula for all leaf items
+    return computeLeafFormulas(activity, layout);
+  });
+}
+
+/**
+ * Computes the quantity, unit, rate and cost of a leaf row according to its item type.
+ * Unrecognised markers are priced as measured items (Validate BQ reports them).
+ *
+ * @param {Activity} activity - The leaf activity.
+ * @param {TableLayout} layout - The table layout.
+ * @returns {CellFormula[]} The `[quantity, unit, rate, cost]` row.
+ */
+function computeLeafFormulas(activity: Activity, layout: TableLayout): CellFormula[] {
+  const itemType = resolveItemType(activity.itemType);
+  const rateCell = `${layout.rateColumn}${activity.rowNumber}`;
+  const unit = activity.unit === "" || activity.unit === "[unit]" ? "sum" : normalizeUnit(activity.unit);
+
+  // Provisional sum: the amount sits in the rate column
+  if (itemType === "PS") {
+    return ["", unit, getLeafRate(activity.rate), `=IFERROR(${rateCell}*1, "[pending values]")`];
+  }
+
+  // Prime cost sum: amount plus attendance and profit % (percentage points, held in the quantity column)
+  if (itemType === "PC") {
+    const percentCell = `${layout.quantityColumn}${activity.rowNumber}`;
+    return [
+      activity.quantity === "" || activity.quantity === "[qty]" ? "[%]" : activity.quantity,
+      unit,
+      getLeafRate(activity.rate),
+      `=IFERROR(${rateCell}*(1+${percentCell}/100), "[pending values]")`
+    ];
+  }
+
+  // Rate only: text in the cost column, which SUM ignores
+  if (itemType === "RO") {
+    return ["", getLeafUnit(activity.unit), getLeafRate(activity.rate), RATE_ONLY_COST_LABEL];
+  }
+
+  return [
+    getLeafQuantity(activity.quantity),
+    getLeafUnit(activity.unit),
+    getLeafRate(activity.rate),
+    buildQtyTimesRateFormula(activity.rowNumber, layout)
+  ];
+}
+
+/**
+ * Returns the quantity to keep on a leaf row: take-off links and typed quantities
+ * are kept, while blanks and broken references (#REF!, e.g. a deleted take-off)
+ * revert to the "[qty]" placeholder.
+ *
+ * @param {number | string} quantity - The leaf's current quantity value or formula.
+ * @returns {CellFormula} The quantity to write.
+ */
+function getLeafQuantity(quantity: number | string): CellFormula {
+  if (quantity === "" || String(quantity).includes("#REF!")) return "[qty]";
+
+  return quantity;
+}
+
+/**
+ * Returns the unit to keep on a leaf row: the catalogue form of known units,
+ * other text unchanged, and the "[unit]" placeholder for blanks.
+ *
+ * @param {string} unit - The leaf's current unit.
+ * @returns {string} The unit to write.
+ */
+function getLeafUnit(unit: string): string {
+  return unit === "" ? "[unit]" : normalizeUnit(unit);
+}
+
+/**
+ * Returns the rate to keep on a leaf row: build-up links and typed rates are
+ * kept, while blanks and broken references (#REF!, e.g. a deleted build-up)
+ * revert to the "[rate]" placeholder.
+ *
+ * @param {number | string} rate - The leaf's current rate value or formula.
+ * @returns {CellFormula} The rate to write.
+ */
+function getLeafRate(rate: number | string): CellFormula {
+  if (rate === "" || String(rate).includes("#REF!")) return "[rate]";
+
+  return rate;
+}
+
+/**
+ * Builds the grand total formula as the SUM of every level-0 (section) cost.
+ *
+ * @param {Activity[]} activities - All activities in the table.
+ * @param {TableLayout} layout - The table layout.
+ * @returns {string} e.g. "=SUM(J10,J25)"
+ */
+function buildGrandTotalFormula(activities: Activity[], layout: TableLayout): string {
+  return buildCostSumFormula(activities.filter(item => item.hierarchyLevel === 0), layout);
+}
+
+
+// ===== BUNDLED MODULE - src/core/itemTypes.ts ===== //
+
+/**
+ * Core BQ Model: Item Types
+ *
+ * Leaf items can be marked in the layout's "Item Type Column" with a type
+ * that changes how they are priced (see `computeRowFormulasFromTree`):
+ *
+ *   (blank) Measured         qty * rate
+ *   PS      Provisional Sum  fixed amount in the rate column, no quantity (unit "sum")
+ *   PC      Prime Cost Sum   amount in the rate column plus the attendance and
+ *                            profit % in the quantity column: amount * (1 + % / 100)
+ *   RO      Rate Only        rate shown but no cost, so it adds nothing to totals
+ *   DW      Daywork          qty * rate, kept visually distinct
+ *
+ * Long names ("Provisional Sum", "Prime Cost", "Rate Only", "Daywork") are
+ * accepted and rewritten as the short marker by the formula update.
+ * Parents always roll up their children, whatever their marker.
+ *
+ * The PC percentage is entered in percentage points (10 for 10%), like the
+ * summary's percentages, since the quantity column keeps its number format.
+ */
+
+/** Short markers of the item types; "" is a measured item. */
+type ItemType = "" | "PS" | "PC" | "RO" | "DW";
+
+/** Names accepted for each item type (compared lower-case, letters only). */
+const ITEM_TYPE_ALIASES: Record<ItemType, string[]> = {
+  "": ["", "m", "measured"],
+  PS: ["ps", "provisionalsum", "provisional"],
+  PC: ["pc", "pcsum", "primecost", "primecostsum"],
+  RO: ["ro", "rateonly"],
+  DW: ["dw", "daywork", "dayworks"],
+};
+
+/** Text written in the cost column of Rate Only items. */
+const RATE_ONLY_COST_LABEL = "Rate only";
+
+/**
+ * Returns the marker to write back to the item type column: the short form of
+ * a recognised marker, or the text unchanged so validation can report it.
+ *
+ * @param {string} marker - The item type cell text.
+ * @returns {string} e.g. "PS" for "Provisional Sum".
+ */
+function normalizeItemTypeMarker(marker: string): string {
+  const itemType = resolveItemType(marker);
+  return itemType === undefined ? marker : itemType;
+}
+
+/**
+ * Resolves an item type marker to its short form.
+ *
+ * @param {string} marker - The item type cell text (e.g. "PS" or "Provisional Sum").
+ * @returns {ItemType | undefined} The item type, or undefined if the marker is not recognised.
+ */
+function resolveItemType(marker: string): ItemType | undefined {
+  const normalizedMarker = String(marker).toLowerCase().replace(/[^a-z]/g, "");
+
+  return (Object.keys(ITEM_TYPE_ALIASES) as ItemType[])
+    .find(itemType => ITEM_TYPE_ALIASES[itemType].includes(normalizedMarker));
+}
+
+
+// ===== BUNDLED MODULE - src/core/rollUpModes.ts ===== //
+
+/**
+ * Core BQ Model: Roll-up Modes
+ *
+ * How a parent row is priced from its children, set per row in the layout's
+ * "Roll-up Mode Column" (see Switch Roll-up Mode):
+ *
+ *   LS      Lump sum        qty 1, unit "LS", cost = SUM of children
+ *   Rate    Composite rate  own quantity and unit kept, rate = SUM of children
+ *   Manual  Manual override quantity, unit, rate and cost left as typed
+ *
+ * Parents without a mode fall back to the original guess: a real quantity in
+ * a measured unit keeps its quantity (Rate), anything else is a lump sum.
+ */
+
+/** How a parent row is priced from its children. */
+type RollUpMode = "LS" | "Rate" | "Manual";
+
+/** Roll-up modes in the order Switch Roll-up Mode cycles through them. */
+const ROLL_UP_MODES: RollUpMode[] = ["LS", "Rate", "Manual"];
+
+/** Names accepted for each mode (compared lower-case, letters only). */
+const ROLL_UP_MODE_ALIASES: Record<RollUpMode, string[]> = {
+  LS: ["ls", "lumpsum"],
+  Rate: ["rate", "compositerate", "cr", "perunit", "rateperunit"],
+  Manual: ["manual", "override", "manualoverride", "mo"],
+};
+
+/**
+ * Resolves a roll-up mode marker to its canonical form.
+ *
+ * @param {string} marker - The roll-up mode cell text (e.g. "Rate" or "Composite Rate").
+ * @returns {RollUpMode | "" | undefined} The mode, "" for a blank marker, or undefined if not recognised.
+ */
+function resolveRollUpMode(marker: string): RollUpMode | "" | undefined {
+  const normalizedMarker = String(marker).toLowerCase().replace(/[^a-z]/g, "");
+  if (normalizedMarker === "") return "";
+
+  return ROLL_UP_MODES.find(mode => ROLL_UP_MODE_ALIASES[mode].includes(normalizedMarker));
+}
+
+/**
+ * Returns the marker to write back to the roll-up mode column: the canonical
+ * form of a recognised marker, or the text unchanged so validation can report it.
+ *
+ * @param {string} marker - The roll-up mode cell text.
+ * @returns {string} e.g. "Rate" for "composite rate".
+ */
+function normalizeRollUpModeMarker(marker: string): string {
+  const mode = resolveRollUpMode(marker);
+  return mode === undefined ? marker : mode;
+}
+
+/**
+ * Determines how a parent row is rolled up: its explicit mode if it has a
+ * recognised one, otherwise the guess from its quantity and unit.
+ *
+ * @param {Activity} activity - The parent activity.
+ * @returns {RollUpMode} The mode the formula update applies.
+ */
+function getRollUpMode(activity: Activity): RollUpMode {
+  const mode = resolveRollUpMode(activity.rollUpMode);
+  if (mode !== undefined && mode !== "") return mode;
+
+  const keepsQuantity =
+    !isLumpSumUnit(activity.unit) &&
+    activity.quantity !== 1 &&
+    activity.quantity !== "[qty]";
+
+  return keepsQuantity ? "Rate" : "LS";
+}
+
+/**
+ * Returns the mode after `mode` in the Switch Roll-up Mode cycle (LS → Rate → Manual → LS).
+ *
+ * @param {RollUpMode} mode - The current mode.
+ * @returns {RollUpMode} The next mode.
+ */
+function getNextRollUpMode(mode: RollUpMode): RollUpMode {
+  return ROLL_UP_MODES[(ROLL_UP_MODES.indexOf(mode) + 1) % ROLL_UP_MODES.length];
+}
+
+
+// ===== BUNDLED MODULE - src/core/units.ts ===== //
+
+/**
+ * Core BQ Model: Units of Measure
+ *
+ * The catalogue of units leaf items are measured in. The formula update
+ * rewrites common variants in their catalogue form ("m²", "sqm" → m2) and
+ * offers the catalogue as a drop-down on leaf unit cells; Validate BQ warns
+ * about units outside it.
+ *
+ * Each unit has a kind, so that roll-ups can tell lump sums (not kept as a
+ * parent's own quantity unless its roll-up mode says so, see `getRollUpMode`)
+ * from measured units.
+ */
+
+/** What a unit measures. */
+type UnitKind = "length" | "area" | "volume" | "mass" | "count" | "time" | "lumpSum";
+
+/** A catalogue unit and the variants rewritten to it. */
+interface CatalogueUnit {
+  unit: string,
+  kind: UnitKind,
+  aliases: string[],
+}
+
+/** The units catalogue, in drop-down order. Aliases are compared as keys (see `toUnitKey`). */
+const UNIT_CATALOGUE: CatalogueUnit[] = [
+  { unit: "m", kind: "length", aliases: ["lm", "linm", "rm", "metre", "metres", "meter", "meters"] },
+  { unit: "m2", kind: "area", aliases: ["sqm", "squaremetre", "squaremetres", "squaremeter", "squaremeters"] },
+  { unit: "m3", kind: "volume", aliases: ["cum", "cubicmetre", "cubicmetres", "cubicmeter", "cubicmeters"] },
+  { unit: "kg", kind: "mass", aliases: ["kgs", "kilo", "kilos", "kilogram", "kilograms"] },
+  { unit: "t", kind: "mass", aliases: ["ton", "tons", "tonne", "tonnes"] },
+  { unit: "nr", kind: "count", aliases: ["no", "nos", "number", "ea", "each", "pc", "pcs"] },
+  { unit: "item", kind: "count", aliases: ["items", "itm"] },
+  { unit: "hr", kind: "time", aliases: ["h", "hrs", "hour", "hours"] },
+  { unit: "day", kind: "time", aliases: ["days", "dy"] },
+  { unit: "LS", kind: "lumpSum", aliases: ["lumpsum"] },
+  { unit: "sum", kind: "lumpSum", aliases: ["sums"] },
+];
+
+/**
+ * Finds the catalogue entry for a unit or one of its variants.
+ *
+ * @param {string} unit - The unit cell text (e.g. "m²", "Sq.m", "LS").
+ * @returns {CatalogueUnit | undefined} The catalogue entry, or undefined if the unit is not in the catalogue.
+ */
+function findCatalogueUnit(unit: string): CatalogueUnit | undefined {
+  const key = toUnitKey(unit);
+  if (key === "") return undefined;
+
+  return UNIT_CATALOGUE.find(entry => toUnitKey(entry.unit) === key || entry.aliases.includes(key));
+}
+
+/**
+ * Returns the unit to write back to a unit cell: the catalogue form of a known
+ * unit, or the text unchanged so Validate BQ can report it.
+ *
+ * @param {string} unit - The unit cell text.
+ * @returns {string} e.g. "m2" for "m²".
+ */
+function normalizeUnit(unit: string): string {
+  const entry = findCatalogueUnit(unit);
+  return entry ? entry.unit : unit;
+}
+
+/**
+ * Determines whether two units are the same once normalised ("m²" and "sqm"
+ * are both m2), ignoring case for units outside the catalogue.
+ *
+ * @param {string} a - A unit.
+ * @param {string} b - Another unit.
+ * @returns {boolean} True if both name the same unit.
+ */
+function isSameUnit(a: string, b: string): boolean {
+  return normalizeUnit(String(a).trim()).toLowerCase() === normalizeUnit(String(b).trim()).toLowerCase();
+}
+
+/**
+ * Determines whether a unit is a lump sum (LS, sum) rather than a measured unit.
+ *
+ * @param {string} unit - The unit cell text.
+ * @returns {boolean} True for lump sum units and their variants.
+ */
+function isLumpSumUnit(unit: string): boolean {
+  const entry = findCatalogueUnit(unit);
+  return entry !== undefined && entry.kind === "lumpSum";
+}
+
+/**
+ * Reduces a unit to its comparison key: lower case, superscripts as digits,
+ * without spaces, dots or carets ("Sq. m" → "sqm", "m³" → "m3").
+ */
+function toUnitKey(unit: string): string {
+  return String(unit)
+    .toLowerCase()
+    .replace(/²/g, "2")
+    .replace(/³/g, "3")
+    .replace(/[\s.^]/g, "");
+}
+
+
+// ===== BUNDLED MODULE - src/core/refresh.ts ===== //
+
+/**
+ * Core BQ Model: Incremental Refresh
+ *
+ * Keeps formula updates on large BQs within the Office Scripts time limits:
+ * - only cells whose formula differs from the one read from the sheet are
+ *   written, as runs of consecutive rows (see `getChangedColumnRuns`);
+ * - after an insert or delete, only the touched rows' subtrees and their
+ *   ancestors are considered (see `getRefreshIndices`). Rows elsewhere keep
+ *   formulas that only reference their own row and their children, which
+ *   Excel shifts with the inserted or deleted rows.
+ */
+
+/** Worksheet rows touched by an insert or delete (inserted rows, or the rows either side of a deletion). */
+interface RefreshScope {
+  topRow: number,
+  bottomRow: number,
+}
+
+/**
+ * Above this many runs in one column, the changed cells are written in one
+ * call spanning them all: each call costs a round trip, which soon outweighs
+ * rewriting the unchanged cells in between.
+ */
+const MAX_COLUMN_RUNS = 20;
+
+/** A run of consecutive rows to write into one column. */
+interface ColumnRun {
+  startIndex: number,
+  formulas: CellFormula[],
+}
+
+/**
+ * Returns the rows whose formulas can change after the given rows were
+ * touched: each touched row's whole subtree, and every ancestor (whose
+ * roll-up includes it).
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number[]} touchedIndices - Indices of the touched rows; indices outside the table are ignored.
+ * @returns {number[]} Indices of the rows to refresh, top to bottom.
+ */
+function getRefreshIndices(itemCodes: string[], touchedIndices: number[]): number[] {
+  const { parentIndices } = buildActivityTree(itemCodes);
+  const marked: boolean[] = itemCodes.map(() => false);
+
+  touchedIndices
+    .filter(index => index >= 0 && index < itemCodes.length)
+    .forEach(index => {
+
+      // The touched row's subtree
+      const subtreeEndIndex = getSubtreeEndIndex(itemCodes, index);
+      for (let i = index; i <= subtreeEndIndex; i++) marked[i] = true;
+
+      // Its ancestors, stopping at one already marked (the rest of the chain is too)
+      let parentIndex = parentIndices[index];
+      while (parentIndex !== -1 && !marked[parentIndex]) {
+        marked[parentIndex] = true;
+        parentIndex = parentIndices[parentIndex];
+      }
+    });
+
+  const indices: number[] = [];
+  marked.forEach((isMarked, i) => {
+    if (isMarked) indices.push(i);
+  });
+
+  return indices;
+}
+
+/**
+ * Determines whether a computed cell matches the cell read from the sheet
+ * (numbers read back as numbers, so 1 and "1" are the same cell).
+ *
+ * @param {CellFormula} current - The formula or value read from the sheet.
+ * @param {CellFormula} next - The computed formula or value.
+ * @returns {boolean} True if writing `next` would not change the cell.
+ */
+function isSameCellFormula(current: CellFormula, next: CellFormula): boolean {
+  return current === next || String(current) === String(next);
+}
+
+/**
+ * Groups the cells of one column that need writing into runs of consecutive rows.
+ * Past `MAX_COLUMN_RUNS` runs, returns a single run from the first changed row
+ * to the last, in which rows that are unchanged or not considered keep the
+ * cell read from the sheet.
+ *
+ * @param {CellFormula[]} current - The column as read from the sheet, one cell per row.
+ * @param {CellFormula[]} next - The computed column, one cell per row.
+ * @param {number[]} [rowIndices] - The rows to consider, top to bottom (every row if omitted).
+ * @returns {ColumnRun[]} The runs to write, top to bottom.
+ */
+function getChangedColumnRuns(current: CellFormula[], next: CellFormula[], rowIndices?: number[]): ColumnRun[] {
+  const runs: ColumnRun[] = [];
+  let lastIndex = -2;
+
+  // 01 - Collect the runs of consecutive changed rows
+  (rowIndices || next.map((_, i) => i)).forEach(i => {
+    if (isSameCellFormula(current[i], next[i])) return;
+
+    if (i === lastIndex + 1) {
+      runs[runs.length - 1].formulas.push(next[i]);
+    } else {
+      runs.push({ startIndex: i, formulas: [next[i]] });
+    }
+    lastIndex = i;
+  });
+
+  // 02 - Merge them into one run if there are too many to write separately
+  if (runs.length > MAX_COLUMN_RUNS) {
+    const startIndex = runs[0].startIndex;
+    const merged = current.slice(startIndex, lastIndex + 1);
+
+    runs.forEach(run => run.formulas.forEach((formula, offset) => {
+      merged[run.startIndex - startIndex + offset] = formula;
+    }));
+
+    return [{ startIndex, formulas: merged }];
+  }
+
+  return runs;
+}
+
+/**
+ * Extracts one column from rows read across the table's column span.
+ *
+ * @param {CellFormula[][]} tableData2D - The rows as read from the sheet.
+ * @param {TableLayout} layout - The table layout the rows were read with.
+ * @param {string} columnLetter - The column to extract.
+ * @returns {CellFormula[]} One cell per row.
+ */
+function getColumnFormulas(tableData2D: CellFormula[][], layout: TableLayout, columnLetter: string): CellFormula[] {
+  const offset = getColumnOffset(layout, columnLetter);
+  return tableData2D.map(row => row[offset]);
+}
+
+
+// ===== BUNDLED MODULE - src/core/restructure.ts ===== //
+
+/**
+ * Core BQ Model: Structural Changes
+ *
+ * Plans structural edits (promote, demote, reorder, insert) on the list of
+ * item codes in worksheet order. Each plan returns the new item codes plus
+ * the row block moves or insertion point the worksheet must replay to match them.
+ *
+ * A "subtree block" is an item and all of its descendants, which always
+ * occupy consecutive rows in a depth-first ordered table.
+ */
+
+/** Moves rows `startIndex`..`endIndex` so they sit immediately before `insertBeforeIndex` (indices before the move). */
+interface BlockMove {
+  startIndex: number,
+  endIndex: number,
+  insertBeforeIndex: number,
+}
+
+/** The outcome of a structural edit. */
+interface RestructurePlan {
+  itemCodes: string[],
+  moves: BlockMove[],
+  levelChangedIndices: number[],
+}
+
+/** New rows to insert at `insertionIndex`, and every item code after the insertion. */
+interface InsertionPlan {
+  insertionIndex: number,
+  rowCount: number,
+  itemCodes: string[],
+}
+
+/**
+ * Returns the index of the last descendant of the item at `index`
+ * (or `index` itself if it has none).
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number} index - Index of the subtree root.
+ * @returns {number} The inclusive end index of the subtree block.
+ */
+function getSubtreeEndIndex(itemCodes: string[], index: number): number {
+  const prefix = itemCodes[index] + "-";
+  let endIndex = index;
+
+  while (endIndex + 1 < itemCodes.length && itemCodes[endIndex + 1].startsWith(prefix)) {
+    endIndex++;
+  }
+
+  return endIndex;
+}
+
+/**
+ * Returns the subtree roots covered by a selection: the first selected item,
+ * then each item following the previous root's subtree, up to `endIndex`.
+ * A selection ending mid-subtree still carries the whole subtree.
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number} startIndex - First selected index.
+ * @param {number} endIndex - Last selected index.
+ * @returns {number[]} Indices of the selected subtree roots, top to bottom.
+ */
+function getSelectedSubtreeRoots(itemCodes: string[], startIndex: number, endIndex: number): number[] {
+  const roots: number[] = [];
+
+  for (let i = startIndex; i <= endIndex; i = getSubtreeEndIndex(itemCodes, i) + 1) {
+    roots.push(i);
+  }
+
+  return roots;
+}
+
+/**
+ * Returns the index of the nearest preceding sibling of the item at `index`, or -1 if it is the first child.
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number} index - Index of the item.
+ * @returns {number} Index of the previous sibling, or -1.
+ */
+function getPreviousSiblingIndex(itemCodes: string[], index: number): number {
+  const level = getHierarchyLevel(itemCodes[index]);
+
+  for (let i = index - 1; i >= 0; i--) {
+    const candidateLevel = getHierarchyLevel(itemCodes[i]);
+    if (candidateLevel === level) return i;
+    if (candidateLevel < level) return -1;
+  }
+
+  return -1;
+}
+
+/**
+ * Returns the index of the next sibling of the item at `index`, or -1 if it is the last child.
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number} index - Index of the item.
+ * @returns {number} Index of the next sibling, or -1.
+ */
+function getNextSiblingIndex(itemCodes: string[], index: number): number {
+  const nextIndex = getSubtreeEndIndex(itemCodes, index) + 1;
+
+  if (nextIndex >= itemCodes.length) return -1;
+
+  return getHierarchyLevel(itemCodes[nextIndex]) === getHierarchyLevel(itemCodes[index]) ? nextIndex : -1;
+}
+
+/**
+ * Returns a copy of `items` with a block move applied.
+ *
+ * @param {T[]} items - The items in their current order.
+ * @param {BlockMove} move - The move to apply.
+ * @returns {T[]} The reordered items.
+ */
+function applyBlockMove<T>(items: T[], move: BlockMove): T[] {
+  const block = items.slice(move.startIndex, move.endIndex + 1);
+  const remaining = items.slice(0, move.startIndex).concat(items.slice(move.endIndex + 1));
+  const insertAt = move.insertBeforeIndex > move.endIndex
+    ? move.insertBeforeIndex - block.length
+    : move.insertBeforeIndex;
+
+  return remaining.slice(0, insertAt).concat(block, remaining.slice(insertAt));
+}
+
+/**
+ * Plans demoting each selected subtree one level, making it the last child
+ * of its previous sibling (e.g. A-2 → A-1-3, A-2-1 → A-1-3-1).
+ * No rows move: a subtree already follows its previous sibling's subtree.
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number[]} rootIndices - Subtree roots to demote (see `getSelectedSubtreeRoots`).
+ * @returns {RestructurePlan} The reindexed codes; `moves` is always empty.
+ * @throws If a selected item has no previous sibling to become its parent.
+ */
+function planDemotion(itemCodes: string[], rootIndices: number[]): RestructurePlan {
+  let codes = itemCodes.slice();
+
+  // 01 - Demote top-down so consecutive siblings all join the same new parent
+  rootIndices.slice().sort((a, b) => a - b).forEach(index => {
+    const previousSiblingIndex = getPreviousSiblingIndex(codes, index);
+
+    if (previousSiblingIndex === -1) {
+      throw new Error(`Cannot demote ${codes[index]}: it has no previous sibling to become its parent`);
+    }
+
+    const newRootCode = `${codes[previousSiblingIndex]}-${Number.MAX_SAFE_INTEGER}`;
+    codes = reindexItemCodes(rewriteSubtreeCodes(codes, index, newRootCode));
+  });
+
+  return {
+    itemCodes: codes,
+    moves: [],
+    levelChangedIndices: getLevelChangedIndices(itemCodes.map(code => getHierarchyLevel(code)), codes)
+  };
+}
+
+/**
+ * Plans promoting each selected subtree one level, making it the next
+ * sibling of its former parent (e.g. A-1-2 → A-2, moved below A-1's subtree).
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number[]} rootIndices - Subtree roots to promote (see `getSelectedSubtreeRoots`).
+ * @returns {RestructurePlan} The reindexed codes and the row moves to replay.
+ * @throws If a selected item is a section (level 0) or would become one (level 1), or its parent row is missing.
+ */
+function planPromotion(itemCodes: string[], rootIndices: number[]): RestructurePlan {
+  let codes = itemCodes.slice();
+  let levels = itemCodes.map(code => getHierarchyLevel(code));
+  const moves: BlockMove[] = [];
+
+  // 01 - Promote bottom-up so promoted siblings keep their relative order
+  rootIndices.slice().sort((a, b) => b - a).forEach(index => {
+    const code = codes[index];
+    const level = getHierarchyLevel(code);
+
+    if (level < 2) {
+      throw new Error(`Cannot promote ${code}: level ${level} items cannot be promoted to a section`);
+    }
+
+    // 01a - Rewrite the subtree under the grandparent, then move it below the parent's subtree
+    const parentCode = code.slice(0, code.lastIndexOf("-"));
+    const grandparentCode = parentCode.slice(0, parentCode.lastIndexOf("-"));
+    const parentIndex = codes.indexOf(parentCode);
+
+    if (parentIndex === -1) {
+      throw new Error(`Cannot promote ${code}: it has no parent ${parentCode} in the table`);
+    }
+
+    const parentEndIndex = getSubtreeEndIndex(codes, parentIndex);
+    const endIndex = getSubtreeEndIndex(codes, index);
+
+    codes = rewriteSubtreeCodes(codes, index, `${grandparentCode}-${Number.MAX_SAFE_INTEGER}`);
+
+    if (endIndex < parentEndIndex) {
+      const move: BlockMove = { startIndex: index, endIndex, insertBeforeIndex: parentEndIndex + 1 };
+      moves.push(move);
+      codes = applyBlockMove(codes, move);
+      levels = applyBlockMove(levels, move);
+    }
+
+    codes = reindexItemCodes(codes);
+  });
+
+  return { itemCodes: codes, moves, levelChangedIndices: getLevelChangedIndices(levels, codes) };
+}
+
+/**
+ * Plans swapping the selected subtree(s) with the adjacent sibling block above or below.
+ * Several selected roots move together and must be consecutive siblings.
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number[]} rootIndices - Subtree roots to move (see `getSelectedSubtreeRoots`).
+ * @param {"up" | "down"} direction - Which sibling to swap with.
+ * @returns {RestructurePlan} The reindexed codes and the single row move to replay.
+ * @throws If the roots are not siblings or there is no sibling in that direction.
+ */
+function planSiblingMove(itemCodes: string[], rootIndices: number[], direction: "up" | "down"): RestructurePlan {
+  const roots = rootIndices.slice().sort((a, b) => a - b);
+  const firstIndex = roots[0];
+  const lastIndex = roots[roots.length - 1];
+  const endIndex = getSubtreeEndIndex(itemCodes, lastIndex);
+
+  // 01 - Selected roots must be consecutive siblings
+  roots.forEach((index, i) => {
+    if (i > 0 && getNextSiblingIndex(itemCodes, roots[i - 1]) !== index) {
+      throw new Error(`Cannot move ${itemCodes[firstIndex]} and ${itemCodes[index]} together: they are not adjacent siblings`);
+    }
+  });
+
+  // 02 - Find the adjacent sibling block and plan the move
+  let move: BlockMove;
+
+  if (direction === "up") {
+    const siblingIndex = getPreviousSiblingIndex(itemCodes, firstIndex);
+    if (siblingIndex === -1) throw new Error(`Cannot move ${itemCodes[firstIndex]} up: it is already the first item at its level`);
+
+    move = { startIndex: firstIndex, endIndex, insertBeforeIndex: siblingIndex };
+  } else {
+    const siblingIndex = getNextSiblingIndex(itemCodes, lastIndex);
+    if (siblingIndex === -1) throw new Error(`Cannot move ${itemCodes[lastIndex]} down: it is already the last item at its level`);
+
+    move = { startIndex: firstIndex, endIndex, insertBeforeIndex: getSubtreeEndIndex(itemCodes, siblingIndex) + 1 };
+  }
+
+  // 03 - Renumber after the swap (section letters travel with their rows)
+  return {
+    itemCodes: reindexItemCodes(applyBlockMove(itemCodes, move)),
+    moves: [move],
+    levelChangedIndices: []
+  };
+}
+
+/**
+ * Plans inserting new items at the same level as the item at `index`, either
+ * directly above it or directly after its subtree. Later siblings (and their
+ * descendants) are renumbered, e.g. inserting below A-1-1 turns A-1-2 into A-1-3.
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number} index - Index of the selected item.
+ * @param {"above" | "below"} position - Where to insert relative to the selected item.
+ * @param {number} rowCount - Number of sibling rows to insert.
+ * @returns {InsertionPlan} The insertion point and the reindexed codes including the new rows.
+ * @throws If the selected item is a section (level 0).
+ */
+function planSiblingInsertion(
+  itemCodes: string[],
+  index: number,
+  position: "above" | "below",
+  rowCount: number
+): InsertionPlan {
+  const code = itemCodes[index];
+
+  if (getHierarchyLevel(code) === 0) {
+    throw new Error(`Cannot insert a sibling of section ${code}: use Insert Section instead`);
+  }
+
+  // 01 - New rows go above the item, or after its whole subtree
+  const insertionIndex = (position === "above") ? index : getSubtreeEndIndex(itemCodes, index) + 1;
+  const parentCode = code.slice(0, code.lastIndexOf("-"));
+  const newCodes: string[] = new Array(rowCount).fill(`${parentCode}-${Number.MAX_SAFE_INTEGER}`);
+
+  // 02 - Splice in the new rows and renumber
+  const codes = itemCodes.slice(0, insertionIndex).concat(newCodes, itemCodes.slice(insertionIndex));
+
+  return { insertionIndex, rowCount, itemCodes: reindexItemCodes(codes) };
+}
+
+/**
+ * Plans inserting items as the last children of the item at `parentIndex`.
+ * `depths` gives each new item's depth below the parent (1 = child,
+ * 2 = grandchild of the preceding depth-1 item, …), so a whole subtree can be
+ * inserted at once; the new items are numbered after the existing children.
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number} parentIndex - Index of the selected parent item.
+ * @param {number[]} depths - The depth of each new item, in insertion order.
+ * @returns {InsertionPlan} The insertion point and the reindexed codes including the new rows.
+ */
+function planChildInsertion(itemCodes: string[], parentIndex: number, depths: number[]): InsertionPlan {
+  const parentCode = itemCodes[parentIndex];
+  const insertionIndex = getSubtreeEndIndex(itemCodes, parentIndex) + 1;
+
+  // 01 - Give each new row a placeholder code of the right depth, then renumber
+  const newCodes = depths.map(depth => parentCode + `-${Number.MAX_SAFE_INTEGER}`.repeat(depth));
+  const codes = itemCodes.slice(0, insertionIndex).concat(newCodes, itemCodes.slice(insertionIndex));
+
+  return { insertionIndex, rowCount: depths.length, itemCodes: reindexItemCodes(codes) };
+}
+
+/**
+ * Plans inserting a new, empty section (level 0) either directly above the
+ * section containing the item at `index`, or after that section's subtree.
+ *
+ * Without re-lettering the new section takes the letter after the latest one
+ * in use (e.g. C when A and B exist, AA after Z), wherever it is placed. With
+ * re-lettering every section is lettered in order, so inserting between A and
+ * B gives a new B and the old B becomes C.
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order (may be empty).
+ * @param {number} index - Index of the selected item (ignored for an empty table).
+ * @param {"above" | "below"} position - Where to insert relative to the selected item's section.
+ * @param {boolean} reletter - Whether to re-letter the sections that follow.
+ * @returns {InsertionPlan} The insertion point and every item code including the new section.
+ * @throws If the table is not empty but has no section (level 0) rows.
+ */
+function planSectionInsertion(
+  itemCodes: string[],
+  index: number,
+  position: "above" | "below",
+  reletter: boolean
+): InsertionPlan {
+
+  if (itemCodes.length === 0) {
+    return { insertionIndex: 0, rowCount: 1, itemCodes: ["A"] };
+  }
+
+  const sectionLetters = itemCodes.filter(code => getHierarchyLevel(code) === 0);
+
+  if (sectionLetters.length === 0) {
+    throw new Error("Cannot insert a section: the table has no section (level 0) rows");
+  }
+
+  // 01 - Find the section that contains the selected item
+  let sectionIndex = index;
+  while (sectionIndex > 0 && getHierarchyLevel(itemCodes[sectionIndex]) > 0) {
+    sectionIndex--;
+  }
+
+  const insertionIndex = (position === "above") ? sectionIndex : getSubtreeEndIndex(itemCodes, sectionIndex) + 1;
+
+  // 02 - Take the letter after the latest one in use
+  const latestLetter = sectionLetters.reduce(getLaterSectionLetter);
+  const newCode = incrementSectionLetter(latestLetter);
+
+  // 03 - Splice in the section row, re-lettering if requested
+  const codes = itemCodes.slice(0, insertionIndex).concat([newCode], itemCodes.slice(insertionIndex));
+
+  return { insertionIndex, rowCount: 1, itemCodes: reletter ? reletterSections(codes) : codes };
+}
+
+/**
+ * Replaces the code of the subtree rooted at `index` with `newRootCode`, carrying descendants along.
+ */
+function rewriteSubtreeCodes(itemCodes: string[], index: number, newRootCode: string): string[] {
+  const oldRootCode = itemCodes[index];
+  const endIndex = getSubtreeEndIndex(itemCodes, index);
+
+  return itemCodes.map((code, i) => (i >= index && i <= endIndex)
+    ? newRootCode + code.slice(oldRootCode.length)
+    : code
+  );
+}
+
+/**
+ * Returns the indices whose hierarchy level differs from the level originally held by the same row.
+ */
+function getLevelChangedIndices(originalLevels: number[], itemCodes: string[]): number[] {
+  const changed: number[] = [];
+
+  itemCodes.forEach((code, i) => {
+    if (getHierarchyLevel(code) !== originalLevels[i]) changed.push(i);
+  });
+
+  return changed;
+}
+
+
+// ===== BUNDLED MODULE - src/core/itemCodes.ts ===== //
+
+/**
+ * Core BQ Model: Item Code Generation
+ *
+ * Pure helpers for generating and renumbering hyphenated item codes.
+ */
+
+/**
+ * Increments the final numeric segment of a hyphen-delimited item code string.
+ * Example: 'A-1-3' → 'A-1-4'
+ *
+ * @param itemCode - The item code string to increment (e.g., "A-1-2").
+ * @returns The incremented item code string.
+ * @throws If the last segment is not a valid number.
+ */
+function incrementLastItemCodeSegment(itemCode: string): string {
+
+  const segments = itemCode.split("-");
+  const lastSegment = Number(segments[segments.length - 1]);
+
+  if (isNaN(lastSegment)) {
+    throw new Error(`Invalid numeric segment in code: ${itemCode}`);
+  }
+
+  // Replace last segment with incremented value
+  segments[segments.length - 1] = String(lastSegment + 1);
+
+  return segments.join("-");
+}
+
+/**
+ * Reindexes a list of hierarchical item codes to maintain contiguous numbering for each level.
+ *
+ * Example:
+ * Input:  ["A", "A-1", "A-1-1", "A-1-3", "A-2", "A-2-1", "A-3", "A-3-2"]
+ * Output: ["A", "A-1", "A-1-1", "A-1-2", "A-2", "A-2-1", "A-3", "A-3-1"]
+ *
+ * Assumes:
+ * - Input is in depth-first traversal order
+ * - Hierarchy is represented using hyphen-separated strings (e.g., "A-1-2")
+ *
+ * @param {string[]} itemCodes - Array of item codes representing a hierarchical structure
+ * @returns {string[]} - A new array with reindexed item codes preserving hierarchy
+ */
+function reindexItemCodes(itemCodes: string[]): string[] {
+  // 01 - Initialize the array to hold reindexed item codes
+  const reindexed: string[] = [];
+
+  // 02 - Initialize a path stack to build new item codes by hierarchy level
+  const pathStack: string[] = [];
+
+  // 03 - Initialize a counter array to track sibling indexes at each level
+  const levelCounters: number[] = [];
+
+  // 04 - Iterate through each itemCode in the provided array
+  for (let i = 0; i < itemCodes.length; i++) {
+    const code = itemCodes[i];
+
+    // 04a - Split the itemCode by '-' to determine its hierarchical level
+    const parts = code.split("-");
+
+    // 04b - Determine the current depth level (0-based)
+    const level = parts.length - 1;
+
+    // 04c - Truncate the pathStack and levelCounters to match the current depth
+    pathStack.length = level;
+    levelCounters.length = level + 1;
+
+    // 04d - Handle root-level items (e.g., "A")
+    if (level === 0) {
+      // 04d (i) - Directly assign the root name to pathStack[0]
+      pathStack[0] = parts[0];
+
+      // 04d (ii) - Set root-level counter to 0 (not actively used)
+      levelCounters[0] = 0;
+    } else {
+      // 04e (i) - Initialize or increment the sibling counter at current level
+      levelCounters[level] = (levelCounters[level] || 0) + 1;
+
+      // 04e (ii) - Store current index in the pathStack for this level
+      pathStack[level] = levelCounters[level].toString();
+    }
+
+    // 04f - Rebuild the itemCode string based on the updated pathStack
+    const newCode = (level === 0)
+      ? pathStack[0]  // 04f (i) - Root level: just use the root name
+      : `${pathStack[0]}-${pathStack.slice(1, level + 1).join("-")}`; // 04f (ii) - Join updated hierarchy
+
+    // 04g - Push the newCode into the result array
+    reindexed.push(newCode);
+  }
+
+  // 05 - Return the reindexed list of item codes
+  return reindexed;
+}
+
+/**
+ * Returns the section letter that follows the given one, carrying into an
+ * extra letter after Z in the same way as spreadsheet columns.
+ * Example: 'C' → 'D', 'Z' → 'AA', 'AZ' → 'BA'
+ *
+ * @param {string} sectionLetter - A level-0 item code (e.g., "B").
+ * @returns {string} The next section letter.
+ * @throws If the code is not made of letters only.
+ */
+function incrementSectionLetter(sectionLetter: string): string {
+  if (!/^[A-Z]+$/.test(sectionLetter)) {
+    throw new Error(`Invalid section letter: ${sectionLetter}`);
+  }
+
+  // 01 - Increment from the right, turning trailing Z's into A's
+  const letters = sectionLetter.split("");
+  let i = letters.length - 1;
+
+  while (i >= 0 && letters[i] === "Z") {
+    letters[i] = "A";
+    i--;
+  }
+
+  // 02 - Bump the first non-Z letter, or prepend an A if every letter was Z
+  if (i < 0) return "A" + letters.join("");
+
+  letters[i] = String.fromCharCode(letters[i].charCodeAt(0) + 1);
+  return letters.join("");
+}
+
+/**
+ * Returns the later of two section letters (longer codes sort after shorter ones, e.g. 'AA' after 'Z').
+ *
+ * @param {string} a - A section letter.
+ * @param {string} b - A section letter.
+ * @returns {string} Whichever letter comes last in the A, B, …, Z, AA, AB sequence.
+ */
+function getLaterSectionLetter(a: string, b: string): string {
+  if (a.length !== b.length) return a.length > b.length ? a : b;
+  return a > b ? a : b;
+}
+
+/**
+ * Re-letters every section (level-0 code) in order as A, B, C, …,
+ * carrying each section's descendants along.
+ *
+ * Example:
+ * Input:  ["A", "A-1", "C", "C-1", "B"]
+ * Output: ["A", "A-1", "B", "B-1", "C"]
+ *
+ * @param {string[]} itemCodes - Item codes in depth-first worksheet order, starting with a section.
+ * @returns {string[]} A new array with sequential section letters.
+ */
+function reletterSections(itemCodes: string[]): string[] {
+  let sectionLetter = "";
+
+  return itemCodes.map(code => {
+    const hyphenIndex = code.indexOf("-");
+
+    if (hyphenIndex === -1) {
+      sectionLetter = sectionLetter === "" ? "A" : incrementSectionLetter(sectionLetter);
+      return sectionLetter;
+    }
+
+    return sectionLetter + code.slice(hyphenIndex);
+  });
+}
+
+
+// ===== BUNDLED MODULE - src/excel/activityTable.ts ===== //
+
+/**
+ * ExcelScript Adapter: Activity Table
+ *
+ * Reads the BQ activity table from a worksheet into the core `BQTable` model.
+ */
+
+/**
+ * Transforms a structured Excel activity table into an array of hierarchical activity objects.
+ *
+ * Scans a worksheet starting from the layout's header row, determines the data range dynamically,
+ * and builds a structured array of objects containing item codes, quantities, rates, and calculated hierarchy levels.
+ *
+ * Automatically identifies parent-child relationships based on itemCode format (e.g., "A", "A-1", "A-1-1")
+ * and strips rate values from parent-level entries.
+ *
+ * @param {ExcelScript.Worksheet} sheet - The worksheet containing the activity table.
+ * @param {TableLayout} layout - The table layout (see `readTableLayout`).
+ * @returns {BQTable} Object containing the parsed activity data, top and bottom data row indices.
+ *
+ * @example
+ * const { activityObjectsArray } = transformTableToActivityObjects(sheet, readTableLayout(workbook));
+ */
+function transformTableToActivityObjects(
+  sheet: ExcelScript.Worksheet,
+  layout: TableLayout
+): BQTable {
+
+  // 01 - Determine the vertical bounds of the data table based on the item code column
+  const bottomTotalsRow = getBottomTotalsRow(sheet, layout);
+
+  const dataTopRow = layout.headerRow + 1;
+  const dataBottomRow = bottomTotalsRow - 1;
+
+  // 02 - Exit early if no data rows are found below the header
+  if (dataBottomRow < dataTopRow) {
+    console.log("No activity rows found.");
+    return {
+      activityObjectsArray: [],
+      dataTopRow,
+      dataBottomRow
+    };
+  }
+
+  // 03 - Extract cell formulas across the table's columns and parse them into activities
+  const table = parseBQTable(getTableRowsRange(sheet, layout, dataTopRow, dataBottomRow).getFormulas(), dataTopRow, layout);
+
+  // 04 - Clear rate values for items that act as parents in the hierarchy
+  table.activityObjectsArray.forEach((activity) => {
+    if (activity.hasChild) {
+      activity.rate = "";
+    }
+  });
+
+  return table;
+}
+
+/**
+ * Reads the activity table as calculated values (`Range.getValues()`) rather than
+ * formulas, e.g. for exports and comparisons that need the resulting costs.
+ *
+ * @param {ExcelScript.Worksheet} sheet - The worksheet containing the activity table.
+ * @param {TableLayout} layout - The table layout.
+ * @returns {BQTable} The parsed activity values, top and bottom data row indices.
+ */
+function readActivityValues(sheet: ExcelScript.Worksheet, layout: TableLayout): BQTable {
+  const dataTopRow = layout.headerRow + 1;
+  const dataBottomRow = getBottomTotalsRow(sheet, layout) - 1;
+
+  if (dataBottomRow < dataTopRow) {
+    return { activityObjectsArray: [], dataTopRow, dataBottomRow };
+  }
+
+  return parseBQTable(getTableRowsRange(sheet, layout, dataTopRow, dataBottomRow).getValues(), dataTopRow, layout);
+}
+
+/**
+ * Returns the row number of the grand totals row, i.e. the last contiguous
+ * non-empty cell in the item code column below the table header.
+ *
+ * @param {ExcelScript.Worksheet} sheet - The worksheet containing the activity table.
+ * @param {TableLayout} layout - The table layout.
+ * @returns {number} The 1-based row number of the grand totals row.
+ */
+function getBottomTotalsRow(sheet: ExcelScript.Worksheet, layout: TableLayout): number {
+  return sheet.getRange(`${layout.itemCodeColumn}${layout.headerRow}`)
+    .getRangeEdge(ExcelScript.KeyboardDirection.down)
+    .getRowIndex() + 1;
+}
+
+/**
+ * Returns the range spanning every table column for the given rows.
+ *
+ * @param {ExcelScript.Worksheet} sheet - The worksheet containing the activity table.
+ * @param {TableLayout} layout - The table layout.
+ * @param {number} topRow - The first row (1-based).
+ * @param {number} bottomRow - The last row (1-based).
+ * @returns {ExcelScript.Range} e.g. B10:J20 for the default layout.
+ */
+function getTableRowsRange(
+  sheet: ExcelScript.Worksheet,
+  layout: TableLayout,
+  topRow: number,
+  bottomRow: number
+): ExcelScript.Range {
+  const { firstColumn, lastColumn } = getTableColumnSpan(layout);
+  return sheet.getRange(`${firstColumn}${topRow}:${lastColumn}${bottomRow}`);
+}
+
+/**
+ * Writes one value or formula per row into a single column, starting at `topRow`.
+ *
+ * @param {ExcelScript.Worksheet} sheet - The worksheet containing the activity table.
+ * @param {string} columnLetter - The target column.
+ * @param {number} topRow - The first row (1-based) to write.
+ * @param {CellFormula[]} formulas - The values or formulas, top to bottom.
+ */
+function setColumnFormulas(
+  sheet: ExcelScript.Worksheet,
+  columnLetter: string,
+  topRow: number,
+  formulas: CellFormula[]
+): void {
+  if (formulas.length === 0) return;
+
+  sheet
+    .getRange(`${columnLetter}${topRow}:${columnLetter}${topRow + formulas.length - 1}`)
+    .setFormulas(formulas.map(formula => [formula]) as string[][]);
+}
+
+/**
+ * Writes only the cells of one column whose formula differs from the one
+ * read from the sheet, one call per run of consecutive changed rows (or a
+ * single call once there are more than `MAX_COLUMN_RUNS` runs).
+ *
+ * @param {ExcelScript.Worksheet} sheet - The worksheet containing the activity table.
+ * @param {string} columnLetter - The target column.
+ * @param {number} topRow - The row (1-based) of the first cell in both arrays.
+ * @param {CellFormula[]} currentFormulas - The column as read from the sheet.
+ * @param {CellFormula[]} nextFormulas - The values or formulas to write, top to bottom.
+ * @param {number[]} [rowIndices] - Only consider these rows (indices from `topRow`); every row if omitted.
+ * @returns {number} The number of cells written.
+ */
+function setChangedColumnFormulas(
+  sheet: ExcelScript.Worksheet,
+  columnLetter: string,
+  topRow: number,
+  currentFormulas: CellFormula[],
+  nextFormulas: CellFormula[],
+  rowIndices?: number[]
+): number {
+  let cellCount = 0;
+
+  getChangedColumnRuns(currentFormulas, nextFormulas, rowIndices).forEach(run => {
+    setColumnFormulas(sheet, columnLetter, topRow + run.startIndex, run.formulas);
+    cellCount += run.formulas.length;
+  });
+
+  return cellCount;
+}
+
+
+// ===== BUNDLED MODULE - src/excel/tableLayout.ts ===== //
+
+/**
+ * ExcelScript Adapter: Table Layout
+ *
+ * Reads the table layout settings from the workbook.
+ *
+ * Settings are taken from, in increasing order of precedence:
+ * 1. `DEFAULT_TABLE_LAYOUT` (header row 9, columns B to J)
+ * 2. The "BQ_Config" sheet: setting names in column A, values in column B
+ *    (e.g. "Header Row" | 12, "Cost Column" | K)
+ * 3. Workbook named ranges prefixed "BQ_" (e.g. BQ_HeaderRow, BQ_CostColumn)
+ */
+
+/** Name of the optional settings sheet. */
+const BQ_CONFIG_SHEET_NAME = "BQ_Config";
+
+/**
+ * Reads and validates the table layout configured in the workbook.
+ *
+ * @param {ExcelScript.Workbook} workbook - The workbook holding the BQ.
+ * @returns {TableLayout} The configured layout, or the default layout if nothing is configured.
+ */
+function readTableLayout(workbook: ExcelScript.Workbook): TableLayout {
+  return resolveTableLayout(readBQSettings(workbook));
+}
+
+/**
+ * Reads every key/value setting from the "BQ_Config" sheet followed by the
+ * workbook's "BQ_" named ranges, so named ranges take precedence.
+ *
+ * @param {ExcelScript.Workbook} workbook - The workbook holding the BQ.
+ * @returns {[string, CellFormula][]} The settings in order of increasing precedence.
+ */
+function readBQSettings(workbook: ExcelScript.Workbook): [string, CellFormula][] {
+  const settings: [string, CellFormula][] = [];
+
+  // 01 - Key/value rows in columns A:B of the config sheet, down to its last used row
+  const configSheet = workbook.getWorksheet(BQ_CONFIG_SHEET_NAME);
+  const usedRange = configSheet ? configSheet.getUsedRange(true) : undefined;
+
+  if (configSheet && usedRange) {
+    const lastRow = usedRange.getRowIndex() + usedRange.getRowCount();
+    const settingsRange = configSheet.getRange(`A1:B${lastRow}`);
+    const numberFormats2D = settingsRange.getNumberFormats();
+
+    settingsRange.getValues().forEach((row, i) => {
+      if (row[0] !== "") settings.push([String(row[0]), toSettingValue(row[1], numberFormats2D[i][1])]);
+    });
+  }
+
+  // 02 - Single-cell named ranges prefixed "BQ_"
+  workbook.getNames().forEach(namedItem => {
+    const name = namedItem.getName();
+    if (!/^BQ_/i.test(name) || namedItem.getType() !== ExcelScript.NamedItemType.range) return;
+
+    const range = namedItem.getRange();
+    settings.push([name, toSettingValue(range.getValue(), range.getNumberFormat())]);
+  });
+
+  return settings;
+}
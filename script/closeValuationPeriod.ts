@@ -0,0 +1,2305 @@
+// GENERATED FILE - do not edit. Source: src/scripts/closeValuationPeriod.ts (rebuild with `npm run build`)
+
+/**
+ * ExcelScript Module: Close Valuation Period
+ *
+ * Ends the current valuation (interim payment) period: on every measured row
+ * the cumulative quantity is copied into Previous Qty and This Period Qty is
+ * reset to 0, ready for the next month's measurement. Needs the valuation
+ * columns switched on ("Valuation Start Column" on BQ_Config). The table is
+ * first saved to "BQ_History" so the close can be undone.
+ *
+ * @entryPoint `main(workbook: ExcelScript.Workbook)`
+ */
+
+// ===== MAIN FUNCTION ===== //
+function main(workbook: ExcelScript.Workbook) {
+
+  const layout = readTableLayout(workbook);
+  const rowCount = closeValuationPeriodOnSheet(workbook, layout);
+
+  console.log(`✅ Period closed - cumulative quantities rolled into previous on ${rowCount} row(s)`);
+}
+
+
+// ===== BUNDLED MODULE - src/excel/tableLayout.ts ===== //
+
+/**
+ * ExcelScript Adapter: Table Layout
+ *
+ * Reads the table layout settings from the workbook.
+ *
+ * Settings are taken from, in increasing order of precedence:
+ * 1. `DEFAULT_TABLE_LAYOUT` (header row 9, columns B to J)
+ * 2. The "BQ_Config" sheet: setting names in column A, values in column B
+ *    (e.g. "Header Row" | 12, "Cost Column" | K)
+ * 3. Workbook named ranges prefixed "BQ_" (e.g. BQ_HeaderRow, BQ_CostColumn)
+ */
+
+/** Name of the optional settings sheet. */
+const BQ_CONFIG_SHEET_NAME = "BQ_Config";
+
+/**
+ * Reads and validates the table layout configured in the workbook.
+ *
+ * @param {ExcelScript.Workbook} workbook - The workbook holding the BQ.
+ * @returns {TableLayout} The configured layout, or the default layout if nothing is configured.
+ */
+function readTableLayout(workbook: ExcelScript.Workbook): TableLayout {
+  return resolveTableLayout(readBQSettings(workbook));
+}
+
+/**
+ * Reads every key/value setting from the "BQ_Config" sheet followed by the
+ * workbook's "BQ_" named ranges, so named ranges take precedence.
+ *
+ * @param {ExcelScript.Workbook} workbook - The workbook holding the BQ.
+ * @returns {[string, CellFormula][]} The settings in order of increasing precedence.
+ */
+function readBQSettings(workbook: ExcelScript.Workbook): [string, CellFormula][] {
+  const settings: [string, CellFormula][] = [];
+
+  // 01 - Key/value rows in columns A:B of the config sheet, down to its last used row
+  const configSheet = workbook.getWorksheet(BQ_CONFIG_SHEET_NAME);
+  const usedRange = configSheet ? configSheet.getUsedRange(true) : undefined;
+
+  if (configSheet && usedRange) {
+    const lastRow = usedRange.getRowIndex() + usedRange.getRowCount();
+    const settingsRange = configSheet.getRange(`A1:B${lastRow}`);
+    const numberFormats2D = settingsRange.getNumberFormats();
+
+    settingsRange.getValues().forEach((row, i) => {
+      if (row[0] !== "") settings.push([String(row[0]), toSettingValue(row[1], numberFormats2D[i][1])]);
+    });
+  }
+
+  // 02 - Single-cell named ranges prefixed "BQ_"
+  workbook.getNames().forEach(namedItem => {
+    const name = namedItem.getName();
+    if (!/^BQ_/i.test(name) || namedItem.getType() !== ExcelScript.NamedItemType.range) return;
+
+    const range = namedItem.getRange();
+    settings.push([name, toSettingValue(range.getValue(), range.getNumberFormat())]);
+  });
+
+  return settings;
+}
+
+
+// ===== BUNDLED MODULE - src/core/activity.ts ===== //
+
+/**
+ * Core BQ Model: Activity Table
+ *
+ * Pure, workbook-independent representation of the BQ activity table.
+ * Everything in `src/core` operates on plain 2D arrays as returned by
+ * `Range.getFormulas()` so it can be unit tested in Node and bundled
+ * unchanged into each ExcelScript file.
+ *
+ * @assumptions:
+ * - Rows are read across the layout's column span (B to J by default)
+ * - The item code column holds hyphenated item codes (e.g., A, A-1, A-1-1)
+ */
+
+/** A single cell formula or constant as returned by `Range.getFormulas()`. */
+type CellFormula = string | number | boolean;
+
+/** One activity row of the BQ table. */
+interface Activity {
+  rowNumber: number,
+  itemCode: string,
+  activityName: string,
+  quantity: (number | string),
+  unit: string,
+  rate: (number | string),
+  cost: string,
+  itemType: string,
+  rollUpMode: string,
+  hierarchyLevel: number,
+  hasChild: boolean,
+}
+
+/** The parsed activity table together with its worksheet row bounds. */
+interface BQTable {
+  activityObjectsArray: Activity[],
+  dataTopRow: number,
+  dataBottomRow: number,
+}
+
+/**
+ * Converts one row of formulas into an activity object.
+ *
+ * @param {CellFormula[]} row - Formulas across the table's column span for a single row.
+ * @param {number} rowNumber - The worksheet row number (1-based) of the row.
+ * @param {TableLayout} layout - The table layout the row was read with.
+ * @returns {Activity} The activity with `hasChild` initialised to false.
+ */
+function parseActivityRow(row: CellFormula[], rowNumber: number, layout: TableLayout): Activity {
+  const itemCode = String(row[getColumnOffset(layout, layout.itemCodeColumn)]);
+
+  return {
+    rowNumber,
+    itemCode,
+    activityName: row[getColumnOffset(layout, layout.descriptionStartColumn)] as string,
+    quantity: row[getColumnOffset(layout, layout.quantityColumn)] as (number | string),
+    unit: row[getColumnOffset(layout, layout.unitColumn)] as string,
+    rate: row[getColumnOffset(layout, layout.rateColumn)] as (number | string),
+    cost: row[getColumnOffset(layout, layout.costColumn)] as string,
+    itemType: layout.itemTypeColumn === "" ? "" : String(row[getColumnOffset(layout, layout.itemTypeColumn)]).trim(),
+    rollUpMode: layout.rollUpModeColumn === "" ? "" : String(row[getColumnOffset(layout, layout.rollUpModeColumn)]).trim(),
+    hierarchyLevel: getHierarchyLevel(itemCode),
+    hasChild: false
+  };
+}
+
+/**
+ * Parses the formulas of the data rows into a `BQTable`, marking every
+ * activity that acts as a parent in the hierarchy.
+ *
+ * @param {CellFormula[][]} tableData2D - Formulas across the table's column span for every data row.
+ * @param {number} dataTopRow - The worksheet row number of the first data row.
+ * @param {TableLayout} layout - The table layout the rows were read with.
+ * @returns {BQTable} The parsed table.
+ *
+ * @example
+ * const table = parseBQTable(sheet.getRange("B10:J20").getFormulas(), 10, DEFAULT_TABLE_LAYOUT);
+ */
+function parseBQTable(tableData2D: CellFormula[][], dataTopRow: number, layout: TableLayout): BQTable {
+
+  // 01 - Convert each row of formulas into an activity object
+  const activityObjectsArray = tableData2D.map((row, i) => parseActivityRow(row, dataTopRow + i, layout));
+
+  // 02 - Identify parent-child relationships based on itemCode structure
+  markParentActivities(activityObjectsArray);
+
+  return {
+    activityObjectsArray,
+    dataTopRow,
+    dataBottomRow: dataTopRow + tableData2D.length - 1
+  };
+}
+
+/**
+ * Builds the initial cell values for a newly inserted activity row,
+ * with placeholders in the description, quantity, unit, rate and cost columns.
+ *
+ * @param {string} itemCode - The item code of the new activity.
+ * @param {TableLayout} layout - The table layout.
+ * @returns {CellFormula[]} One row spanning the table's columns.
+ */
+function buildNewActivityRow(itemCode: string, layout: TableLayout): CellFormula[] {
+  const { lastColumn } = getTableColumnSpan(layout);
+  const row: CellFormula[] = new Array(getColumnOffset(layout, lastColumn) + 1).fill("");
+
+  row[getColumnOffset(layout, layout.itemCodeColumn)] = itemCode;
+  row[getColumnOffset(layout, layout.descriptionStartColumn)] = "[Insert Activity/Item]";
+  row[getColumnOffset(layout, layout.quantityColumn)] = "[qty]";
+  row[getColumnOffset(layout, layout.unitColumn)] = "[unit]";
+  row[getColumnOffset(layout, layout.rateColumn)] = "[rate]";
+  row[getColumnOffset(layout, layout.costColumn)] = "[insert formula]";
+
+  return row;
+}
+
+
+// ===== BUNDLED MODULE - src/core/hierarchy.ts ===== //
+
+/**
+ * Core BQ Model: Item Code Hierarchy
+ *
+ * Hierarchy helpers derived purely from hyphenated item codes
+ * (e.g., "A" = level 0, "A-1" = level 1, "A-1-2" = level 2).
+ */
+
+/**
+ * Returns the depth of an item code in the hierarchy, i.e. its number of hyphens.
+ * Example: 'A' → 0, 'A-1-2' → 2
+ *
+ * @param {string} itemCode - The hyphenated item code.
+ * @returns {number} The 0-based hierarchy level.
+ */
+function getHierarchyLevel(itemCode: string): number {
+  return (itemCode.match(/-/g) || []).length;
+}
+
+/**
+ * Determines whether `childCode` sits exactly one level beneath `parentCode`.
+ *
+ * @param {string} parentCode - The candidate parent item code (e.g., "A-1").
+ * @param {string} childCode - The candidate child item code (e.g., "A-1-3").
+ * @returns {boolean} True if `childCode` is an immediate child of `parentCode`.
+ */
+function isImmediateChildCode(parentCode: string, childCode: string): boolean {
+  return (
+    childCode.startsWith(parentCode + "-") &&
+    getHierarchyLevel(childCode) === getHierarchyLevel(parentCode) + 1
+  );
+}
+
+/**
+ * Parent/child links between the rows of the table, by index in worksheet order.
+ * `parentIndices[i]` is -1 for sections and for orphans (rows whose parent is
+ * missing or out of order), which are also listed in `orphanIndices`.
+ */
+interface ActivityTree {
+  parentIndices: number[],
+  childIndices: number[][],
+  orphanIndices: number[],
+}
+
+/**
+ * Builds the hierarchy as a real tree. Each row's parent must be the nearest
+ * row above it one level up; e.g. "A-1-1" directly under section B (with no
+ * A-1 open above it) is an orphan rather than a child of some A-1 elsewhere.
+ *
+ * @param {string[]} itemCodes - Item codes in depth-first (worksheet) order.
+ * @returns {ActivityTree} The parent and child indices of every row.
+ */
+function buildActivityTree(itemCodes: string[]): ActivityTree {
+  const tree: ActivityTree = {
+    parentIndices: [],
+    childIndices: itemCodes.map(() => []),
+    orphanIndices: [],
+  };
+
+  // Index of the nearest open row at each level
+  const pathStack: number[] = [];
+
+  itemCodes.forEach((code, i) => {
+    const level = getHierarchyLevel(code);
+    const candidateIndex = level > 0 && pathStack.length >= level ? pathStack[level - 1] : -1;
+
+    if (level === 0) {
+      tree.parentIndices.push(-1);
+    } else if (candidateIndex !== -1 && isImmediateChildCode(itemCodes[candidateIndex], code)) {
+      tree.parentIndices.push(candidateIndex);
+      tree.childIndices[candidateIndex].push(i);
+    } else {
+      tree.parentIndices.push(-1);
+      tree.orphanIndices.push(i);
+    }
+
+    pathStack.length = level;
+    pathStack[level] = i;
+  });
+
+  return tree;
+}
+
+/**
+ * Sets `hasChild` on every activity that has at least one child in the tree
+ * (see `buildActivityTree`). Activities must be in depth-first (worksheet) order.
+ *
+ * @param {Activity[]} activities - The activities to mark, in worksheet order.
+ */
+function markParentActivities(activities: Activity[]): void {
+  const { childIndices } = buildActivityTree(activities.map(activity => activity.itemCode));
+
+  activities.forEach((activity, i) => {
+    activity.hasChild = childIndices[i].length > 0;
+  });
+}
+
+/**
+ * Returns the immediate children of the given parent activity.
+ *
+ * @param {Activity} parent - The parent activity.
+ * @param {Activity[]} activities - All activities in the table, in worksheet order.
+ * @returns {Activity[]} The activities one level beneath `parent` in the tree, in worksheet order.
+ */
+function getImmediateChildActivities(parent: Activity, activities: Activity[]): Activity[] {
+  const { childIndices } = buildActivityTree(activities.map(activity => activity.itemCode));
+  const parentIndex = activities.indexOf(parent);
+
+  return parentIndex === -1 ? [] : childIndices[parentIndex].map(i => activities[i]);
+}
+
+/**
+ * Throws if any row is an orphan, so formulas are never written for a broken hierarchy.
+ *
+ * @param {Activity[]} activities - All activities in worksheet order.
+ * @param {ActivityTree} tree - The tree built from the same activities.
+ * @param {string} outcome - What did not happen, leading the error message.
+ * @throws Listing the orphaned rows and their missing parents.
+ */
+function assertNoOrphanActivities(activities: Activity[], tree: ActivityTree, outcome: string = "Formulas not written"): void {
+  if (tree.orphanIndices.length === 0) return;
+
+  const details = tree.orphanIndices.map(i => {
+    const { itemCode, rowNumber } = activities[i];
+    return `${itemCode} (row ${rowNumber}) has no parent ${itemCode.slice(0, itemCode.lastIndexOf("-"))} directly above it`;
+  });
+
+  throw new Error(`${outcome} - ${details.join("; ")}. Run Validate BQ to list every problem.`);
+}
+
+
+// ===== BUNDLED MODULE - src/core/layout.ts ===== //
+
+/**
+ * Core BQ Model: Table Layout
+ *
+ * Describes where the activity table sits on the worksheet so templates
+ * with extra or re-ordered columns work without changing the code.
+ *
+ * Settings are plain key/value pairs (e.g. "Header Row" → 9,
+ * "Cost Column" → "K") read from the "BQ_Config" sheet or `BQ_*`
+ * named ranges; keys are matched case-insensitively ignoring spaces,
+ * underscores and an optional "BQ" prefix. Unknown keys are ignored so
+ * the config sheet can hold other settings.
+ */
+
+/**
+ * Worksheet positions of the activity table. Columns are letters (e.g. "B").
+ * `itemTypeColumn` (PS, PC, RO, DW markers) is "" when items are not typed;
+ * `rollUpModeColumn` (LS, Rate, Manual markers) is "" when every parent's roll-up is inferred;
+ * `valuationStartColumn` is "" unless the valuation columns are switched on;
+ * `pricingNames` lists the extra rate/cost pairs placed from `pricingStartColumn`.
+ */
+interface TableLayout {
+  headerRow: number,
+  itemCodeColumn: string,
+  descriptionStartColumn: string,
+  descriptionEndColumn: string,
+  quantityColumn: string,
+  unitColumn: string,
+  rateColumn: string,
+  costColumn: string,
+  itemTypeColumn: string,
+  rollUpModeColumn: string,
+  valuationStartColumn: string,
+  pricingStartColumn: string,
+  pricingNames: string[],
+}
+
+/** The five consecutive valuation columns, starting at `valuationStartColumn`. */
+interface ValuationColumns {
+  previousQuantityColumn: string,
+  periodQuantityColumn: string,
+  cumulativeQuantityColumn: string,
+  percentCompleteColumn: string,
+  valueToDateColumn: string,
+}
+
+/** One named rate/cost column pair for tender comparison (e.g. "Bidder 1"). */
+interface PricingColumns {
+  name: string,
+  rateColumn: string,
+  costColumn: string,
+}
+
+/** The original template: header on row 9, codes in B, description C:F, G:J priced columns. */
+const DEFAULT_TABLE_LAYOUT: TableLayout = {
+  headerRow: 9,
+  itemCodeColumn: "B",
+  descriptionStartColumn: "C",
+  descriptionEndColumn: "F",
+  quantityColumn: "G",
+  unitColumn: "H",
+  rateColumn: "I",
+  costColumn: "J",
+  itemTypeColumn: "",
+  rollUpModeColumn: "",
+  valuationStartColumn: "",
+  pricingStartColumn: "",
+  pricingNames: [],
+};
+
+/**
+ * Converts a column letter to its 1-based column number.
+ * Example: 'A' → 1, 'J' → 10, 'AA' → 27
+ *
+ * @param {string} columnLetter - The column letter(s).
+ * @returns {number} The 1-based column number.
+ * @throws If the input is not a valid column letter.
+ */
+function columnLetterToNumber(columnLetter: string): number {
+  if (!/^[A-Za-z]{1,3}$/.test(columnLetter)) {
+    throw new Error(`Invalid column letter: ${columnLetter}`);
+  }
+
+  return columnLetter
+    .toUpperCase()
+    .split("")
+    .reduce((total, letter) => total * 26 + (letter.charCodeAt(0) - 64), 0);
+}
+
+/**
+ * Converts a 1-based column number to its column letter.
+ * Example: 1 → 'A', 10 → 'J', 27 → 'AA'
+ *
+ * @param {number} columnNumber - The 1-based column number.
+ * @returns {string} The column letter(s).
+ */
+function columnNumberToLetter(columnNumber: number): string {
+  let letters = "";
+  let remaining = columnNumber;
+
+  while (remaining > 0) {
+    const remainder = (remaining - 1) % 26;
+    letters = String.fromCharCode(65 + remainder) + letters;
+    remaining = Math.floor((remaining - 1) / 26);
+  }
+
+  return letters;
+}
+
+/**
+ * Returns the left-most and right-most columns used by the layout.
+ * Activity rows are read and formatted across this span.
+ *
+ * @param {TableLayout} layout - The table layout.
+ * @returns The first and last column letters of the table.
+ */
+function getTableColumnSpan(layout: TableLayout): { firstColumn: string, lastColumn: string } {
+  const columnNumbers = getLayoutColumns(layout).map(columnLetterToNumber);
+
+  return {
+    firstColumn: columnNumberToLetter(Math.min(...columnNumbers)),
+    lastColumn: columnNumberToLetter(Math.max(...columnNumbers)),
+  };
+}
+
+/**
+ * Returns the 0-based index of a column within a row read across the table's column span.
+ *
+ * @param {TableLayout} layout - The table layout.
+ * @param {string} columnLetter - The column to locate.
+ * @returns {number} The index into a row returned for `getTableColumnSpan(layout)`.
+ */
+function getColumnOffset(layout: TableLayout, columnLetter: string): number {
+  return columnLetterToNumber(columnLetter) - columnLetterToNumber(getTableColumnSpan(layout).firstColumn);
+}
+
+/**
+ * Returns the valuation columns (previous, this period and cumulative quantity,
+ * % complete, value to date) if the layout has them switched on.
+ *
+ * @param {TableLayout} layout - The table layout.
+ * @returns {ValuationColumns | undefined} The column letters, or undefined if valuation is off.
+ */
+function getValuationColumns(layout: TableLayout): ValuationColumns | undefined {
+  if (layout.valuationStartColumn === "") return undefined;
+
+  const startNumber = columnLetterToNumber(layout.valuationStartColumn);
+
+  return {
+    previousQuantityColumn: columnNumberToLetter(startNumber),
+    periodQuantityColumn: columnNumberToLetter(startNumber + 1),
+    cumulativeQuantityColumn: columnNumberToLetter(startNumber + 2),
+    percentCompleteColumn: columnNumberToLetter(startNumber + 3),
+    valueToDateColumn: columnNumberToLetter(startNumber + 4),
+  };
+}
+
+/**
+ * Returns the named rate/cost column pairs, side by side from the pricing start column.
+ *
+ * @param {TableLayout} layout - The table layout.
+ * @returns {PricingColumns[]} One pair per pricing name, in order (none if not configured).
+ */
+function getPricingColumns(layout: TableLayout): PricingColumns[] {
+  if (layout.pricingStartColumn === "") return [];
+
+  const startNumber = columnLetterToNumber(layout.pricingStartColumn);
+
+  return layout.pricingNames.map((name, i) => ({
+    name,
+    rateColumn: columnNumberToLetter(startNumber + 2 * i),
+    costColumn: columnNumberToLetter(startNumber + 2 * i + 1),
+  }));
+}
+
+/**
+ * Builds a table layout from key/value settings, falling back to
+ * `DEFAULT_TABLE_LAYOUT` for anything not configured.
+ *
+ * @param {[string, CellFormula][]} settings - Key/value pairs, later pairs override earlier ones.
+ * @returns {TableLayout} The validated layout.
+ * @throws If a setting has an invalid value or the columns overlap.
+ *
+ * @example
+ * resolveTableLayout([["Header Row", 12], ["BQ_CostColumn", "K"]]);
+ */
+function resolveTableLayout(settings: [string, CellFormula][]): TableLayout {
+  const layout: TableLayout = { ...DEFAULT_TABLE_LAYOUT };
+
+  // 01 - Apply each recognised setting over the defaults
+  settings.forEach(([key, value]) => {
+    const field = findLayoutField(key);
+    if (!field || value === "" || value === null || value === undefined) return;
+
+    if (field === "headerRow") {
+      const headerRow = Number(value);
+      if (!Number.isInteger(headerRow) || headerRow < 1) {
+        throw new Error(`Invalid table layout setting "${key}": ${value} is not a row number`);
+      }
+      layout.headerRow = headerRow;
+    } else if (field === "pricingNames") {
+      layout.pricingNames = String(value).split(/[,;]/).map(name => name.trim()).filter(name => name !== "");
+    } else {
+      const columnLetter = String(value).trim().toUpperCase();
+      if (!/^[A-Z]{1,3}$/.test(columnLetter)) {
+        throw new Error(`Invalid table layout setting "${key}": ${value} is not a column letter`);
+      }
+      layout[field] = columnLetter;
+    }
+  });
+
+  // 02 - Validate the description span and that no two roles share a column
+  if (layout.pricingNames.length > 0 && layout.pricingStartColumn === "") {
+    throw new Error(`Invalid table layout: set "Pricing Start Column" for the pricing columns ${layout.pricingNames.join(", ")}`);
+  }
+
+  const descriptionStart = columnLetterToNumber(layout.descriptionStartColumn);
+  const descriptionEnd = columnLetterToNumber(layout.descriptionEndColumn);
+
+  if (descriptionEnd < descriptionStart) {
+    throw new Error(`Invalid table layout: description columns ${layout.descriptionStartColumn}:${layout.descriptionEndColumn} are reversed`);
+  }
+
+  const occupied: string[] = [];
+  for (let column = descriptionStart; column <= descriptionEnd; column++) {
+    occupied.push(columnNumberToLetter(column));
+  }
+
+  [
+    layout.itemCodeColumn,
+    layout.quantityColumn,
+    layout.unitColumn,
+    layout.rateColumn,
+    layout.costColumn,
+    ...getOptionalColumnLetters(layout),
+  ].forEach(columnLetter => {
+    if (occupied.includes(columnLetter)) {
+      throw new Error(`Invalid table layout: column ${columnLetter} is assigned more than once`);
+    }
+    occupied.push(columnLetter);
+  });
+
+  return layout;
+}
+
+/**
+ * Returns every column letter referenced by the layout.
+ */
+function getLayoutColumns(layout: TableLayout): string[] {
+  return [
+    layout.itemCodeColumn,
+    layout.descriptionStartColumn,
+    layout.descriptionEndColumn,
+    layout.quantityColumn,
+    layout.unitColumn,
+    layout.rateColumn,
+    layout.costColumn,
+    ...getOptionalColumnLetters(layout),
+  ];
+}
+
+/**
+ * Returns the letters of the optional columns that are switched on
+ * (item type, roll-up mode, valuation and pricing columns).
+ */
+function getOptionalColumnLetters(layout: TableLayout): string[] {
+  return [
+    ...(layout.itemTypeColumn === "" ? [] : [layout.itemTypeColumn]),
+    ...(layout.rollUpModeColumn === "" ? [] : [layout.rollUpModeColumn]),
+    ...getValuationColumnLetters(layout),
+    ...getPricingColumnLetters(layout),
+  ];
+}
+
+/**
+ * Returns the valuation column letters in order, or none if valuation is off.
+ */
+function getValuationColumnLetters(layout: TableLayout): string[] {
+  const columns = getValuationColumns(layout);
+  if (!columns) return [];
+
+  return [
+    columns.previousQuantityColumn,
+    columns.periodQuantityColumn,
+    columns.cumulativeQuantityColumn,
+    columns.percentCompleteColumn,
+    columns.valueToDateColumn,
+  ];
+}
+
+/**
+ * Matches a settings key such as "Item Code Column" or "BQ_ItemCodeColumn" to a layout field.
+ */
+function findLayoutField(key: string): keyof TableLayout | undefined {
+  const normalizedKey = normalizeSettingKey(key);
+
+  return (Object.keys(DEFAULT_TABLE_LAYOUT) as (keyof TableLayout)[])
+    .find(field => field.toLowerCase() === normalizedKey);
+}
+
+/**
+ * Returns the pricing rate and cost column letters in order.
+ */
+function getPricingColumnLetters(layout: TableLayout): string[] {
+  const letters: string[] = [];
+
+  getPricingColumns(layout).forEach(pricing => {
+    letters.push(pricing.rateColumn, pricing.costColumn);
+  });
+
+  return letters;
+}
+
+
+// ===== BUNDLED MODULE - src/core/settings.ts ===== //
+
+/**
+ * Core BQ Model: Settings
+ *
+ * Looks up key/value settings read from the "BQ_Config" sheet or `BQ_*`
+ * named ranges. Keys are matched case-insensitively ignoring spaces,
+ * underscores and an optional "BQ" prefix, so "Reletter Sections" and
+ * "BQ_ReletterSections" name the same setting.
+ */
+
+/**
+ * Normalizes a settings key for comparison.
+ * Example: 'BQ_Header Row' → 'headerrow'
+ *
+ * @param {string} key - The raw setting name.
+ * @returns {string} The key in lowercase with non-alphanumerics and the "bq" prefix removed.
+ */
+function normalizeSettingKey(key: string): string {
+  return String(key).toLowerCase().replace(/[^a-z0-9]/g, "").replace(/^bq/, "");
+}
+
+/**
+ * Returns the last non-empty value configured for a setting.
+ *
+ * @param {[string, CellFormula][]} settings - Key/value pairs, later pairs override earlier ones.
+ * @param {string} name - The setting name (e.g. "Reletter Sections").
+ * @returns {CellFormula | undefined} The value, or undefined if the setting is not configured.
+ */
+function findSetting(settings: [string, CellFormula][], name: string): CellFormula | undefined {
+  const normalizedName = normalizeSettingKey(name);
+  let found: CellFormula | undefined;
+
+  settings.forEach(([key, value]) => {
+    if (normalizeSettingKey(key) === normalizedName && value !== "" && value !== null && value !== undefined) {
+      found = value;
+    }
+  });
+
+  return found;
+}
+
+/**
+ * Reads a yes/no setting. Accepts TRUE/FALSE cells as well as "yes"/"no", "on"/"off" and 1/0.
+ *
+ * @param {[string, CellFormula][]} settings - Key/value pairs, later pairs override earlier ones.
+ * @param {string} name - The setting name.
+ * @param {boolean} defaultValue - Returned if the setting is not configured.
+ * @returns {boolean} The configured value.
+ * @throws If the value is not recognised as yes or no.
+ */
+function resolveBooleanSetting(settings: [string, CellFormula][], name: string, defaultValue: boolean): boolean {
+  const value = findSetting(settings, name);
+  if (value === undefined) return defaultValue;
+  if (typeof value === "boolean") return value;
+
+  const normalizedValue = String(value).trim().toLowerCase();
+  if (["true", "yes", "y", "on", "1"].includes(normalizedValue)) return true;
+  if (["false", "no", "n", "off", "0"].includes(normalizedValue)) return false;
+
+  throw new Error(`Invalid setting "${name}": ${value} is not yes or no`);
+}
+
+/**
+ * Converts a settings cell to the value its owner typed: a number in a
+ * percentage-formatted cell is read as its displayed percentage (0.1 → "10%"),
+ * so that it is not mistaken for a bare 0.1.
+ *
+ * @param {CellFormula} value - The cell value.
+ * @param {string} numberFormat - The cell's number format (e.g. "0.0%" or "General").
+ * @returns {CellFormula} The setting value.
+ */
+function toSettingValue(value: CellFormula, numberFormat: string): CellFormula {
+  if (typeof value !== "number" || !/%/.test(numberFormat.replace(/"[^"]*"/g, ""))) return value;
+  return `${Number((value * 100).toPrecision(12))}%`;
+}
+
+/**
+ * Reads a fraction setting (e.g. a match threshold), given as 0.6 or as 60%.
+ *
+ * @param {[string, CellFormula][]} settings - Key/value pairs, later pairs override earlier ones.
+ * @param {string} name - The setting name.
+ * @param {number} defaultValue - Returned if the setting is not configured.
+ * @returns {number} The fraction, or NaN if the value is not a number.
+ */
+function resolveFractionSetting(settings: [string, CellFormula][], name: string, defaultValue: number): number {
+  const value = findSetting(settings, name);
+  if (value === undefined) return defaultValue;
+
+  const text = String(value).trim();
+  return text.endsWith("%") ? Number(text.slice(0, -1)) / 100 : Number(text);
+}
+
+
+// ===== BUNDLED MODULE - src/excel/valuation.ts ===== //
+
+/**
+ * ExcelScript Adapter: Valuation
+ *
+ * Writes the optional valuation columns (see `core/valuation`) and closes
+ * valuation periods.
+ */
+
+/**
+ * Rewrites the valuation header labels, changed row formulas and grand total cells,
+ * keeping the previous and this-period quantities already entered.
+ *
+ * @param {ExcelScript.Worksheet} sheet - The worksheet containing the activity table.
+ * @param {TableLayout} layout - The table layout, with valuation columns switched on.
+ * @param {Activity[]} activities - The parsed activities, with `hasChild` set.
+ * @param {CellFormula[][]} tableData2D - The formulas the activities were parsed from.
+ * @param {number} grandTotalRow - The grand total row.
+ * @param {number[]} [rowIndices] - Only refresh these rows (see `getRefreshIndices`); every row if omitted.
+ */
+function writeValuationColumns(
+  sheet: ExcelScript.Worksheet,
+  layout: TableLayout,
+  activities: Activity[],
+  tableData2D: CellFormula[][],
+  grandTotalRow: number,
+  rowIndices?: number[]
+): void {
+  const columns = getValuationColumns(layout) as ValuationColumns;
+  const columnLetters = [
+    columns.previousQuantityColumn,
+    columns.periodQuantityColumn,
+    columns.cumulativeQuantityColumn,
+    columns.percentCompleteColumn,
+    columns.valueToDateColumn,
+  ];
+  const dataTopRow = layout.headerRow + 1;
+
+  // 01 - Header labels
+  sheet.getRange(`${columns.previousQuantityColumn}${layout.headerRow}:${columns.valueToDateColumn}${layout.headerRow}`)
+    .setValues([VALUATION_HEADER_LABELS]);
+
+  // 02 - Changed row formulas, one column at a time, then the grand total cells
+  const valuationRows = computeValuationFormulas(activities, tableData2D, layout);
+  columnLetters.forEach((columnLetter, i) => {
+    const currentFormulas = getColumnFormulas(tableData2D, layout, columnLetter);
+    setChangedColumnFormulas(sheet, columnLetter, dataTopRow, currentFormulas, valuationRows.map(row => row[i]), rowIndices);
+  });
+
+  sheet.getRange(`${columns.previousQuantityColumn}${grandTotalRow}:${columns.valueToDateColumn}${grandTotalRow}`)
+    .setFormulas([buildValuationTotalFormulas(activities, grandTotalRow, layout) as string[]]);
+
+  // 03 - Number formats
+  sheet.getRange(`${columns.percentCompleteColumn}${dataTopRow}:${columns.percentCompleteColumn}${grandTotalRow}`)
+    .setNumberFormatLocal("0.0%");
+  sheet.getRange(`${columns.valueToDateColumn}${dataTopRow}:${columns.valueToDateColumn}${grandTotalRow}`)
+    .setNumberFormatLocal("_(* #,##0.00_);_(* (#,##0.00);_(* \"-\"??_);_(@_)");
+}
+
+/**
+ * Closes the current valuation period on the active worksheet: each measured
+ * row's cumulative quantity becomes its previous quantity and this period's
+ * quantity is reset to 0. The table is saved to "BQ_History" first.
+ *
+ * @param {ExcelScript.Workbook} workbook - The workbook containing the active worksheet.
+ * @param {TableLayout} layout - The table layout.
+ * @returns {number} The number of measured rows rolled forward.
+ * @throws If the valuation columns are not switched on.
+ */
+function closeValuationPeriodOnSheet(workbook: ExcelScript.Workbook, layout: TableLayout): number {
+  const columns = getValuationColumns(layout);
+
+  if (!columns) {
+    throw new Error(`Period not closed - set "Valuation Start Column" on BQ_Config to switch the valuation columns on!`);
+  }
+
+  // 01 - Read the rows and their calculated cumulative quantities
+  const sheet = workbook.getActiveWorksheet();
+  const dataTopRow = layout.headerRow + 1;
+  const dataBottomRow = getBottomTotalsRow(sheet, layout) - 1;
+
+  if (dataBottomRow < dataTopRow) {
+    console.log("The table is empty!");
+    return 0;
+  }
+
+  const rowsRange = getTableRowsRange(sheet, layout, dataTopRow, dataBottomRow);
+  const { activityObjectsArray } = parseBQTable(rowsRange.getFormulas(), dataTopRow, layout);
+  const cumulativeOffset = getColumnOffset(layout, columns.cumulativeQuantityColumn);
+  const cumulativeValues = rowsRange.getValues().map(row => row[cumulativeOffset]);
+
+  // 02 - Snapshot, then roll cumulative into previous
+  const roles = getValuationRoles(activityObjectsArray);
+  const closedRows = closeValuationPeriod(roles, cumulativeValues);
+
+  saveTableSnapshot(workbook, layout, "Close Valuation Period");
+  setColumnFormulas(sheet, columns.previousQuantityColumn, dataTopRow, closedRows.map(row => row[0]));
+  setColumnFormulas(sheet, columns.periodQuantityColumn, dataTopRow, closedRows.map(row => row[1]));
+
+  return roles.filter(role => role === "measured").length;
+}
+
+
+// ===== BUNDLED MODULE - src/core/valuation.ts ===== //
+
+/**
+ * Core BQ Model: Valuation
+ *
+ * Optional measured-progress columns for interim payment claims, placed at
+ * the layout's "Valuation Start Column" (see `getValuationColumns`):
+ *
+ *   Previous Qty | This Period Qty | Cumulative Qty | % Complete | Value to Date
+ *
+ * Rows follow the same roll-up rules as the cost formulas:
+ * - measured: leaves, parents that keep their own quantity (rate = SUM of
+ *   children) and manual override parents; previous and this-period
+ *   quantities are input cells, cumulative = previous + this period,
+ *   value to date = cumulative * rate
+ * - sum: Provisional and Prime Cost Sums, which have no quantity to measure;
+ *   % complete is the input cell, value to date = % complete * cost
+ * - roll-up: lump sum parents; value to date = SUM of their children's
+ * - none: rows beneath a measured parent, which only make up that parent's
+ *   rate and are valued through it, and Rate Only items
+ * % complete is value to date over cost for roll-ups, cumulative over
+ * quantity for measured rows.
+ */
+
+/** How a row takes part in the valuation. */
+type ValuationRole = "measured" | "sum" | "rollup" | "none";
+
+/** Header labels of the five valuation columns, in order. */
+const VALUATION_HEADER_LABELS = ["Previous Qty", "This Period Qty", "Cumulative Qty", "% Complete", "Value to Date"];
+
+/**
+ * Determines each row's valuation role (see the module notes).
+ *
+ * @param {Activity[]} activities - All activities in worksheet order, with `hasChild` set.
+ * @returns {ValuationRole[]} One role per activity.
+ */
+function getValuationRoles(activities: Activity[]): ValuationRole[] {
+  const { parentIndices } = buildActivityTree(activities.map(activity => activity.itemCode));
+  const roles: ValuationRole[] = [];
+
+  activities.forEach((activity, i) => {
+    const parentIndex = parentIndices[i];
+    const parentRole = parentIndex === -1 ? "rollup" : roles[parentIndex];
+    const itemType = activity.hasChild ? "" : resolveItemType(activity.itemType);
+
+    if (parentRole !== "rollup" || itemType === "RO") {
+      roles.push("none");
+    } else if (itemType === "PS" || itemType === "PC") {
+      roles.push("sum");
+    } else if (activity.hasChild && getRollUpMode(activity) === "LS") {
+      roles.push("rollup");
+    } else {
+      roles.push("measured");
+    }
+  });
+
+  return roles;
+}
+
+/**
+ * Computes the five valuation cells for every activity, keeping the previous and
+ * this-period quantities already entered on measured rows and the % complete
+ * entered on sum rows (blank or a formula → 0).
+ *
+ * @param {Activity[]} activities - All activities in worksheet order, with `hasChild` set.
+ * @param {CellFormula[][]} tableData2D - The same rows as read across the table's column span.
+ * @param {TableLayout} layout - The table layout, with valuation columns switched on.
+ * @returns {CellFormula[][]} One row of five valuation cells per activity.
+ */
+function computeValuationFormulas(activities: Activity[], tableData2D: CellFormula[][], layout: TableLayout): CellFormula[][] {
+  const columns = getValuationColumns(layout) as ValuationColumns;
+  const roles = getValuationRoles(activities);
+  const { childIndices } = buildActivityTree(activities.map(activity => activity.itemCode));
+
+  return activities.map((activity, i) => {
+    const row = activity.rowNumber;
+
+    if (roles[i] === "measured") {
+      const previous = tableData2D[i][getColumnOffset(layout, columns.previousQuantityColumn)];
+      const period = tableData2D[i][getColumnOffset(layout, columns.periodQuantityColumn)];
+
+      return [
+        previous === "" ? 0 : previous,
+        period === "" ? 0 : period,
+        `=${columns.previousQuantityColumn}${row}+${columns.periodQuantityColumn}${row}`,
+        `=IFERROR(${columns.cumulativeQuantityColumn}${row}/${layout.quantityColumn}${row}, 0)`,
+        `=IFERROR(${columns.cumulativeQuantityColumn}${row}*${layout.rateColumn}${row}, 0)`,
+      ];
+    }
+
+    if (roles[i] === "sum") {
+      const percentComplete = tableData2D[i][getColumnOffset(layout, columns.percentCompleteColumn)];
+
+      return [
+        "",
+        "",
+        "",
+        percentComplete === "" || String(percentComplete).startsWith("=") ? 0 : percentComplete,
+        `=IFERROR(${columns.percentCompleteColumn}${row}*${layout.costColumn}${row}, 0)`,
+      ];
+    }
+
+    if (roles[i] === "rollup") {
+      const childValues = childIndices[i].map(childIndex => `${columns.valueToDateColumn}${activities[childIndex].rowNumber}`);
+
+      return [
+        "",
+        "",
+        "",
+        buildPercentOfCostFormula(row, columns, layout),
+        `=SUM(${childValues.join(",")})`,
+      ];
+    }
+
+    return ["", "", "", "", ""];
+  });
+}
+
+/**
+ * Builds the valuation cells of the grand total row: value to date of all
+ * sections and the overall % complete.
+ *
+ * @param {Activity[]} activities - All activities in the table.
+ * @param {number} grandTotalRow - The grand total row.
+ * @param {TableLayout} layout - The table layout, with valuation columns switched on.
+ * @returns {CellFormula[]} The five valuation cells of the grand total row.
+ */
+function buildValuationTotalFormulas(activities: Activity[], grandTotalRow: number, layout: TableLayout): CellFormula[] {
+  const columns = getValuationColumns(layout) as ValuationColumns;
+  const sectionValues = activities
+    .filter(activity => activity.hierarchyLevel === 0)
+    .map(activity => `${columns.valueToDateColumn}${activity.rowNumber}`);
+
+  return ["", "", "", buildPercentOfCostFormula(grandTotalRow, columns, layout), `=SUM(${sectionValues.join(",")})`];
+}
+
+/**
+ * Closes a valuation period: on measured rows the cumulative quantity becomes the
+ * previous quantity and this period's quantity is reset to 0.
+ *
+ * @param {ValuationRole[]} roles - Each row's valuation role (see `getValuationRoles`).
+ * @param {CellFormula[]} cumulativeValues - Each row's calculated cumulative quantity.
+ * @returns {CellFormula[][]} One `[previous, this period]` pair per row ("" on other rows).
+ */
+function closeValuationPeriod(roles: ValuationRole[], cumulativeValues: CellFormula[]): CellFormula[][] {
+  return roles.map((role, i) => {
+    if (role !== "measured") return ["", ""];
+
+    const cumulative = cumulativeValues[i];
+    return [typeof cumulative === "number" ? cumulative : 0, 0];
+  });
+}
+
+/**
+ * Builds the % complete formula for a row valued against its cost.
+ */
+function buildPercentOfCostFormula(rowNumber: number, columns: ValuationColumns, layout: TableLayout): string {
+  return `=IFERROR(${columns.valueToDateColumn}${rowNumber}/${layout.costColumn}${rowNumber}, 0)`;
+}
+
+
+// ===== BUNDLED MODULE - src/core/itemTypes.ts ===== //
+
+/**
+ * Core BQ Model: Item Types
+ *
+ * Leaf items can be marked in the layout's "Item Type Column" with a type
+ * that changes how they are priced (see `computeRowFormulasFromTree`):
+ *
+ *   (blank) Measured         qty * rate
+ *   PS      Provisional Sum  fixed amount in the rate column, no quantity (unit "sum")
+ *   PC      Prime Cost Sum   amount in the rate column plus the attendance and
+ *                            profit % in the quantity column: amount * (1 + % / 100)
+ *   RO      Rate Only        rate shown but no cost, so it adds nothing to totals
+ *   DW      Daywork          qty * rate, kept visually distinct
+ *
+ * Long names ("Provisional Sum", "Prime Cost", "Rate Only", "Daywork") are
+ * accepted and rewritten as the short marker by the formula update.
+ * Parents always roll up their children, whatever their marker.
+ *
+ * The PC percentage is entered in percentage points (10 for 10%), like the
+ * summary's percentages, since the quantity column keeps its number format.
+ */
+
+/** Short markers of the item types; "" is a measured item. */
+type ItemType = "" | "PS" | "PC" | "RO" | "DW";
+
+/** Names accepted for each item type (compared lower-case, letters only). */
+const ITEM_TYPE_ALIASES: Record<ItemType, string[]> = {
+  "": ["", "m", "measured"],
+  PS: ["ps", "provisionalsum", "provisional"],
+  PC: ["pc", "pcsum", "primecost", "primecostsum"],
+  RO: ["ro", "rateonly"],
+  DW: ["dw", "daywork", "dayworks"],
+};
+
+/** Text written in the cost column of Rate Only items. */
+const RATE_ONLY_COST_LABEL = "Rate only";
+
+/**
+ * Returns the marker to write back to the item type column: the short form of
+ * a recognised marker, or the text unchanged so validation can report it.
+ *
+ * @param {string} marker - The item type cell text.
+ * @returns {string} e.g. "PS" for "Provisional Sum".
+ */
+function normalizeItemTypeMarker(marker: string): string {
+  const itemType = resolveItemType(marker);
+  return itemType === undefined ? marker : itemType;
+}
+
+/**
+ * Resolves an item type marker to its short form.
+ *
+ * @param {string} marker - The item type cell text (e.g. "PS" or "Provisional Sum").
+ * @returns {ItemType | undefined} The item type, or undefined if the marker is not recognised.
+ */
+function resolveItemType(marker: string): ItemType | undefined {
+  const normalizedMarker = String(marker).toLowerCase().replace(/[^a-z]/g, "");
+
+  return (Object.keys(ITEM_TYPE_ALIASES) as ItemType[])
+    .find(itemType => ITEM_TYPE_ALIASES[itemType].includes(normalizedMarker));
+}
+
+
+// ===== BUNDLED MODULE - src/core/rollUpModes.ts ===== //
+
+/**
+ * Core BQ Model: Roll-up Modes
+ *
+ * How a parent row is priced from its children, set per row in the layout's
+ * "Roll-up Mode Column" (see Switch Roll-up Mode):
+ *
+ *   LS      Lump sum        qty 1, unit "LS", cost = SUM of children
+ *   Rate    Composite rate  own quantity and unit kept, rate = SUM of children
+ *   Manual  Manual override quantity, unit, rate and cost left as typed
+ *
+ * Parents without a mode fall back to the original guess: a real quantity in
+ * a measured unit keeps its quantity (Rate), anything else is a lump sum.
+ */
+
+/** How a parent row is priced from its children. */
+type RollUpMode = "LS" | "Rate" | "Manual";
+
+/** Roll-up modes in the order Switch Roll-up Mode cycles through them. */
+const ROLL_UP_MODES: RollUpMode[] = ["LS", "Rate", "Manual"];
+
+/** Names accepted for each mode (compared lower-case, letters only). */
+const ROLL_UP_MODE_ALIASES: Record<RollUpMode, string[]> = {
+  LS: ["ls", "lumpsum"],
+  Rate: ["rate", "compositerate", "cr", "perunit", "rateperunit"],
+  Manual: ["manual", "override", "manualoverride", "mo"],
+};
+
+/**
+ * Resolves a roll-up mode marker to its canonical form.
+ *
+ * @param {string} marker - The roll-up mode cell text (e.g. "Rate" or "Composite Rate").
+ * @returns {RollUpMode | "" | undefined} The mode, "" for a blank marker, or undefined if not recognised.
+ */
+function resolveRollUpMode(marker: string): RollUpMode | "" | undefined {
+  const normalizedMarker = String(marker).toLowerCase().replace(/[^a-z]/g, "");
+  if (normalizedMarker === "") return "";
+
+  return ROLL_UP_MODES.find(mode => ROLL_UP_MODE_ALIASES[mode].includes(normalizedMarker));
+}
+
+/**
+ * Returns the marker to write back to the roll-up mode column: the canonical
+ * form of a recognised marker, or the text unchanged so validation can report it.
+ *
+ * @param {string} marker - The roll-up mode cell text.
+ * @returns {string} e.g. "Rate" for "composite rate".
+ */
+function normalizeRollUpModeMarker(marker: string): string {
+  const mode = resolveRollUpMode(marker);
+  return mode === undefined ? marker : mode;
+}
+
+/**
+ * Determines how a parent row is rolled up: its explicit mode if it has a
+ * recognised one, otherwise the guess from its quantity and unit.
+ *
+ * @param {Activity} activity - The parent activity.
+ * @returns {RollUpMode} The mode the formula update applies.
+ */
+function getRollUpMode(activity: Activity): RollUpMode {
+  const mode = resolveRollUpMode(activity.rollUpMode);
+  if (mode !== undefined && mode !== "") return mode;
+
+  const keepsQuantity =
+    !isLumpSumUnit(activity.unit) &&
+    activity.quantity !== 1 &&
+    activity.quantity !== "[qty]";
+
+  return keepsQuantity ? "Rate" : "LS";
+}
+
+/**
+ * Returns the mode after `mode` in the Switch Roll-up Mode cycle (LS → Rate → Manual → LS).
+ *
+ * @param {RollUpMode} mode - The current mode.
+ * @returns {RollUpMode} The next mode.
+ */
+function getNextRollUpMode(mode: RollUpMode): RollUpMode {
+  return ROLL_UP_MODES[(ROLL_UP_MODES.indexOf(mode) + 1) % ROLL_UP_MODES.length];
+}
+
+
+// ===== BUNDLED MODULE - src/core/units.ts ===== //
+
+/**
+ * Core BQ Model: Units of Measure
+ *
+ * The catalogue of units leaf items are measured in. The formula update
+ * rewrites common variants in their catalogue form ("m²", "sqm" → m2) and
+ * offers the catalogue as a drop-down on leaf unit cells; Validate BQ warns
+ * about units outside it.
+ *
+ * Each unit has a kind, so that roll-ups can tell lump sums (not kept as a
+ * parent's own quantity unless its roll-up mode says so, see `getRollUpMode`)
+ * from measured units.
+ */
+
+/** What a unit measures. */
+type UnitKind = "length" | "area" | "volume" | "mass" | "count" | "time" | "lumpSum";
+
+/** A catalogue unit and the variants rewritten to it. */
+interface CatalogueUnit {
+  unit: string,
+  kind: UnitKind,
+  aliases: string[],
+}
+
+/** The units catalogue, in drop-down order. Aliases are compared as keys (see `toUnitKey`). */
+const UNIT_CATALOGUE: CatalogueUnit[] = [
+  { unit: "m", kind: "length", aliases: ["lm", "linm", "rm", "metre", "metres", "meter", "meters"] },
+  { unit: "m2", kind: "area", aliases: ["sqm", "squaremetre", "squaremetres", "squaremeter", "squaremeters"] },
+  { unit: "m3", kind: "volume", aliases: ["cum", "cubicmetre", "cubicmetres", "cubicmeter", "cubicmeters"] },
+  { unit: "kg", kind: "mass", aliases: ["kgs", "kilo", "kilos", "kilogram", "kilograms"] },
+  { unit: "t", kind: "mass", aliases: ["ton", "tons", "tonne", "tonnes"] },
+  { unit: "nr", kind: "count", aliases: ["no", "nos", "number", "ea", "each", "pc", "pcs"] },
+  { unit: "item", kind: "count", aliases: ["items", "itm"] },
+  { unit: "hr", kind: "time", aliases: ["h", "hrs", "hour", "hours"] },
+  { unit: "day", kind: "time", aliases: ["days", "dy"] },
+  { unit: "LS", kind: "lumpSum", aliases: ["lumpsum"] },
+  { unit: "sum", kind: "lumpSum", aliases: ["sums"] },
+];
+
+/**
+ * Finds the catalogue entry for a unit or one of its variants.
+ *
+ * @param {string} unit - The unit cell text (e.g. "m²", "Sq.m", "LS").
+ * @returns {CatalogueUnit | undefined} The catalogue entry, or undefined if the unit is not in the catalogue.
+ */
+function findCatalogueUnit(unit: string): CatalogueUnit | undefined {
+  const key = toUnitKey(unit);
+  if (key === "") return undefined;
+
+  return UNIT_CATALOGUE.find(entry => toUnitKey(entry.unit) === key || entry.aliases.includes(key));
+}
+
+/**
+ * Returns the unit to write back to a unit cell: the catalogue form of a known
+ * unit, or the text unchanged so Validate BQ can report it.
+ *
+ * @param {string} unit - The unit cell text.
+ * @returns {string} e.g. "m2" for "m²".
+ */
+function normalizeUnit(unit: string): string {
+  const entry = findCatalogueUnit(unit);
+  return entry ? entry.unit : unit;
+}
+
+/**
+ * Determines whether two units are the same once normalised ("m²" and "sqm"
+ * are both m2), ignoring case for units outside the catalogue.
+ *
+ * @param {string} a - A unit.
+ * @param {string} b - Another unit.
+ * @returns {boolean} True if both name the same unit.
+ */
+function isSameUnit(a: string, b: string): boolean {
+  return normalizeUnit(String(a).trim()).toLowerCase() === normalizeUnit(String(b).trim()).toLowerCase();
+}
+
+/**
+ * Determines whether a unit is a lump sum (LS, sum) rather than a measured unit.
+ *
+ * @param {string} unit - The unit cell text.
+ * @returns {boolean} True for lump sum units and their variants.
+ */
+function isLumpSumUnit(unit: string): boolean {
+  const entry = findCatalogueUnit(unit);
+  return entry !== undefined && entry.kind === "lumpSum";
+}
+
+/**
+ * Reduces a unit to its comparison key: lower case, superscripts as digits,
+ * without spaces, dots or carets ("Sq. m" → "sqm", "m³" → "m3").
+ */
+function toUnitKey(unit: string): string {
+  return String(unit)
+    .toLowerCase()
+    .replace(/²/g, "2")
+    .replace(/³/g, "3")
+    .replace(/[\s.^]/g, "");
+}
+
+
+// ===== BUNDLED MODULE - src/core/refresh.ts ===== //
+
+/**
+ * Core BQ Model: Incremental Refresh
+ *
+ * Keeps formula updates on large BQs within the Office Scripts time limits:
+ * - only cells whose formula differs from the one read from the sheet are
+ *   written, as runs of consecutive rows (see `getChangedColumnRuns`);
+ * - after an insert or delete, only the touched rows' subtrees and their
+ *   ancestors are considered (see `getRefreshIndices`). Rows elsewhere keep
+ *   formulas that only reference their own row and their children, which
+ *   Excel shifts with the inserted or deleted rows.
+ */
+
+/** Worksheet rows touched by an insert or delete (inserted rows, or the rows either side of a deletion). */
+interface RefreshScope {
+  topRow: number,
+  bottomRow: number,
+}
+
+/**
+ * Above this many runs in one column, the changed cells are written in one
+ * call spanning them all: each call costs a round trip, which soon outweighs
+ * rewriting the unchanged cells in between.
+ */
+const MAX_COLUMN_RUNS = 20;
+
+/** A run of consecutive rows to write into one column. */
+interface ColumnRun {
+  startIndex: number,
+  formulas: CellFormula[],
+}
+
+/**
+ * Returns the rows whose formulas can change after the given rows were
+ * touched: each touched row's whole subtree, and every ancestor (whose
+ * roll-up includes it).
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number[]} touchedIndices - Indices of the touched rows; indices outside the table are ignored.
+ * @returns {number[]} Indices of the rows to refresh, top to bottom.
+ */
+function getRefreshIndices(itemCodes: string[], touchedIndices: number[]): number[] {
+  const { parentIndices } = buildActivityTree(itemCodes);
+  const marked: boolean[] = itemCodes.map(() => false);
+
+  touchedIndices
+    .filter(index => index >= 0 && index < itemCodes.length)
+    .forEach(index => {
+
+      // The touched row's subtree
+      const subtreeEndIndex = getSubtreeEndIndex(itemCodes, index);
+      for (let i = index; i <= subtreeEndIndex; i++) marked[i] = true;
+
+      // Its ancestors, stopping at one already marked (the rest of the chain is too)
+      let parentIndex = parentIndices[index];
+      while (parentIndex !== -1 && !marked[parentIndex]) {
+        marked[parentIndex] = true;
+        parentIndex = parentIndices[parentIndex];
+      }
+    });
+
+  const indices: number[] = [];
+  marked.forEach((isMarked, i) => {
+    if (isMarked) indices.push(i);
+  });
+
+  return indices;
+}
+
+/**
+ * Determines whether a computed cell matches the cell read from the sheet
+ * (numbers read back as numbers, so 1 and "1" are the same cell).
+ *
+ * @param {CellFormula} current - The formula or value read from the sheet.
+ * @param {CellFormula} next - The computed formula or value.
+ * @returns {boolean} True if writing `next` would not change the cell.
+ */
+function isSameCellFormula(current: CellFormula, next: CellFormula): boolean {
+  return current === next || String(current) === String(next);
+}
+
+/**
+ * Groups the cells of one column that need writing into runs of consecutive rows.
+ * Past `MAX_COLUMN_RUNS` runs, returns a single run from the first changed row
+ * to the last, in which rows that are unchanged or not considered keep the
+ * cell read from the sheet.
+ *
+ * @param {CellFormula[]} current - The column as read from the sheet, one cell per row.
+ * @param {CellFormula[]} next - The computed column, one cell per row.
+ * @param {number[]} [rowIndices] - The rows to consider, top to bottom (every row if omitted).
+ * @returns {ColumnRun[]} The runs to write, top to bottom.
+ */
+function getChangedColumnRuns(current: CellFormula[], next: CellFormula[], rowIndices?: number[]): ColumnRun[] {
+  const runs: ColumnRun[] = [];
+  let lastIndex = -2;
+
+  // 01 - Collect the runs of consecutive changed rows
+  (rowIndices || next.map((_, i) => i)).forEach(i => {
+    if (isSameCellFormula(current[i], next[i])) return;
+
+    if (i === lastIndex + 1) {
+      runs[runs.length - 1].formulas.push(next[i]);
+    } else {
+      runs.push({ startIndex: i, formulas: [next[i]] });
+    }
+    lastIndex = i;
+  });
+
+  // 02 - Merge them into one run if there are too many to write separately
+  if (runs.length > MAX_COLUMN_RUNS) {
+    const startIndex = runs[0].startIndex;
+    const merged = current.slice(startIndex, lastIndex + 1);
+
+    runs.forEach(run => run.formulas.forEach((formula, offset) => {
+      merged[run.startIndex - startIndex + offset] = formula;
+    }));
+
+    return [{ startIndex, formulas: merged }];
+  }
+
+  return runs;
+}
+
+/**
+ * Extracts one column from rows read across the table's column span.
+ *
+ * @param {CellFormula[][]} tableData2D - The rows as read from the sheet.
+ * @param {TableLayout} layout - The table layout the rows were read with.
+ * @param {string} columnLetter - The column to extract.
+ * @returns {CellFormula[]} One cell per row.
+ */
+function getColumnFormulas(tableData2D: CellFormula[][], layout: TableLayout, columnLetter: string): CellFormula[] {
+  const offset = getColumnOffset(layout, columnLetter);
+  return tableData2D.map(row => row[offset]);
+}
+
+
+// ===== BUNDLED MODULE - src/core/restructure.ts ===== //
+
+/**
+ * Core BQ Model: Structural Changes
+ *
+ * Plans structural edits (promote, demote, reorder, insert) on the list of
+ * item codes in worksheet order. Each plan returns the new item codes plus
+ * the row block moves or insertion point the worksheet must replay to match them.
+ *
+ * A "subtree block" is an item and all of its descendants, which always
+ * occupy consecutive rows in a depth-first ordered table.
+ */
+
+/** Moves rows `startIndex`..`endIndex` so they sit immediately before `insertBeforeIndex` (indices before the move). */
+interface BlockMove {
+  startIndex: number,
+  endIndex: number,
+  insertBeforeIndex: number,
+}
+
+/** The outcome of a structural edit. */
+interface RestructurePlan {
+  itemCodes: string[],
+  moves: BlockMove[],
+  levelChangedIndices: number[],
+}
+
+/** New rows to insert at `insertionIndex`, and every item code after the insertion. */
+interface InsertionPlan {
+  insertionIndex: number,
+  rowCount: number,
+  itemCodes: string[],
+}
+
+/**
+ * Returns the index of the last descendant of the item at `index`
+ * (or `index` itself if it has none).
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number} index - Index of the subtree root.
+ * @returns {number} The inclusive end index of the subtree block.
+ */
+function getSubtreeEndIndex(itemCodes: string[], index: number): number {
+  const prefix = itemCodes[index] + "-";
+  let endIndex = index;
+
+  while (endIndex + 1 < itemCodes.length && itemCodes[endIndex + 1].startsWith(prefix)) {
+    endIndex++;
+  }
+
+  return endIndex;
+}
+
+/**
+ * Returns the subtree roots covered by a selection: the first selected item,
+ * then each item following the previous root's subtree, up to `endIndex`.
+ * A selection ending mid-subtree still carries the whole subtree.
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number} startIndex - First selected index.
+ * @param {number} endIndex - Last selected index.
+ * @returns {number[]} Indices of the selected subtree roots, top to bottom.
+ */
+function getSelectedSubtreeRoots(itemCodes: string[], startIndex: number, endIndex: number): number[] {
+  const roots: number[] = [];
+
+  for (let i = startIndex; i <= endIndex; i = getSubtreeEndIndex(itemCodes, i) + 1) {
+    roots.push(i);
+  }
+
+  return roots;
+}
+
+/**
+ * Returns the index of the nearest preceding sibling of the item at `index`, or -1 if it is the first child.
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number} index - Index of the item.
+ * @returns {number} Index of the previous sibling, or -1.
+ */
+function getPreviousSiblingIndex(itemCodes: string[], index: number): number {
+  const level = getHierarchyLevel(itemCodes[index]);
+
+  for (let i = index - 1; i >= 0; i--) {
+    const candidateLevel = getHierarchyLevel(itemCodes[i]);
+    if (candidateLevel === level) return i;
+    if (candidateLevel < level) return -1;
+  }
+
+  return -1;
+}
+
+/**
+ * Returns the index of the next sibling of the item at `index`, or -1 if it is the last child.
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number} index - Index of the item.
+ * @returns {number} Index of the next sibling, or -1.
+ */
+function getNextSiblingIndex(itemCodes: string[], index: number): number {
+  const nextIndex = getSubtreeEndIndex(itemCodes, index) + 1;
+
+  if (nextIndex >= itemCodes.length) return -1;
+
+  return getHierarchyLevel(itemCodes[nextIndex]) === getHierarchyLevel(itemCodes[index]) ? nextIndex : -1;
+}
+
+/**
+ * Returns a copy of `items` with a block move applied.
+ *
+ * @param {T[]} items - The items in their current order.
+ * @param {BlockMove} move - The move to apply.
+ * @returns {T[]} The reordered items.
+ */
+function applyBlockMove<T>(items: T[], move: BlockMove): T[] {
+  const block = items.slice(move.startIndex, move.endIndex + 1);
+  const remaining = items.slice(0, move.startIndex).concat(items.slice(move.endIndex + 1));
+  const insertAt = move.insertBeforeIndex > move.endIndex
+    ? move.insertBeforeIndex - block.length
+    : move.insertBeforeIndex;
+
+  return remaining.slice(0, insertAt).concat(block, remaining.slice(insertAt));
+}
+
+/**
+ * Plans demoting each selected subtree one level, making it the last child
+ * of its previous sibling (e.g. A-2 → A-1-3, A-2-1 → A-1-3-1).
+ * No rows move: a subtree already follows its previous sibling's subtree.
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number[]} rootIndices - Subtree roots to demote (see `getSelectedSubtreeRoots`).
+ * @returns {RestructurePlan} The reindexed codes; `moves` is always empty.
+ * @throws If a selected item has no previous sibling to become its parent.
+ */
+function planDemotion(itemCodes: string[], rootIndices: number[]): RestructurePlan {
+  let codes = itemCodes.slice();
+
+  // 01 - Demote top-down so consecutive siblings all join the same new parent
+  rootIndices.slice().sort((a, b) => a - b).forEach(index => {
+    const previousSiblingIndex = getPreviousSiblingIndex(codes, index);
+
+    if (previousSiblingIndex === -1) {
+      throw new Error(`Cannot demote ${codes[index]}: it has no previous sibling to become its parent`);
+    }
+
+    const newRootCode = `${codes[previousSiblingIndex]}-${Number.MAX_SAFE_INTEGER}`;
+    codes = reindexItemCodes(rewriteSubtreeCodes(codes, index, newRootCode));
+  });
+
+  return {
+    itemCodes: codes,
+    moves: [],
+    levelChangedIndices: getLevelChangedIndices(itemCodes.map(code => getHierarchyLevel(code)), codes)
+  };
+}
+
+/**
+ * Plans promoting each selected subtree one level, making it the next
+ * sibling of its former parent (e.g. A-1-2 → A-2, moved below A-1's subtree).
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number[]} rootIndices - Subtree roots to promote (see `getSelectedSubtreeRoots`).
+ * @returns {RestructurePlan} The reindexed codes and the row moves to replay.
+ * @throws If a selected item is a section (level 0) or would become one (level 1), or its parent row is missing.
+ */
+function planPromotion(itemCodes: string[], rootIndices: number[]): RestructurePlan {
+  let codes = itemCodes.slice();
+  let levels = itemCodes.map(code => getHierarchyLevel(code));
+  const moves: BlockMove[] = [];
+
+  // 01 - Promote bottom-up so promoted siblings keep their relative order
+  rootIndices.slice().sort((a, b) => b - a).forEach(index => {
+    const code = codes[index];
+    const level = getHierarchyLevel(code);
+
+    if (level < 2) {
+      throw new Error(`Cannot promote ${code}: level ${level} items cannot be promoted to a section`);
+    }
+
+    // 01a - Rewrite the subtree under the grandparent, then move it below the parent's subtree
+    const parentCode = code.slice(0, code.lastIndexOf("-"));
+    const grandparentCode = parentCode.slice(0, parentCode.lastIndexOf("-"));
+    const parentIndex = codes.indexOf(parentCode);
+
+    if (parentIndex === -1) {
+      throw new Error(`Cannot promote ${code}: it has no parent ${parentCode} in the table`);
+    }
+
+    const parentEndIndex = getSubtreeEndIndex(codes, parentIndex);
+    const endIndex = getSubtreeEndIndex(codes, index);
+
+    codes = rewriteSubtreeCodes(codes, index, `${grandparentCode}-${Number.MAX_SAFE_INTEGER}`);
+
+    if (endIndex < parentEndIndex) {
+      const move: BlockMove = { startIndex: index, endIndex, insertBeforeIndex: parentEndIndex + 1 };
+      moves.push(move);
+      codes = applyBlockMove(codes, move);
+      levels = applyBlockMove(levels, move);
+    }
+
+    codes = reindexItemCodes(codes);
+  });
+
+  return { itemCodes: codes, moves, levelChangedIndices: getLevelChangedIndices(levels, codes) };
+}
+
+/**
+ * Plans swapping the selected subtree(s) with the adjacent sibling block above or below.
+ * Several selected roots move together and must be consecutive siblings.
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number[]} rootIndices - Subtree roots to move (see `getSelectedSubtreeRoots`).
+ * @param {"up" | "down"} direction - Which sibling to swap with.
+ * @returns {RestructurePlan} The reindexed codes and the single row move to replay.
+ * @throws If the roots are not siblings or there is no sibling in that direction.
+ */
+function planSiblingMove(itemCodes: string[], rootIndices: number[], direction: "up" | "down"): RestructurePlan {
+  const roots = rootIndices.slice().sort((a, b) => a - b);
+  const firstIndex = roots[0];
+  const lastIndex = roots[roots.length - 1];
+  const endIndex = getSubtreeEndIndex(itemCodes, lastIndex);
+
+  // 01 - Selected roots must be consecutive siblings
+  roots.forEach((index, i) => {
+    if (i > 0 && getNextSiblingIndex(itemCodes, roots[i - 1]) !== index) {
+      throw new Error(`Cannot move ${itemCodes[firstIndex]} and ${itemCodes[index]} together: they are not adjacent siblings`);
+    }
+  });
+
+  // 02 - Find the adjacent sibling block and plan the move
+  let move: BlockMove;
+
+  if (direction === "up") {
+    const siblingIndex = getPreviousSiblingIndex(itemCodes, firstIndex);
+    if (siblingIndex === -1) throw new Error(`Cannot move ${itemCodes[firstIndex]} up: it is already the first item at its level`);
+
+    move = { startIndex: firstIndex, endIndex, insertBeforeIndex: siblingIndex };
+  } else {
+    const siblingIndex = getNextSiblingIndex(itemCodes, lastIndex);
+    if (siblingIndex === -1) throw new Error(`Cannot move ${itemCodes[lastIndex]} down: it is already the last item at its level`);
+
+    move = { startIndex: firstIndex, endIndex, insertBeforeIndex: getSubtreeEndIndex(itemCodes, siblingIndex) + 1 };
+  }
+
+  // 03 - Renumber after the swap (section letters travel with their rows)
+  return {
+    itemCodes: reindexItemCodes(applyBlockMove(itemCodes, move)),
+    moves: [move],
+    levelChangedIndices: []
+  };
+}
+
+/**
+ * Plans inserting new items at the same level as the item at `index`, either
+ * directly above it or directly after its subtree. Later siblings (and their
+ * descendants) are renumbered, e.g. inserting below A-1-1 turns A-1-2 into A-1-3.
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number} index - Index of the selected item.
+ * @param {"above" | "below"} position - Where to insert relative to the selected item.
+ * @param {number} rowCount - Number of sibling rows to insert.
+ * @returns {InsertionPlan} The insertion point and the reindexed codes including the new rows.
+ * @throws If the selected item is a section (level 0).
+ */
+function planSiblingInsertion(
+  itemCodes: string[],
+  index: number,
+  position: "above" | "below",
+  rowCount: number
+): InsertionPlan {
+  const code = itemCodes[index];
+
+  if (getHierarchyLevel(code) === 0) {
+    throw new Error(`Cannot insert a sibling of section ${code}: use Insert Section instead`);
+  }
+
+  // 01 - New rows go above the item, or after its whole subtree
+  const insertionIndex = (position === "above") ? index : getSubtreeEndIndex(itemCodes, index) + 1;
+  const parentCode = code.slice(0, code.lastIndexOf("-"));
+  const newCodes: string[] = new Array(rowCount).fill(`${parentCode}-${Number.MAX_SAFE_INTEGER}`);
+
+  // 02 - Splice in the new rows and renumber
+  const codes = itemCodes.slice(0, insertionIndex).concat(newCodes, itemCodes.slice(insertionIndex));
+
+  return { insertionIndex, rowCount, itemCodes: reindexItemCodes(codes) };
+}
+
+/**
+ * Plans inserting items as the last children of the item at `parentIndex`.
+ * `depths` gives each new item's depth below the parent (1 = child,
+ * 2 = grandchild of the preceding depth-1 item, …), so a whole subtree can be
+ * inserted at once; the new items are numbered after the existing children.
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number} parentIndex - Index of the selected parent item.
+ * @param {number[]} depths - The depth of each new item, in insertion order.
+ * @returns {InsertionPlan} The insertion point and the reindexed codes including the new rows.
+ */
+function planChildInsertion(itemCodes: string[], parentIndex: number, depths: number[]): InsertionPlan {
+  const parentCode = itemCodes[parentIndex];
+  const insertionIndex = getSubtreeEndIndex(itemCodes, parentIndex) + 1;
+
+  // 01 - Give each new row a placeholder code of the right depth, then renumber
+  const newCodes = depths.map(depth => parentCode + `-${Number.MAX_SAFE_INTEGER}`.repeat(depth));
+  const codes = itemCodes.slice(0, insertionIndex).concat(newCodes, itemCodes.slice(insertionIndex));
+
+  return { insertionIndex, rowCount: depths.length, itemCodes: reindexItemCodes(codes) };
+}
+
+/**
+ * Plans inserting a new, empty section (level 0) either directly above the
+ * section containing the item at `index`, or after that section's subtree.
+ *
+ * Without re-lettering the new section takes the letter after the latest one
+ * in use (e.g. C when A and B exist, AA after Z), wherever it is placed. With
+ * re-lettering every section is lettered in order, so inserting between A and
+ * B gives a new B and the old B becomes C.
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order (may be empty).
+ * @param {number} index - Index of the selected item (ignored for an empty table).
+ * @param {"above" | "below"} position - Where to insert relative to the selected item's section.
+ * @param {boolean} reletter - Whether to re-letter the sections that follow.
+ * @returns {InsertionPlan} The insertion point and every item code including the new section.
+ * @throws If the table is not empty but has no section (level 0) rows.
+ */
+function planSectionInsertion(
+  itemCodes: string[],
+  index: number,
+  position: "above" | "below",
+  reletter: boolean
+): InsertionPlan {
+
+  if (itemCodes.length === 0) {
+    return { insertionIndex: 0, rowCount: 1, itemCodes: ["A"] };
+  }
+
+  const sectionLetters = itemCodes.filter(code => getHierarchyLevel(code) === 0);
+
+  if (sectionLetters.length === 0) {
+    throw new Error("Cannot insert a section: the table has no section (level 0) rows");
+  }
+
+  // 01 - Find the section that contains the selected item
+  let sectionIndex = index;
+  while (sectionIndex > 0 && getHierarchyLevel(itemCodes[sectionIndex]) > 0) {
+    sectionIndex--;
+  }
+
+  const insertionIndex = (position === "above") ? sectionIndex : getSubtreeEndIndex(itemCodes, sectionIndex) + 1;
+
+  // 02 - Take the letter after the latest one in use
+  const latestLetter = sectionLetters.reduce(getLaterSectionLetter);
+  const newCode = incrementSectionLetter(latestLetter);
+
+  // 03 - Splice in the section row, re-lettering if requested
+  const codes = itemCodes.slice(0, insertionIndex).concat([newCode], itemCodes.slice(insertionIndex));
+
+  return { insertionIndex, rowCount: 1, itemCodes: reletter ? reletterSections(codes) : codes };
+}
+
+/**
+ * Replaces the code of the subtree rooted at `index` with `newRootCode`, carrying descendants along.
+ */
+function rewriteSubtreeCodes(itemCodes: string[], index: number, newRootCode: string): string[] {
+  const oldRootCode = itemCodes[index];
+  const endIndex = getSubtreeEndIndex(itemCodes, index);
+
+  return itemCodes.map((code, i) => (i >= index && i <= endIndex)
+    ? newRootCode + code.slice(oldRootCode.length)
+    : code
+  );
+}
+
+/**
+ * Returns the indices whose hierarchy level differs from the level originally held by the same row.
+ */
+function getLevelChangedIndices(originalLevels: number[], itemCodes: string[]): number[] {
+  const changed: number[] = [];
+
+  itemCodes.forEach((code, i) => {
+    if (getHierarchyLevel(code) !== originalLevels[i]) changed.push(i);
+  });
+
+  return changed;
+}
+
+
+// ===== BUNDLED MODULE - src/core/itemCodes.ts ===== //
+
+/**
+ * Core BQ Model: Item Code Generation
+ *
+ * Pure helpers for generating and renumbering hyphenated item codes.
+ */
+
+/**
+ * Increments the final numeric segment of a hyphen-delimited item code string.
+ * Example: 'A-1-3' → 'A-1-4'
+ *
+ * @param itemCode - The item code string to increment (e.g., "A-1-2").
+ * @returns The incremented item code string.
+ * @throws If the last segment is not a valid number.
+ */
+function incrementLastItemCodeSegment(itemCode: string): string {
+
+  const segments = itemCode.split("-");
+  const lastSegment = Number(segments[segments.length - 1]);
+
+  if (isNaN(lastSegment)) {
+    throw new Error(`Invalid numeric segment in code: ${itemCode}`);
+  }
+
+  // Replace last segment with incremented value
+  segments[segments.length - 1] = String(lastSegment + 1);
+
+  return segments.join("-");
+}
+
+/**
+ * Reindexes a list of hierarchical item codes to maintain contiguous numbering for each level.
+ *
+ * Example:
+ * Input:  ["A", "A-1", "A-1-1", "A-1-3", "A-2", "A-2-1", "A-3", "A-3-2"]
+ * Output: ["A", "A-1", "A-1-1", "A-1-2", "A-2", "A-2-1", "A-3", "A-3-1"]
+ *
+ * Assumes:
+ * - Input is in depth-first traversal order
+ * - Hierarchy is represented using hyphen-separated strings (e.g., "A-1-2")
+ *
+ * @param {string[]} itemCodes - Array of item codes representing a hierarchical structure
+ * @returns {string[]} - A new array with reindexed item codes preserving hierarchy
+ */
+function reindexItemCodes(itemCodes: string[]): string[] {
+  // 01 - Initialize the array to hold reindexed item codes
+  const reindexed: string[] = [];
+
+  // 02 - Initialize a path stack to build new item codes by hierarchy level
+  const pathStack: string[] = [];
+
+  // 03 - Initialize a counter array to track sibling indexes at each level
+  const levelCounters: number[] = [];
+
+  // 04 - Iterate through each itemCode in the provided array
+  for (let i = 0; i < itemCodes.length; i++) {
+    const code = itemCodes[i];
+
+    // 04a - Split the itemCode by '-' to determine its hierarchical level
+    const parts = code.split("-");
+
+    // 04b - Determine the current depth level (0-based)
+    const level = parts.length - 1;
+
+    // 04c - Truncate the pathStack and levelCounters to match the current depth
+    pathStack.length = level;
+    levelCounters.length = level + 1;
+
+    // 04d - Handle root-level items (e.g., "A")
+    if (level === 0) {
+      // 04d (i) - Directly assign the root name to pathStack[0]
+      pathStack[0] = parts[0];
+
+      // 04d (ii) - Set root-level counter to 0 (not actively used)
+      levelCounters[0] = 0;
+    } else {
+      // 04e (i) - Initialize or increment the sibling counter at current level
+      levelCounters[level] = (levelCounters[level] || 0) + 1;
+
+      // 04e (ii) - Store current index in the pathStack for this level
+      pathStack[level] = levelCounters[level].toString();
+    }
+
+    // 04f - Rebuild the itemCode string based on the updated pathStack
+    const newCode = (level === 0)
+      ? pathStack[0]  // 04f (i) - Root level: just use the root name
+      : `${pathStack[0]}-${pathStack.slice(1, level + 1).join("-")}`; // 04f (ii) - Join updated hierarchy
+
+    // 04g - Push the newCode into the result array
+    reindexed.push(newCode);
+  }
+
+  // 05 - Return the reindexed list of item codes
+  return reindexed;
+}
+
+/**
+ * Returns the section letter that follows the given one, carrying into an
+ * extra letter after Z in the same way as spreadsheet columns.
+ * Example: 'C' → 'D', 'Z' → 'AA', 'AZ' → 'BA'
+ *
+ * @param {string} sectionLetter - A level-0 item code (e.g., "B").
+ * @returns {string} The next section letter.
+ * @throws If the code is not made of letters only.
+ */
+function incrementSectionLetter(sectionLetter: string): string {
+  if (!/^[A-Z]+$/.test(sectionLetter)) {
+    throw new Error(`Invalid section letter: ${sectionLetter}`);
+  }
+
+  // 01 - Increment from the right, turning trailing Z's into A's
+  const letters = sectionLetter.split("");
+  let i = letters.length - 1;
+
+  while (i >= 0 && letters[i] === "Z") {
+    letters[i] = "A";
+    i--;
+  }
+
+  // 02 - Bump the first non-Z letter, or prepend an A if every letter was Z
+  if (i < 0) return "A" + letters.join("");
+
+  letters[i] = String.fromCharCode(letters[i].charCodeAt(0) + 1);
+  return letters.join("");
+}
+
+/**
+ * Returns the later of two section letters (longer codes sort after shorter ones, e.g. 'AA' after 'Z').
+ *
+ * @param {string} a - A section letter.
+ * @param {string} b - A section letter.
+ * @returns {string} Whichever letter comes last in the A, B, …, Z, AA, AB sequence.
+ */
+function getLaterSectionLetter(a: string, b: string): string {
+  if (a.length !== b.length) return a.length > b.length ? a : b;
+  return a > b ? a : b;
+}
+
+/**
+ * Re-letters every section (level-0 code) in order as A, B, C, …,
+ * carrying each section's descendants along.
+ *
+ * Example:
+ * Input:  ["A", "A-1", "C", "C-1", "B"]
+ * Output: ["A", "A-1", "B", "B-1", "C"]
+ *
+ * @param {string[]} itemCodes - Item codes in depth-first worksheet order, starting with a section.
+ * @returns {string[]} A new array with sequential section letters.
+ */
+function reletterSections(itemCodes: string[]): string[] {
+  let sectionLetter = "";
+
+  return itemCodes.map(code => {
+    const hyphenIndex = code.indexOf("-");
+
+    if (hyphenIndex === -1) {
+      sectionLetter = sectionLetter === "" ? "A" : incrementSectionLetter(sectionLetter);
+      return sectionLetter;
+    }
+
+    return sectionLetter + code.slice(hyphenIndex);
+  });
+}
+
+
+// ===== BUNDLED MODULE - src/excel/activityTable.ts ===== //
+
+/**
+ * ExcelScript Adapter: Activity Table
+ *
+ * Reads the BQ activity table from a worksheet into the core `BQTable` model.
+ */
+
+/**
+ * Transforms a structured Excel activity table into an array of hierarchical activity objects.
+ *
+ * Scans a worksheet starting from the layout's header row, determines the data range dynamically,
+ * and builds a structured array of objects containing item codes, quantities, rates, and calculated hierarchy levels.
+ *
+ * Automatically identifies parent-child relationships based on itemCode format (e.g., "A", "A-1", "A-1-1")
+ * and strips rate values from parent-level entries.
+ *
+ * @param {ExcelScript.Worksheet} sheet - The worksheet containing the activity table.
+ * @param {TableLayout} layout - The table layout (see `readTableLayout`).
+ * @returns {BQTable} Object containing the parsed activity data, top and bottom data row indices.
+ *
+ * @example
+ * const { activityObjectsArray } = transformTableToActivityObjects(sheet, readTableLayout(workbook));
+ */
+function transformTableToActivityObjects(
+  sheet: ExcelScript.Worksheet,
+  layout: TableLayout
+): BQTable {
+
+  // 01 - Determine the vertical bounds of the data table based on the item code column
+  const bottomTotalsRow = getBottomTotalsRow(sheet, layout);
+
+  const dataTopRow = layout.headerRow + 1;
+  const dataBottomRow = bottomTotalsRow - 1;
+
+  // 02 - Exit early if no data rows are found below the header
+  if (dataBottomRow < dataTopRow) {
+    console.log("No activity rows found.");
+    return {
+      activityObjectsArray: [],
+      dataTopRow,
+      dataBottomRow
+    };
+  }
+
+  // 03 - Extract cell formulas across the table's columns and parse them into activities
+  const table = parseBQTable(getTableRowsRange(sheet, layout, dataTopRow, dataBottomRow).getFormulas(), dataTopRow, layout);
+
+  // 04 - Clear rate values for items that act as parents in the hierarchy
+  table.activityObjectsArray.forEach((activity) => {
+    if (activity.hasChild) {
+      activity.rate = "";
+    }
+  });
+
+  return table;
+}
+
+/**
+ * Reads the activity table as calculated values (`Range.getValues()`) rather than
+ * formulas, e.g. for exports and comparisons that need the resulting costs.
+ *
+ * @param {ExcelScript.Worksheet} sheet - The worksheet containing the activity table.
+ * @param {TableLayout} layout - The table layout.
+ * @returns {BQTable} The parsed activity values, top and bottom data row indices.
+ */
+function readActivityValues(sheet: ExcelScript.Worksheet, layout: TableLayout): BQTable {
+  const dataTopRow = layout.headerRow + 1;
+  const dataBottomRow = getBottomTotalsRow(sheet, layout) - 1;
+
+  if (dataBottomRow < dataTopRow) {
+    return { activityObjectsArray: [], dataTopRow, dataBottomRow };
+  }
+
+  return parseBQTable(getTableRowsRange(sheet, layout, dataTopRow, dataBottomRow).getValues(), dataTopRow, layout);
+}
+
+/**
+ * Returns the row number of the grand totals row, i.e. the last contiguous
+ * non-empty cell in the item code column below the table header.
+ *
+ * @param {ExcelScript.Worksheet} sheet - The worksheet containing the activity table.
+ * @param {TableLayout} layout - The table layout.
+ * @returns {number} The 1-based row number of the grand totals row.
+ */
+function getBottomTotalsRow(sheet: ExcelScript.Worksheet, layout: TableLayout): number {
+  return sheet.getRange(`${layout.itemCodeColumn}${layout.headerRow}`)
+    .getRangeEdge(ExcelScript.KeyboardDirection.down)
+    .getRowIndex() + 1;
+}
+
+/**
+ * Returns the range spanning every table column for the given rows.
+ *
+ * @param {ExcelScript.Worksheet} sheet - The worksheet containing the activity table.
+ * @param {TableLayout} layout - The table layout.
+ * @param {number} topRow - The first row (1-based).
+ * @param {number} bottomRow - The last row (1-based).
+ * @returns {ExcelScript.Range} e.g. B10:J20 for the default layout.
+ */
+function getTableRowsRange(
+  sheet: ExcelScript.Worksheet,
+  layout: TableLayout,
+  topRow: number,
+  bottomRow: number
+): ExcelScript.Range {
+  const { firstColumn, lastColumn } = getTableColumnSpan(layout);
+  return sheet.getRange(`${firstColumn}${topRow}:${lastColumn}${bottomRow}`);
+}
+
+/**
+ * Writes one value or formula per row into a single column, starting at `topRow`.
+ *
+ * @param {ExcelScript.Worksheet} sheet - The worksheet containing the activity table.
+ * @param {string} columnLetter - The target column.
+ * @param {number} topRow - The first row (1-based) to write.
+ * @param {CellFormula[]} formulas - The values or formulas, top to bottom.
+ */
+function setColumnFormulas(
+  sheet: ExcelScript.Worksheet,
+  columnLetter: string,
+  topRow: number,
+  formulas: CellFormula[]
+): void {
+  if (formulas.length === 0) return;
+
+  sheet
+    .getRange(`${columnLetter}${topRow}:${columnLetter}${topRow + formulas.length - 1}`)
+    .setFormulas(formulas.map(formula => [formula]) as string[][]);
+}
+
+/**
+ * Writes only the cells of one column whose formula differs from the one
+ * read from the sheet, one call per run of consecutive changed rows (or a
+ * single call once there are more than `MAX_COLUMN_RUNS` runs).
+ *
+ * @param {ExcelScript.Worksheet} sheet - The worksheet containing the activity table.
+ * @param {string} columnLetter - The target column.
+ * @param {number} topRow - The row (1-based) of the first cell in both arrays.
+ * @param {CellFormula[]} currentFormulas - The column as read from the sheet.
+ * @param {CellFormula[]} nextFormulas - The values or formulas to write, top to bottom.
+ * @param {number[]} [rowIndices] - Only consider these rows (indices from `topRow`); every row if omitted.
+ * @returns {number} The number of cells written.
+ */
+function setChangedColumnFormulas(
+  sheet: ExcelScript.Worksheet,
+  columnLetter: string,
+  topRow: number,
+  currentFormulas: CellFormula[],
+  nextFormulas: CellFormula[],
+  rowIndices?: number[]
+): number {
+  let cellCount = 0;
+
+  getChangedColumnRuns(currentFormulas, nextFormulas, rowIndices).forEach(run => {
+    setColumnFormulas(sheet, columnLetter, topRow + run.startIndex, run.formulas);
+    cellCount += run.formulas.length;
+  });
+
+  return cellCount;
+}
+
+
+// ===== BUNDLED MODULE - src/excel/snapshotHistory.ts ===== //
+
+/**
+ * ExcelScript Adapter: Snapshot History
+ *
+ * Saves the activity table to the hidden "BQ_History" sheet before a
+ * destructive script runs, and restores the most recent snapshot
+ * (Office Scripts actions cannot be undone with Ctrl+Z).
+ */
+
+/** Name of the hidden sheet holding the snapshots. */
+const HISTORY_SHEET_NAME = "BQ_History";
+
+/**
+ * Copies the table rows of the active worksheet (first data row to the grand
+ * total row, values, formulas and formats) into a new snapshot.
+ *
+ * @param {ExcelScript.Workbook} workbook - The workbook holding the BQ.
+ * @param {TableLayout} layout - The table layout.
+ * @param {string} operation - The name of the script about to change the table.
+ */
+function saveTableSnapshot(workbook: ExcelScript.Workbook, layout: TableLayout, operation: string): void {
+
+  // 01 - Get (or create) the hidden history sheet
+  const sheet = workbook.getActiveWorksheet();
+  let historySheet = workbook.getWorksheet(HISTORY_SHEET_NAME);
+
+  if (!historySheet) {
+    historySheet = workbook.addWorksheet(HISTORY_SHEET_NAME);
+    historySheet.setVisibility(ExcelScript.SheetVisibility.hidden);
+    sheet.activate();
+  }
+
+  // 02 - Place the snapshot below any existing ones
+  const sourceTopRow = layout.headerRow + 1;
+  const bottomTotalsRow = getBottomTotalsRow(sheet, layout);
+  const usedRange = historySheet.getUsedRange();
+  const nextFreeRow = usedRange ? usedRange.getRowIndex() + usedRange.getRowCount() + 1 : 1;
+  const { markerRow, bodyTopRow } = getSnapshotPlacement(nextFreeRow, sourceTopRow);
+
+  const record: SnapshotRecord = {
+    markerRow,
+    timestamp: new Date().toISOString(),
+    operation,
+    sheetName: sheet.getName(),
+    sourceTopRow,
+    rowCount: bottomTotalsRow - sourceTopRow + 1,
+    bodyTopRow,
+  };
+
+  // 03 - Write the marker row and copy the table rows
+  historySheet.getRange(`A${markerRow}:G${markerRow}`).setValues([buildSnapshotMarkerRow(record)] as string[][]);
+
+  getTableRowsRange(historySheet, layout, bodyTopRow, bodyTopRow + record.rowCount - 1)
+    .copyFrom(getTableRowsRange(sheet, layout, sourceTopRow, bottomTotalsRow), ExcelScript.RangeCopyType.all);
+}
+
+/**
+ * Puts the table back exactly as it was in the most recent snapshot, then
+ * removes that snapshot so the next restore goes one step further back.
+ *
+ * @param {ExcelScript.Workbook} workbook - The workbook holding the BQ.
+ * @param {TableLayout} layout - The table layout.
+ * @returns {SnapshotRecord | undefined} The restored snapshot, or undefined if there was none.
+ * @throws If the snapshot's worksheet no longer exists.
+ */
+function restoreLastSnapshot(workbook: ExcelScript.Workbook, layout: TableLayout): SnapshotRecord | undefined {
+
+  // 01 - Find the most recent snapshot
+  const historySheet = workbook.getWorksheet(HISTORY_SHEET_NAME);
+  const usedRange = historySheet ? historySheet.getUsedRange() : undefined;
+  if (!historySheet || !usedRange) return undefined;
+
+  const lastRow = usedRange.getRowIndex() + usedRange.getRowCount();
+  const record = findLastSnapshot(historySheet.getRange(`A1:G${lastRow}`).getValues());
+  if (!record) return undefined;
+
+  const sheet = workbook.getWorksheet(record.sheetName);
+  if (!sheet) {
+    throw new Error(`Snapshot not restored - worksheet "${record.sheetName}" no longer exists`);
+  }
+
+  // 02 - Insert or delete whole rows above the grand total row to match the snapshot's size
+  const bottomTotalsRow = getBottomTotalsRow(sheet, layout);
+  const rowDifference = record.rowCount - (bottomTotalsRow - record.sourceTopRow + 1);
+
+  if (rowDifference > 0) {
+    sheet.getRange(`${bottomTotalsRow}:${bottomTotalsRow + rowDifference - 1}`).insert(ExcelScript.InsertShiftDirection.down);
+  } else if (rowDifference < 0) {
+    sheet.getRange(`${bottomTotalsRow + rowDifference}:${bottomTotalsRow - 1}`).delete(ExcelScript.DeleteShiftDirection.up);
+  }
+
+  // 03 - Copy the snapshot back over the table rows
+  const sourceBottomRow = record.sourceTopRow + record.rowCount - 1;
+
+  getTableRowsRange(sheet, layout, record.sourceTopRow, sourceBottomRow)
+    .copyFrom(getTableRowsRange(historySheet, layout, record.bodyTopRow, record.bodyTopRow + record.rowCount - 1), ExcelScript.RangeCopyType.all);
+
+  // 04 - Drop the restored snapshot from the history
+  historySheet.getRange(`${record.markerRow}:${Math.max(lastRow, record.markerRow)}`).delete(ExcelScript.DeleteShiftDirection.up);
+
+  sheet.activate();
+  return record;
+}
+
+
+// ===== BUNDLED MODULE - src/core/history.ts ===== //
+
+/**
+ * Core BQ Model: Snapshot History
+ *
+ * Bookkeeping for the undo snapshots kept on the hidden "BQ_History" sheet.
+ * Each snapshot is a marker row followed by a copy of the table rows
+ * (values, formulas and formats) from the first data row to the grand
+ * total row:
+ *
+ *   BQ Snapshot | timestamp | operation | sheet | source top row | row count | body top row
+ *
+ * The copy keeps the table's columns and is never placed above its source
+ * rows, so relative references shift down on the way in and back exactly
+ * on restore without ever falling off the top of the sheet.
+ */
+
+/** Text in column A that marks the start of a snapshot block. */
+const SNAPSHOT_MARKER = "BQ Snapshot";
+
+/** Where a snapshot came from and where its copy of the table rows is stored. */
+interface SnapshotRecord {
+  markerRow: number,
+  timestamp: string,
+  operation: string,
+  sheetName: string,
+  sourceTopRow: number,
+  rowCount: number,
+  bodyTopRow: number,
+}
+
+/**
+ * Works out where the next snapshot goes on the history sheet.
+ *
+ * @param {number} nextFreeRow - The first empty row below existing snapshots (1 on an empty sheet).
+ * @param {number} sourceTopRow - The first table row being copied.
+ * @returns The marker row and the top row of the copied table rows.
+ */
+function getSnapshotPlacement(nextFreeRow: number, sourceTopRow: number): { markerRow: number, bodyTopRow: number } {
+  return {
+    markerRow: nextFreeRow,
+    bodyTopRow: Math.max(nextFreeRow + 1, sourceTopRow),
+  };
+}
+
+/**
+ * Builds the marker row written above a snapshot.
+ *
+ * @param {SnapshotRecord} record - The snapshot details.
+ * @returns {CellFormula[]} The marker row values, starting in column A.
+ */
+function buildSnapshotMarkerRow(record: SnapshotRecord): CellFormula[] {
+  return [
+    SNAPSHOT_MARKER,
+    record.timestamp,
+    record.operation,
+    record.sheetName,
+    record.sourceTopRow,
+    record.rowCount,
+    record.bodyTopRow,
+  ];
+}
+
+/**
+ * Finds the most recent snapshot on the history sheet.
+ *
+ * @param {CellFormula[][]} grid - History sheet values from row 1, columns A to G.
+ * @returns {SnapshotRecord | undefined} The last snapshot, or undefined if there is none.
+ */
+function findLastSnapshot(grid: CellFormula[][]): SnapshotRecord | undefined {
+  for (let i = grid.length - 1; i >= 0; i--) {
+    const [marker, timestamp, operation, sheetName, sourceTopRow, rowCount, bodyTopRow] = grid[i];
+    if (marker !== SNAPSHOT_MARKER) continue;
+
+    return {
+      markerRow: i + 1,
+      timestamp: String(timestamp),
+      operation: String(operation),
+      sheetName: String(sheetName),
+      sourceTopRow: Number(sourceTopRow),
+      rowCount: Number(rowCount),
+      bodyTopRow: Number(bodyTopRow),
+    };
+  }
+
+  return undefined;
+}
@@ -0,0 +1,2568 @@
+// GENERATED FILE - do not edit. Source: src/scripts/compareRevisions.ts (rebuild with `npm run build`)
+
+/**
+ * ExcelScript Module: Compare Revisions
+ *
+ * Writes a change log of the active BQ sheet (e.g. Rev B) against the sheet
+ * named in "Compare Against Sheet" on BQ_Config (e.g. Rev A) to the
+ * "BQ Compare" sheet: added, removed and changed priced items with their
+ * quantity, rate and cost changes, then each section's total variance.
+ * Items are aligned by code, falling back to description when codes were
+ * reindexed.
+ *
+ * @entryPoint `main(workbook: ExcelScript.Workbook)`
+ */
+
+// ===== MAIN FUNCTION ===== //
+function main(workbook: ExcelScript.Workbook) {
+
+  const layout = readTableLayout(workbook);
+  const { oldSheetName, threshold } = resolveCompareOptions(readBQSettings(workbook));
+
+  const comparison = compareWithRevision(workbook, layout, oldSheetName, threshold);
+  const countOf = (status: string) => comparison.changes.filter(change => change.status === status).length;
+
+  console.log(`✅ ${countOf("Added")} added, ${countOf("Removed")} removed, ${countOf("Changed")} changed, ${comparison.unchangedCount} unchanged`);
+}
+
+
+// ===== BUNDLED MODULE - src/core/revisionCompare.ts ===== //
+
+/**
+ * Core BQ Model: Revision Compare
+ *
+ * Compares the priced (leaf) items of two revisions of a BQ, e.g. Rev A and
+ * Rev B. Parents are left out because their cost is the sum of their leaves,
+ * so every change is counted exactly once.
+ *
+ * Items are aligned in passes:
+ * 1. Same code and a similar description (unchanged or edited in place)
+ * 2. Same or similar description under another code (reindexed or moved)
+ * 3. Same code with a different description (reworded)
+ * Anything left over is Added (new revision only) or Removed (old only).
+ * Section variances compare each section's total in the two revisions, following
+ * matched items into their new section.
+ */
+
+/** How an item differs between revisions. */
+type RevisionChangeStatus = "Added" | "Removed" | "Changed";
+
+/** One listed difference between the old and new revisions. */
+interface RevisionChange {
+  status: RevisionChangeStatus,
+  oldItem: Activity | undefined,
+  newItem: Activity | undefined,
+  costDelta: number,
+  changes: string[],
+}
+
+/** The change in one section's total. */
+interface SectionVariance {
+  section: string,
+  description: string,
+  oldTotal: number,
+  newTotal: number,
+  variance: number,
+}
+
+/** The full comparison of two revisions. */
+interface RevisionComparison {
+  changes: RevisionChange[],
+  sectionVariances: SectionVariance[],
+  unchangedCount: number,
+}
+
+/** Default minimum description similarity for aligning items by description. */
+const DEFAULT_COMPARE_MATCH_THRESHOLD = 0.6;
+
+/**
+ * Reads the compare settings: the sheet holding the old revision and the match threshold.
+ *
+ * @param {[string, CellFormula][]} settings - Key/value pairs, later pairs override earlier ones.
+ * @returns The old revision's sheet name ("" if not set) and the description threshold.
+ * @throws If the threshold is not between 0 and 1.
+ */
+function resolveCompareOptions(settings: [string, CellFormula][]): { oldSheetName: string, threshold: number } {
+  const threshold = resolveFractionSetting(settings, "Compare Match Threshold", DEFAULT_COMPARE_MATCH_THRESHOLD);
+
+  if (isNaN(threshold) || threshold < 0 || threshold > 1) {
+    throw new Error(`Invalid setting "Compare Match Threshold": must be between 0 and 1`);
+  }
+
+  return {
+    oldSheetName: String(findSetting(settings, "Compare Against Sheet") || "").trim(),
+    threshold,
+  };
+}
+
+/**
+ * Compares the leaf items of two revisions, read as values (`Range.getValues()`).
+ *
+ * @param {Activity[]} oldActivities - The old revision's activities, with `hasChild` set.
+ * @param {Activity[]} newActivities - The new revision's activities, with `hasChild` set.
+ * @param {number} threshold - The minimum description similarity for a description match.
+ * @returns {RevisionComparison} The changed, added and removed items and each section's variance.
+ */
+function compareRevisions(oldActivities: Activity[], newActivities: Activity[], threshold: number): RevisionComparison {
+  const oldLeaves = oldActivities.filter(activity => !activity.hasChild);
+  const newLeaves = newActivities.filter(activity => !activity.hasChild);
+
+  // Index into oldLeaves matched to each new leaf (-1 until matched)
+  const matches: number[] = newLeaves.map(() => -1);
+  const oldMatched: boolean[] = oldLeaves.map(() => false);
+
+  const pair = (newIndex: number, oldIndex: number) => {
+    matches[newIndex] = oldIndex;
+    oldMatched[oldIndex] = true;
+  };
+
+  // 01 - Same code, similar description
+  newLeaves.forEach((newItem, n) => {
+    const o = oldLeaves.findIndex((oldItem, i) => !oldMatched[i] && oldItem.itemCode === newItem.itemCode);
+    if (o !== -1 && getDescriptionSimilarity(String(oldLeaves[o].activityName), String(newItem.activityName)) >= threshold) {
+      pair(n, o);
+    }
+  });
+
+  // 02 - Most similar description under another code (ties go to the same unit)
+  newLeaves.forEach((newItem, n) => {
+    if (matches[n] !== -1) return;
+
+    let bestIndex = -1;
+    let bestScore = threshold;
+
+    oldLeaves.forEach((candidate, o) => {
+      if (oldMatched[o]) return;
+      const score = getDescriptionSimilarity(String(candidate.activityName), String(newItem.activityName))
+        + (candidate.unit === newItem.unit ? 0.001 : 0);
+      if (score >= bestScore) {
+        bestIndex = o;
+        bestScore = score;
+      }
+    });
+
+    if (bestIndex !== -1) pair(n, bestIndex);
+  });
+
+  // 03 - Same code, reworded description
+  newLeaves.forEach((newItem, n) => {
+    if (matches[n] !== -1) return;
+    const o = oldLeaves.findIndex((oldItem, i) => !oldMatched[i] && oldItem.itemCode === newItem.itemCode);
+    if (o !== -1) pair(n, o);
+  });
+
+  // 04 - List the differences in new-revision order, with removed items at the end
+  const changes: RevisionChange[] = [];
+  let unchangedCount = 0;
+
+  newLeaves.forEach((newItem, n) => {
+    if (matches[n] === -1) {
+      changes.push({ status: "Added", oldItem: undefined, newItem, costDelta: toAmount(newItem.cost), changes: [] });
+      return;
+    }
+
+    const previous = oldLeaves[matches[n]];
+    const differences = describeDifferences(previous, newItem);
+
+    if (differences.length === 0) {
+      unchangedCount++;
+    } else {
+      changes.push({
+        status: "Changed",
+        oldItem: previous,
+        newItem,
+        costDelta: toAmount(newItem.cost) - toAmount(previous.cost),
+        changes: differences,
+      });
+    }
+  });
+
+  oldLeaves.forEach((previous, o) => {
+    if (oldMatched[o]) return;
+    changes.push({ status: "Removed", oldItem: previous, newItem: undefined, costDelta: -toAmount(previous.cost), changes: [] });
+  });
+
+  return {
+    changes,
+    sectionVariances: buildSectionVariances(oldLeaves, newLeaves, matches, oldActivities, newActivities),
+    unchangedCount,
+  };
+}
+
+/**
+ * Lists what changed between two aligned items, e.g. "Qty 10 → 12".
+ */
+function describeDifferences(oldItem: Activity, newItem: Activity): string[] {
+  const differences: string[] = [];
+  const check = (label: string, oldValue: CellFormula, newValue: CellFormula) => {
+    if (valuesDiffer(oldValue, newValue)) differences.push(`${label} ${formatValue(oldValue)} → ${formatValue(newValue)}`);
+  };
+
+  check("Code", oldItem.itemCode, newItem.itemCode);
+  check("Description", oldItem.activityName, newItem.activityName);
+  check("Unit", oldItem.unit, newItem.unit);
+  check("Qty", oldItem.quantity, newItem.quantity);
+  check("Rate", oldItem.rate, newItem.rate);
+  check("Cost", oldItem.cost, newItem.cost);
+
+  return differences;
+}
+
+/**
+ * Totals each section's leaf costs in both revisions, in new-revision order
+ * with sections only found in the old revision at the end. Old leaves count
+ * towards the section their matched new item is in, so an inserted or
+ * re-lettered section is not netted against a different old section.
+ * Unmatched old leaves follow the rest of their old section, or stay under
+ * that old section if none of it was matched.
+ */
+function buildSectionVariances(
+  oldLeaves: Activity[],
+  newLeaves: Activity[],
+  matches: number[],
+  oldActivities: Activity[],
+  newActivities: Activity[]
+): SectionVariance[] {
+  const getSection = (itemCode: string) => itemCode.split("-")[0];
+  const newVariances: SectionVariance[] = [];
+  const oldOnlyVariances: SectionVariance[] = [];
+
+  const getVariance = (variances: SectionVariance[], section: string, activities: Activity[]) => {
+    let variance = variances.find(entry => entry.section === section);
+
+    if (!variance) {
+      const sectionActivity = activities.find(activity => activity.itemCode === section);
+      variance = {
+        section,
+        description: sectionActivity ? String(sectionActivity.activityName) : "",
+        oldTotal: 0,
+        newTotal: 0,
+        variance: 0,
+      };
+      variances.push(variance);
+    }
+
+    return variance;
+  };
+
+  // 01 - New totals, and the new section of each matched old leaf
+  const matchedNewSections: string[] = oldLeaves.map(() => "");
+
+  newLeaves.forEach((newItem, n) => {
+    const section = getSection(newItem.itemCode);
+    getVariance(newVariances, section, newActivities).newTotal += toAmount(newItem.cost);
+    if (matches[n] !== -1) matchedNewSections[matches[n]] = section;
+  });
+
+  // 02 - Each old section follows the new section most of its matched leaves moved to
+  const sectionVotes: Record<string, Record<string, number>> = {};
+
+  oldLeaves.forEach((oldItem, o) => {
+    const newSection = matchedNewSections[o];
+    if (newSection === "") return;
+
+    const oldSection = getSection(oldItem.itemCode);
+    if (!sectionVotes[oldSection]) sectionVotes[oldSection] = {};
+    sectionVotes[oldSection][newSection] = (sectionVotes[oldSection][newSection] || 0) + 1;
+  });
+
+  const getFollowedSection = (oldSection: string): string => {
+    const votes = sectionVotes[oldSection];
+    if (!votes) return "";
+    return Object.keys(votes).reduce((best, section) => votes[section] > votes[best] ? section : best);
+  };
+
+  // 03 - Old totals
+  oldLeaves.forEach((oldItem, o) => {
+    const oldSection = getSection(oldItem.itemCode);
+    const newSection = matchedNewSections[o] || getFollowedSection(oldSection);
+    const variance = newSection !== ""
+      ? getVariance(newVariances, newSection, newActivities)
+      : getVariance(oldOnlyVariances, oldSection, oldActivities);
+
+    variance.oldTotal += toAmount(oldItem.cost);
+  });
+
+  const variances = newVariances.concat(oldOnlyVariances);
+  variances.forEach(entry => {
+    entry.variance = entry.newTotal - entry.oldTotal;
+  });
+
+  return variances;
+}
+
+/**
+ * Determines whether two cell values differ, comparing numbers with a small tolerance.
+ */
+function valuesDiffer(a: CellFormula, b: CellFormula): boolean {
+  if (typeof a === "number" && typeof b === "number") return Math.abs(a - b) > 1e-9;
+  return String(a).trim() !== String(b).trim();
+}
+
+/**
+ * Formats a value for the change description.
+ */
+function formatValue(value: CellFormula): string {
+  return String(value).trim() === "" ? "(blank)" : String(value);
+}
+
+/**
+ * Converts a cost cell value to a number, treating blanks, text and errors as 0.
+ */
+function toAmount(value: CellFormula): number {
+  return typeof value === "number" ? value : 0;
+}
+
+
+// ===== BUNDLED MODULE - src/core/activity.ts ===== //
+
+/**
+ * Core BQ Model: Activity Table
+ *
+ * Pure, workbook-independent representation of the BQ activity table.
+ * Everything in `src/core` operates on plain 2D arrays as returned by
+ * `Range.getFormulas()` so it can be unit tested in Node and bundled
+ * unchanged into each ExcelScript file.
+ *
+ * @assumptions:
+ * - Rows are read across the layout's column span (B to J by default)
+ * - The item code column holds hyphenated item codes (e.g., A, A-1, A-1-1)
+ */
+
+/** A single cell formula or constant as returned by `Range.getFormulas()`. */
+type CellFormula = string | number | boolean;
+
+/** One activity row of the BQ table. */
+interface Activity {
+  rowNumber: number,
+  itemCode: string,
+  activityName: string,
+  quantity: (number | string),
+  unit: string,
+  rate: (number | string),
+  cost: string,
+  itemType: string,
+  rollUpMode: string,
+  hierarchyLevel: number,
+  hasChild: boolean,
+}
+
+/** The parsed activity table together with its worksheet row bounds. */
+interface BQTable {
+  activityObjectsArray: Activity[],
+  dataTopRow: number,
+  dataBottomRow: number,
+}
+
+/**
+ * Converts one row of formulas into an activity object.
+ *
+ * @param {CellFormula[]} row - Formulas across the table's column span for a single row.
+ * @param {number} rowNumber - The worksheet row number (1-based) of the row.
+ * @param {TableLayout} layout - The table layout the row was read with.
+ * @returns {Activity} The activity with `hasChild` initialised to false.
+ */
+function parseActivityRow(row: CellFormula[], rowNumber: number, layout: TableLayout): Activity {
+  const itemCode = String(row[getColumnOffset(layout, layout.itemCodeColumn)]);
+
+  return {
+    rowNumber,
+    itemCode,
+    activityName: row[getColumnOffset(layout, layout.descriptionStartColumn)] as string,
+    quantity: row[getColumnOffset(layout, layout.quantityColumn)] as (number | string),
+    unit: row[getColumnOffset(layout, layout.unitColumn)] as string,
+    rate: row[getColumnOffset(layout, layout.rateColumn)] as (number | string),
+    cost: row[getColumnOffset(layout, layout.costColumn)] as string,
+    itemType: layout.itemTypeColumn === "" ? "" : String(row[getColumnOffset(layout, layout.itemTypeColumn)]).trim(),
+    rollUpMode: layout.rollUpModeColumn === "" ? "" : String(row[getColumnOffset(layout, layout.rollUpModeColumn)]).trim(),
+    hierarchyLevel: getHierarchyLevel(itemCode),
+    hasChild: false
+  };
+}
+
+/**
+ * Parses the formulas of the data rows into a `BQTable`, marking every
+ * activity that acts as a parent in the hierarchy.
+ *
+ * @param {CellFormula[][]} tableData2D - Formulas across the table's column span for every data row.
+ * @param {number} dataTopRow - The worksheet row number of the first data row.
+ * @param {TableLayout} layout - The table layout the rows were read with.
+ * @returns {BQTable} The parsed table.
+ *
+ * @example
+ * const table = parseBQTable(sheet.getRange("B10:J20").getFormulas(), 10, DEFAULT_TABLE_LAYOUT);
+ */
+function parseBQTable(tableData2D: CellFormula[][], dataTopRow: number, layout: TableLayout): BQTable {
+
+  // 01 - Convert each row of formulas into an activity object
+  const activityObjectsArray = tableData2D.map((row, i) => parseActivityRow(row, dataTopRow + i, layout));
+
+  // 02 - Identify parent-child relationships based on itemCode structure
+  markParentActivities(activityObjectsArray);
+
+  return {
+    activityObjectsArray,
+    dataTopRow,
+    dataBottomRow: dataTopRow + tableData2D.length - 1
+  };
+}
+
+/**
+ * Builds the initial cell values for a newly inserted activity row,
+ * with placeholders in the description, quantity, unit, rate and cost columns.
+ *
+ * @param {string} itemCode - The item code of the new activity.
+ * @param {TableLayout} layout - The table layout.
+ * @returns {CellFormula[]} One row spanning the table's columns.
+ */
+function buildNewActivityRow(itemCode: string, layout: TableLayout): CellFormula[] {
+  const { lastColumn } = getTableColumnSpan(layout);
+  const row: CellFormula[] = new Array(getColumnOffset(layout, lastColumn) + 1).fill("");
+
+  row[getColumnOffset(layout, layout.itemCodeColumn)] = itemCode;
+  row[getColumnOffset(layout, layout.descriptionStartColumn)] = "[Insert Activity/Item]";
+  row[getColumnOffset(layout, layout.quantityColumn)] = "[qty]";
+  row[getColumnOffset(layout, layout.unitColumn)] = "[unit]";
+  row[getColumnOffset(layout, layout.rateColumn)] = "[rate]";
+  row[getColumnOffset(layout, layout.costColumn)] = "[insert formula]";
+
+  return row;
+}
+
+
+// ===== BUNDLED MODULE - src/core/hierarchy.ts ===== //
+
+/**
+ * Core BQ Model: Item Code Hierarchy
+ *
+ * Hierarchy helpers derived purely from hyphenated item codes
+ * (e.g., "A" = level 0, "A-1" = level 1, "A-1-2" = level 2).
+ */
+
+/**
+ * Returns the depth of an item code in the hierarchy, i.e. its number of hyphens.
+ * Example: 'A' → 0, 'A-1-2' → 2
+ *
+ * @param {string} itemCode - The hyphenated item code.
+ * @returns {number} The 0-based hierarchy level.
+ */
+function getHierarchyLevel(itemCode: string): number {
+  return (itemCode.match(/-/g) || []).length;
+}
+
+/**
+ * Determines whether `childCode` sits exactly one level beneath `parentCode`.
+ *
+ * @param {string} parentCode - The candidate parent item code (e.g., "A-1").
+ * @param {string} childCode - The candidate child item code (e.g., "A-1-3").
+ * @returns {boolean} True if `childCode` is an immediate child of `parentCode`.
+ */
+function isImmediateChildCode(parentCode: string, childCode: string): boolean {
+  return (
+    childCode.startsWith(parentCode + "-") &&
+    getHierarchyLevel(childCode) === getHierarchyLevel(parentCode) + 1
+  );
+}
+
+/**
+ * Parent/child links between the rows of the table, by index in worksheet order.
+ * `parentIndices[i]` is -1 for sections and for orphans (rows whose parent is
+ * missing or out of order), which are also listed in `orphanIndices`.
+ */
+interface ActivityTree {
+  parentIndices: number[],
+  childIndices: number[][],
+  orphanIndices: number[],
+}
+
+/**
+ * Builds the hierarchy as a real tree. Each row's parent must be the nearest
+ * row above it one level up; e.g. "A-1-1" directly under section B (with no
+ * A-1 open above it) is an orphan rather than a child of some A-1 elsewhere.
+ *
+ * @param {string[]} itemCodes - Item codes in depth-first (worksheet) order.
+ * @returns {ActivityTree} The parent and child indices of every row.
+ */
+function buildActivityTree(itemCodes: string[]): ActivityTree {
+  const tree: ActivityTree = {
+    parentIndices: [],
+    childIndices: itemCodes.map(() => []),
+    orphanIndices: [],
+  };
+
+  // Index of the nearest open row at each level
+  const pathStack: number[] = [];
+
+  itemCodes.forEach((code, i) => {
+    const level = getHierarchyLevel(code);
+    const candidateIndex = level > 0 && pathStack.length >= level ? pathStack[level - 1] : -1;
+
+    if (level === 0) {
+      tree.parentIndices.push(-1);
+    } else if (candidateIndex !== -1 && isImmediateChildCode(itemCodes[candidateIndex], code)) {
+      tree.parentIndices.push(candidateIndex);
+      tree.childIndices[candidateIndex].push(i);
+    } else {
+      tree.parentIndices.push(-1);
+      tree.orphanIndices.push(i);
+    }
+
+    pathStack.length = level;
+    pathStack[level] = i;
+  });
+
+  return tree;
+}
+
+/**
+ * Sets `hasChild` on every activity that has at least one child in the tree
+ * (see `buildActivityTree`). Activities must be in depth-first (worksheet) order.
+ *
+ * @param {Activity[]} activities - The activities to mark, in worksheet order.
+ */
+function markParentActivities(activities: Activity[]): void {
+  const { childIndices } = buildActivityTree(activities.map(activity => activity.itemCode));
+
+  activities.forEach((activity, i) => {
+    activity.hasChild = childIndices[i].length > 0;
+  });
+}
+
+/**
+ * Returns the immediate children of the given parent activity.
+ *
+ * @param {Activity} parent - The parent activity.
+ * @param {Activity[]} activities - All activities in the table, in worksheet order.
+ * @returns {Activity[]} The activities one level beneath `parent` in the tree, in worksheet order.
+ */
+function getImmediateChildActivities(parent: Activity, activities: Activity[]): Activity[] {
+  const { childIndices } = buildActivityTree(activities.map(activity => activity.itemCode));
+  const parentIndex = activities.indexOf(parent);
+
+  return parentIndex === -1 ? [] : childIndices[parentIndex].map(i => activities[i]);
+}
+
+/**
+ * Throws if any row is an orphan, so formulas are never written for a broken hierarchy.
+ *
+ * @param {Activity[]} activities - All activities in worksheet order.
+ * @param {ActivityTree} tree - The tree built from the same activities.
+ * @param {string} outcome - What did not happen, leading the error message.
+ * @throws Listing the orphaned rows and their missing parents.
+ */
+function assertNoOrphanActivities(activities: Activity[], tree: ActivityTree, outcome: string = "Formulas not written"): void {
+  if (tree.orphanIndices.length === 0) return;
+
+  const details = tree.orphanIndices.map(i => {
+    const { itemCode, rowNumber } = activities[i];
+    return `${itemCode} (row ${rowNumber}) has no parent ${itemCode.slice(0, itemCode.lastIndexOf("-"))} directly above it`;
+  });
+
+  throw new Error(`${outcome} - ${details.join("; ")}. Run Validate BQ to list every problem.`);
+}
+
+
+// ===== BUNDLED MODULE - src/core/layout.ts ===== //
+
+/**
+ * Core BQ Model: Table Layout
+ *
+ * Describes where the activity table sits on the worksheet so templates
+ * with extra or re-ordered columns work without changing the code.
+ *
+ * Settings are plain key/value pairs (e.g. "Header Row" → 9,
+ * "Cost Column" → "K") read from the "BQ_Config" sheet or `BQ_*`
+ * named ranges; keys are matched case-insensitively ignoring spaces,
+ * underscores and an optional "BQ" prefix. Unknown keys are ignored so
+ * the config sheet can hold other settings.
+ */
+
+/**
+ * Worksheet positions of the activity table. Columns are letters (e.g. "B").
+ * `itemTypeColumn` (PS, PC, RO, DW markers) is "" when items are not typed;
+ * `rollUpModeColumn` (LS, Rate, Manual markers) is "" when every parent's roll-up is inferred;
+ * `valuationStartColumn` is "" unless the valuation columns are switched on;
+ * `pricingNames` lists the extra rate/cost pairs placed from `pricingStartColumn`.
+ */
+interface TableLayout {
+  headerRow: number,
+  itemCodeColumn: string,
+  descriptionStartColumn: string,
+  descriptionEndColumn: string,
+  quantityColumn: string,
+  unitColumn: string,
+  rateColumn: string,
+  costColumn: string,
+  itemTypeColumn: string,
+  rollUpModeColumn: string,
+  valuationStartColumn: string,
+  pricingStartColumn: string,
+  pricingNames: string[],
+}
+
+/** The five consecutive valuation columns, starting at `valuationStartColumn`. */
+interface ValuationColumns {
+  previousQuantityColumn: string,
+  periodQuantityColumn: string,
+  cumulativeQuantityColumn: string,
+  percentCompleteColumn: string,
+  valueToDateColumn: string,
+}
+
+/** One named rate/cost column pair for tender comparison (e.g. "Bidder 1"). */
+interface PricingColumns {
+  name: string,
+  rateColumn: string,
+  costColumn: string,
+}
+
+/** The original template: header on row 9, codes in B, description C:F, G:J priced columns. */
+const DEFAULT_TABLE_LAYOUT: TableLayout = {
+  headerRow: 9,
+  itemCodeColumn: "B",
+  descriptionStartColumn: "C",
+  descriptionEndColumn: "F",
+  quantityColumn: "G",
+  unitColumn: "H",
+  rateColumn: "I",
+  costColumn: "J",
+  itemTypeColumn: "",
+  rollUpModeColumn: "",
+  valuationStartColumn: "",
+  pricingStartColumn: "",
+  pricingNames: [],
+};
+
+/**
+ * Converts a column letter to its 1-based column number.
+ * Example: 'A' → 1, 'J' → 10, 'AA' → 27
+ *
+ * @param {string} columnLetter - The column letter(s).
+ * @returns {number} The 1-based column number.
+ * @throws If the input is not a valid column letter.
+ */
+function columnLetterToNumber(columnLetter: string): number {
+  if (!/^[A-Za-z]{1,3}$/.test(columnLetter)) {
+    throw new Error(`Invalid column letter: ${columnLetter}`);
+  }
+
+  return columnLetter
+    .toUpperCase()
+    .split("")
+    .reduce((total, letter) => total * 26 + (letter.charCodeAt(0) - 64), 0);
+}
+
+/**
+ * Converts a 1-based column number to its column letter.
+ * Example: 1 → 'A', 10 → 'J', 27 → 'AA'
+ *
+ * @param {number} columnNumber - The 1-based column number.
+ * @returns {string} The column letter(s).
+ */
+function columnNumberToLetter(columnNumber: number): string {
+  let letters = "";
+  let remaining = columnNumber;
+
+  while (remaining > 0) {
+    const remainder = (remaining - 1) % 26;
+    letters = String.fromCharCode(65 + remainder) + letters;
+    remaining = Math.floor((remaining - 1) / 26);
+  }
+
+  return letters;
+}
+
+/**
+ * Returns the left-most and right-most columns used by the layout.
+ * Activity rows are read and formatted across this span.
+ *
+ * @param {TableLayout} layout - The table layout.
+ * @returns The first and last column letters of the table.
+ */
+function getTableColumnSpan(layout: TableLayout): { firstColumn: string, lastColumn: string } {
+  const columnNumbers = getLayoutColumns(layout).map(columnLetterToNumber);
+
+  return {
+    firstColumn: columnNumberToLetter(Math.min(...columnNumbers)),
+    lastColumn: columnNumberToLetter(Math.max(...columnNumbers)),
+  };
+}
+
+/**
+ * Returns the 0-based index of a column within a row read across the table's column span.
+ *
+ * @param {TableLayout} layout - The table layout.
+ * @param {string} columnLetter - The column to locate.
+ * @returns {number} The index into a row returned for `getTableColumnSpan(layout)`.
+ */
+function getColumnOffset(layout: TableLayout, columnLetter: string): number {
+  return columnLetterToNumber(columnLetter) - columnLetterToNumber(getTableColumnSpan(layout).firstColumn);
+}
+
+/**
+ * Returns the valuation columns (previous, this period and cumulative quantity,
+ * % complete, value to date) if the layout has them switched on.
+ *
+ * @param {TableLayout} layout - The table layout.
+ * @returns {ValuationColumns | undefined} The column letters, or undefined if valuation is off.
+ */
+function getValuationColumns(layout: TableLayout): ValuationColumns | undefined {
+  if (layout.valuationStartColumn === "") return undefined;
+
+  const startNumber = columnLetterToNumber(layout.valuationStartColumn);
+
+  return {
+    previousQuantityColumn: columnNumberToLetter(startNumber),
+    periodQuantityColumn: columnNumberToLetter(startNumber + 1),
+    cumulativeQuantityColumn: columnNumberToLetter(startNumber + 2),
+    percentCompleteColumn: columnNumberToLetter(startNumber + 3),
+    valueToDateColumn: columnNumberToLetter(startNumber + 4),
+  };
+}
+
+/**
+ * Returns the named rate/cost column pairs, side by side from the pricing start column.
+ *
+ * @param {TableLayout} layout - The table layout.
+ * @returns {PricingColumns[]} One pair per pricing name, in order (none if not configured).
+ */
+function getPricingColumns(layout: TableLayout): PricingColumns[] {
+  if (layout.pricingStartColumn === "") return [];
+
+  const startNumber = columnLetterToNumber(layout.pricingStartColumn);
+
+  return layout.pricingNames.map((name, i) => ({
+    name,
+    rateColumn: columnNumberToLetter(startNumber + 2 * i),
+    costColumn: columnNumberToLetter(startNumber + 2 * i + 1),
+  }));
+}
+
+/**
+ * Builds a table layout from key/value settings, falling back to
+ * `DEFAULT_TABLE_LAYOUT` for anything not configured.
+ *
+ * @param {[string, CellFormula][]} settings - Key/value pairs, later pairs override earlier ones.
+ * @returns {TableLayout} The validated layout.
+ * @throws If a setting has an invalid value or the columns overlap.
+ *
+ * @example
+ * resolveTableLayout([["Header Row", 12], ["BQ_CostColumn", "K"]]);
+ */
+function resolveTableLayout(settings: [string, CellFormula][]): TableLayout {
+  const layout: TableLayout = { ...DEFAULT_TABLE_LAYOUT };
+
+  // 01 - Apply each recognised setting over the defaults
+  settings.forEach(([key, value]) => {
+    const field = findLayoutField(key);
+    if (!field || value === "" || value === null || value === undefined) return;
+
+    if (field === "headerRow") {
+      const headerRow = Number(value);
+      if (!Number.isInteger(headerRow) || headerRow < 1) {
+        throw new Error(`Invalid table layout setting "${key}": ${value} is not a row number`);
+      }
+      layout.headerRow = headerRow;
+    } else if (field === "pricingNames") {
+      layout.pricingNames = String(value).split(/[,;]/).map(name => name.trim()).filter(name => name !== "");
+    } else {
+      const columnLetter = String(value).trim().toUpperCase();
+      if (!/^[A-Z]{1,3}$/.test(columnLetter)) {
+        throw new Error(`Invalid table layout setting "${key}": ${value} is not a column letter`);
+      }
+      layout[field] = columnLetter;
+    }
+  });
+
+  // 02 - Validate the description span and that no two roles share a column
+  if (layout.pricingNames.length > 0 && layout.pricingStartColumn === "") {
+    throw new Error(`Invalid table layout: set "Pricing Start Column" for the pricing columns ${layout.pricingNames.join(", ")}`);
+  }
+
+  const descriptionStart = columnLetterToNumber(layout.descriptionStartColumn);
+  const descriptionEnd = columnLetterToNumber(layout.descriptionEndColumn);
+
+  if (descriptionEnd < descriptionStart) {
+    throw new Error(`Invalid table layout: description columns ${layout.descriptionStartColumn}:${layout.descriptionEndColumn} are reversed`);
+  }
+
+  const occupied: string[] = [];
+  for (let column = descriptionStart; column <= descriptionEnd; column++) {
+    occupied.push(columnNumberToLetter(column));
+  }
+
+  [
+    layout.itemCodeColumn,
+    layout.quantityColumn,
+    layout.unitColumn,
+    layout.rateColumn,
+    layout.costColumn,
+    ...getOptionalColumnLetters(layout),
+  ].forEach(columnLetter => {
+    if (occupied.includes(columnLetter)) {
+      throw new Error(`Invalid table layout: column ${columnLetter} is assigned more than once`);
+    }
+    occupied.push(columnLetter);
+  });
+
+  return layout;
+}
+
+/**
+ * Returns every column letter referenced by the layout.
+ */
+function getLayoutColumns(layout: TableLayout): string[] {
+  return [
+    layout.itemCodeColumn,
+    layout.descriptionStartColumn,
+    layout.descriptionEndColumn,
+    layout.quantityColumn,
+    layout.unitColumn,
+    layout.rateColumn,
+    layout.costColumn,
+    ...getOptionalColumnLetters(layout),
+  ];
+}
+
+/**
+ * Returns the letters of the optional columns that are switched on
+ * (item type, roll-up mode, valuation and pricing columns).
+ */
+function getOptionalColumnLetters(layout: TableLayout): string[] {
+  return [
+    ...(layout.itemTypeColumn === "" ? [] : [layout.itemTypeColumn]),
+    ...(layout.rollUpModeColumn === "" ? [] : [layout.rollUpModeColumn]),
+    ...getValuationColumnLetters(layout),
+    ...getPricingColumnLetters(layout),
+  ];
+}
+
+/**
+ * Returns the valuation column letters in order, or none if valuation is off.
+ */
+function getValuationColumnLetters(layout: TableLayout): string[] {
+  const columns = getValuationColumns(layout);
+  if (!columns) return [];
+
+  return [
+    columns.previousQuantityColumn,
+    columns.periodQuantityColumn,
+    columns.cumulativeQuantityColumn,
+    columns.percentCompleteColumn,
+    columns.valueToDateColumn,
+  ];
+}
+
+/**
+ * Matches a settings key such as "Item Code Column" or "BQ_ItemCodeColumn" to a layout field.
+ */
+function findLayoutField(key: string): keyof TableLayout | undefined {
+  const normalizedKey = normalizeSettingKey(key);
+
+  return (Object.keys(DEFAULT_TABLE_LAYOUT) as (keyof TableLayout)[])
+    .find(field => field.toLowerCase() === normalizedKey);
+}
+
+/**
+ * Returns the pricing rate and cost column letters in order.
+ */
+function getPricingColumnLetters(layout: TableLayout): string[] {
+  const letters: string[] = [];
+
+  getPricingColumns(layout).forEach(pricing => {
+    letters.push(pricing.rateColumn, pricing.costColumn);
+  });
+
+  return letters;
+}
+
+
+// ===== BUNDLED MODULE - src/core/settings.ts ===== //
+
+/**
+ * Core BQ Model: Settings
+ *
+ * Looks up key/value settings read from the "BQ_Config" sheet or `BQ_*`
+ * named ranges. Keys are matched case-insensitively ignoring spaces,
+ * underscores and an optional "BQ" prefix, so "Reletter Sections" and
+ * "BQ_ReletterSections" name the same setting.
+ */
+
+/**
+ * Normalizes a settings key for comparison.
+ * Example: 'BQ_Header Row' → 'headerrow'
+ *
+ * @param {string} key - The raw setting name.
+ * @returns {string} The key in lowercase with non-alphanumerics and the "bq" prefix removed.
+ */
+function normalizeSettingKey(key: string): string {
+  return String(key).toLowerCase().replace(/[^a-z0-9]/g, "").replace(/^bq/, "");
+}
+
+/**
+ * Returns the last non-empty value configured for a setting.
+ *
+ * @param {[string, CellFormula][]} settings - Key/value pairs, later pairs override earlier ones.
+ * @param {string} name - The setting name (e.g. "Reletter Sections").
+ * @returns {CellFormula | undefined} The value, or undefined if the setting is not configured.
+ */
+function findSetting(settings: [string, CellFormula][], name: string): CellFormula | undefined {
+  const normalizedName = normalizeSettingKey(name);
+  let found: CellFormula | undefined;
+
+  settings.forEach(([key, value]) => {
+    if (normalizeSettingKey(key) === normalizedName && value !== "" && value !== null && value !== undefined) {
+      found = value;
+    }
+  });
+
+  return found;
+}
+
+/**
+ * Reads a yes/no setting. Accepts TRUE/FALSE cells as well as "yes"/"no", "on"/"off" and 1/0.
+ *
+ * @param {[string, CellFormula][]} settings - Key/value pairs, later pairs override earlier ones.
+ * @param {string} name - The setting name.
+ * @param {boolean} defaultValue - Returned if the setting is not configured.
+ * @returns {boolean} The configured value.
+ * @throws If the value is not recognised as yes or no.
+ */
+function resolveBooleanSetting(settings: [string, CellFormula][], name: string, defaultValue: boolean): boolean {
+  const value = findSetting(settings, name);
+  if (value === undefined) return defaultValue;
+  if (typeof value === "boolean") return value;
+
+  const normalizedValue = String(value).trim().toLowerCase();
+  if (["true", "yes", "y", "on", "1"].includes(normalizedValue)) return true;
+  if (["false", "no", "n", "off", "0"].includes(normalizedValue)) return false;
+
+  throw new Error(`Invalid setting "${name}": ${value} is not yes or no`);
+}
+
+/**
+ * Converts a settings cell to the value its owner typed: a number in a
+ * percentage-formatted cell is read as its displayed percentage (0.1 → "10%"),
+ * so that it is not mistaken for a bare 0.1.
+ *
+ * @param {CellFormula} value - The cell value.
+ * @param {string} numberFormat - The cell's number format (e.g. "0.0%" or "General").
+ * @returns {CellFormula} The setting value.
+ */
+function toSettingValue(value: CellFormula, numberFormat: string): CellFormula {
+  if (typeof value !== "number" || !/%/.test(numberFormat.replace(/"[^"]*"/g, ""))) return value;
+  return `${Number((value * 100).toPrecision(12))}%`;
+}
+
+/**
+ * Reads a fraction setting (e.g. a match threshold), given as 0.6 or as 60%.
+ *
+ * @param {[string, CellFormula][]} settings - Key/value pairs, later pairs override earlier ones.
+ * @param {string} name - The setting name.
+ * @param {number} defaultValue - Returned if the setting is not configured.
+ * @returns {number} The fraction, or NaN if the value is not a number.
+ */
+function resolveFractionSetting(settings: [string, CellFormula][], name: string, defaultValue: number): number {
+  const value = findSetting(settings, name);
+  if (value === undefined) return defaultValue;
+
+  const text = String(value).trim();
+  return text.endsWith("%") ? Number(text.slice(0, -1)) / 100 : Number(text);
+}
+
+
+// ===== BUNDLED MODULE - src/core/rateLibrary.ts ===== //
+
+/**
+ * Core BQ Model: Rate Library
+ *
+ * Matches leaf activities against the master rate schedule kept on the
+ * rate library sheet (rows below a header row, wherever the table starts):
+ *
+ *   Code | Description | Unit | Rate | Source | Date
+ *
+ * An activity matches on its library reference (when a "Rate Reference
+ * Column" is configured and filled in), otherwise on the best fuzzy
+ * description match with the same unit ("m²" matches "m2", see `isSameUnit`).
+ * Only placeholder or empty rates are filled unless "Rate Overwrite" is set,
+ * so typed rates are never clobbered; rates linked to a build-up on the
+ * "Rate Analysis" sheet are always kept.
+ */
+
+/** One rate in the library. */
+interface RateLibraryEntry {
+  rowNumber: number,
+  codeColumn: string,
+  rateColumn: string,
+  code: string,
+  description: string,
+  unit: string,
+  rate: number,
+  source: string,
+  date: CellFormula,
+}
+
+/** How rates are matched and written. */
+interface RateFillOptions {
+  referenceColumn: string | undefined,
+  mode: "value" | "formula",
+  threshold: number,
+  overwrite: boolean,
+}
+
+/** A rate to write to one activity row. */
+interface RateFill {
+  index: number,
+  rate: CellFormula,
+  entry: RateLibraryEntry,
+  method: "reference" | "description",
+}
+
+/** Default minimum description similarity (0–1) for a fuzzy match. */
+const DEFAULT_RATE_MATCH_THRESHOLD = 0.6;
+
+/**
+ * Parses the rate library grid (including its header row), skipping blank rows.
+ *
+ * @param {CellFormula[][]} grid - The library sheet values, header row first.
+ * @param {number} [headerRow=1] - The sheet row the grid starts on.
+ * @param {string} [codeColumn="A"] - The sheet column the grid starts in (the Code column).
+ * @returns {RateLibraryEntry[]} The library entries in sheet order.
+ * @throws If a row has a non-numeric rate.
+ */
+function parseRateLibrary(grid: CellFormula[][], headerRow: number = 1, codeColumn: string = "A"): RateLibraryEntry[] {
+  const entries: RateLibraryEntry[] = [];
+  const firstColumn = columnNumberToLetter(columnLetterToNumber(codeColumn));
+  const rateColumn = columnNumberToLetter(columnLetterToNumber(firstColumn) + 3);
+
+  grid.slice(1).forEach((row, i) => {
+    const [code, description, unit, rate, source = "", date = ""] = row;
+    const rowNumber = headerRow + 1 + i;
+
+    if (row.every(cell => cell === "")) return;
+
+    if (rate === "" || isNaN(Number(rate))) {
+      throw new Error(`Invalid rate library row ${rowNumber}: rate "${rate}" is not a number`);
+    }
+
+    entries.push({
+      rowNumber,
+      codeColumn: firstColumn,
+      rateColumn,
+      code: String(code).trim(),
+      description: String(description),
+      unit: String(unit).trim(),
+      rate: Number(rate),
+      source: String(source),
+      date,
+    });
+  });
+
+  return entries;
+}
+
+/**
+ * Reads the rate fill settings: "Rate Reference Column" (optional column letter),
+ * "Rate Fill Mode" (Value or Formula), "Rate Match Threshold" (0–1) and "Rate Overwrite".
+ *
+ * @param {[string, CellFormula][]} settings - Key/value pairs, later pairs override earlier ones.
+ * @returns {RateFillOptions} The validated options.
+ * @throws If a setting has an invalid value.
+ */
+function resolveRateFillOptions(settings: [string, CellFormula][]): RateFillOptions {
+  const referenceSetting = findSetting(settings, "Rate Reference Column");
+  const mode = String(findSetting(settings, "Rate Fill Mode") || "Value").trim().toLowerCase();
+  const threshold = resolveFractionSetting(settings, "Rate Match Threshold", DEFAULT_RATE_MATCH_THRESHOLD);
+
+  if (mode !== "value" && mode !== "formula") {
+    throw new Error(`Invalid setting "Rate Fill Mode": ${mode} is not Value or Formula`);
+  }
+
+  if (isNaN(threshold) || threshold <= 0 || threshold > 1) {
+    throw new Error(`Invalid setting "Rate Match Threshold": must be between 0 and 1`);
+  }
+
+  return {
+    referenceColumn: referenceSetting === undefined
+      ? undefined
+      : columnNumberToLetter(columnLetterToNumber(String(referenceSetting).trim())),
+    mode,
+    threshold,
+    overwrite: resolveBooleanSetting(settings, "Rate Overwrite", false),
+  };
+}
+
+/**
+ * Scores how alike two descriptions are, from 0 (no shared words) to 1 (same words),
+ * ignoring case, punctuation and word order (Dice coefficient over word sets).
+ *
+ * @param {string} a - A description.
+ * @param {string} b - Another description.
+ * @returns {number} The similarity between 0 and 1.
+ */
+function getDescriptionSimilarity(a: string, b: string): number {
+  const wordsA = getDescriptionWords(a);
+  const wordsB = getDescriptionWords(b);
+  if (wordsA.length === 0 || wordsB.length === 0) return 0;
+
+  const shared = wordsA.filter(word => wordsB.includes(word)).length;
+  return (2 * shared) / (wordsA.length + wordsB.length);
+}
+
+/**
+ * Finds the library entry for an activity: by reference code if one is given,
+ * otherwise the most similar description with the same unit.
+ *
+ * @param {Activity} activity - The leaf activity.
+ * @param {string} reference - The activity's library reference ("" if none).
+ * @param {RateLibraryEntry[]} library - The rate library.
+ * @param {number} threshold - The minimum description similarity.
+ * @returns The matched entry and how it matched, or undefined.
+ */
+function findRateMatch(
+  activity: Activity,
+  reference: string,
+  library: RateLibraryEntry[],
+  threshold: number
+): { entry: RateLibraryEntry, method: "reference" | "description" } | undefined {
+
+  // 01 - An explicit reference must match exactly (ignoring case)
+  if (reference !== "") {
+    const entry = library.find(item => item.code.toLowerCase() === reference.toLowerCase());
+    return entry ? { entry, method: "reference" } : undefined;
+  }
+
+  // 02 - Otherwise take the best description match among entries with the same unit
+  let best: RateLibraryEntry | undefined;
+  let bestScore = threshold;
+
+  library.forEach(entry => {
+    if (!isSameUnit(entry.unit, activity.unit)) return;
+
+    const score = getDescriptionSimilarity(activity.activityName, entry.description);
+    if (score >= bestScore && (!best || score > bestScore)) {
+      best = entry;
+      bestScore = score;
+    }
+  });
+
+  return best ? { entry: best, method: "description" } : undefined;
+}
+
+/**
+ * Builds a live lookup of an entry's rate, by code when it has one so the
+ * library can be re-sorted, otherwise by its cell.
+ *
+ * @param {RateLibraryEntry} entry - The matched entry.
+ * @param {string} librarySheetName - The rate library sheet name.
+ * @returns {string} e.g. =INDEX('BQ_Rates'!$D:$D, MATCH("CON-01", 'BQ_Rates'!$A:$A, 0))
+ */
+function buildRateLookupFormula(entry: RateLibraryEntry, librarySheetName: string): string {
+  const sheet = `'${librarySheetName.replace(/'/g, "''")}'`;
+  const { codeColumn, rateColumn } = entry;
+
+  return entry.code === ""
+    ? `=${sheet}!$${rateColumn}$${entry.rowNumber}`
+    : `=INDEX(${sheet}!$${rateColumn}:$${rateColumn}, MATCH("${entry.code.replace(/"/g, '""')}", ${sheet}!$${codeColumn}:$${codeColumn}, 0))`;
+}
+
+/**
+ * Works out which leaf rates to fill from the library.
+ *
+ * @param {Activity[]} activities - All activities in worksheet order, with `hasChild` set.
+ * @param {string[]} references - Each row's library reference ("" if none, or all "" without a reference column).
+ * @param {RateLibraryEntry[]} library - The rate library.
+ * @param {RateFillOptions} options - The resolved fill options.
+ * @param {string} librarySheetName - The rate library sheet name, for lookup formulas.
+ * @returns The rates to write, and the indices of leaf rows left without a match.
+ */
+function planRateFill(
+  activities: Activity[],
+  references: string[],
+  library: RateLibraryEntry[],
+  options: RateFillOptions,
+  librarySheetName: string
+): { fills: RateFill[], unmatchedIndices: number[] } {
+  const fills: RateFill[] = [];
+  const unmatchedIndices: number[] = [];
+
+  activities.forEach((activity, i) => {
+
+    // 01 - Only leaf rows still waiting for a rate (unless overwriting)
+    const hasPlaceholderRate = activity.rate === "" || activity.rate === "[rate]" || String(activity.rate).includes("#REF!");
+    if (activity.hasChild || isBuildUpRateFormula(activity.rate) || (!hasPlaceholderRate && !options.overwrite)) return;
+
+    // 02 - Match and build the value or formula
+    const match = findRateMatch(activity, references[i] || "", library, options.threshold);
+
+    if (!match) {
+      unmatchedIndices.push(i);
+      return;
+    }
+
+    fills.push({
+      index: i,
+      rate: options.mode === "formula" ? buildRateLookupFormula(match.entry, librarySheetName) : match.entry.rate,
+      entry: match.entry,
+      method: match.method,
+    });
+  });
+
+  return { fills, unmatchedIndices };
+}
+
+/**
+ * Splits a description into lowercase words, ignoring punctuation.
+ */
+function getDescriptionWords(description: string): string[] {
+  const words = String(description).toLowerCase().split(/[^a-z0-9]+/).filter(word => word !== "");
+  return words.filter((word, i) => words.indexOf(word) === i);
+}
+
+
+// ===== BUNDLED MODULE - src/core/rateAnalysis.ts ===== //
+
+/**
+ * Core BQ Model: Rate Analysis
+ *
+ * Rate build-ups for individual leaf items, kept as blocks on the
+ * "Rate Analysis" sheet (columns A to F):
+ *
+ *   Item        | <code>      | <description> |          | Unit | <unit>
+ *   Resource    | Description | Unit          | Quantity | Rate | Amount
+ *   Labour / Plant / Material / Subcontract       (Amount = Quantity * Rate)
+ *   Subtotal                                      (SUM of the resources)
+ *   Overhead                              | <%>   | Subtotal * %
+ *   Profit                                | <%>   | (Subtotal + Overhead) * %
+ *   Rate                                          (Subtotal + Overhead + Profit)
+ *
+ * The item's rate links to the block's Rate cell (see `core/linkedBlocks`).
+ * Linked rates are preserved by formula refreshes, resets and rate library
+ * fills rather than treated as manual entries.
+ */
+
+/** Name of the rate build-up sheet. */
+const RATE_ANALYSIS_SHEET_NAME = "Rate Analysis";
+
+/** The resource lines every new build-up starts with. */
+const BUILD_UP_RESOURCES = ["Labour", "Plant", "Material", "Subcontract"];
+
+/** The rate analysis sheet, with build-ups totalled on their Rate row. */
+const BUILD_UP_BLOCKS: LinkedBlockSheet = {
+  sheetName: RATE_ANALYSIS_SHEET_NAME,
+  totalLabel: "Rate",
+  totalColumn: "F",
+  linkedField: "rate",
+  buildBlockRows: (headerRow, bqCell, layout) => {
+    const firstResourceRow = headerRow + 2;
+    const subtotalRow = firstResourceRow + BUILD_UP_RESOURCES.length;
+    const overheadRow = subtotalRow + 1;
+    const profitRow = subtotalRow + 2;
+
+    return [
+      ["Item", bqCell(layout.itemCodeColumn), bqCell(layout.descriptionStartColumn), "", "Unit", bqCell(layout.unitColumn)],
+      ["Resource", "Description", "Unit", "Quantity", "Rate", "Amount"],
+      ...BUILD_UP_RESOURCES.map((resource, i) => {
+        const row = firstResourceRow + i;
+        return [resource, "", "", 0, 0, `=D${row}*E${row}`];
+      }),
+      ["Subtotal", "", "", "", "", `=SUM(F${firstResourceRow}:F${subtotalRow - 1})`],
+      ["Overhead", "", "", "", 0, `=F${subtotalRow}*E${overheadRow}`],
+      ["Profit", "", "", "", 0, `=(F${subtotalRow}+F${overheadRow})*E${profitRow}`],
+      ["Rate", "", "", "", "", `=F${subtotalRow}+F${overheadRow}+F${profitRow}`],
+    ];
+  },
+};
+
+/**
+ * Determines whether a rate cell links to a build-up on the rate analysis sheet.
+ *
+ * @param {CellFormula} rate - The rate cell formula or value.
+ * @returns {boolean} True for formulas such as ='Rate Analysis'!$F$12.
+ */
+function isBuildUpRateFormula(rate: CellFormula): boolean {
+  return isLinkedBlockFormula(BUILD_UP_BLOCKS, rate);
+}
+
+
+// ===== BUNDLED MODULE - src/core/linkedBlocks.ts ===== //
+
+/**
+ * Core BQ Model: Linked Blocks
+ *
+ * Blocks of working kept on a side sheet for individual leaf items, such as
+ * quantity take-offs (see `core/takeOff`) and rate build-ups (see
+ * `core/rateAnalysis`). Every block spans column A to its total column:
+ *
+ *   Item        | <code> | <description> | …    (links back to the BQ row)
+ *   <block rows>                              (built by the sheet's `buildBlockRows`)
+ *   <total label> | …    | <total>            (the cell the BQ item links to)
+ *
+ * The header links back to the BQ row, so the block follows its item when rows
+ * are inserted, moved or renumbered, and the item's quantity or rate links to
+ * the block's total cell. Such linked cells are preserved by formula refreshes
+ * rather than treated as manual entries.
+ */
+
+/** Label in column A of every block's header row. */
+const BLOCK_HEADER_LABEL = "Item";
+
+/**
+ * A side sheet of linked blocks: its name, the label and column of each
+ * block's total (its last row and column), the BQ value linked to that total,
+ * and how a new block's rows are built from the header row down to the total
+ * row (`bqCell` links to the BQ row's cell in a column).
+ */
+interface LinkedBlockSheet {
+  sheetName: string,
+  totalLabel: string,
+  totalColumn: string,
+  linkedField: "quantity" | "rate",
+  buildBlockRows: (headerRow: number, bqCell: (column: string) => string, layout: TableLayout) => CellFormula[][],
+}
+
+/** Location of a block on its side sheet. */
+interface LinkedBlock {
+  headerRow: number,
+  totalRow: number,
+}
+
+/**
+ * Determines whether a BQ cell links to a block on the given sheet.
+ *
+ * @param {LinkedBlockSheet} blockSheet - The side sheet.
+ * @param {CellFormula} formula - The BQ cell formula or value.
+ * @returns {boolean} True for formulas such as ='Take-off'!$G$12.
+ */
+function isLinkedBlockFormula(blockSheet: LinkedBlockSheet, formula: CellFormula): boolean {
+  const sheetName = blockSheet.sheetName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return typeof formula === "string" && new RegExp(`^=\\s*'?${sheetName}'?!`, "i").test(formula);
+}
+
+/**
+ * Returns the total row a linked BQ cell points at.
+ *
+ * @param {LinkedBlockSheet} blockSheet - The side sheet.
+ * @param {CellFormula} formula - The BQ cell formula.
+ * @returns {number | undefined} The row number, or undefined if the cell is not a link to the sheet's totals.
+ */
+function getLinkedBlockTotalRow(blockSheet: LinkedBlockSheet, formula: CellFormula): number | undefined {
+  if (!isLinkedBlockFormula(blockSheet, formula)) return undefined;
+
+  const match = String(formula).match(new RegExp(`!\\$?${blockSheet.totalColumn}\\$?(\\d+)\\s*$`, "i"));
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Builds the formula that links a BQ cell to a block total.
+ *
+ * @param {LinkedBlockSheet} blockSheet - The side sheet.
+ * @param {number} totalRow - The block's total row.
+ * @returns {string} e.g. ='Take-off'!$G$12
+ */
+function buildLinkedBlockFormula(blockSheet: LinkedBlockSheet, totalRow: number): string {
+  return `='${blockSheet.sheetName}'!$${blockSheet.totalColumn}$${totalRow}`;
+}
+
+/**
+ * Builds a new block whose header links to the given BQ row.
+ *
+ * @param {LinkedBlockSheet} blockSheet - The side sheet.
+ * @param {number} headerRow - The row the block starts on.
+ * @param {string} bqSheetName - The BQ worksheet name.
+ * @param {number} bqRowNumber - The activity's row on the BQ worksheet.
+ * @param {TableLayout} layout - The BQ table layout.
+ * @returns The block's formulas from column A, top to bottom, and its location.
+ */
+function buildLinkedBlock(
+  blockSheet: LinkedBlockSheet,
+  headerRow: number,
+  bqSheetName: string,
+  bqRowNumber: number,
+  layout: TableLayout
+): { formulas: CellFormula[][], block: LinkedBlock } {
+  const bqCell = (column: string) => `='${bqSheetName.replace(/'/g, "''")}'!$${column}$${bqRowNumber}`;
+  const formulas = blockSheet.buildBlockRows(headerRow, bqCell, layout);
+
+  return { formulas, block: { headerRow, totalRow: headerRow + formulas.length - 1 } };
+}
+
+/**
+ * Finds the block for an item code.
+ *
+ * @param {LinkedBlockSheet} blockSheet - The side sheet.
+ * @param {CellFormula[][]} grid - Side sheet values from row 1, columns A and B at least.
+ * @param {string} itemCode - The item code shown in the block header.
+ * @returns {LinkedBlock | undefined} The block, or undefined if the item has none.
+ */
+function findLinkedBlock(blockSheet: LinkedBlockSheet, grid: CellFormula[][], itemCode: string): LinkedBlock | undefined {
+  const headerIndex = grid.findIndex(row => row[0] === BLOCK_HEADER_LABEL && String(row[1]) === itemCode);
+  if (headerIndex === -1) return undefined;
+
+  const totalIndex = grid.findIndex((row, i) => i > headerIndex && row[0] === blockSheet.totalLabel);
+  return totalIndex === -1 ? undefined : { headerRow: headerIndex + 1, totalRow: totalIndex + 1 };
+}
+
+/**
+ * Finds the block whose total row is `totalRow` (the row a linked BQ cell points at).
+ *
+ * @param {LinkedBlockSheet} blockSheet - The side sheet.
+ * @param {CellFormula[][]} grid - Side sheet values from row 1, column A at least.
+ * @param {number} totalRow - The linked total row.
+ * @returns {LinkedBlock | undefined} The block, or undefined if that row is not a block's total row.
+ */
+function findLinkedBlockByTotalRow(blockSheet: LinkedBlockSheet, grid: CellFormula[][], totalRow: number): LinkedBlock | undefined {
+  if (!grid[totalRow - 1] || grid[totalRow - 1][0] !== blockSheet.totalLabel) return undefined;
+
+  for (let i = totalRow - 2; i >= 0; i--) {
+    if (grid[i][0] === blockSheet.totalLabel) return undefined;
+    if (grid[i][0] === BLOCK_HEADER_LABEL) return { headerRow: i + 1, totalRow };
+  }
+
+  return undefined;
+}
+
+
+// ===== BUNDLED MODULE - src/core/units.ts ===== //
+
+/**
+ * Core BQ Model: Units of Measure
+ *
+ * The catalogue of units leaf items are measured in. The formula update
+ * rewrites common variants in their catalogue form ("m²", "sqm" → m2) and
+ * offers the catalogue as a drop-down on leaf unit cells; Validate BQ warns
+ * about units outside it.
+ *
+ * Each unit has a kind, so that roll-ups can tell lump sums (not kept as a
+ * parent's own quantity unless its roll-up mode says so, see `getRollUpMode`)
+ * from measured units.
+ */
+
+/** What a unit measures. */
+type UnitKind = "length" | "area" | "volume" | "mass" | "count" | "time" | "lumpSum";
+
+/** A catalogue unit and the variants rewritten to it. */
+interface CatalogueUnit {
+  unit: string,
+  kind: UnitKind,
+  aliases: string[],
+}
+
+/** The units catalogue, in drop-down order. Aliases are compared as keys (see `toUnitKey`). */
+const UNIT_CATALOGUE: CatalogueUnit[] = [
+  { unit: "m", kind: "length", aliases: ["lm", "linm", "rm", "metre", "metres", "meter", "meters"] },
+  { unit: "m2", kind: "area", aliases: ["sqm", "squaremetre", "squaremetres", "squaremeter", "squaremeters"] },
+  { unit: "m3", kind: "volume", aliases: ["cum", "cubicmetre", "cubicmetres", "cubicmeter", "cubicmeters"] },
+  { unit: "kg", kind: "mass", aliases: ["kgs", "kilo", "kilos", "kilogram", "kilograms"] },
+  { unit: "t", kind: "mass", aliases: ["ton", "tons", "tonne", "tonnes"] },
+  { unit: "nr", kind: "count", aliases: ["no", "nos", "number", "ea", "each", "pc", "pcs"] },
+  { unit: "item", kind: "count", aliases: ["items", "itm"] },
+  { unit: "hr", kind: "time", aliases: ["h", "hrs", "hour", "hours"] },
+  { unit: "day", kind: "time", aliases: ["days", "dy"] },
+  { unit: "LS", kind: "lumpSum", aliases: ["lumpsum"] },
+  { unit: "sum", kind: "lumpSum", aliases: ["sums"] },
+];
+
+/**
+ * Finds the catalogue entry for a unit or one of its variants.
+ *
+ * @param {string} unit - The unit cell text (e.g. "m²", "Sq.m", "LS").
+ * @returns {CatalogueUnit | undefined} The catalogue entry, or undefined if the unit is not in the catalogue.
+ */
+function findCatalogueUnit(unit: string): CatalogueUnit | undefined {
+  const key = toUnitKey(unit);
+  if (key === "") return undefined;
+
+  return UNIT_CATALOGUE.find(entry => toUnitKey(entry.unit) === key || entry.aliases.includes(key));
+}
+
+/**
+ * Returns the unit to write back to a unit cell: the catalogue form of a known
+ * unit, or the text unchanged so Validate BQ can report it.
+ *
+ * @param {string} unit - The unit cell text.
+ * @returns {string} e.g. "m2" for "m²".
+ */
+function normalizeUnit(unit: string): string {
+  const entry = findCatalogueUnit(unit);
+  return entry ? entry.unit : unit;
+}
+
+/**
+ * Determines whether two units are the same once normalised ("m²" and "sqm"
+ * are both m2), ignoring case for units outside the catalogue.
+ *
+ * @param {string} a - A unit.
+ * @param {string} b - Another unit.
+ * @returns {boolean} True if both name the same unit.
+ */
+function isSameUnit(a: string, b: string): boolean {
+  return normalizeUnit(String(a).trim()).toLowerCase() === normalizeUnit(String(b).trim()).toLowerCase();
+}
+
+/**
+ * Determines whether a unit is a lump sum (LS, sum) rather than a measured unit.
+ *
+ * @param {string} unit - The unit cell text.
+ * @returns {boolean} True for lump sum units and their variants.
+ */
+function isLumpSumUnit(unit: string): boolean {
+  const entry = findCatalogueUnit(unit);
+  return entry !== undefined && entry.kind === "lumpSum";
+}
+
+/**
+ * Reduces a unit to its comparison key: lower case, superscripts as digits,
+ * without spaces, dots or carets ("Sq. m" → "sqm", "m³" → "m3").
+ */
+function toUnitKey(unit: string): string {
+  return String(unit)
+    .toLowerCase()
+    .replace(/²/g, "2")
+    .replace(/³/g, "3")
+    .replace(/[\s.^]/g, "");
+}
+
+
+// ===== BUNDLED MODULE - src/excel/revisionCompare.ts ===== //
+
+/**
+ * ExcelScript Adapter: Revision Compare
+ *
+ * Compares the active BQ sheet (new revision) with another BQ sheet (old
+ * revision) and writes the change log to the "BQ Compare" sheet.
+ */
+
+/** Name of the sheet the change log is written to. */
+const COMPARE_SHEET_NAME = "BQ Compare";
+
+/** Fill colours of the status cells. */
+const CHANGE_STATUS_COLORS: Record<RevisionChangeStatus, string> = {
+  Added: "#C6EFCE",
+  Removed: "#FFC7CE",
+  Changed: "#FFEB9C",
+};
+
+/** Number format for the cost and variance columns. */
+const AMOUNT_NUMBER_FORMAT = "_(* #,##0.00_);_(* (#,##0.00);_(* \"-\"??_);_(@_)";
+
+/**
+ * Compares the active worksheet against the old revision's worksheet and writes the result.
+ *
+ * @param {ExcelScript.Workbook} workbook - The workbook holding both revisions.
+ * @param {TableLayout} layout - The table layout (shared by both sheets).
+ * @param {string} oldSheetName - The worksheet holding the old revision.
+ * @param {number} threshold - The minimum description similarity for a description match.
+ * @returns {RevisionComparison} The comparison written to the sheet.
+ * @throws If the old revision's worksheet does not exist or is the active sheet.
+ */
+function compareWithRevision(
+  workbook: ExcelScript.Workbook,
+  layout: TableLayout,
+  oldSheetName: string,
+  threshold: number
+): RevisionComparison {
+
+  // 01 - Read both revisions as values
+  const newSheet = workbook.getActiveWorksheet();
+  const oldSheet = workbook.getWorksheet(oldSheetName);
+
+  if (!oldSheet || oldSheet.getName() === newSheet.getName()) {
+    throw new Error(`Comparison not run - set "Compare Against Sheet" to the old revision's sheet (found "${oldSheetName}")!`);
+  }
+
+  const comparison = compareRevisions(
+    readActivityValues(oldSheet, layout).activityObjectsArray,
+    readActivityValues(newSheet, layout).activityObjectsArray,
+    threshold
+  );
+
+  // 02 - Build the change log, then the section variances below it
+  const changeRows: CellFormula[][] = [
+    ["Status", "Old Code", "New Code", "Description", "Unit", "Old Qty", "New Qty", "Old Rate", "New Rate", "Old Cost", "New Cost", "Cost Change", "Changes"],
+  ];
+
+  comparison.changes.forEach(change => {
+    const { oldItem, newItem } = change;
+    const item = newItem || oldItem;
+    if (!item) return; // every change has an old or a new item
+
+    changeRows.push([
+      change.status,
+      oldItem ? oldItem.itemCode : "",
+      newItem ? newItem.itemCode : "",
+      item.activityName,
+      item.unit,
+      oldItem ? oldItem.quantity : "",
+      newItem ? newItem.quantity : "",
+      oldItem ? oldItem.rate : "",
+      newItem ? newItem.rate : "",
+      oldItem ? oldItem.cost : "",
+      newItem ? newItem.cost : "",
+      change.costDelta,
+      change.changes.join("; "),
+    ]);
+  });
+
+  const sectionRows: CellFormula[][] = [["Section", "Description", "Old Total", "New Total", "Variance"]];
+  let oldTotal = 0;
+  let newTotal = 0;
+
+  comparison.sectionVariances.forEach(entry => {
+    sectionRows.push([entry.section, entry.description, entry.oldTotal, entry.newTotal, entry.variance]);
+    oldTotal += entry.oldTotal;
+    newTotal += entry.newTotal;
+  });
+  sectionRows.push(["", "Total", oldTotal, newTotal, newTotal - oldTotal]);
+
+  // 03 - Replace the compare sheet contents
+  const compareSheet = workbook.getWorksheet(COMPARE_SHEET_NAME) || workbook.addWorksheet(COMPARE_SHEET_NAME);
+  compareSheet.getRange().clear(ExcelScript.ClearApplyTo.all);
+
+  compareSheet.getRange("A1").setValue(`${oldSheet.getName()} → ${newSheet.getName()}`);
+  compareSheet.getRange("A1").getFormat().getFont().setBold(true);
+
+  const changeTopRow = 3;
+  const changeBottomRow = changeTopRow + changeRows.length - 1;
+  compareSheet.getRange(`A${changeTopRow}:M${changeBottomRow}`).setValues(changeRows as (string | number | boolean)[][]);
+
+  const sectionTopRow = changeBottomRow + 2;
+  const sectionBottomRow = sectionTopRow + sectionRows.length - 1;
+  compareSheet.getRange(`A${sectionTopRow}:E${sectionBottomRow}`).setValues(sectionRows as (string | number | boolean)[][]);
+
+  // 04 - Format headers, amounts and status colours
+  [`A${changeTopRow}:M${changeTopRow}`, `A${sectionTopRow}:E${sectionTopRow}`, `A${sectionBottomRow}:E${sectionBottomRow}`].forEach(address => {
+    const format = compareSheet.getRange(address).getFormat();
+    format.getFont().setBold(true);
+    format.getFill().setColor("#D9D9D9");
+  });
+
+  compareSheet.getRange(`J${changeTopRow + 1}:L${Math.max(changeBottomRow, changeTopRow + 1)}`).setNumberFormatLocal(AMOUNT_NUMBER_FORMAT);
+  compareSheet.getRange(`C${sectionTopRow + 1}:E${sectionBottomRow}`).setNumberFormatLocal(AMOUNT_NUMBER_FORMAT);
+
+  comparison.changes.forEach((change, i) => {
+    compareSheet.getRange(`A${changeTopRow + 1 + i}`).getFormat().getFill().setColor(CHANGE_STATUS_COLORS[change.status]);
+  });
+
+  compareSheet.getRange(`A${changeTopRow}:M${sectionBottomRow}`).getFormat().autofitColumns();
+
+  return comparison;
+}
+
+
+// ===== BUNDLED MODULE - src/excel/activityTable.ts ===== //
+
+/**
+ * ExcelScript Adapter: Activity Table
+ *
+ * Reads the BQ activity table from a worksheet into the core `BQTable` model.
+ */
+
+/**
+ * Transforms a structured Excel activity table into an array of hierarchical activity objects.
+ *
+ * Scans a worksheet starting from the layout's header row, determines the data range dynamically,
+ * and builds a structured array of objects containing item codes, quantities, rates, and calculated hierarchy levels.
+ *
+ * Automatically identifies parent-child relationships based on itemCode format (e.g., "A", "A-1", "A-1-1")
+ * and strips rate values from parent-level entries.
+ *
+ * @param {ExcelScript.Worksheet} sheet - The worksheet containing the activity table.
+ * @param {TableLayout} layout - The table layout (see `readTableLayout`).
+ * @returns {BQTable} Object containing the parsed activity data, top and bottom data row indices.
+ *
+ * @example
+ * const { activityObjectsArray } = transformTableToActivityObjects(sheet, readTableLayout(workbook));
+ */
+function transformTableToActivityObjects(
+  sheet: ExcelScript.Worksheet,
+  layout: TableLayout
+): BQTable {
+
+  // 01 - Determine the vertical bounds of the data table based on the item code column
+  const bottomTotalsRow = getBottomTotalsRow(sheet, layout);
+
+  const dataTopRow = layout.headerRow + 1;
+  const dataBottomRow = bottomTotalsRow - 1;
+
+  // 02 - Exit early if no data rows are found below the header
+  if (dataBottomRow < dataTopRow) {
+    console.log("No activity rows found.");
+    return {
+      activityObjectsArray: [],
+      dataTopRow,
+      dataBottomRow
+    };
+  }
+
+  // 03 - Extract cell formulas across the table's columns and parse them into activities
+  const table = parseBQTable(getTableRowsRange(sheet, layout, dataTopRow, dataBottomRow).getFormulas(), dataTopRow, layout);
+
+  // 04 - Clear rate values for items that act as parents in the hierarchy
+  table.activityObjectsArray.forEach((activity) => {
+    if (activity.hasChild) {
+      activity.rate = "";
+    }
+  });
+
+  return table;
+}
+
+/**
+ * Reads the activity table as calculated values (`Range.getValues()`) rather than
+ * formulas, e.g. for exports and comparisons that need the resulting costs.
+ *
+ * @param {ExcelScript.Worksheet} sheet - The worksheet containing the activity table.
+ * @param {TableLayout} layout - The table layout.
+ * @returns {BQTable} The parsed activity values, top and bottom data row indices.
+ */
+function readActivityValues(sheet: ExcelScript.Worksheet, layout: TableLayout): BQTable {
+  const dataTopRow = layout.headerRow + 1;
+  const dataBottomRow = getBottomTotalsRow(sheet, layout) - 1;
+
+  if (dataBottomRow < dataTopRow) {
+    return { activityObjectsArray: [], dataTopRow, dataBottomRow };
+  }
+
+  return parseBQTable(getTableRowsRange(sheet, layout, dataTopRow, dataBottomRow).getValues(), dataTopRow, layout);
+}
+
+/**
+ * Returns the row number of the grand totals row, i.e. the last contiguous
+ * non-empty cell in the item code column below the table header.
+ *
+ * @param {ExcelScript.Worksheet} sheet - The worksheet containing the activity table.
+ * @param {TableLayout} layout - The table layout.
+ * @returns {number} The 1-based row number of the grand totals row.
+ */
+function getBottomTotalsRow(sheet: ExcelScript.Worksheet, layout: TableLayout): number {
+  return sheet.getRange(`${layout.itemCodeColumn}${layout.headerRow}`)
+    .getRangeEdge(ExcelScript.KeyboardDirection.down)
+    .getRowIndex() + 1;
+}
+
+/**
+ * Returns the range spanning every table column for the given rows.
+ *
+ * @param {ExcelScript.Worksheet} sheet - The worksheet containing the activity table.
+ * @param {TableLayout} layout - The table layout.
+ * @param {number} topRow - The first row (1-based).
+ * @param {number} bottomRow - The last row (1-based).
+ * @returns {ExcelScript.Range} e.g. B10:J20 for the default layout.
+ */
+function getTableRowsRange(
+  sheet: ExcelScript.Worksheet,
+  layout: TableLayout,
+  topRow: number,
+  bottomRow: number
+): ExcelScript.Range {
+  const { firstColumn, lastColumn } = getTableColumnSpan(layout);
+  return sheet.getRange(`${firstColumn}${topRow}:${lastColumn}${bottomRow}`);
+}
+
+/**
+ * Writes one value or formula per row into a single column, starting at `topRow`.
+ *
+ * @param {ExcelScript.Worksheet} sheet - The worksheet containing the activity table.
+ * @param {string} columnLetter - The target column.
+ * @param {number} topRow - The first row (1-based) to write.
+ * @param {CellFormula[]} formulas - The values or formulas, top to bottom.
+ */
+function setColumnFormulas(
+  sheet: ExcelScript.Worksheet,
+  columnLetter: string,
+  topRow: number,
+  formulas: CellFormula[]
+): void {
+  if (formulas.length === 0) return;
+
+  sheet
+    .getRange(`${columnLetter}${topRow}:${columnLetter}${topRow + formulas.length - 1}`)
+    .setFormulas(formulas.map(formula => [formula]) as string[][]);
+}
+
+/**
+ * Writes only the cells of one column whose formula differs from the one
+ * read from the sheet, one call per run of consecutive changed rows (or a
+ * single call once there are more than `MAX_COLUMN_RUNS` runs).
+ *
+ * @param {ExcelScript.Worksheet} sheet - The worksheet containing the activity table.
+ * @param {string} columnLetter - The target column.
+ * @param {number} topRow - The row (1-based) of the first cell in both arrays.
+ * @param {CellFormula[]} currentFormulas - The column as read from the sheet.
+ * @param {CellFormula[]} nextFormulas - The values or formulas to write, top to bottom.
+ * @param {number[]} [rowIndices] - Only consider these rows (indices from `topRow`); every row if omitted.
+ * @returns {number} The number of cells written.
+ */
+function setChangedColumnFormulas(
+  sheet: ExcelScript.Worksheet,
+  columnLetter: string,
+  topRow: number,
+  currentFormulas: CellFormula[],
+  nextFormulas: CellFormula[],
+  rowIndices?: number[]
+): number {
+  let cellCount = 0;
+
+  getChangedColumnRuns(currentFormulas, nextFormulas, rowIndices).forEach(run => {
+    setColumnFormulas(sheet, columnLetter, topRow + run.startIndex, run.formulas);
+    cellCount += run.formulas.length;
+  });
+
+  return cellCount;
+}
+
+
+// ===== BUNDLED MODULE - src/core/refresh.ts ===== //
+
+/**
+ * Core BQ Model: Incremental Refresh
+ *
+ * Keeps formula updates on large BQs within the Office Scripts time limits:
+ * - only cells whose formula differs from the one read from the sheet are
+ *   written, as runs of consecutive rows (see `getChangedColumnRuns`);
+ * - after an insert or delete, only the touched rows' subtrees and their
+ *   ancestors are considered (see `getRefreshIndices`). Rows elsewhere keep
+ *   formulas that only reference their own row and their children, which
+ *   Excel shifts with the inserted or deleted rows.
+ */
+
+/** Worksheet rows touched by an insert or delete (inserted rows, or the rows either side of a deletion). */
+interface RefreshScope {
+  topRow: number,
+  bottomRow: number,
+}
+
+/**
+ * Above this many runs in one column, the changed cells are written in one
+ * call spanning them all: each call costs a round trip, which soon outweighs
+ * rewriting the unchanged cells in between.
+ */
+const MAX_COLUMN_RUNS = 20;
+
+/** A run of consecutive rows to write into one column. */
+interface ColumnRun {
+  startIndex: number,
+  formulas: CellFormula[],
+}
+
+/**
+ * Returns the rows whose formulas can change after the given rows were
+ * touched: each touched row's whole subtree, and every ancestor (whose
+ * roll-up includes it).
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number[]} touchedIndices - Indices of the touched rows; indices outside the table are ignored.
+ * @returns {number[]} Indices of the rows to refresh, top to bottom.
+ */
+function getRefreshIndices(itemCodes: string[], touchedIndices: number[]): number[] {
+  const { parentIndices } = buildActivityTree(itemCodes);
+  const marked: boolean[] = itemCodes.map(() => false);
+
+  touchedIndices
+    .filter(index => index >= 0 && index < itemCodes.length)
+    .forEach(index => {
+
+      // The touched row's subtree
+      const subtreeEndIndex = getSubtreeEndIndex(itemCodes, index);
+      for (let i = index; i <= subtreeEndIndex; i++) marked[i] = true;
+
+      // Its ancestors, stopping at one already marked (the rest of the chain is too)
+      let parentIndex = parentIndices[index];
+      while (parentIndex !== -1 && !marked[parentIndex]) {
+        marked[parentIndex] = true;
+        parentIndex = parentIndices[parentIndex];
+      }
+    });
+
+  const indices: number[] = [];
+  marked.forEach((isMarked, i) => {
+    if (isMarked) indices.push(i);
+  });
+
+  return indices;
+}
+
+/**
+ * Determines whether a computed cell matches the cell read from the sheet
+ * (numbers read back as numbers, so 1 and "1" are the same cell).
+ *
+ * @param {CellFormula} current - The formula or value read from the sheet.
+ * @param {CellFormula} next - The computed formula or value.
+ * @returns {boolean} True if writing `next` would not change the cell.
+ */
+function isSameCellFormula(current: CellFormula, next: CellFormula): boolean {
+  return current === next || String(current) === String(next);
+}
+
+/**
+ * Groups the cells of one column that need writing into runs of consecutive rows.
+ * Past `MAX_COLUMN_RUNS` runs, returns a single run from the first changed row
+ * to the last, in which rows that are unchanged or not considered keep the
+ * cell read from the sheet.
+ *
+ * @param {CellFormula[]} current - The column as read from the sheet, one cell per row.
+ * @param {CellFormula[]} next - The computed column, one cell per row.
+ * @param {number[]} [rowIndices] - The rows to consider, top to bottom (every row if omitted).
+ * @returns {ColumnRun[]} The runs to write, top to bottom.
+ */
+function getChangedColumnRuns(current: CellFormula[], next: CellFormula[], rowIndices?: number[]): ColumnRun[] {
+  const runs: ColumnRun[] = [];
+  let lastIndex = -2;
+
+  // 01 - Collect the runs of consecutive changed rows
+  (rowIndices || next.map((_, i) => i)).forEach(i => {
+    if (isSameCellFormula(current[i], next[i])) return;
+
+    if (i === lastIndex + 1) {
+      runs[runs.length - 1].formulas.push(next[i]);
+    } else {
+      runs.push({ startIndex: i, formulas: [next[i]] });
+    }
+    lastIndex = i;
+  });
+
+  // 02 - Merge them into one run if there are too many to write separately
+  if (runs.length > MAX_COLUMN_RUNS) {
+    const startIndex = runs[0].startIndex;
+    const merged = current.slice(startIndex, lastIndex + 1);
+
+    runs.forEach(run => run.formulas.forEach((formula, offset) => {
+      merged[run.startIndex - startIndex + offset] = formula;
+    }));
+
+    return [{ startIndex, formulas: merged }];
+  }
+
+  return runs;
+}
+
+/**
+ * Extracts one column from rows read across the table's column span.
+ *
+ * @param {CellFormula[][]} tableData2D - The rows as read from the sheet.
+ * @param {TableLayout} layout - The table layout the rows were read with.
+ * @param {string} columnLetter - The column to extract.
+ * @returns {CellFormula[]} One cell per row.
+ */
+function getColumnFormulas(tableData2D: CellFormula[][], layout: TableLayout, columnLetter: string): CellFormula[] {
+  const offset = getColumnOffset(layout, columnLetter);
+  return tableData2D.map(row => row[offset]);
+}
+
+
+// ===== BUNDLED MODULE - src/core/restructure.ts ===== //
+
+/**
+ * Core BQ Model: Structural Changes
+ *
+ * Plans structural edits (promote, demote, reorder, insert) on the list of
+ * item codes in worksheet order. Each plan returns the new item codes plus
+ * the row block moves or insertion point the worksheet must replay to match them.
+ *
+ * A "subtree block" is an item and all of its descendants, which always
+ * occupy consecutive rows in a depth-first ordered table.
+ */
+
+/** Moves rows `startIndex`..`endIndex` so they sit immediately before `insertBeforeIndex` (indices before the move). */
+interface BlockMove {
+  startIndex: number,
+  endIndex: number,
+  insertBeforeIndex: number,
+}
+
+/** The outcome of a structural edit. */
+interface RestructurePlan {
+  itemCodes: string[],
+  moves: BlockMove[],
+  levelChangedIndices: number[],
+}
+
+/** New rows to insert at `insertionIndex`, and every item code after the insertion. */
+interface InsertionPlan {
+  insertionIndex: number,
+  rowCount: number,
+  itemCodes: string[],
+}
+
+/**
+ * Returns the index of the last descendant of the item at `index`
+ * (or `index` itself if it has none).
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number} index - Index of the subtree root.
+ * @returns {number} The inclusive end index of the subtree block.
+ */
+function getSubtreeEndIndex(itemCodes: string[], index: number): number {
+  const prefix = itemCodes[index] + "-";
+  let endIndex = index;
+
+  while (endIndex + 1 < itemCodes.length && itemCodes[endIndex + 1].startsWith(prefix)) {
+    endIndex++;
+  }
+
+  return endIndex;
+}
+
+/**
+ * Returns the subtree roots covered by a selection: the first selected item,
+ * then each item following the previous root's subtree, up to `endIndex`.
+ * A selection ending mid-subtree still carries the whole subtree.
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number} startIndex - First selected index.
+ * @param {number} endIndex - Last selected index.
+ * @returns {number[]} Indices of the selected subtree roots, top to bottom.
+ */
+function getSelectedSubtreeRoots(itemCodes: string[], startIndex: number, endIndex: number): number[] {
+  const roots: number[] = [];
+
+  for (let i = startIndex; i <= endIndex; i = getSubtreeEndIndex(itemCodes, i) + 1) {
+    roots.push(i);
+  }
+
+  return roots;
+}
+
+/**
+ * Returns the index of the nearest preceding sibling of the item at `index`, or -1 if it is the first child.
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number} index - Index of the item.
+ * @returns {number} Index of the previous sibling, or -1.
+ */
+function getPreviousSiblingIndex(itemCodes: string[], index: number): number {
+  const level = getHierarchyLevel(itemCodes[index]);
+
+  for (let i = index - 1; i >= 0; i--) {
+    const candidateLevel = getHierarchyLevel(itemCodes[i]);
+    if (candidateLevel === level) return i;
+    if (candidateLevel < level) return -1;
+  }
+
+  return -1;
+}
+
+/**
+ * Returns the index of the next sibling of the item at `index`, or -1 if it is the last child.
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number} index - Index of the item.
+ * @returns {number} Index of the next sibling, or -1.
+ */
+function getNextSiblingIndex(itemCodes: string[], index: number): number {
+  const nextIndex = getSubtreeEndIndex(itemCodes, index) + 1;
+
+  if (nextIndex >= itemCodes.length) return -1;
+
+  return getHierarchyLevel(itemCodes[nextIndex]) === getHierarchyLevel(itemCodes[index]) ? nextIndex : -1;
+}
+
+/**
+ * Returns a copy of `items` with a block move applied.
+ *
+ * @param {T[]} items - The items in their current order.
+ * @param {BlockMove} move - The move to apply.
+ * @returns {T[]} The reordered items.
+ */
+function applyBlockMove<T>(items: T[], move: BlockMove): T[] {
+  const block = items.slice(move.startIndex, move.endIndex + 1);
+  const remaining = items.slice(0, move.startIndex).concat(items.slice(move.endIndex + 1));
+  const insertAt = move.insertBeforeIndex > move.endIndex
+    ? move.insertBeforeIndex - block.length
+    : move.insertBeforeIndex;
+
+  return remaining.slice(0, insertAt).concat(block, remaining.slice(insertAt));
+}
+
+/**
+ * Plans demoting each selected subtree one level, making it the last child
+ * of its previous sibling (e.g. A-2 → A-1-3, A-2-1 → A-1-3-1).
+ * No rows move: a subtree already follows its previous sibling's subtree.
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number[]} rootIndices - Subtree roots to demote (see `getSelectedSubtreeRoots`).
+ * @returns {RestructurePlan} The reindexed codes; `moves` is always empty.
+ * @throws If a selected item has no previous sibling to become its parent.
+ */
+function planDemotion(itemCodes: string[], rootIndices: number[]): RestructurePlan {
+  let codes = itemCodes.slice();
+
+  // 01 - Demote top-down so consecutive siblings all join the same new parent
+  rootIndices.slice().sort((a, b) => a - b).forEach(index => {
+    const previousSiblingIndex = getPreviousSiblingIndex(codes, index);
+
+    if (previousSiblingIndex === -1) {
+      throw new Error(`Cannot demote ${codes[index]}: it has no previous sibling to become its parent`);
+    }
+
+    const newRootCode = `${codes[previousSiblingIndex]}-${Number.MAX_SAFE_INTEGER}`;
+    codes = reindexItemCodes(rewriteSubtreeCodes(codes, index, newRootCode));
+  });
+
+  return {
+    itemCodes: codes,
+    moves: [],
+    levelChangedIndices: getLevelChangedIndices(itemCodes.map(code => getHierarchyLevel(code)), codes)
+  };
+}
+
+/**
+ * Plans promoting each selected subtree one level, making it the next
+ * sibling of its former parent (e.g. A-1-2 → A-2, moved below A-1's subtree).
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number[]} rootIndices - Subtree roots to promote (see `getSelectedSubtreeRoots`).
+ * @returns {RestructurePlan} The reindexed codes and the row moves to replay.
+ * @throws If a selected item is a section (level 0) or would become one (level 1), or its parent row is missing.
+ */
+function planPromotion(itemCodes: string[], rootIndices: number[]): RestructurePlan {
+  let codes = itemCodes.slice();
+  let levels = itemCodes.map(code => getHierarchyLevel(code));
+  const moves: BlockMove[] = [];
+
+  // 01 - Promote bottom-up so promoted siblings keep their relative order
+  rootIndices.slice().sort((a, b) => b - a).forEach(index => {
+    const code = codes[index];
+    const level = getHierarchyLevel(code);
+
+    if (level < 2) {
+      throw new Error(`Cannot promote ${code}: level ${level} items cannot be promoted to a section`);
+    }
+
+    // 01a - Rewrite the subtree under the grandparent, then move it below the parent's subtree
+    const parentCode = code.slice(0, code.lastIndexOf("-"));
+    const grandparentCode = parentCode.slice(0, parentCode.lastIndexOf("-"));
+    const parentIndex = codes.indexOf(parentCode);
+
+    if (parentIndex === -1) {
+      throw new Error(`Cannot promote ${code}: it has no parent ${parentCode} in the table`);
+    }
+
+    const parentEndIndex = getSubtreeEndIndex(codes, parentIndex);
+    const endIndex = getSubtreeEndIndex(codes, index);
+
+    codes = rewriteSubtreeCodes(codes, index, `${grandparentCode}-${Number.MAX_SAFE_INTEGER}`);
+
+    if (endIndex < parentEndIndex) {
+      const move: BlockMove = { startIndex: index, endIndex, insertBeforeIndex: parentEndIndex + 1 };
+      moves.push(move);
+      codes = applyBlockMove(codes, move);
+      levels = applyBlockMove(levels, move);
+    }
+
+    codes = reindexItemCodes(codes);
+  });
+
+  return { itemCodes: codes, moves, levelChangedIndices: getLevelChangedIndices(levels, codes) };
+}
+
+/**
+ * Plans swapping the selected subtree(s) with the adjacent sibling block above or below.
+ * Several selected roots move together and must be consecutive siblings.
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number[]} rootIndices - Subtree roots to move (see `getSelectedSubtreeRoots`).
+ * @param {"up" | "down"} direction - Which sibling to swap with.
+ * @returns {RestructurePlan} The reindexed codes and the single row move to replay.
+ * @throws If the roots are not siblings or there is no sibling in that direction.
+ */
+function planSiblingMove(itemCodes: string[], rootIndices: number[], direction: "up" | "down"): RestructurePlan {
+  const roots = rootIndices.slice().sort((a, b) => a - b);
+  const firstIndex = roots[0];
+  const lastIndex = roots[roots.length - 1];
+  const endIndex = getSubtreeEndIndex(itemCodes, lastIndex);
+
+  // 01 - Selected roots must be consecutive siblings
+  roots.forEach((index, i) => {
+    if (i > 0 && getNextSiblingIndex(itemCodes, roots[i - 1]) !== index) {
+      throw new Error(`Cannot move ${itemCodes[firstIndex]} and ${itemCodes[index]} together: they are not adjacent siblings`);
+    }
+  });
+
+  // 02 - Find the adjacent sibling block and plan the move
+  let move: BlockMove;
+
+  if (direction === "up") {
+    const siblingIndex = getPreviousSiblingIndex(itemCodes, firstIndex);
+    if (siblingIndex === -1) throw new Error(`Cannot move ${itemCodes[firstIndex]} up: it is already the first item at its level`);
+
+    move = { startIndex: firstIndex, endIndex, insertBeforeIndex: siblingIndex };
+  } else {
+    const siblingIndex = getNextSiblingIndex(itemCodes, lastIndex);
+    if (siblingIndex === -1) throw new Error(`Cannot move ${itemCodes[lastIndex]} down: it is already the last item at its level`);
+
+    move = { startIndex: firstIndex, endIndex, insertBeforeIndex: getSubtreeEndIndex(itemCodes, siblingIndex) + 1 };
+  }
+
+  // 03 - Renumber after the swap (section letters travel with their rows)
+  return {
+    itemCodes: reindexItemCodes(applyBlockMove(itemCodes, move)),
+    moves: [move],
+    levelChangedIndices: []
+  };
+}
+
+/**
+ * Plans inserting new items at the same level as the item at `index`, either
+ * directly above it or directly after its subtree. Later siblings (and their
+ * descendants) are renumbered, e.g. inserting below A-1-1 turns A-1-2 into A-1-3.
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number} index - Index of the selected item.
+ * @param {"above" | "below"} position - Where to insert relative to the selected item.
+ * @param {number} rowCount - Number of sibling rows to insert.
+ * @returns {InsertionPlan} The insertion point and the reindexed codes including the new rows.
+ * @throws If the selected item is a section (level 0).
+ */
+function planSiblingInsertion(
+  itemCodes: string[],
+  index: number,
+  position: "above" | "below",
+  rowCount: number
+): InsertionPlan {
+  const code = itemCodes[index];
+
+  if (getHierarchyLevel(code) === 0) {
+    throw new Error(`Cannot insert a sibling of section ${code}: use Insert Section instead`);
+  }
+
+  // 01 - New rows go above the item, or after its whole subtree
+  const insertionIndex = (position === "above") ? index : getSubtreeEndIndex(itemCodes, index) + 1;
+  const parentCode = code.slice(0, code.lastIndexOf("-"));
+  const newCodes: string[] = new Array(rowCount).fill(`${parentCode}-${Number.MAX_SAFE_INTEGER}`);
+
+  // 02 - Splice in the new rows and renumber
+  const codes = itemCodes.slice(0, insertionIndex).concat(newCodes, itemCodes.slice(insertionIndex));
+
+  return { insertionIndex, rowCount, itemCodes: reindexItemCodes(codes) };
+}
+
+/**
+ * Plans inserting items as the last children of the item at `parentIndex`.
+ * `depths` gives each new item's depth below the parent (1 = child,
+ * 2 = grandchild of the preceding depth-1 item, …), so a whole subtree can be
+ * inserted at once; the new items are numbered after the existing children.
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order.
+ * @param {number} parentIndex - Index of the selected parent item.
+ * @param {number[]} depths - The depth of each new item, in insertion order.
+ * @returns {InsertionPlan} The insertion point and the reindexed codes including the new rows.
+ */
+function planChildInsertion(itemCodes: string[], parentIndex: number, depths: number[]): InsertionPlan {
+  const parentCode = itemCodes[parentIndex];
+  const insertionIndex = getSubtreeEndIndex(itemCodes, parentIndex) + 1;
+
+  // 01 - Give each new row a placeholder code of the right depth, then renumber
+  const newCodes = depths.map(depth => parentCode + `-${Number.MAX_SAFE_INTEGER}`.repeat(depth));
+  const codes = itemCodes.slice(0, insertionIndex).concat(newCodes, itemCodes.slice(insertionIndex));
+
+  return { insertionIndex, rowCount: depths.length, itemCodes: reindexItemCodes(codes) };
+}
+
+/**
+ * Plans inserting a new, empty section (level 0) either directly above the
+ * section containing the item at `index`, or after that section's subtree.
+ *
+ * Without re-lettering the new section takes the letter after the latest one
+ * in use (e.g. C when A and B exist, AA after Z), wherever it is placed. With
+ * re-lettering every section is lettered in order, so inserting between A and
+ * B gives a new B and the old B becomes C.
+ *
+ * @param {string[]} itemCodes - Item codes in worksheet order (may be empty).
+ * @param {number} index - Index of the selected item (ignored for an empty table).
+ * @param {"above" | "below"} position - Where to insert relative to the selected item's section.
+ * @param {boolean} reletter - Whether to re-letter the sections that follow.
+ * @returns {InsertionPlan} The insertion point and every item code including the new section.
+ * @throws If the table is not empty but has no section (level 0) rows.
+ */
+function planSectionInsertion(
+  itemCodes: string[],
+  index: number,
+  position: "above" | "below",
+  reletter: boolean
+): InsertionPlan {
+
+  if (itemCodes.length === 0) {
+    return { insertionIndex: 0, rowCount: 1, itemCodes: ["A"] };
+  }
+
+  const sectionLetters = itemCodes.filter(code => getHierarchyLevel(code) === 0);
+
+  if (sectionLetters.length === 0) {
+    throw new Error("Cannot insert a section: the table has no section (level 0) rows");
+  }
+
+  // 01 - Find the section that contains the selected item
+  let sectionIndex = index;
+  while (sectionIndex > 0 && getHierarchyLevel(itemCodes[sectionIndex]) > 0) {
+    sectionIndex--;
+  }
+
+  const insertionIndex = (position === "above") ? sectionIndex : getSubtreeEndIndex(itemCodes, sectionIndex) + 1;
+
+  // 02 - Take the letter after the latest one in use
+  const latestLetter = sectionLetters.reduce(getLaterSectionLetter);
+  const newCode = incrementSectionLetter(latestLetter);
+
+  // 03 - Splice in the section row, re-lettering if requested
+  const codes = itemCodes.slice(0, insertionIndex).concat([newCode], itemCodes.slice(insertionIndex));
+
+  return { insertionIndex, rowCount: 1, itemCodes: reletter ? reletterSections(codes) : codes };
+}
+
+/**
+ * Replaces the code of the subtree rooted at `index` with `newRootCode`, carrying descendants along.
+ */
+function rewriteSubtreeCodes(itemCodes: string[], index: number, newRootCode: string): string[] {
+  const oldRootCode = itemCodes[index];
+  const endIndex = getSubtreeEndIndex(itemCodes, index);
+
+  return itemCodes.map((code, i) => (i >= index && i <= endIndex)
+    ? newRootCode + code.slice(oldRootCode.length)
+    : code
+  );
+}
+
+/**
+ * Returns the indices whose hierarchy level differs from the level originally held by the same row.
+ */
+function getLevelChangedIndices(originalLevels: number[], itemCodes: string[]): number[] {
+  const changed: number[] = [];
+
+  itemCodes.forEach((code, i) => {
+    if (getHierarchyLevel(code) !== originalLevels[i]) changed.push(i);
+  });
+
+  return changed;
+}
+
+
+// ===== BUNDLED MODULE - src/core/itemCodes.ts ===== //
+
+/**
+ * Core BQ Model: Item Code Generation
+ *
+ * Pure helpers for generating and renumbering hyphenated item codes.
+ */
+
+/**
+ * Increments the final numeric segment of a hyphen-delimited item code string.
+ * Example: 'A-1-3' → 'A-1-4'
+ *
+ * @param itemCode - The item code string to increment (e.g., "A-1-2").
+ * @returns The incremented item code string.
+ * @throws If the last segment is not a valid number.
+ */
+function incrementLastItemCodeSegment(itemCode: string): string {
+
+  const segments = itemCode.split("-");
+  const lastSegment = Number(segments[segments.length - 1]);
+
+  if (isNaN(lastSegment)) {
+    throw new Error(`Invalid numeric segment in code: ${itemCode}`);
+  }
+
+  // Replace last segment with incremented value
+  segments[segments.length - 1] = String(lastSegment + 1);
+
+  return segments.join("-");
+}
+
+/**
+ * Reindexes a list of hierarchical item codes to maintain contiguous numbering for each level.
+ *
+ * Example:
+ * Input:  ["A", "A-1", "A-1-1", "A-1-3", "A-2", "A-2-1", "A-3", "A-3-2"]
+ * Output: ["A", "A-1", "A-1-1", "A-1-2", "A-2", "A-2-1", "A-3", "A-3-1"]
+ *
+ * Assumes:
+ * - Input is in depth-first traversal order
+ * - Hierarchy is represented using hyphen-separated strings (e.g., "A-1-2")
+ *
+ * @param {string[]} itemCodes - Array of item codes representing a hierarchical structure
+ * @returns {string[]} - A new array with reindexed item codes preserving hierarchy
+ */
+function reindexItemCodes(itemCodes: string[]): string[] {
+  // 01 - Initialize the array to hold reindexed item codes
+  const reindexed: string[] = [];
+
+  // 02 - Initialize a path stack to build new item codes by hierarchy level
+  const pathStack: string[] = [];
+
+  // 03 - Initialize a counter array to track sibling indexes at each level
+  const levelCounters: number[] = [];
+
+  // 04 - Iterate through each itemCode in the provided array
+  for (let i = 0; i < itemCodes.length; i++) {
+    const code = itemCodes[i];
+
+    // 04a - Split the itemCode by '-' to determine its hierarchical level
+    const parts = code.split("-");
+
+    // 04b - Determine the current depth level (0-based)
+    const level = parts.length - 1;
+
+    // 04c - Truncate the pathStack and levelCounters to match the current depth
+    pathStack.length = level;
+    levelCounters.length = level + 1;
+
+    // 04d - Handle root-level items (e.g., "A")
+    if (level === 0) {
+      // 04d (i) - Directly assign the root name to pathStack[0]
+      pathStack[0] = parts[0];
+
+      // 04d (ii) - Set root-level counter to 0 (not actively used)
+      levelCounters[0] = 0;
+    } else {
+      // 04e (i) - Initialize or increment the sibling counter at current level
+      levelCounters[level] = (levelCounters[level] || 0) + 1;
+
+      // 04e (ii) - Store current index in the pathStack for this level
+      pathStack[level] = levelCounters[level].toString();
+    }
+
+    // 04f - Rebuild the itemCode string based on the updated pathStack
+    const newCode = (level === 0)
+      ? pathStack[0]  // 04f (i) - Root level: just use the root name
+      : `${pathStack[0]}-${pathStack.slice(1, level + 1).join("-")}`; // 04f (ii) - Join updated hierarchy
+
+    // 04g - Push the newCode into the result array
+    reindexed.push(newCode);
+  }
+
+  // 05 - Return the reindexed list of item codes
+  return reindexed;
+}
+
+/**
+ * Returns the section letter that follows the given one, carrying into an
+ * extra letter after Z in the same way as spreadsheet columns.
+ * Example: 'C' → 'D', 'Z' → 'AA', 'AZ' → 'BA'
+ *
+ * @param {string} sectionLetter - A level-0 item code (e.g., "B").
+ * @returns {string} The next section letter.
+ * @throws If the code is not made of letters only.
+ */
+function incrementSectionLetter(sectionLetter: string): string {
+  if (!/^[A-Z]+$/.test(sectionLetter)) {
+    throw new Error(`Invalid section letter: ${sectionLetter}`);
+  }
+
+  // 01 - Increment from the right, turning trailing Z's into A's
+  const letters = sectionLetter.split("");
+  let i = letters.length - 1;
+
+  while (i >= 0 && letters[i] === "Z") {
+    letters[i] = "A";
+    i--;
+  }
+
+  // 02 - Bump the first non-Z letter, or prepend an A if every letter was Z
+  if (i < 0) return "A" + letters.join("");
+
+  letters[i] = String.fromCharCode(letters[i].charCodeAt(0) + 1);
+  return letters.join("");
+}
+
+/**
+ * Returns the later of two section letters (longer codes sort after shorter ones, e.g. 'AA' after 'Z').
+ *
+ * @param {string} a - A section letter.
+ * @param {string} b - A section letter.
+ * @returns {string} Whichever letter comes last in the A, B, …, Z, AA, AB sequence.
+ */
+function getLaterSectionLetter(a: string, b: string): string {
+  if (a.length !== b.length) return a.length > b.length ? a : b;
+  return a > b ? a : b;
+}
+
+/**
+ * Re-letters every section (level-0 code) in order as A, B, C, …,
+ * carrying each section's descendants along.
+ *
+ * Example:
+ * Input:  ["A", "A-1", "C", "C-1", "B"]
+ * Output: ["A", "A-1", "B", "B-1", "C"]
+ *
+ * @param {string[]} itemCodes - Item codes in depth-first worksheet order, starting with a section.
+ * @returns {string[]} A new array with sequential section letters.
+ */
+function reletterSections(itemCodes: string[]): string[] {
+  let sectionLetter = "";
+
+  return itemCodes.map(code => {
+    const hyphenIndex = code.indexOf("-");
+
+    if (hyphenIndex === -1) {
+      sectionLetter = sectionLetter === "" ? "A" : incrementSectionLetter(sectionLetter);
+      return sectionLetter;
+    }
+
+    return sectionLetter + code.slice(hyphenIndex);
+  });
+}
+
+
+// ===== BUNDLED MODULE - src/excel/tableLayout.ts ===== //
+
+/**
+ * ExcelScript Adapter: Table Layout
+ *
+ * Reads the table layout settings from the workbook.
+ *
+ * Settings are taken from, in increasing order of precedence:
+ * 1. `DEFAULT_TABLE_LAYOUT` (header row 9, columns B to J)
+ * 2. The "BQ_Config" sheet: setting names in column A, values in column B
+ *    (e.g. "Header Row" | 12, "Cost Column" | K)
+ * 3. Workbook named ranges prefixed "BQ_" (e.g. BQ_HeaderRow, BQ_CostColumn)
+ */
+
+/** Name of the optional settings sheet. */
+const BQ_CONFIG_SHEET_NAME = "BQ_Config";
+
+/**
+ * Reads and validates the table layout configured in the workbook.
+ *
+ * @param {ExcelScript.Workbook} workbook - The workbook holding the BQ.
+ * @returns {TableLayout} The configured layout, or the default layout if nothing is configured.
+ */
+function readTableLayout(workbook: ExcelScript.Workbook): TableLayout {
+  return resolveTableLayout(readBQSettings(workbook));
+}
+
+/**
+ * Reads every key/value setting from the "BQ_Config" sheet followed by the
+ * workbook's "BQ_" named ranges, so named ranges take precedence.
+ *
+ * @param {ExcelScript.Workbook} workbook - The workbook holding the BQ.
+ * @returns {[string, CellFormula][]} The settings in order of increasing precedence.
+ */
+function readBQSettings(workbook: ExcelScript.Workbook): [string, CellFormula][] {
+  const settings: [string, CellFormula][] = [];
+
+  // 01 - Key/value rows in columns A:B of the config sheet, down to its last used row
+  const configSheet = workbook.getWorksheet(BQ_CONFIG_SHEET_NAME);
+  const usedRange = configSheet ? configSheet.getUsedRange(true) : undefined;
+
+  if (configSheet && usedRange) {
+    const lastRow = usedRange.getRowIndex() + usedRange.getRowCount();
+    const settingsRange = configSheet.getRange(`A1:B${lastRow}`);
+    const numberFormats2D = settingsRange.getNumberFormats();
+
+    settingsRange.getValues().forEach((row, i) => {
+      if (row[0] !== "") settings.push([String(row[0]), toSettingValue(row[1], numberFormats2D[i][1])]);
+    });
+  }
+
+  // 02 - Single-cell named ranges prefixed "BQ_"
+  workbook.getNames().forEach(namedItem => {
+    const name = namedItem.getName();
+    if (!/^BQ_/i.test(name) || namedItem.getType() !== ExcelScript.NamedItemType.range) return;
+
+    const range = namedItem.getRange();
+    settings.push([name, toSettingValue(range.getValue(), range.getNumberFormat())]);
+  });
+
+  return settings;
+}
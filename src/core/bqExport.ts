@@ -0,0 +1,153 @@
+/**
+ * Core BQ Model: Export
+ *
+ * Serialises the activity table for downstream systems (cost control,
+ * scheduling) that cannot read the merged, formatted sheet.
+ *
+ * Schema version 1 (`BQ_EXPORT_SCHEMA_VERSION`). Every item has:
+ *
+ *   code        string          item code, e.g. "A-1-2"
+ *   description string          text of the first description column
+ *   level       number          0 for sections, 1 for A-1, …
+ *   parentCode  string          "" for sections
+ *   quantity    number | null   null when blank or a placeholder
+ *   unit        string          "" when blank or a placeholder
+ *   rate        number | null   null on parents, blanks and placeholders
+ *   cost        number | null   the calculated cost
+ *   hasChild    boolean         whether the item rolls up children
+ *
+ * The CSV is flat, one line per item with the fields above as its header in
+ * that order. The JSON is a tree:
+ *   { schemaVersion, sheetName, exportedAt, items: [ { …fields, children: [ … ] } ] }
+ *
+ * New fields may be added within a version; renaming, removing or
+ * re-ordering fields bumps the version.
+ */
+
+import type { Activity, CellFormula } from "./activity";
+import { assertNoOrphanActivities, buildActivityTree } from "./hierarchy";
+
+/** Version of the export layout, bumped on breaking changes. */
+export const BQ_EXPORT_SCHEMA_VERSION = 1;
+
+/** One exported activity. */
+export interface ExportItem {
+  code: string,
+  description: string,
+  level: number,
+  parentCode: string,
+  quantity: number | null,
+  unit: string,
+  rate: number | null,
+  cost: number | null,
+  hasChild: boolean,
+}
+
+/** An exported activity with its children, as written to the JSON tree. */
+export interface ExportTreeItem extends ExportItem {
+  children: ExportTreeItem[],
+}
+
+/** The JSON export document. */
+export interface ExportDocument {
+  schemaVersion: number,
+  sheetName: string,
+  exportedAt: string,
+  items: ExportTreeItem[],
+}
+
+/** Field order of the CSV export. */
+const EXPORT_FIELDS: (keyof ExportItem)[] = [
+  "code", "description", "level", "parentCode", "quantity", "unit", "rate", "cost", "hasChild",
+];
+
+/**
+ * Converts activities read as values (`Range.getValues()`) into export items.
+ *
+ * @param {Activity[]} activities - The activities parsed from cell values, in worksheet order.
+ * @returns {ExportItem[]} One item per activity, in worksheet order.
+ * @throws If any row is orphaned, since its parent code would be wrong.
+ */
+export function buildExportItems(activities: Activity[]): ExportItem[] {
+  const tree = buildActivityTree(activities.map(activity => activity.itemCode));
+  assertNoOrphanActivities(activities, tree, "Export not written");
+
+  return activities.map((activity, i) => ({
+    code: activity.itemCode,
+    description: String(activity.activityName).trim(),
+    level: activity.hierarchyLevel,
+    parentCode: tree.parentIndices[i] === -1 ? "" : activities[tree.parentIndices[i]].itemCode,
+    quantity: toExportNumber(activity.quantity),
+    unit: isPlaceholder(activity.unit) ? "" : String(activity.unit).trim(),
+    rate: activity.hasChild ? null : toExportNumber(activity.rate),
+    cost: toExportNumber(activity.cost),
+    hasChild: activity.hasChild,
+  }));
+}
+
+/**
+ * Builds the flat CSV export, one line per item (RFC 4180 quoting).
+ *
+ * @param {ExportItem[]} items - The exported items.
+ * @returns {string[]} The header line followed by one line per item.
+ */
+export function buildExportCsvLines(items: ExportItem[]): string[] {
+  return [
+    EXPORT_FIELDS.join(","),
+    ...items.map(item => EXPORT_FIELDS.map(field => toCsvField(item[field])).join(",")),
+  ];
+}
+
+/**
+ * Builds the nested JSON export document.
+ *
+ * @param {ExportItem[]} items - The exported items, in worksheet order.
+ * @param {string} sheetName - The name of the exported worksheet.
+ * @param {string} exportedAt - When the export was made (ISO 8601).
+ * @returns {ExportDocument} The document with each item nested under its parent.
+ */
+export function buildExportDocument(items: ExportItem[], sheetName: string, exportedAt: string): ExportDocument {
+  const exportDocument: ExportDocument = { schemaVersion: BQ_EXPORT_SCHEMA_VERSION, sheetName, exportedAt, items: [] };
+  const treeItemsByCode: Record<string, ExportTreeItem> = {};
+
+  items.forEach(item => {
+    const treeItem: ExportTreeItem = { ...item, children: [] };
+    treeItemsByCode[item.code] = treeItem;
+
+    if (item.parentCode === "") {
+      exportDocument.items.push(treeItem);
+    } else {
+      treeItemsByCode[item.parentCode].children.push(treeItem);
+    }
+  });
+
+  return exportDocument;
+}
+
+/**
+ * Converts a cell value to a number, or null for blanks, text and placeholders.
+ */
+function toExportNumber(value: CellFormula): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string" || value.trim() === "" || isPlaceholder(value)) return null;
+
+  const numberValue = Number(value);
+  return isNaN(numberValue) ? null : numberValue;
+}
+
+/**
+ * Determines whether a cell holds one of the "[qty]" / "[unit]" / "[rate]" placeholders.
+ */
+function isPlaceholder(value: CellFormula): boolean {
+  return /^\[[a-z]+\]$/.test(String(value).trim());
+}
+
+/**
+ * Formats one CSV field, quoting text that contains a comma, quote or line break.
+ */
+function toCsvField(value: string | number | boolean | null): string {
+  if (value === null) return "";
+
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
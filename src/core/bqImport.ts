@@ -0,0 +1,225 @@
+/**
+ * Core BQ Model: Import
+ *
+ * Reads an item list pasted onto the "BQ Import" sheet, in any of:
+ * - a table with a header row naming its columns (Code / Item, Description,
+ *   and optionally Quantity / Qty, Unit, Rate); without a recognised header,
+ *   column A is the code and column B the description
+ * - CSV lines pasted into column A (e.g. the CSV from Export BQ)
+ * - the JSON tree from Export BQ pasted into column A (one line per cell or
+ *   all in one cell)
+ *
+ * Codes must be complete and in worksheet order: every item directly under
+ * its parent, no duplicates.
+ */
+
+import { CellFormula, buildNewActivityRow } from "./activity";
+import { BQ_EXPORT_SCHEMA_VERSION, ExportTreeItem } from "./bqExport";
+import { buildActivityTree } from "./hierarchy";
+import { TableLayout, getColumnOffset } from "./layout";
+import { ITEM_CODE_PATTERN } from "./validation";
+
+/** Name of the sheet the item list is pasted onto. */
+export const IMPORT_SHEET_NAME = "BQ Import";
+
+/** One imported item; blank values become placeholders on the BQ. */
+export interface ImportItem {
+  code: string,
+  description: CellFormula,
+  quantity: CellFormula,
+  unit: CellFormula,
+  rate: CellFormula,
+}
+
+/** Header names accepted for each imported field (compared lower-case, letters and digits only). */
+const IMPORT_HEADER_ALIASES: Record<keyof ImportItem, string[]> = {
+  code: ["code", "itemcode", "item", "itemno", "ref"],
+  description: ["description", "itemdescription", "activity"],
+  quantity: ["quantity", "qty"],
+  unit: ["unit", "units"],
+  rate: ["rate"],
+};
+
+/**
+ * Parses the pasted import sheet into items, detecting the format.
+ *
+ * @param {CellFormula[][]} grid - The used range of the import sheet (`Range.getValues()`).
+ * @returns {ImportItem[]} The items in sheet order, blank rows skipped.
+ * @throws If the JSON cannot be read or comes from a newer export schema.
+ */
+export function parseImportGrid(grid: CellFormula[][]): ImportItem[] {
+  const firstColumn = grid.map(row => String(row[0] === undefined ? "" : row[0]));
+  const firstText = firstColumn.find(cell => cell.trim() !== "") || "";
+  const otherColumnsEmpty = grid.every(row => row.slice(1).every(cell => cell === "" || cell === null));
+
+  if (firstText.trim().startsWith("{")) {
+    return parseImportJson(firstColumn.join("\n"));
+  }
+
+  if (otherColumnsEmpty && firstText.includes(",")) {
+    return parseImportTable(firstColumn.filter(line => line.trim() !== "").map(parseCsvLine));
+  }
+
+  return parseImportTable(grid);
+}
+
+/**
+ * Checks the imported codes: well formed, unique and each directly under its parent.
+ *
+ * @param {ImportItem[]} items - The imported items in order.
+ * @throws Listing every problem found, so nothing is written for a broken list.
+ */
+export function assertValidImportItems(items: ImportItem[]): void {
+  if (items.length === 0) {
+    throw new Error(`Import not written - no items found on "${IMPORT_SHEET_NAME}".`);
+  }
+
+  const problems: string[] = [];
+  const seenCodes: Record<string, boolean> = {};
+  const tree = buildActivityTree(items.map(item => item.code));
+
+  items.forEach((item, i) => {
+    if (!ITEM_CODE_PATTERN.test(item.code)) {
+      problems.push(item.code === "" ? `item ${i + 1} has no code` : `"${item.code}" is not a valid item code`);
+    } else if (seenCodes[item.code]) {
+      problems.push(`${item.code} appears more than once`);
+    } else if (tree.orphanIndices.includes(i)) {
+      problems.push(`${item.code} has no parent ${item.code.slice(0, item.code.lastIndexOf("-"))} directly above it`);
+    }
+    seenCodes[item.code] = true;
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Import not written - ${problems.join("; ")}.`);
+  }
+}
+
+/**
+ * Builds the BQ rows for the imported items, with placeholders for anything left blank.
+ * Cost cells keep their placeholder until the formula update runs.
+ *
+ * @param {ImportItem[]} items - The validated items in order.
+ * @param {TableLayout} layout - The table layout.
+ * @returns {CellFormula[][]} One row per item spanning the table's columns.
+ */
+export function buildImportRows(items: ImportItem[], layout: TableLayout): CellFormula[][] {
+  return items.map(item => {
+    const row = buildNewActivityRow(item.code, layout);
+    const setIfGiven = (columnLetter: string, value: CellFormula) => {
+      if (value !== "" && value !== null && value !== undefined) row[getColumnOffset(layout, columnLetter)] = value;
+    };
+
+    setIfGiven(layout.descriptionStartColumn, item.description);
+    setIfGiven(layout.quantityColumn, item.quantity);
+    setIfGiven(layout.unitColumn, item.unit);
+    setIfGiven(layout.rateColumn, item.rate);
+
+    return row;
+  });
+}
+
+/**
+ * Reads a table of rows, using its header row to find the columns if it has one.
+ */
+function parseImportTable(rows: CellFormula[][]): ImportItem[] {
+  const header = (rows[0] || []).map(cell => String(cell).toLowerCase().replace(/[^a-z0-9]/g, ""));
+  const findColumn = (field: keyof ImportItem) => header.findIndex(name => IMPORT_HEADER_ALIASES[field].includes(name));
+  const hasHeader = findColumn("code") !== -1;
+
+  const columns: Record<keyof ImportItem, number> = {
+    code: hasHeader ? findColumn("code") : 0,
+    description: hasHeader ? findColumn("description") : 1,
+    quantity: hasHeader ? findColumn("quantity") : -1,
+    unit: hasHeader ? findColumn("unit") : -1,
+    rate: hasHeader ? findColumn("rate") : -1,
+  };
+  const cellAt = (row: CellFormula[], column: number): CellFormula => {
+    const value = column === -1 ? "" : row[column];
+    return value === undefined || value === null ? "" : value;
+  };
+
+  return rows
+    .slice(hasHeader ? 1 : 0)
+    .filter(row => row.some(cell => String(cell === null ? "" : cell).trim() !== ""))
+    .map(row => ({
+      code: String(cellAt(row, columns.code)).trim().toUpperCase(),
+      description: cellAt(row, columns.description),
+      quantity: toImportNumber(cellAt(row, columns.quantity)),
+      unit: cellAt(row, columns.unit),
+      rate: toImportNumber(cellAt(row, columns.rate)),
+    }));
+}
+
+/**
+ * Converts numeric text (e.g. from CSV) to a number, leaving anything else as it is.
+ */
+function toImportNumber(value: CellFormula): CellFormula {
+  if (typeof value !== "string" || value.trim() === "") return value;
+
+  const numberValue = Number(value);
+  return isNaN(numberValue) ? value : numberValue;
+}
+
+/**
+ * Reads an Export BQ JSON document, flattening its tree in depth-first order.
+ */
+function parseImportJson(text: string): ImportItem[] {
+  let exported: { schemaVersion?: number, items?: ExportTreeItem[] };
+
+  try {
+    exported = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Import not written - the pasted JSON could not be read (${(error as Error).message}).`);
+  }
+
+  if (typeof exported.schemaVersion !== "number" || exported.schemaVersion > BQ_EXPORT_SCHEMA_VERSION || !Array.isArray(exported.items)) {
+    throw new Error(`Import not written - expected an Export BQ document with schema version ${BQ_EXPORT_SCHEMA_VERSION} or earlier.`);
+  }
+
+  const items: ImportItem[] = [];
+  const toCell = (value: CellFormula | null | undefined): CellFormula => value === null || value === undefined ? "" : value;
+  const addItems = (treeItems: ExportTreeItem[]) => {
+    treeItems.forEach(treeItem => {
+      items.push({
+        code: String(toCell(treeItem.code)).trim().toUpperCase(),
+        description: toCell(treeItem.description),
+        quantity: toCell(treeItem.quantity),
+        unit: toCell(treeItem.unit),
+        rate: toCell(treeItem.rate),
+      });
+      addItems(treeItem.children || []);
+    });
+  };
+
+  addItems(exported.items);
+
+  return items;
+}
+
+/**
+ * Splits one CSV line into fields (RFC 4180 quoting).
+ */
+function parseCsvLine(line: string): CellFormula[] {
+  const fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (inQuotes && char === "\"" && line[i + 1] === "\"") {
+      field += "\"";
+      i++;
+    } else if (char === "\"") {
+      inQuotes = !inQuotes;
+    } else if (char === "," && !inQuotes) {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+
+  return fields;
+}
@@ -0,0 +1,251 @@
+/**
+ * Core BQ Model: Rate Library
+ *
+ * Matches leaf activities against the master rate schedule kept on the
+ * rate library sheet (rows below a header row, wherever the table starts):
+ *
+ *   Code | Description | Unit | Rate | Source | Date
+ *
+ * An activity matches on its library reference (when a "Rate Reference
+ * Column" is configured and filled in), otherwise on the best fuzzy
+ * description match with the same unit ("m²" matches "m2", see `isSameUnit`).
+ * Only placeholder or empty rates are filled unless "Rate Overwrite" is set,
+ * so typed rates are never clobbered; rates linked to a build-up on the
+ * "Rate Analysis" sheet are always kept.
+ */
+
+import type { Activity, CellFormula } from "./activity";
+import { columnLetterToNumber, columnNumberToLetter } from "./layout";
+import { isBuildUpRateFormula } from "./rateAnalysis";
+import { findSetting, resolveBooleanSetting, resolveFractionSetting } from "./settings";
+import { isSameUnit } from "./units";
+
+/** One rate in the library. */
+export interface RateLibraryEntry {
+  rowNumber: number,
+  codeColumn: string,
+  rateColumn: string,
+  code: string,
+  description: string,
+  unit: string,
+  rate: number,
+  source: string,
+  date: CellFormula,
+}
+
+/** How rates are matched and written. */
+export interface RateFillOptions {
+  referenceColumn: string | undefined,
+  mode: "value" | "formula",
+  threshold: number,
+  overwrite: boolean,
+}
+
+/** A rate to write to one activity row. */
+export interface RateFill {
+  index: number,
+  rate: CellFormula,
+  entry: RateLibraryEntry,
+  method: "reference" | "description",
+}
+
+/** Default minimum description similarity (0–1) for a fuzzy match. */
+const DEFAULT_RATE_MATCH_THRESHOLD = 0.6;
+
+/**
+ * Parses the rate library grid (including its header row), skipping blank rows.
+ *
+ * @param {CellFormula[][]} grid - The library sheet values, header row first.
+ * @param {number} [headerRow=1] - The sheet row the grid starts on.
+ * @param {string} [codeColumn="A"] - The sheet column the grid starts in (the Code column).
+ * @returns {RateLibraryEntry[]} The library entries in sheet order.
+ * @throws If a row has a non-numeric rate.
+ */
+export function parseRateLibrary(grid: CellFormula[][], headerRow: number = 1, codeColumn: string = "A"): RateLibraryEntry[] {
+  const entries: RateLibraryEntry[] = [];
+  const firstColumn = columnNumberToLetter(columnLetterToNumber(codeColumn));
+  const rateColumn = columnNumberToLetter(columnLetterToNumber(firstColumn) + 3);
+
+  grid.slice(1).forEach((row, i) => {
+    const [code, description, unit, rate, source = "", date = ""] = row;
+    const rowNumber = headerRow + 1 + i;
+
+    if (row.every(cell => cell === "")) return;
+
+    if (rate === "" || isNaN(Number(rate))) {
+      throw new Error(`Invalid rate library row ${rowNumber}: rate "${rate}" is not a number`);
+    }
+
+    entries.push({
+      rowNumber,
+      codeColumn: firstColumn,
+      rateColumn,
+      code: String(code).trim(),
+      description: String(description),
+      unit: String(unit).trim(),
+      rate: Number(rate),
+      source: String(source),
+      date,
+    });
+  });
+
+  return entries;
+}
+
+/**
+ * Reads the rate fill settings: "Rate Reference Column" (optional column letter),
+ * "Rate Fill Mode" (Value or Formula), "Rate Match Threshold" (0–1) and "Rate Overwrite".
+ *
+ * @param {[string, CellFormula][]} settings - Key/value pairs, later pairs override earlier ones.
+ * @returns {RateFillOptions} The validated options.
+ * @throws If a setting has an invalid value.
+ */
+export function resolveRateFillOptions(settings: [string, CellFormula][]): RateFillOptions {
+  const referenceSetting = findSetting(settings, "Rate Reference Column");
+  const mode = String(findSetting(settings, "Rate Fill Mode") || "Value").trim().toLowerCase();
+  const threshold = resolveFractionSetting(settings, "Rate Match Threshold", DEFAULT_RATE_MATCH_THRESHOLD);
+
+  if (mode !== "value" && mode !== "formula") {
+    throw new Error(`Invalid setting "Rate Fill Mode": ${mode} is not Value or Formula`);
+  }
+
+  if (isNaN(threshold) || threshold <= 0 || threshold > 1) {
+    throw new Error(`Invalid setting "Rate Match Threshold": must be between 0 and 1`);
+  }
+
+  return {
+    referenceColumn: referenceSetting === undefined
+      ? undefined
+      : columnNumberToLetter(columnLetterToNumber(String(referenceSetting).trim())),
+    mode,
+    threshold,
+    overwrite: resolveBooleanSetting(settings, "Rate Overwrite", false),
+  };
+}
+
+/**
+ * Scores how alike two descriptions are, from 0 (no shared words) to 1 (same words),
+ * ignoring case, punctuation and word order (Dice coefficient over word sets).
+ *
+ * @param {string} a - A description.
+ * @param {string} b - Another description.
+ * @returns {number} The similarity between 0 and 1.
+ */
+export function getDescriptionSimilarity(a: string, b: string): number {
+  const wordsA = getDescriptionWords(a);
+  const wordsB = getDescriptionWords(b);
+  if (wordsA.length === 0 || wordsB.length === 0) return 0;
+
+  const shared = wordsA.filter(word => wordsB.includes(word)).length;
+  return (2 * shared) / (wordsA.length + wordsB.length);
+}
+
+/**
+ * Finds the library entry for an activity: by reference code if one is given,
+ * otherwise the most similar description with the same unit.
+ *
+ * @param {Activity} activity - The leaf activity.
+ * @param {string} reference - The activity's library reference ("" if none).
+ * @param {RateLibraryEntry[]} library - The rate library.
+ * @param {number} threshold - The minimum description similarity.
+ * @returns The matched entry and how it matched, or undefined.
+ */
+export function findRateMatch(
+  activity: Activity,
+  reference: string,
+  library: RateLibraryEntry[],
+  threshold: number
+): { entry: RateLibraryEntry, method: "reference" | "description" } | undefined {
+
+  // 01 - An explicit reference must match exactly (ignoring case)
+  if (reference !== "") {
+    const entry = library.find(item => item.code.toLowerCase() === reference.toLowerCase());
+    return entry ? { entry, method: "reference" } : undefined;
+  }
+
+  // 02 - Otherwise take the best description match among entries with the same unit
+  let best: RateLibraryEntry | undefined;
+  let bestScore = threshold;
+
+  library.forEach(entry => {
+    if (!isSameUnit(entry.unit, activity.unit)) return;
+
+    const score = getDescriptionSimilarity(activity.activityName, entry.description);
+    if (score >= bestScore && (!best || score > bestScore)) {
+      best = entry;
+      bestScore = score;
+    }
+  });
+
+  return best ? { entry: best, method: "description" } : undefined;
+}
+
+/**
+ * Builds a live lookup of an entry's rate, by code when it has one so the
+ * library can be re-sorted, otherwise by its cell.
+ *
+ * @param {RateLibraryEntry} entry - The matched entry.
+ * @param {string} librarySheetName - The rate library sheet name.
+ * @returns {string} e.g. =INDEX('BQ_Rates'!$D:$D, MATCH("CON-01", 'BQ_Rates'!$A:$A, 0))
+ */
+export function buildRateLookupFormula(entry: RateLibraryEntry, librarySheetName: string): string {
+  const sheet = `'${librarySheetName.replace(/'/g, "''")}'`;
+  const { codeColumn, rateColumn } = entry;
+
+  return entry.code === ""
+    ? `=${sheet}!$${rateColumn}$${entry.rowNumber}`
+    : `=INDEX(${sheet}!$${rateColumn}:$${rateColumn}, MATCH("${entry.code.replace(/"/g, '""')}", ${sheet}!$${codeColumn}:$${codeColumn}, 0))`;
+}
+
+/**
+ * Works out which leaf rates to fill from the library.
+ *
+ * @param {Activity[]} activities - All activities in worksheet order, with `hasChild` set.
+ * @param {string[]} references - Each row's library reference ("" if none, or all "" without a reference column).
+ * @param {RateLibraryEntry[]} library - The rate library.
+ * @param {RateFillOptions} options - The resolved fill options.
+ * @param {string} librarySheetName - The rate library sheet name, for lookup formulas.
+ * @returns The rates to write, and the indices of leaf rows left without a match.
+ */
+export function planRateFill(
+  activities: Activity[],
+  references: string[],
+  library: RateLibraryEntry[],
+  options: RateFillOptions,
+  librarySheetName: string
+): { fills: RateFill[], unmatchedIndices: number[] } {
+  const fills: RateFill[] = [];
+  const unmatchedIndices: number[] = [];
+
+  activities.forEach((activity, i) => {
+
+    // 01 - Only leaf rows still waiting for a rate (unless overwriting)
+    const hasPlaceholderRate = activity.rate === "" || activity.rate === "[rate]" || String(activity.rate).includes("#REF!");
+    if (activity.hasChild || isBuildUpRateFormula(activity.rate) || (!hasPlaceholderRate && !options.overwrite)) return;
+
+    // 02 - Match and build the value or formula
+    const match = findRateMatch(activity, references[i] || "", library, options.threshold);
+
+    if (!match) {
+      unmatchedIndices.push(i);
+      return;
+    }
+
+    fills.push({
+      index: i,
+      rate: options.mode === "formula" ? buildRateLookupFormula(match.entry, librarySheetName) : match.entry.rate,
+      entry: match.entry,
+      method: match.method,
+    });
+  });
+
+  return { fills, unmatchedIndices };
+}
+
+/**
+ * Splits a description into lowercase words, ignoring punctuation.
+ */
+function getDescriptionWords(description: string): string[] {
+  const words = String(description).toLowerCase().split(/[^a-z0-9]+/).filter(word => word !== "");
+  return words.filter((word, i) => words.indexOf(word) === i);
+}
@@ -0,0 +1,159 @@
+/**
+ * Core BQ Model: Scoped Resets
+ *
+ * Decides which leaf rows Reset All Rates / Reset All Quantities put back
+ * to their "[rate]" / "[qty]" placeholder. Scope is read from settings:
+ *
+ *   Reset Scope              All (default) | Selection | Sections | Filter
+ *   Reset Sections           Section letters for the Sections scope, e.g. "A, C"
+ *   Reset Unit Filter        Units for the Filter scope, e.g. "m3, m2"
+ *   Reset Description Filter Text the description must contain (Filter scope)
+ *   Reset Preview            Yes to only report how many cells would change
+ *   Reset Linked Quantities  Yes to also clear quantities linked to the Take-off sheet
+ *
+ * Provisional and Prime Cost Sums keep their amount (held in the rate column)
+ * and their quantity cell (blank, or the PC percentage); Rate Only items have
+ * no quantity to reset.
+ */
+
+import type { Activity, CellFormula } from "./activity";
+import { getHierarchyLevel } from "./hierarchy";
+import { resolveItemType } from "./itemTypes";
+import { isBuildUpRateFormula } from "./rateAnalysis";
+import { getSelectedSubtreeRoots, getSubtreeEndIndex } from "./restructure";
+import { findSetting, resolveBooleanSetting } from "./settings";
+import { isTakeOffQuantityFormula } from "./takeOff";
+import { isSameUnit } from "./units";
+
+/** Which rows a reset applies to. */
+export type ResetScope = "all" | "selection" | "sections" | "filter";
+
+/** The resolved reset settings. */
+export interface ResetOptions {
+  scope: ResetScope,
+  sections: string[],
+  units: string[],
+  descriptionFilter: string,
+  preview: boolean,
+  clearLinkedQuantities: boolean,
+}
+
+/**
+ * Reads the reset settings, defaulting to a full (unscoped) reset that is written immediately.
+ *
+ * @param {[string, CellFormula][]} settings - Key/value pairs, later pairs override earlier ones.
+ * @returns {ResetOptions} The validated options.
+ * @throws If the scope is unknown, or a Sections/Filter scope has nothing to match.
+ */
+export function resolveResetOptions(settings: [string, CellFormula][]): ResetOptions {
+  const scope = String(findSetting(settings, "Reset Scope") || "All").trim().toLowerCase() as ResetScope;
+
+  if (!["all", "selection", "sections", "filter"].includes(scope)) {
+    throw new Error(`Invalid setting "Reset Scope": ${scope} is not All, Selection, Sections or Filter`);
+  }
+
+  const options: ResetOptions = {
+    scope,
+    sections: splitSettingList(findSetting(settings, "Reset Sections")).map(section => section.toUpperCase()),
+    units: splitSettingList(findSetting(settings, "Reset Unit Filter")).map(unit => unit.toLowerCase()),
+    descriptionFilter: String(findSetting(settings, "Reset Description Filter") || "").trim().toLowerCase(),
+    preview: resolveBooleanSetting(settings, "Reset Preview", false),
+    clearLinkedQuantities: resolveBooleanSetting(settings, "Reset Linked Quantities", false),
+  };
+
+  if (scope === "sections" && options.sections.length === 0) {
+    throw new Error(`Reset Scope is Sections but "Reset Sections" lists no sections`);
+  }
+
+  if (scope === "filter" && options.units.length === 0 && options.descriptionFilter === "") {
+    throw new Error(`Reset Scope is Filter but neither "Reset Unit Filter" nor "Reset Description Filter" is set`);
+  }
+
+  return options;
+}
+
+/**
+ * Returns the indices of the leaf activities a reset applies to. Rates linked
+ * to a build-up on the "Rate Analysis" sheet are never reset; quantities linked
+ * to the "Take-off" sheet only when `clearLinkedQuantities` is set.
+ *
+ * @param {Activity[]} activities - All activities in worksheet order, with `hasChild` set.
+ * @param {ResetOptions} options - The resolved reset options.
+ * @param {"rate" | "quantity"} target - Which value is being reset.
+ * @param selection - First and last selected indices (required for the Selection scope).
+ * @returns {number[]} Indices of the leaf rows in scope, top to bottom.
+ * @throws If the Selection scope is used without a selection inside the table.
+ */
+export function getResetIndices(
+  activities: Activity[],
+  options: ResetOptions,
+  target: "rate" | "quantity",
+  selection?: { startIndex: number, endIndex: number }
+): number[] {
+  const itemCodes = activities.map(activity => activity.itemCode);
+  const inScope: boolean[] = new Array(activities.length).fill(options.scope === "all");
+
+  const markSubtree = (rootIndex: number) => {
+    for (let i = rootIndex; i <= getSubtreeEndIndex(itemCodes, rootIndex); i++) inScope[i] = true;
+  };
+
+  // 01 - Mark the rows covered by the scope
+  if (options.scope === "selection") {
+    if (!selection) throw new Error("Reset Scope is Selection but the selection is not within the table");
+    getSelectedSubtreeRoots(itemCodes, selection.startIndex, selection.endIndex).forEach(markSubtree);
+  }
+
+  if (options.scope === "sections") {
+    itemCodes.forEach((code, i) => {
+      if (getHierarchyLevel(code) === 0 && options.sections.includes(code)) markSubtree(i);
+    });
+  }
+
+  if (options.scope === "filter") {
+    activities.forEach((activity, i) => {
+      const unitMatches = options.units.length === 0 || options.units.some(unit => isSameUnit(unit, activity.unit));
+      const descriptionMatches = String(activity.activityName).toLowerCase().includes(options.descriptionFilter);
+      inScope[i] = unitMatches && descriptionMatches;
+    });
+  }
+
+  // 02 - Only leaf rows hold their own rate and quantity; build-up rates (and take-off quantities, unless cleared) stay linked
+  const indices: number[] = [];
+  activities.forEach((activity, i) => {
+    if (!inScope[i] || activity.hasChild) return;
+
+    const itemType = resolveItemType(activity.itemType);
+    if (itemType === "PS" || itemType === "PC") return;
+    if (target === "rate" && isBuildUpRateFormula(activity.rate)) return;
+    if (target === "quantity" && itemType === "RO") return;
+    if (target === "quantity" && !options.clearLinkedQuantities && isTakeOffQuantityFormula(activity.quantity)) return;
+    indices.push(i);
+  });
+
+  return indices;
+}
+
+/**
+ * Describes the scope for log messages, e.g. "sections A, C".
+ *
+ * @param {ResetOptions} options - The resolved reset options.
+ * @returns {string} A short description of the scope.
+ */
+export function describeResetScope(options: ResetOptions): string {
+  if (options.scope === "selection") return "the selected items";
+  if (options.scope === "sections") return `sections ${options.sections.join(", ")}`;
+  if (options.scope === "all") return "the whole table";
+
+  return [
+    options.units.length > 0 ? `unit ${options.units.join("/")}` : "",
+    options.descriptionFilter !== "" ? `description containing "${options.descriptionFilter}"` : "",
+  ].filter(part => part !== "").join(" and ");
+}
+
+/**
+ * Splits a comma or semicolon separated setting into trimmed, non-empty entries.
+ */
+function splitSettingList(value: CellFormula | undefined): string[] {
+  if (value === undefined) return [];
+  return String(value).split(/[,;]/).map(entry => entry.trim()).filter(entry => entry !== "");
+}
@@ -0,0 +1,288 @@
+/**
+ * Core BQ Model: Revision Compare
+ *
+ * Compares the priced (leaf) items of two revisions of a BQ, e.g. Rev A and
+ * Rev B. Parents are left out because their cost is the sum of their leaves,
+ * so every change is counted exactly once.
+ *
+ * Items are aligned in passes:
+ * 1. Same code and a similar description (unchanged or edited in place)
+ * 2. Same or similar description under another code (reindexed or moved)
+ * 3. Same code with a different description (reworded)
+ * Anything left over is Added (new revision only) or Removed (old only).
+ * Section variances compare each section's total in the two revisions, following
+ * matched items into their new section.
+ */
+
+import type { Activity, CellFormula } from "./activity";
+import { getDescriptionSimilarity } from "./rateLibrary";
+import { findSetting, resolveFractionSetting } from "./settings";
+
+/** How an item differs between revisions. */
+export type RevisionChangeStatus = "Added" | "Removed" | "Changed";
+
+/** One listed difference between the old and new revisions. */
+export interface RevisionChange {
+  status: RevisionChangeStatus,
+  oldItem: Activity | undefined,
+  newItem: Activity | undefined,
+  costDelta: number,
+  changes: string[],
+}
+
+/** The change in one section's total. */
+export interface SectionVariance {
+  section: string,
+  description: string,
+  oldTotal: number,
+  newTotal: number,
+  variance: number,
+}
+
+/** The full comparison of two revisions. */
+export interface RevisionComparison {
+  changes: RevisionChange[],
+  sectionVariances: SectionVariance[],
+  unchangedCount: number,
+}
+
+/** Default minimum description similarity for aligning items by description. */
+const DEFAULT_COMPARE_MATCH_THRESHOLD = 0.6;
+
+/**
+ * Reads the compare settings: the sheet holding the old revision and the match threshold.
+ *
+ * @param {[string, CellFormula][]} settings - Key/value pairs, later pairs override earlier ones.
+ * @returns The old revision's sheet name ("" if not set) and the description threshold.
+ * @throws If the threshold is not between 0 and 1.
+ */
+export function resolveCompareOptions(settings: [string, CellFormula][]): { oldSheetName: string, threshold: number } {
+  const threshold = resolveFractionSetting(settings, "Compare Match Threshold", DEFAULT_COMPARE_MATCH_THRESHOLD);
+
+  if (isNaN(threshold) || threshold < 0 || threshold > 1) {
+    throw new Error(`Invalid setting "Compare Match Threshold": must be between 0 and 1`);
+  }
+
+  return {
+    oldSheetName: String(findSetting(settings, "Compare Against Sheet") || "").trim(),
+    threshold,
+  };
+}
+
+/**
+ * Compares the leaf items of two revisions, read as values (`Range.getValues()`).
+ *
+ * @param {Activity[]} oldActivities - The old revision's activities, with `hasChild` set.
+ * @param {Activity[]} newActivities - The new revision's activities, with `hasChild` set.
+ * @param {number} threshold - The minimum description similarity for a description match.
+ * @returns {RevisionComparison} The changed, added and removed items and each section's variance.
+ */
+export function compareRevisions(oldActivities: Activity[], newActivities: Activity[], threshold: number): RevisionComparison {
+  const oldLeaves = oldActivities.filter(activity => !activity.hasChild);
+  const newLeaves = newActivities.filter(activity => !activity.hasChild);
+
+  // Index into oldLeaves matched to each new leaf (-1 until matched)
+  const matches: number[] = newLeaves.map(() => -1);
+  const oldMatched: boolean[] = oldLeaves.map(() => false);
+
+  const pair = (newIndex: number, oldIndex: number) => {
+    matches[newIndex] = oldIndex;
+    oldMatched[oldIndex] = true;
+  };
+
+  // 01 - Same code, similar description
+  newLeaves.forEach((newItem, n) => {
+    const o = oldLeaves.findIndex((oldItem, i) => !oldMatched[i] && oldItem.itemCode === newItem.itemCode);
+    if (o !== -1 && getDescriptionSimilarity(String(oldLeaves[o].activityName), String(newItem.activityName)) >= threshold) {
+      pair(n, o);
+    }
+  });
+
+  // 02 - Most similar description under another code (ties go to the same unit)
+  newLeaves.forEach((newItem, n) => {
+    if (matches[n] !== -1) return;
+
+    let bestIndex = -1;
+    let bestScore = threshold;
+
+    oldLeaves.forEach((candidate, o) => {
+      if (oldMatched[o]) return;
+      const score = getDescriptionSimilarity(String(candidate.activityName), String(newItem.activityName))
+        + (candidate.unit === newItem.unit ? 0.001 : 0);
+      if (score >= bestScore) {
+        bestIndex = o;
+        bestScore = score;
+      }
+    });
+
+    if (bestIndex !== -1) pair(n, bestIndex);
+  });
+
+  // 03 - Same code, reworded description
+  newLeaves.forEach((newItem, n) => {
+    if (matches[n] !== -1) return;
+    const o = oldLeaves.findIndex((oldItem, i) => !oldMatched[i] && oldItem.itemCode === newItem.itemCode);
+    if (o !== -1) pair(n, o);
+  });
+
+  // 04 - List the differences in new-revision order, with removed items at the end
+  const changes: RevisionChange[] = [];
+  let unchangedCount = 0;
+
+  newLeaves.forEach((newItem, n) => {
+    if (matches[n] === -1) {
+      changes.push({ status: "Added", oldItem: undefined, newItem, costDelta: toAmount(newItem.cost), changes: [] });
+      return;
+    }
+
+    const previous = oldLeaves[matches[n]];
+    const differences = describeDifferences(previous, newItem);
+
+    if (differences.length === 0) {
+      unchangedCount++;
+    } else {
+      changes.push({
+        status: "Changed",
+        oldItem: previous,
+        newItem,
+        costDelta: toAmount(newItem.cost) - toAmount(previous.cost),
+        changes: differences,
+      });
+    }
+  });
+
+  oldLeaves.forEach((previous, o) => {
+    if (oldMatched[o]) return;
+    changes.push({ status: "Removed", oldItem: previous, newItem: undefined, costDelta: -toAmount(previous.cost), changes: [] });
+  });
+
+  return {
+    changes,
+    sectionVariances: buildSectionVariances(oldLeaves, newLeaves, matches, oldActivities, newActivities),
+    unchangedCount,
+  };
+}
+
+/**
+ * Lists what changed between two aligned items, e.g. "Qty 10 → 12".
+ */
+function describeDifferences(oldItem: Activity, newItem: Activity): string[] {
+  const differences: string[] = [];
+  const check = (label: string, oldValue: CellFormula, newValue: CellFormula) => {
+    if (valuesDiffer(oldValue, newValue)) differences.push(`${label} ${formatValue(oldValue)} → ${formatValue(newValue)}`);
+  };
+
+  check("Code", oldItem.itemCode, newItem.itemCode);
+  check("Description", oldItem.activityName, newItem.activityName);
+  check("Unit", oldItem.unit, newItem.unit);
+  check("Qty", oldItem.quantity, newItem.quantity);
+  check("Rate", oldItem.rate, newItem.rate);
+  check("Cost", oldItem.cost, newItem.cost);
+
+  return differences;
+}
+
+/**
+ * Totals each section's leaf costs in both revisions, in new-revision order
+ * with sections only found in the old revision at the end. Old leaves count
+ * towards the section their matched new item is in, so an inserted or
+ * re-lettered section is not netted against a different old section.
+ * Unmatched old leaves follow the rest of their old section, or stay under
+ * that old section if none of it was matched.
+ */
+function buildSectionVariances(
+  oldLeaves: Activity[],
+  newLeaves: Activity[],
+  matches: number[],
+  oldActivities: Activity[],
+  newActivities: Activity[]
+): SectionVariance[] {
+  const getSection = (itemCode: string) => itemCode.split("-")[0];
+  const newVariances: SectionVariance[] = [];
+  const oldOnlyVariances: SectionVariance[] = [];
+
+  const getVariance = (variances: SectionVariance[], section: string, activities: Activity[]) => {
+    let variance = variances.find(entry => entry.section === section);
+
+    if (!variance) {
+      const sectionActivity = activities.find(activity => activity.itemCode === section);
+      variance = {
+        section,
+        description: sectionActivity ? String(sectionActivity.activityName) : "",
+        oldTotal: 0,
+        newTotal: 0,
+        variance: 0,
+      };
+      variances.push(variance);
+    }
+
+    return variance;
+  };
+
+  // 01 - New totals, and the new section of each matched old leaf
+  const matchedNewSections: string[] = oldLeaves.map(() => "");
+
+  newLeaves.forEach((newItem, n) => {
+    const section = getSection(newItem.itemCode);
+    getVariance(newVariances, section, newActivities).newTotal += toAmount(newItem.cost);
+    if (matches[n] !== -1) matchedNewSections[matches[n]] = section;
+  });
+
+  // 02 - Each old section follows the new section most of its matched leaves moved to
+  const sectionVotes: Record<string, Record<string, number>> = {};
+
+  oldLeaves.forEach((oldItem, o) => {
+    const newSection = matchedNewSections[o];
+    if (newSection === "") return;
+
+    const oldSection = getSection(oldItem.itemCode);
+    if (!sectionVotes[oldSection]) sectionVotes[oldSection] = {};
+    sectionVotes[oldSection][newSection] = (sectionVotes[oldSection][newSection] || 0) + 1;
+  });
+
+  const getFollowedSection = (oldSection: string): string => {
+    const votes = sectionVotes[oldSection];
+    if (!votes) return "";
+    return Object.keys(votes).reduce((best, section) => votes[section] > votes[best] ? section : best);
+  };
+
+  // 03 - Old totals
+  oldLeaves.forEach((oldItem, o) => {
+    const oldSection = getSection(oldItem.itemCode);
+    const newSection = matchedNewSections[o] || getFollowedSection(oldSection);
+    const variance = newSection !== ""
+      ? getVariance(newVariances, newSection, newActivities)
+      : getVariance(oldOnlyVariances, oldSection, oldActivities);
+
+    variance.oldTotal += toAmount(oldItem.cost);
+  });
+
+  const variances = newVariances.concat(oldOnlyVariances);
+  variances.forEach(entry => {
+    entry.variance = entry.newTotal - entry.oldTotal;
+  });
+
+  return variances;
+}
+
+/**
+ * Determines whether two cell values differ, comparing numbers with a small tolerance.
+ */
+function valuesDiffer(a: CellFormula, b: CellFormula): boolean {
+  if (typeof a === "number" && typeof b === "number") return Math.abs(a - b) > 1e-9;
+  return String(a).trim() !== String(b).trim();
+}
+
+/**
+ * Formats a value for the change description.
+ */
+function formatValue(value: CellFormula): string {
+  return String(value).trim() === "" ? "(blank)" : String(value);
+}
+
+/**
+ * Converts a cost cell value to a number, treating blanks, text and errors as 0.
+ */
+function toAmount(value: CellFormula): number {
+  return typeof value === "number" ? value : 0;
+}
@@ -0,0 +1,68 @@
+/**
+ * Core BQ Model: Quantity Take-off
+ *
+ * Dimension sheets for individual leaf items, kept as blocks on the
+ * "Take-off" sheet (columns A to G):
+ *
+ *   Item   | <code>  | <description> |       |             | Unit   | <unit>
+ *   Times  | Length  | Width         | Depth | Description | Deduct | Quantity
+ *   <dimension rows>      (Quantity = Times * the dimensions entered, negative when Deduct is Yes)
+ *   Gross                 (SUM of the added quantities)
+ *   Deductions            (SUM of the deducted quantities)
+ *   Net                   (Gross - Deductions)
+ *
+ * The item's quantity links to the block's Net cell (see `core/linkedBlocks`).
+ * Linked quantities are preserved by formula refreshes, and by Reset All
+ * Quantities unless "Reset Linked Quantities" is Yes.
+ */
+
+import type { CellFormula } from "./activity";
+import { LinkedBlockSheet, isLinkedBlockFormula } from "./linkedBlocks";
+
+/** Name of the take-off sheet. */
+export const TAKE_OFF_SHEET_NAME = "Take-off";
+
+/** Number of dimension rows every new block starts with. */
+const TAKE_OFF_DIMENSION_ROWS = 5;
+
+/** The take-off sheet, with blocks totalled on their Net row. */
+export const TAKE_OFF_BLOCKS: LinkedBlockSheet = {
+  sheetName: TAKE_OFF_SHEET_NAME,
+  totalLabel: "Net",
+  totalColumn: "G",
+  linkedField: "quantity",
+  buildBlockRows: (headerRow, bqCell, layout) => {
+    const firstDimensionRow = headerRow + 2;
+    const lastDimensionRow = firstDimensionRow + TAKE_OFF_DIMENSION_ROWS - 1;
+    const grossRow = lastDimensionRow + 1;
+    const quantities = `G${firstDimensionRow}:G${lastDimensionRow}`;
+
+    const dimensionRows: CellFormula[][] = [];
+
+    for (let row = firstDimensionRow; row <= lastDimensionRow; row++) {
+      dimensionRows.push([
+        1, "", "", "", "", "",
+        `=IF(COUNT(B${row}:D${row})=0, 0, A${row}*PRODUCT(B${row}:D${row})*IF(OR(F${row}="Yes", F${row}="Y"), -1, 1))`
+      ]);
+    }
+
+    return [
+      ["Item", bqCell(layout.itemCodeColumn), bqCell(layout.descriptionStartColumn), "", "", "Unit", bqCell(layout.unitColumn)],
+      ["Times", "Length", "Width", "Depth", "Description", "Deduct", "Quantity"],
+      ...dimensionRows,
+      ["Gross", "", "", "", "", "", `=SUMIF(${quantities}, ">0")`],
+      ["Deductions", "", "", "", "", "", `=-SUMIF(${quantities}, "<0")`],
+      ["Net", "", "", "", "", "", `=G${grossRow}-G${grossRow + 1}`],
+    ];
+  },
+};
+
+/**
+ * Determines whether a quantity cell links to a block on the take-off sheet.
+ *
+ * @param {CellFormula} quantity - The quantity cell formula or value.
+ * @returns {boolean} True for formulas such as ='Take-off'!$G$12.
+ */
+export function isTakeOffQuantityFormula(quantity: CellFormula): boolean {
+  return isLinkedBlockFormula(TAKE_OFF_BLOCKS, quantity);
+}
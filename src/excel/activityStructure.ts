@@ -0,0 +1,104 @@
+/**
+ * ExcelScript Adapter: Activity Structure
+ *
+ * Promotes, demotes and reorders the selected activities (with their
+ * subtrees), then refreshes codes, formatting and formulas.
+ */
+
+import { getHierarchyLevel } from "../core/hierarchy";
+import {
+  RestructurePlan,
+  getSelectedSubtreeRoots,
+  planDemotion,
+  planPromotion,
+  planSiblingMove
+} from "../core/restructure";
+import { updateActivityRowFormulas } from "./activityFormulas";
+import { setColumnFormulas, transformTableToActivityObjects } from "./activityTable";
+import { applyBlockMovesToSheet } from "./rowBlocks";
+import { formatRowsByHierarchyLevel } from "./rowFormatting";
+import { readTableLayout } from "./tableLayout";
+
+/**
+ * Promotes or demotes every activity in the current selection, carrying each subtree along.
+ *
+ * - Demote: the item becomes the last child of its previous sibling (A-2 → A-1-3).
+ * - Promote: the item becomes the next sibling of its parent (A-1-2 → A-2), moving below the parent's subtree.
+ *
+ * @param {ExcelScript.Workbook} workbook - The workbook containing the active worksheet and selected range.
+ * @param {"promote" | "demote"} direction - Which way to move the selected activities.
+ * @throws If the selection is outside the table or an item cannot change level.
+ */
+export function changeSelectedActivitiesLevel(workbook: ExcelScript.Workbook, direction: "promote" | "demote"): void {
+  restructureSelectedActivities(workbook, `${direction}d`, (itemCodes, rootIndices) => (direction === "promote")
+    ? planPromotion(itemCodes, rootIndices)
+    : planDemotion(itemCodes, rootIndices)
+  );
+}
+
+/**
+ * Moves the selected activities (with their subtrees) above the previous sibling
+ * or below the next sibling, e.g. A-1-3 moved up twice becomes A-1-1.
+ *
+ * @param {ExcelScript.Workbook} workbook - The workbook containing the active worksheet and selected range.
+ * @param {"up" | "down"} direction - Which sibling to swap with.
+ * @throws If the selection is outside the table or there is no sibling in that direction.
+ */
+export function moveSelectedActivities(workbook: ExcelScript.Workbook, direction: "up" | "down"): void {
+  restructureSelectedActivities(workbook, `moved ${direction}`, (itemCodes, rootIndices) =>
+    planSiblingMove(itemCodes, rootIndices, direction)
+  );
+}
+
+/**
+ * Plans a structural edit for the selected subtree roots and applies it to the worksheet:
+ * - Replays the planned row moves (values, formats and references travel with the rows).
+ * - Writes the item codes renumbered by `reindexItemCodes`.
+ * - Reformats rows whose hierarchy level changed with `formatRowBlockByHierarchyLevel`.
+ * - Rebuilds all roll-up formulas with `updateActivityRowFormulas`.
+ *
+ * @param {ExcelScript.Workbook} workbook - The workbook containing the active worksheet and selected range.
+ * @param {string} actionName - Past-tense description used in messages (e.g. "promoted").
+ * @param planner - Builds the plan from the item codes and selected subtree root indices.
+ */
+function restructureSelectedActivities(
+  workbook: ExcelScript.Workbook,
+  actionName: string,
+  planner: (itemCodes: string[], rootIndices: number[]) => RestructurePlan
+): void {
+
+  // 01 - Get the worksheet, layout and selected rows
+  const sheet = workbook.getActiveWorksheet();
+  const layout = readTableLayout(workbook);
+  const selectedRange = workbook.getSelectedRange();
+
+  const selectedTopRow = selectedRange.getRowIndex() + 1;
+  const selectedBottomRow = selectedTopRow + selectedRange.getRowCount() - 1;
+
+  const { activityObjectsArray, dataTopRow, dataBottomRow } = transformTableToActivityObjects(sheet, layout);
+
+  // 02 - Validate selection range
+  if (selectedTopRow < dataTopRow || selectedBottomRow > dataBottomRow) {
+    throw new Error(`Selected rows not ${actionName} - rows not within data range!`);
+  }
+
+  // 03 - Plan the new item codes and row moves
+  const itemCodes = activityObjectsArray.map(activity => activity.itemCode);
+  const rootIndices = getSelectedSubtreeRoots(itemCodes, selectedTopRow - dataTopRow, selectedBottomRow - dataTopRow);
+  const plan = planner(itemCodes, rootIndices);
+
+  // 04 - Move rows, then write the reindexed item codes
+  applyBlockMovesToSheet(sheet, dataTopRow, plan.moves);
+  setColumnFormulas(sheet, layout.itemCodeColumn, dataTopRow, plan.itemCodes);
+
+  // 05 - Reformat rows whose hierarchy level changed
+  formatRowsByHierarchyLevel(workbook, layout, plan.levelChangedIndices.map(index => ({
+    rowNumber: dataTopRow + index,
+    hierarchyLevel: getHierarchyLevel(plan.itemCodes[index])
+  })));
+
+  // 06 - Rebuild quantity, unit, rate and cost formulas
+  updateActivityRowFormulas(sheet, layout);
+
+  console.log(`✅ ${rootIndices.length} item(s) ${actionName}`);
+}
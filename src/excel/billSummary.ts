@@ -0,0 +1,70 @@
+/**
+ * ExcelScript Adapter: Summary of Bills
+ *
+ * Generates the "Summary of Bills" sheet from the activity table (see
+ * `buildBillSummaryRows`). The sheet is cleared and rewritten on every run,
+ * so running it again after structural changes gives the same result as a
+ * fresh build.
+ */
+
+import { BILL_SUMMARY_SHEET_NAME, BillSummaryRowKind, buildBillSummaryRows } from "../core/billSummary";
+import type { TableLayout } from "../core/layout";
+import { getBottomTotalsRow, transformTableToActivityObjects } from "./activityTable";
+
+/** Fill colours of the summary sheet rows, by kind (items are left unfilled). */
+const BILL_SUMMARY_FILL_COLORS: Partial<Record<BillSummaryRowKind, string>> = {
+  header: "#D9D9D9",
+  section: "#F2F2F2",
+  total: "#D9D9D9",
+};
+
+/**
+ * Creates or regenerates the summary sheet for the active BQ worksheet.
+ *
+ * @param {ExcelScript.Workbook} workbook - The workbook containing the active worksheet.
+ * @param {TableLayout} layout - The table layout.
+ * @param {boolean} includeLevel1 - Whether to list each section's level 1 items under it.
+ * @returns {number} The number of sections listed.
+ * @throws If the active worksheet is the summary sheet itself.
+ */
+export function generateBillSummarySheet(
+  workbook: ExcelScript.Workbook,
+  layout: TableLayout,
+  includeLevel1: boolean
+): number {
+
+  // 01 - Read the activity table from the active BQ sheet
+  const sheet = workbook.getActiveWorksheet();
+  const bqSheetName = sheet.getName();
+
+  if (bqSheetName === BILL_SUMMARY_SHEET_NAME) {
+    throw new Error(`Summary not generated - run it from the BQ sheet, not "${BILL_SUMMARY_SHEET_NAME}"!`);
+  }
+
+  const { activityObjectsArray } = transformTableToActivityObjects(sheet, layout);
+  const rows = buildBillSummaryRows(activityObjectsArray, bqSheetName, layout, getBottomTotalsRow(sheet, layout), includeLevel1);
+
+  // 02 - Get or create the summary sheet and clear the previous summary
+  const summarySheet = workbook.getWorksheet(BILL_SUMMARY_SHEET_NAME) || workbook.addWorksheet(BILL_SUMMARY_SHEET_NAME);
+  summarySheet.getRange().clear(ExcelScript.ClearApplyTo.all);
+
+  // 03 - Write every row, then format by row kind
+  const summaryRange = summarySheet.getRange(`A1:C${rows.length}`);
+  summaryRange.setFormulas(rows.map(row => row.cells) as string[][]);
+  summarySheet.getRange(`C2:C${rows.length}`).setNumberFormatLocal("_(* #,##0.00_);_(* (#,##0.00);_(* \"-\"??_);_(@_)");
+
+  rows.forEach((row, i) => {
+    const format = summarySheet.getRange(`A${i + 1}:C${i + 1}`).getFormat();
+    const fillColor = BILL_SUMMARY_FILL_COLORS[row.kind];
+
+    if (fillColor) format.getFill().setColor(fillColor);
+    format.getFont().setBold(row.kind !== "item");
+    if (row.kind === "item") summarySheet.getRange(`B${i + 1}`).getFormat().setIndentLevel(1);
+  });
+
+  summarySheet.getRange(`A${rows.length}:C${rows.length}`).getFormat()
+    .getRangeBorder(ExcelScript.BorderIndex.edgeTop).setStyle(ExcelScript.BorderLineStyle.continuous);
+  summaryRange.getFormat().autofitColumns();
+
+  return rows.filter(row => row.kind === "section").length;
+}
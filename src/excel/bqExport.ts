@@ -0,0 +1,58 @@
+/**
+ * ExcelScript Adapter: Export
+ *
+ * Writes the activity table as CSV and JSON (see `core/bqExport`) to the
+ * "BQ Export" sheet, one line per cell, so either column can be copied out
+ * and pasted straight into a file.
+ */
+
+import { BQ_EXPORT_SCHEMA_VERSION, buildExportCsvLines, buildExportDocument, buildExportItems } from "../core/bqExport";
+import type { TableLayout } from "../core/layout";
+import { readActivityValues } from "./activityTable";
+
+/** Name of the sheet the export is written to. */
+const EXPORT_SHEET_NAME = "BQ Export";
+
+/**
+ * Replaces the contents of the "BQ Export" sheet (creating it if needed) with the
+ * CSV lines in column A and the JSON lines in column B, below a header row.
+ *
+ * @param {ExcelScript.Workbook} workbook - The workbook containing the active worksheet.
+ * @param {TableLayout} layout - The table layout.
+ * @returns {number} The number of items exported.
+ * @throws If the table contains orphaned rows.
+ */
+export function exportActivityTable(workbook: ExcelScript.Workbook, layout: TableLayout): number {
+
+  // 01 - Read the calculated values of the table
+  const sheet = workbook.getActiveWorksheet();
+  const { activityObjectsArray } = readActivityValues(sheet, layout);
+
+  // 02 - Serialise the items both ways
+  const items = buildExportItems(activityObjectsArray);
+  const csvLines = buildExportCsvLines(items);
+  const jsonLines = JSON.stringify(buildExportDocument(items, sheet.getName(), new Date().toISOString()), null, 2).split("\n");
+
+  // 03 - Write one line per cell as text, so nothing is parsed as a number or formula
+  const exportSheet = workbook.getWorksheet(EXPORT_SHEET_NAME) || workbook.addWorksheet(EXPORT_SHEET_NAME);
+  exportSheet.getRange().clear(ExcelScript.ClearApplyTo.all);
+
+  exportSheet.getRange("A1:B1").setValues([[`CSV (schema v${BQ_EXPORT_SCHEMA_VERSION})`, `JSON (schema v${BQ_EXPORT_SCHEMA_VERSION})`]]);
+  exportSheet.getRange("A1:B1").getFormat().getFont().setBold(true);
+
+  writeTextLines(exportSheet, "A", csvLines);
+  writeTextLines(exportSheet, "B", jsonLines);
+
+  console.log(`Copy A2:A${csvLines.length + 1} for the CSV or B2:B${jsonLines.length + 1} for the JSON.`);
+
+  return items.length;
+}
+
+/**
+ * Writes each line to its own cell down a column, starting at row 2.
+ */
+function writeTextLines(sheet: ExcelScript.Worksheet, columnLetter: string, lines: string[]): void {
+  const range = sheet.getRange(`${columnLetter}2:${columnLetter}${lines.length + 1}`);
+  range.setNumberFormatLocal("@");
+  range.setValues(lines.map(line => [line]));
+}
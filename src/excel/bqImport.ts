@@ -0,0 +1,62 @@
+/**
+ * ExcelScript Adapter: Import
+ *
+ * Replaces the activity table with the item list pasted onto the "BQ Import"
+ * sheet (see `core/bqImport`), formatted by hierarchy level.
+ */
+
+import { IMPORT_SHEET_NAME, assertValidImportItems, buildImportRows, parseImportGrid } from "../core/bqImport";
+import { getHierarchyLevel } from "../core/hierarchy";
+import type { TableLayout } from "../core/layout";
+import { getBottomTotalsRow, getTableRowsRange } from "./activityTable";
+import { formatRowsByHierarchyLevel } from "./rowFormatting";
+import { saveTableSnapshot } from "./snapshotHistory";
+
+/**
+ * Builds the table below the header of the active worksheet from the import sheet.
+ * Any existing rows are saved to "BQ_History" first and then replaced; the grand
+ * total row is kept. Run `updateActivityRowFormulas` afterwards for the formulas.
+ *
+ * @param {ExcelScript.Workbook} workbook - The workbook containing the active worksheet.
+ * @param {TableLayout} layout - The table layout.
+ * @returns {number} The number of items imported.
+ * @throws If the import sheet is missing or its item list is invalid.
+ */
+export function importActivityTable(workbook: ExcelScript.Workbook, layout: TableLayout): number {
+
+  // 01 - Read and check the pasted item list before touching the BQ
+  const sheet = workbook.getActiveWorksheet();
+  const importSheet = workbook.getWorksheet(IMPORT_SHEET_NAME);
+
+  if (!importSheet || sheet.getName() === IMPORT_SHEET_NAME) {
+    throw new Error(`Import not written - paste the items onto a "${IMPORT_SHEET_NAME}" sheet and run this from the BQ sheet!`);
+  }
+
+  const usedRange = importSheet.getUsedRange(true);
+  const items = parseImportGrid(usedRange ? usedRange.getValues() : []);
+  assertValidImportItems(items);
+
+  // 02 - Snapshot and remove the existing rows, keeping the grand total row
+  const dataTopRow = layout.headerRow + 1;
+  const dataBottomRow = getBottomTotalsRow(sheet, layout) - 1;
+
+  if (dataBottomRow >= dataTopRow) {
+    saveTableSnapshot(workbook, layout, "Import BQ");
+    sheet.getRange(`${dataTopRow}:${dataBottomRow}`).delete(ExcelScript.DeleteShiftDirection.up);
+  }
+
+  // 03 - Insert and fill the new rows in one pass
+  const lastRow = dataTopRow + items.length - 1;
+
+  sheet.getRange(`${dataTopRow}:${lastRow}`).insert(ExcelScript.InsertShiftDirection.down);
+  getTableRowsRange(sheet, layout, dataTopRow, lastRow)
+    .setValues(buildImportRows(items, layout) as string[][]);
+
+  // 04 - Format each row for its hierarchy level
+  formatRowsByHierarchyLevel(workbook, layout, items.map((item, i) => ({
+    rowNumber: dataTopRow + i,
+    hierarchyLevel: getHierarchyLevel(item.code),
+  })));
+
+  return items.length;
+}
@@ -0,0 +1,82 @@
+/**
+ * ExcelScript Adapter: Issues Report
+ *
+ * Writes validation findings to the "BQ Issues" sheet, with a link back to
+ * each offending cell, and optionally highlights those cells in the BQ.
+ */
+
+import { ValidationIssue, buildCellLinkFormula } from "../core/validation";
+
+/** Name of the sheet the findings are written to. */
+const ISSUES_SHEET_NAME = "BQ Issues";
+
+/** Fill colours used to highlight offending cells, by severity. */
+const ISSUE_HIGHLIGHT_COLORS = {
+  Error: "#FFC7CE",
+  Warning: "#FFEB9C",
+};
+
+/**
+ * Replaces the contents of the "BQ Issues" sheet (creating it if needed) with a findings table.
+ *
+ * @param {ExcelScript.Workbook} workbook - The workbook holding the BQ.
+ * @param {string} bqSheetName - The name of the validated worksheet, used for the links.
+ * @param {ValidationIssue[]} issues - The findings to list.
+ */
+export function writeIssuesSheet(workbook: ExcelScript.Workbook, bqSheetName: string, issues: ValidationIssue[]): void {
+
+  // 01 - Get or create the issues sheet and clear previous findings
+  const issuesSheet = workbook.getWorksheet(ISSUES_SHEET_NAME) || workbook.addWorksheet(ISSUES_SHEET_NAME);
+  issuesSheet.getRange().clear(ExcelScript.ClearApplyTo.all);
+
+  // 02 - Write the header and one row per finding
+  const rows: (string | number)[][] = [["Severity", "Cell", "Row", "Item Code", "Issue"]];
+
+  issues.forEach(issue => {
+    rows.push([
+      issue.severity,
+      buildCellLinkFormula(bqSheetName, `${issue.column}${issue.rowNumber}`),
+      issue.rowNumber,
+      issue.itemCode,
+      issue.message,
+    ]);
+  });
+
+  if (issues.length === 0) {
+    rows.push(["", "", "", "", "No issues found."]);
+  }
+
+  const reportRange = issuesSheet.getRange(`A1:E${rows.length}`);
+  reportRange.setFormulas(rows as string[][]);
+
+  // 03 - Style the header and fit the columns
+  const headerFormat = issuesSheet.getRange("A1:E1").getFormat();
+  headerFormat.getFont().setBold(true);
+  headerFormat.getFill().setColor("#D9D9D9");
+
+  issues.forEach((issue, i) => {
+    issuesSheet.getRange(`A${i + 2}`).getFormat().getFill().setColor(ISSUE_HIGHLIGHT_COLORS[issue.severity]);
+  });
+
+  reportRange.getFormat().autofitColumns();
+}
+
+/**
+ * Fills each offending cell in the BQ with the colour for its most serious finding.
+ *
+ * @param {ExcelScript.Worksheet} sheet - The validated worksheet.
+ * @param {ValidationIssue[]} issues - The findings to highlight.
+ */
+export function highlightIssueCells(sheet: ExcelScript.Worksheet, issues: ValidationIssue[]): void {
+  const colorsByCell: Record<string, string> = {};
+
+  issues.forEach(issue => {
+    const cellAddress = `${issue.column}${issue.rowNumber}`;
+    if (colorsByCell[cellAddress] === ISSUE_HIGHLIGHT_COLORS.Error) return;
+    colorsByCell[cellAddress] = ISSUE_HIGHLIGHT_COLORS[issue.severity];
+  });
+
+  Object.keys(colorsByCell).forEach(cellAddress => {
+    sheet.getRange(cellAddress).getFormat().getFill().setColor(colorsByCell[cellAddress]);
+  });
+}
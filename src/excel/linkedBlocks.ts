@@ -0,0 +1,85 @@
+/**
+ * ExcelScript Adapter: Linked Blocks
+ *
+ * Creates or opens the block for the selected leaf item on a side sheet of
+ * linked blocks (see `core/linkedBlocks`) and links the item's quantity or
+ * rate to the block's total.
+ */
+
+import type { TableLayout } from "../core/layout";
+import {
+  LinkedBlock,
+  LinkedBlockSheet,
+  buildLinkedBlock,
+  buildLinkedBlockFormula,
+  findLinkedBlock,
+  findLinkedBlockByTotalRow,
+  getLinkedBlockTotalRow
+} from "../core/linkedBlocks";
+import { transformTableToActivityObjects } from "./activityTable";
+
+/**
+ * Opens the selected item's block, creating a new one at the bottom of the side
+ * sheet if it has none, and sets the item's quantity or rate to link to it.
+ *
+ * @param {ExcelScript.Workbook} workbook - The workbook containing the active worksheet and active cell.
+ * @param {TableLayout} layout - The table layout.
+ * @param {LinkedBlockSheet} blockSheet - The side sheet.
+ * @param {string} blockName - The block's name in messages, e.g. "Take-off".
+ * @param formatBlock - Styles a newly created block.
+ * @returns The item code, its block and whether the block was created.
+ * @throws If the active cell is outside the table or on a parent item.
+ */
+export function openLinkedBlock(
+  workbook: ExcelScript.Workbook,
+  layout: TableLayout,
+  blockSheet: LinkedBlockSheet,
+  blockName: string,
+  formatBlock: (sideSheet: ExcelScript.Worksheet, block: LinkedBlock) => void
+): { itemCode: string, block: LinkedBlock, created: boolean } {
+
+  // 01 - Get the selected leaf item
+  const sheet = workbook.getActiveWorksheet();
+  const activeCellRowNumber = workbook.getActiveCell().getRowIndex() + 1;
+  const { activityObjectsArray, dataTopRow, dataBottomRow } = transformTableToActivityObjects(sheet, layout);
+
+  if (activeCellRowNumber < dataTopRow || activeCellRowNumber > dataBottomRow) {
+    throw new Error(`${blockName} not opened - active cell not within data range!`);
+  }
+
+  const activity = activityObjectsArray[activeCellRowNumber - dataTopRow];
+
+  if (activity.hasChild) {
+    throw new Error(`${blockName} not opened - ${activity.itemCode} is a parent item and rolls up its children`);
+  }
+
+  // 02 - Get (or create) the side sheet
+  const sideSheet = workbook.getWorksheet(blockSheet.sheetName) || workbook.addWorksheet(blockSheet.sheetName);
+  const usedRange = sideSheet.getUsedRange(true);
+  const lastUsedRow = usedRange ? usedRange.getRowIndex() + usedRange.getRowCount() : 0;
+  const grid = lastUsedRow > 0 ? sideSheet.getRange(`A1:B${lastUsedRow}`).getValues() : [];
+
+  // 03 - Reuse the block the item already links to, or the block keyed by the item code
+  const isQuantityLink = blockSheet.linkedField === "quantity";
+  const linkedTotalRow = getLinkedBlockTotalRow(blockSheet, isQuantityLink ? activity.quantity : activity.rate);
+  let block = (linkedTotalRow !== undefined ? findLinkedBlockByTotalRow(blockSheet, grid, linkedTotalRow) : undefined)
+    || findLinkedBlock(blockSheet, grid, activity.itemCode);
+
+  let created = false;
+
+  if (!block) {
+    const headerRow = lastUsedRow === 0 ? 1 : lastUsedRow + 2;
+    const newBlock = buildLinkedBlock(blockSheet, headerRow, sheet.getName(), activity.rowNumber, layout);
+    block = newBlock.block;
+    created = true;
+
+    sideSheet.getRange(`A${block.headerRow}:${blockSheet.totalColumn}${block.totalRow}`).setFormulas(newBlock.formulas as string[][]);
+    formatBlock(sideSheet, block);
+  }
+
+  // 04 - Link the item's quantity or rate to the block total
+  const linkedColumn = isQuantityLink ? layout.quantityColumn : layout.rateColumn;
+  sheet.getRange(`${linkedColumn}${activity.rowNumber}`).setFormula(buildLinkedBlockFormula(blockSheet, block.totalRow));
+
+  return { itemCode: activity.itemCode, block, created };
+}
@@ -0,0 +1,43 @@
+/**
+ * ExcelScript Adapter: Rate Analysis
+ *
+ * Creates or opens the build-up block for the selected leaf item on the
+ * "Rate Analysis" sheet and links the item's rate to the block's total.
+ */
+
+import type { TableLayout } from "../core/layout";
+import type { LinkedBlock } from "../core/linkedBlocks";
+import { BUILD_UP_BLOCKS } from "../core/rateAnalysis";
+import { openLinkedBlock } from "./linkedBlocks";
+
+/**
+ * Opens the selected item's build-up, creating a new block at the bottom of the
+ * "Rate Analysis" sheet if it has none, and sets the item's rate to link to it.
+ *
+ * @param {ExcelScript.Workbook} workbook - The workbook containing the active worksheet and active cell.
+ * @param {TableLayout} layout - The table layout.
+ * @returns The item code, its block and whether the block was created.
+ * @throws If the active cell is outside the table or on a parent item.
+ */
+export function openRateBuildUp(
+  workbook: ExcelScript.Workbook,
+  layout: TableLayout
+): { itemCode: string, block: LinkedBlock, created: boolean } {
+  return openLinkedBlock(workbook, layout, BUILD_UP_BLOCKS, "Build-up", formatBuildUpBlock);
+}
+
+/**
+ * Applies header, percentage and total styling to a new build-up block.
+ */
+function formatBuildUpBlock(analysisSheet: ExcelScript.Worksheet, block: LinkedBlock): void {
+  const headerFormat = analysisSheet.getRange(`A${block.headerRow}:F${block.headerRow + 1}`).getFormat();
+  headerFormat.getFont().setBold(true);
+  headerFormat.getFill().setColor("#D9D9D9");
+
+  analysisSheet.getRange(`D${block.headerRow + 2}:F${block.totalRow}`).setNumberFormatLocal("#,##0.00");
+  analysisSheet.getRange(`E${block.totalRow - 2}:E${block.totalRow - 1}`).setNumberFormatLocal("0.0%");
+
+  const totalFormat = analysisSheet.getRange(`A${block.totalRow}:F${block.totalRow}`).getFormat();
+  totalFormat.getFont().setBold(true);
+  totalFormat.getRangeBorder(ExcelScript.BorderIndex.edgeTop).setStyle(ExcelScript.BorderLineStyle.continuous);
+}
@@ -0,0 +1,98 @@
+/**
+ * ExcelScript Adapter: Rate Library
+ *
+ * Fills leaf rates from the "BQ_Rates" sheet (see `parseRateLibrary` for its
+ * columns) and lists unmatched rows on the "BQ Issues" sheet.
+ */
+
+import type { CellFormula } from "../core/activity";
+import { TableLayout, columnNumberToLetter } from "../core/layout";
+import { RateLibraryEntry, parseRateLibrary, planRateFill, resolveRateFillOptions } from "../core/rateLibrary";
+import type { ValidationIssue } from "../core/validation";
+import { setChangedColumnFormulas, transformTableToActivityObjects } from "./activityTable";
+import { writeIssuesSheet } from "./issuesReport";
+import { readBQSettings } from "./tableLayout";
+
+/** Name of the rate library sheet. */
+const RATE_LIBRARY_SHEET_NAME = "BQ_Rates";
+
+/**
+ * Reads and parses the rate library sheet.
+ *
+ * @param {ExcelScript.Workbook} workbook - The workbook holding the BQ.
+ * @returns {RateLibraryEntry[]} The library entries.
+ * @throws If the sheet is missing or has an invalid row.
+ */
+export function readRateLibrary(workbook: ExcelScript.Workbook): RateLibraryEntry[] {
+  const librarySheet = workbook.getWorksheet(RATE_LIBRARY_SHEET_NAME);
+
+  if (!librarySheet) {
+    throw new Error(`Rate library sheet "${RATE_LIBRARY_SHEET_NAME}" not found`);
+  }
+
+  const usedRange = librarySheet.getUsedRange(true);
+  return usedRange
+    ? parseRateLibrary(usedRange.getValues(), usedRange.getRowIndex() + 1, columnNumberToLetter(usedRange.getColumnIndex() + 1))
+    : [];
+}
+
+/**
+ * Fills the rate of every leaf row still holding a placeholder with its library
+ * rate (a value, or a live lookup formula with "Rate Fill Mode" = Formula), and
+ * writes the rows left unmatched to the "BQ Issues" sheet.
+ *
+ * @param {ExcelScript.Workbook} workbook - The workbook containing the active worksheet.
+ * @param {TableLayout} layout - The table layout.
+ * @returns The number of rates filled and rows left unmatched.
+ */
+export function fillRatesFromLibrary(
+  workbook: ExcelScript.Workbook,
+  layout: TableLayout
+): { filledCount: number, unmatchedCount: number } {
+
+  // 01 - Read the options, library and table
+  const sheet = workbook.getActiveWorksheet();
+  const options = resolveRateFillOptions(readBQSettings(workbook));
+  const library = readRateLibrary(workbook);
+  const { activityObjectsArray, dataTopRow, dataBottomRow } = transformTableToActivityObjects(sheet, layout);
+
+  if (activityObjectsArray.length === 0) return { filledCount: 0, unmatchedCount: 0 };
+
+  // 02 - Read each row's library reference, if a reference column is configured
+  const references = options.referenceColumn
+    ? sheet.getRange(`${options.referenceColumn}${dataTopRow}:${options.referenceColumn}${dataBottomRow}`)
+      .getValues()
+      .map(row => String(row[0]).trim())
+    : [];
+
+  const { fills, unmatchedIndices } = planRateFill(activityObjectsArray, references, library, options, RATE_LIBRARY_SHEET_NAME);
+
+  // 03 - Write the filled rates back into the rate column, leaving every other cell as it was
+  const currentRates: CellFormula[] = sheet
+    .getRange(`${layout.rateColumn}${dataTopRow}:${layout.rateColumn}${dataBottomRow}`)
+    .getFormulas()
+    .map(row => row[0]);
+  const rates = currentRates.slice();
+
+  fills.forEach(fill => {
+    rates[fill.index] = fill.rate;
+  });
+
+  setChangedColumnFormulas(sheet, layout.rateColumn, dataTopRow, currentRates, rates);
+
+  // 04 - Report rows without a library match
+  const issues: ValidationIssue[] = unmatchedIndices.map(i => ({
+    severity: "Warning",
+    rowNumber: activityObjectsArray[i].rowNumber,
+    column: layout.rateColumn,
+    itemCode: activityObjectsArray[i].itemCode,
+    message: references[i]
+      ? `Rate reference "${references[i]}" not found in ${RATE_LIBRARY_SHEET_NAME}`
+      : `No ${RATE_LIBRARY_SHEET_NAME} entry matches this description and unit`,
+  }));
+
+  writeIssuesSheet(workbook, sheet.getName(), issues);
+  sheet.activate();
+
+  return { filledCount: fills.length, unmatchedCount: unmatchedIndices.length };
+}
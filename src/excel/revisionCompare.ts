@@ -0,0 +1,127 @@
+/**
+ * ExcelScript Adapter: Revision Compare
+ *
+ * Compares the active BQ sheet (new revision) with another BQ sheet (old
+ * revision) and writes the change log to the "BQ Compare" sheet.
+ */
+
+import type { CellFormula } from "../core/activity";
+import type { TableLayout } from "../core/layout";
+import { RevisionComparison, RevisionChangeStatus, compareRevisions } from "../core/revisionCompare";
+import { readActivityValues } from "./activityTable";
+
+/** Name of the sheet the change log is written to. */
+const COMPARE_SHEET_NAME = "BQ Compare";
+
+/** Fill colours of the status cells. */
+const CHANGE_STATUS_COLORS: Record<RevisionChangeStatus, string> = {
+  Added: "#C6EFCE",
+  Removed: "#FFC7CE",
+  Changed: "#FFEB9C",
+};
+
+/** Number format for the cost and variance columns. */
+const AMOUNT_NUMBER_FORMAT = "_(* #,##0.00_);_(* (#,##0.00);_(* \"-\"??_);_(@_)";
+
+/**
+ * Compares the active worksheet against the old revision's worksheet and writes the result.
+ *
+ * @param {ExcelScript.Workbook} workbook - The workbook holding both revisions.
+ * @param {TableLayout} layout - The table layout (shared by both sheets).
+ * @param {string} oldSheetName - The worksheet holding the old revision.
+ * @param {number} threshold - The minimum description similarity for a description match.
+ * @returns {RevisionComparison} The comparison written to the sheet.
+ * @throws If the old revision's worksheet does not exist or is the active sheet.
+ */
+export function compareWithRevision(
+  workbook: ExcelScript.Workbook,
+  layout: TableLayout,
+  oldSheetName: string,
+  threshold: number
+): RevisionComparison {
+
+  // 01 - Read both revisions as values
+  const newSheet = workbook.getActiveWorksheet();
+  const oldSheet = workbook.getWorksheet(oldSheetName);
+
+  if (!oldSheet || oldSheet.getName() === newSheet.getName()) {
+    throw new Error(`Comparison not run - set "Compare Against Sheet" to the old revision's sheet (found "${oldSheetName}")!`);
+  }
+
+  const comparison = compareRevisions(
+    readActivityValues(oldSheet, layout).activityObjectsArray,
+    readActivityValues(newSheet, layout).activityObjectsArray,
+    threshold
+  );
+
+  // 02 - Build the change log, then the section variances below it
+  const changeRows: CellFormula[][] = [
+    ["Status", "Old Code", "New Code", "Description", "Unit", "Old Qty", "New Qty", "Old Rate", "New Rate", "Old Cost", "New Cost", "Cost Change", "Changes"],
+  ];
+
+  comparison.changes.forEach(change => {
+    const { oldItem, newItem } = change;
+    const item = newItem || oldItem;
+    if (!item) return; // every change has an old or a new item
+
+    changeRows.push([
+      change.status,
+      oldItem ? oldItem.itemCode : "",
+      newItem ? newItem.itemCode : "",
+      item.activityName,
+      item.unit,
+      oldItem ? oldItem.quantity : "",
+      newItem ? newItem.quantity : "",
+      oldItem ? oldItem.rate : "",
+      newItem ? newItem.rate : "",
+      oldItem ? oldItem.cost : "",
+      newItem ? newItem.cost : "",
+      change.costDelta,
+      change.changes.join("; "),
+    ]);
+  });
+
+  const sectionRows: CellFormula[][] = [["Section", "Description", "Old Total", "New Total", "Variance"]];
+  let oldTotal = 0;
+  let newTotal = 0;
+
+  comparison.sectionVariances.forEach(entry => {
+    sectionRows.push([entry.section, entry.description, entry.oldTotal, entry.newTotal, entry.variance]);
+    oldTotal += entry.oldTotal;
+    newTotal += entry.newTotal;
+  });
+  sectionRows.push(["", "Total", oldTotal, newTotal, newTotal - oldTotal]);
+
+  // 03 - Replace the compare sheet contents
+  const compareSheet = workbook.getWorksheet(COMPARE_SHEET_NAME) || workbook.addWorksheet(COMPARE_SHEET_NAME);
+  compareSheet.getRange().clear(ExcelScript.ClearApplyTo.all);
+
+  compareSheet.getRange("A1").setValue(`${oldSheet.getName()} → ${newSheet.getName()}`);
+  compareSheet.getRange("A1").getFormat().getFont().setBold(true);
+
+  const changeTopRow = 3;
+  const changeBottomRow = changeTopRow + changeRows.length - 1;
+  compareSheet.getRange(`A${changeTopRow}:M${changeBottomRow}`).setValues(changeRows as (string | number | boolean)[][]);
+
+  const sectionTopRow = changeBottomRow + 2;
+  const sectionBottomRow = sectionTopRow + sectionRows.length - 1;
+  compareSheet.getRange(`A${sectionTopRow}:E${sectionBottomRow}`).setValues(sectionRows as (string | number | boolean)[][]);
+
+  // 04 - Format headers, amounts and status colours
+  [`A${changeTopRow}:M${changeTopRow}`, `A${sectionTopRow}:E${sectionTopRow}`, `A${sectionBottomRow}:E${sectionBottomRow}`].forEach(address => {
+    const format = compareSheet.getRange(address).getFormat();
+    format.getFont().setBold(true);
+    format.getFill().setColor("#D9D9D9");
+  });
+
+  compareSheet.getRange(`J${changeTopRow + 1}:L${Math.max(changeBottomRow, changeTopRow + 1)}`).setNumberFormatLocal(AMOUNT_NUMBER_FORMAT);
+  compareSheet.getRange(`C${sectionTopRow + 1}:E${sectionBottomRow}`).setNumberFormatLocal(AMOUNT_NUMBER_FORMAT);
+
+  comparison.changes.forEach((change, i) => {
+    compareSheet.getRange(`A${changeTopRow + 1 + i}`).getFormat().getFill().setColor(CHANGE_STATUS_COLORS[change.status]);
+  });
+
+  compareSheet.getRange(`A${changeTopRow}:M${sectionBottomRow}`).getFormat().autofitColumns();
+
+  return comparison;
+}
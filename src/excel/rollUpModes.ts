@@ -0,0 +1,65 @@
+/**
+ * ExcelScript Adapter: Roll-up Modes
+ *
+ * Switches the roll-up mode (see `core/rollUpModes`) of the selected parent
+ * items and refreshes their formulas.
+ */
+
+import type { TableLayout } from "../core/layout";
+import { RollUpMode, getNextRollUpMode, getRollUpMode } from "../core/rollUpModes";
+import { updateActivityRowFormulas } from "./activityFormulas";
+import { transformTableToActivityObjects } from "./activityTable";
+
+/**
+ * Moves the selected parent items to the roll-up mode after the first selected
+ * parent's current one (LS → Rate → Manual → LS), writes it to the roll-up
+ * mode column and rebuilds the formulas. Leaf rows in the selection are skipped.
+ *
+ * @param {ExcelScript.Workbook} workbook - The workbook containing the active worksheet and selected range.
+ * @param {TableLayout} layout - The table layout.
+ * @returns The mode written and the item codes it was written to.
+ * @throws If no roll-up mode column is configured, or the selection holds no parent items.
+ */
+export function switchSelectedRollUpModes(
+  workbook: ExcelScript.Workbook,
+  layout: TableLayout
+): { mode: RollUpMode, itemCodes: string[] } {
+
+  // 01 - Get the worksheet and selected rows
+  const sheet = workbook.getActiveWorksheet();
+
+  if (layout.rollUpModeColumn === "") {
+    throw new Error(`Roll-up mode not switched - set "Roll-up Mode Column" on BQ_Config first`);
+  }
+
+  const selectedRange = workbook.getSelectedRange();
+  const selectedTopRow = selectedRange.getRowIndex() + 1;
+  const selectedBottomRow = selectedTopRow + selectedRange.getRowCount() - 1;
+
+  const { activityObjectsArray, dataTopRow, dataBottomRow } = transformTableToActivityObjects(sheet, layout);
+
+  if (selectedTopRow < dataTopRow || selectedBottomRow > dataBottomRow) {
+    throw new Error("Roll-up mode not switched - rows not within data range!");
+  }
+
+  // 02 - Collect the selected parents
+  const parents = activityObjectsArray
+    .slice(selectedTopRow - dataTopRow, selectedBottomRow - dataTopRow + 1)
+    .filter(activity => activity.hasChild);
+
+  if (parents.length === 0) {
+    throw new Error("Roll-up mode not switched - no parent items selected (leaf rows have no roll-up)");
+  }
+
+  // 03 - Write the next mode to every selected parent
+  const mode = getNextRollUpMode(getRollUpMode(parents[0]));
+
+  parents.forEach(parent => {
+    sheet.getRange(`${layout.rollUpModeColumn}${parent.rowNumber}`).setValue(mode);
+  });
+
+  // 04 - Rebuild quantity, unit, rate and cost formulas
+  updateActivityRowFormulas(sheet, layout);
+
+  return { mode, itemCodes: parents.map(parent => parent.itemCode) };
+}
@@ -0,0 +1,60 @@
+/**
+ * ExcelScript Adapter: Row Blocks
+ *
+ * Replays core `BlockMove`s on the worksheet.
+ */
+
+import type { BlockMove } from "../core/restructure";
+
+/**
+ * Moves whole worksheet rows `startRow`..`endRow` so they sit immediately above `insertBeforeRow`,
+ * the same as cutting the rows and inserting the cut cells. Values, formats and merged cells travel
+ * with the rows, and formulas referencing them are adjusted by Excel.
+ *
+ * @param {ExcelScript.Worksheet} sheet - The worksheet containing the rows.
+ * @param {number} startRow - The first row (1-based) to move.
+ * @param {number} endRow - The last row (1-based) to move.
+ * @param {number} insertBeforeRow - The row (1-based, before the move) the block is placed above.
+ */
+export function moveRowBlock(
+  sheet: ExcelScript.Worksheet,
+  startRow: number,
+  endRow: number,
+  insertBeforeRow: number
+): void {
+  const rowCount = endRow - startRow + 1;
+
+  // 01 - Nothing to do if the destination is inside or directly after the block
+  if (insertBeforeRow >= startRow && insertBeforeRow <= endRow + 1) return;
+
+  // 02 - Make room at the destination
+  sheet
+    .getRange(`${insertBeforeRow}:${insertBeforeRow + rowCount - 1}`)
+    .insert(ExcelScript.InsertShiftDirection.down);
+
+  // 03 - Source rows shift down if they were below the destination
+  const sourceTopRow = insertBeforeRow < startRow ? startRow + rowCount : startRow;
+  const sourceRows = `${sourceTopRow}:${sourceTopRow + rowCount - 1}`;
+
+  // 04 - Move the rows into the gap and close up the emptied source rows
+  sheet.getRange(sourceRows).moveTo(sheet.getRange(`${insertBeforeRow}:${insertBeforeRow + rowCount - 1}`));
+  sheet.getRange(sourceRows).delete(ExcelScript.DeleteShiftDirection.up);
+}
+
+/**
+ * Replays a sequence of core block moves on table rows starting at `dataTopRow`.
+ *
+ * @param {ExcelScript.Worksheet} sheet - The worksheet containing the activity table.
+ * @param {number} dataTopRow - The worksheet row of index 0.
+ * @param {BlockMove[]} moves - The moves, in the order they were planned.
+ */
+export function applyBlockMovesToSheet(sheet: ExcelScript.Worksheet, dataTopRow: number, moves: BlockMove[]): void {
+  moves.forEach(move => {
+    moveRowBlock(
+      sheet,
+      dataTopRow + move.startIndex,
+      dataTopRow + move.endIndex,
+      dataTopRow + move.insertBeforeIndex
+    );
+  });
+}
@@ -0,0 +1,83 @@
+/**
+ * ExcelScript Adapter: Scoped Reset
+ *
+ * Puts leaf rates or quantities back to their placeholder for the rows
+ * chosen by the reset settings (see `resolveResetOptions`).
+ */
+
+import type { TableLayout } from "../core/layout";
+import { describeResetScope, getResetIndices, resolveResetOptions } from "../core/resets";
+import { setColumnFormulas, transformTableToActivityObjects } from "./activityTable";
+import { saveTableSnapshot } from "./snapshotHistory";
+import { readBQSettings } from "./tableLayout";
+
+/** Column and placeholder for each resettable value. */
+const RESET_TARGETS = {
+  rate: { placeholder: "[rate]", operation: "Reset All Rates" },
+  quantity: { placeholder: "[qty]", operation: "Reset All Quantities" },
+};
+
+/**
+ * Resets the rate or quantity of every leaf row in scope to its placeholder.
+ * With "Reset Preview" set, only logs how many cells would change. Otherwise
+ * the table is snapshotted first (see Restore Last Snapshot) and only the
+ * in-scope cells are written.
+ *
+ * @param {ExcelScript.Workbook} workbook - The workbook containing the active worksheet and selected range.
+ * @param {TableLayout} layout - The table layout.
+ * @param {"rate" | "quantity"} target - Which value to reset.
+ * @throws If the reset settings are invalid or the Selection scope has no selection in the table.
+ */
+export function resetLeafValues(workbook: ExcelScript.Workbook, layout: TableLayout, target: "rate" | "quantity"): void {
+
+  // 01 - Read the scope and the table
+  const sheet = workbook.getActiveWorksheet();
+  const options = resolveResetOptions(readBQSettings(workbook));
+  const { placeholder, operation } = RESET_TARGETS[target];
+  const { activityObjectsArray, dataTopRow, dataBottomRow } = transformTableToActivityObjects(sheet, layout);
+
+  // 02 - Resolve the selected rows (used by the Selection scope)
+  const selectedRange = workbook.getSelectedRange();
+  const selectedTopRow = selectedRange.getRowIndex() + 1;
+  const selectedBottomRow = selectedTopRow + selectedRange.getRowCount() - 1;
+  const selection = (selectedTopRow >= dataTopRow && selectedBottomRow <= dataBottomRow)
+    ? { startIndex: selectedTopRow - dataTopRow, endIndex: selectedBottomRow - dataTopRow }
+    : undefined;
+
+  const indices = getResetIndices(activityObjectsArray, options, target, selection);
+  const scopeDescription = describeResetScope(options);
+
+  // Quantities linked to the Take-off sheet that are kept (see "Reset Linked Quantities")
+  const keptLinkedCount = target === "quantity" && !options.clearLinkedQuantities
+    ? getResetIndices(activityObjectsArray, { ...options, clearLinkedQuantities: true }, target, selection).length - indices.length
+    : 0;
+  const keptLinkedNote = keptLinkedCount > 0
+    ? ` ${keptLinkedCount} quantity cell(s) linked to the Take-off sheet kept; set "Reset Linked Quantities" to Yes to clear them.`
+    : "";
+
+  // 03 - Preview only reports the count
+  if (options.preview) {
+    console.log(`${operation} preview: ${indices.length} ${target} cell(s) in ${scopeDescription} would be reset to ${placeholder}.${keptLinkedNote} Set "Reset Preview" to No to apply.`);
+    return;
+  }
+
+  if (indices.length === 0) {
+    console.log(`${operation}: nothing to reset in ${scopeDescription}.${keptLinkedNote}`);
+    return;
+  }
+
+  // 04 - Snapshot, then write each run of consecutive in-scope rows
+  saveTableSnapshot(workbook, layout, operation);
+
+  const column = target === "rate" ? layout.rateColumn : layout.quantityColumn;
+  let runStart = 0;
+
+  for (let i = 1; i <= indices.length; i++) {
+    if (i === indices.length || indices[i] !== indices[i - 1] + 1) {
+      setColumnFormulas(sheet, column, dataTopRow + indices[runStart], new Array(i - runStart).fill(placeholder));
+      runStart = i;
+    }
+  }
+
+  console.log(`${operation}: ${indices.length} ${target} cell(s) in ${scopeDescription} reset to ${placeholder}.${keptLinkedNote}`);
+}
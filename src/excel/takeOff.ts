@@ -0,0 +1,43 @@
+/**
+ * ExcelScript Adapter: Quantity Take-off
+ *
+ * Creates or opens the take-off block for the selected leaf item on the
+ * "Take-off" sheet and links the item's quantity to the block's net total.
+ */
+
+import type { TableLayout } from "../core/layout";
+import type { LinkedBlock } from "../core/linkedBlocks";
+import { TAKE_OFF_BLOCKS } from "../core/takeOff";
+import { openLinkedBlock } from "./linkedBlocks";
+
+/**
+ * Opens the selected item's take-off, creating a new block at the bottom of the
+ * "Take-off" sheet if it has none, and sets the item's quantity to link to it.
+ *
+ * @param {ExcelScript.Workbook} workbook - The workbook containing the active worksheet and active cell.
+ * @param {TableLayout} layout - The table layout.
+ * @returns The item code, its block and whether the block was created.
+ * @throws If the active cell is outside the table or on a parent item.
+ */
+export function openTakeOff(
+  workbook: ExcelScript.Workbook,
+  layout: TableLayout
+): { itemCode: string, block: LinkedBlock, created: boolean } {
+  return openLinkedBlock(workbook, layout, TAKE_OFF_BLOCKS, "Take-off", formatTakeOffBlock);
+}
+
+/**
+ * Applies header, dimension and total styling to a new take-off block.
+ */
+function formatTakeOffBlock(takeOffSheet: ExcelScript.Worksheet, block: LinkedBlock): void {
+  const headerFormat = takeOffSheet.getRange(`A${block.headerRow}:G${block.headerRow + 1}`).getFormat();
+  headerFormat.getFont().setBold(true);
+  headerFormat.getFill().setColor("#D9D9D9");
+
+  takeOffSheet.getRange(`B${block.headerRow + 2}:D${block.totalRow}`).setNumberFormatLocal("#,##0.00");
+  takeOffSheet.getRange(`G${block.headerRow + 2}:G${block.totalRow}`).setNumberFormatLocal("#,##0.00");
+
+  const totalFormat = takeOffSheet.getRange(`A${block.totalRow - 2}:G${block.totalRow}`).getFormat();
+  totalFormat.getFont().setBold(true);
+  totalFormat.getRangeBorder(ExcelScript.BorderIndex.edgeTop).setStyle(ExcelScript.BorderLineStyle.continuous);
+}
@@ -0,0 +1,204 @@
+/**
+ * ExcelScript Module: Add Conditional Formats
+ *
+ * Applies per-hierarchy-level theme colours and dims rows without quantities.
+ * With an item type column set, provisional sums, PC sums, rate-only and
+ * daywork rows each get their own colour.
+ * With two or more pricing column pairs, the lowest priced cost on each row is
+ * highlighted green.
+ *
+ * @entryPoint `main(workbook: ExcelScript.Workbook)`
+ */
+
+import { TableLayout, getPricingColumns, getTableColumnSpan } from "../core/layout";
+import { buildLowestBidFormula } from "../core/pricing";
+import { getTableRowsRange, transformTableToActivityObjects } from "../excel/activityTable";
+import { readTableLayout } from "../excel/tableLayout";
+
+/// ===== MAIN FUNCTION ===== ///
+
+function main(workbook: ExcelScript.Workbook) {
+
+  applyConditionalFormatting(workbook);
+
+}
+
+/// ========================================== ///
+
+class ConditionalFormattingTheme {
+// This class encapsulates conditional formatting properties and allows them to be applied to a specified range.
+
+  constructor(
+    public readonly name: string,
+    private readonly fillColor: string,
+    private readonly fontColor: string,
+    private readonly setBold: boolean,
+    private readonly formulaGenerator: (row: number) => string
+  ) {}
+
+  public applyFormatting(workbook: ExcelScript.Workbook, rangeText: string, dataTopRow: number) {
+    
+    const sheet = workbook.getActiveWorksheet();
+    const range = sheet.getRange(rangeText);
+
+    // 01 - Initialize conditional format
+    const cfProperties = range.addConditionalFormat(ExcelScript.ConditionalFormatType.custom).getCustom();
+
+    // 02 - Apply Rule
+    cfProperties.getRule().setFormula(this.formulaGenerator(dataTopRow));
+
+    // 03 - Apply Format
+    cfProperties.getFormat().getFill().setColor(this.fillColor);
+    cfProperties.getFormat().getFont().setColor(this.fontColor);
+    cfProperties.getFormat().getFont().setBold(this.setBold);
+
+  }
+}
+
+function applyConditionalFormatting(workbook: ExcelScript.Workbook) {
+
+  const sheet = workbook.getActiveWorksheet();
+  const layout = readTableLayout(workbook);
+  const itemCodeColumn = layout.itemCodeColumn;
+
+  // 01 - Get data range
+  let { dataTopRow, dataBottomRow } = transformTableToActivityObjects(sheet, layout);
+
+  const { firstColumn, lastColumn } = getTableColumnSpan(layout);
+  const rangeAddress = `${firstColumn}${dataTopRow}:${lastColumn}${dataBottomRow}`
+
+  const range = sheet.getRange(rangeAddress);
+
+  if (range.getConditionalFormats().length > 0) {
+    range.clearAllConditionalFormats();
+  }
+
+  // 02 - Define theme color conditional formatting (default blue)
+  const themePalette: ConditionalFormattingTheme[] = [
+
+    new ConditionalFormattingTheme(
+      "Level 0",
+      "acb9ca",
+      "000000",
+      true,
+      (row: number) => `=LEN($${itemCodeColumn}${row})-LEN(SUBSTITUTE($${itemCodeColumn}${row},"-","")) = 0`
+    ),
+
+    new ConditionalFormattingTheme(
+      "Level 1",
+      "d6dce4",
+      "000000",
+      true,
+      (dataTopRow: number) => `=LEN($${itemCodeColumn}${dataTopRow})-LEN(SUBSTITUTE($${itemCodeColumn}${dataTopRow},"-","")) = 1`
+    ),
+
+    new ConditionalFormattingTheme(
+      "Level 2",
+      "f1f3f6",
+      "000000",
+      false,
+      (dataTopRow: number) => `=LEN($${itemCodeColumn}${dataTopRow})-LEN(SUBSTITUTE($${itemCodeColumn}${dataTopRow},"-","")) = 2`
+    ),
+
+    new ConditionalFormattingTheme(
+      "Level 3",
+      "ffffff",
+      "000000",
+      false,
+      (dataTopRow: number) => `=LEN($${itemCodeColumn}${dataTopRow})-LEN(SUBSTITUTE($${itemCodeColumn}${dataTopRow},"-","")) = 3`
+    ),
+
+    new ConditionalFormattingTheme(
+      "Level 4",
+      "ffffff",
+      "44546a",
+      false,
+      (dataTopRow: number) => `=LEN($${itemCodeColumn}${dataTopRow})-LEN(SUBSTITUTE($${itemCodeColumn}${dataTopRow},"-","")) > 3`
+    ),
+
+  ];
+
+  // 03 - Apply theme color conditional formattings to range
+  for (const theme of themePalette) {
+    theme.applyFormatting(workbook, rangeAddress, dataTopRow);
+  }
+
+  // 04 - Colour each item type over the level themes, if the item type column is set
+  if (layout.itemTypeColumn !== "") {
+    const itemTypeColumn = layout.itemTypeColumn;
+    const itemTypePalette: ConditionalFormattingTheme[] = [
+      new ConditionalFormattingTheme("Provisional Sum", "fff2cc", "7f6000", false, (dataTopRow: number) => `=$${itemTypeColumn}${dataTopRow}="PS"`),
+      new ConditionalFormattingTheme("Prime Cost Sum", "fce4d6", "833c0b", false, (dataTopRow: number) => `=$${itemTypeColumn}${dataTopRow}="PC"`),
+      new ConditionalFormattingTheme("Rate Only", "ededed", "7f7f7f", false, (dataTopRow: number) => `=$${itemTypeColumn}${dataTopRow}="RO"`),
+      new ConditionalFormattingTheme("Daywork", "e2efda", "375623", false, (dataTopRow: number) => `=$${itemTypeColumn}${dataTopRow}="DW"`),
+    ];
+
+    for (const theme of itemTypePalette) {
+      theme.applyFormatting(workbook, rangeAddress, dataTopRow);
+    }
+  }
+
+  // 05 - Highlight the lowest bid across the pricing cost columns (added last, so it takes priority)
+  const pricings = getPricingColumns(layout);
+
+  if (pricings.length > 1) {
+    for (const pricing of pricings) {
+      const lowestBidTheme = new ConditionalFormattingTheme(
+        "Lowest Bid",
+        "c6efce",
+        "006100",
+        true,
+        (dataTopRow: number) => buildLowestBidFormula(layout, pricing.costColumn, dataTopRow)
+      );
+
+      lowestBidTheme.applyFormatting(workbook, `${pricing.costColumn}${dataTopRow}:${pricing.costColumn}${dataBottomRow}`, dataTopRow);
+    }
+  }
+
+  // 06 - Apply lighten text if empty conditional format
+  lightenTextConditionalFormatting(workbook, layout, dataTopRow, dataBottomRow)
+}
+
+/**
+ * Applies conditional formatting to dim rows with no quantity data.
+ * 
+ * Affects rows where the quantity column is 0, empty (""), or a dash ("-"),
+ * except provisional sums and rate-only items, which never have a quantity.
+ * Highlights text using the specified color across all table columns.
+ *
+ * @param {ExcelScript.Workbook} workbook - The Excel workbook context.
+ * @param {TableLayout} layout - The table layout.
+ * @param {number} dataTopRow - First row of the data range (after header).
+ * @param {number} dataBottomRow - Last row of the data range.
+ * @param {string} [textColor="d0cece"] - Font color to apply if condition is met.
+ */
+function lightenTextConditionalFormatting(
+  workbook: ExcelScript.Workbook,
+  layout: TableLayout,
+  dataTopRow: number,
+  dataBottomRow: number,
+  textColor: string = "d0cece",
+): void {
+  const sheet = workbook.getActiveWorksheet();
+
+  // 01 - Define the target range: all table columns for all relevant rows
+  const range = getTableRowsRange(sheet, layout, dataTopRow, dataBottomRow);
+  const quantityCell = `$${layout.quantityColumn}${dataTopRow}`;
+
+  // 02 - Create new custom conditional format object
+  const lightenTextConditionalFormat = range
+    .addConditionalFormat(ExcelScript.ConditionalFormatType.custom)
+    .getCustom();
+
+  // 03 - Set formula: triggers if quantity is 0, blank, or "-"
+  const emptyQuantityCondition = `OR(${quantityCell} = 0, ${quantityCell} = "", ${quantityCell} = "-")`;
+  const itemTypeCell = `$${layout.itemTypeColumn}${dataTopRow}`;
+
+  lightenTextConditionalFormat.getRule().setFormula(layout.itemTypeColumn === ""
+    ? `=${emptyQuantityCondition}`
+    : `=AND(${emptyQuantityCondition}, ${itemTypeCell} <> "PS", ${itemTypeCell} <> "RO")`
+  );
+
+  // 04 - Set font color if condition is true
+  lightenTextConditionalFormat.getFormat().getFont().setColor(textColor);
+}
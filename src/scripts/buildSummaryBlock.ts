@@ -0,0 +1,23 @@
+/**
+ * ExcelScript Module: Build Summary Block
+ *
+ * Creates (or rebuilds) the summary block beneath the grand total row:
+ * subtotal, preliminaries %, contingency %, overhead & profit %, discount %
+ * and tax (GST/VAT) %, with the percentages as editable input cells. Lines and
+ * starting percentages come from the BQ_Config sheet; percentages already typed
+ * into the block are kept. Formula refreshes keep the block in sync afterwards.
+ *
+ * @entryPoint `main(workbook: ExcelScript.Workbook)`
+ */
+
+import { buildSummaryBlockFromSettings } from "../excel/summaryBlock";
+import { readTableLayout } from "../excel/tableLayout";
+
+// ===== MAIN FUNCTION ===== //
+function main(workbook: ExcelScript.Workbook) {
+
+  const layout = readTableLayout(workbook);
+  const lines = buildSummaryBlockFromSettings(workbook, layout);
+
+  console.log(`✅ Summary block written with ${lines.map(line => line.label).join(", ") || "no markups"}`);
+}
@@ -0,0 +1,24 @@
+/**
+ * ExcelScript Module: Build Tender Comparison
+ *
+ * Writes a "Tender Comparison" sheet with one row per section: each pricing
+ * column pair's section total (live links to the BQ), the lowest total and
+ * who priced it, then the grand totals. Pricing pairs are named in
+ * "Pricing Names" (e.g. "Estimate, Bidder 1, Bidder 2") and placed from
+ * "Pricing Start Column" on BQ_Config; the formula update rolls each pair up
+ * like the main cost column.
+ *
+ * @entryPoint `main(workbook: ExcelScript.Workbook)`
+ */
+
+import { writeTenderComparisonSheet } from "../excel/pricing";
+import { readTableLayout } from "../excel/tableLayout";
+
+// ===== MAIN FUNCTION ===== //
+function main(workbook: ExcelScript.Workbook) {
+
+  const layout = readTableLayout(workbook);
+  const sectionCount = writeTenderComparisonSheet(workbook, layout);
+
+  console.log(`✅ Tender Comparison written for ${sectionCount} section(s)`);
+}
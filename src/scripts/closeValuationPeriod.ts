@@ -0,0 +1,23 @@
+/**
+ * ExcelScript Module: Close Valuation Period
+ *
+ * Ends the current valuation (interim payment) period: on every measured row
+ * the cumulative quantity is copied into Previous Qty and This Period Qty is
+ * reset to 0, ready for the next month's measurement. Needs the valuation
+ * columns switched on ("Valuation Start Column" on BQ_Config). The table is
+ * first saved to "BQ_History" so the close can be undone.
+ *
+ * @entryPoint `main(workbook: ExcelScript.Workbook)`
+ */
+
+import { readTableLayout } from "../excel/tableLayout";
+import { closeValuationPeriodOnSheet } from "../excel/valuation";
+
+// ===== MAIN FUNCTION ===== //
+function main(workbook: ExcelScript.Workbook) {
+
+  const layout = readTableLayout(workbook);
+  const rowCount = closeValuationPeriodOnSheet(workbook, layout);
+
+  console.log(`✅ Period closed - cumulative quantities rolled into previous on ${rowCount} row(s)`);
+}
@@ -0,0 +1,28 @@
+/**
+ * ExcelScript Module: Compare Revisions
+ *
+ * Writes a change log of the active BQ sheet (e.g. Rev B) against the sheet
+ * named in "Compare Against Sheet" on BQ_Config (e.g. Rev A) to the
+ * "BQ Compare" sheet: added, removed and changed priced items with their
+ * quantity, rate and cost changes, then each section's total variance.
+ * Items are aligned by code, falling back to description when codes were
+ * reindexed.
+ *
+ * @entryPoint `main(workbook: ExcelScript.Workbook)`
+ */
+
+import { resolveCompareOptions } from "../core/revisionCompare";
+import { compareWithRevision } from "../excel/revisionCompare";
+import { readBQSettings, readTableLayout } from "../excel/tableLayout";
+
+// ===== MAIN FUNCTION ===== //
+function main(workbook: ExcelScript.Workbook) {
+
+  const layout = readTableLayout(workbook);
+  const { oldSheetName, threshold } = resolveCompareOptions(readBQSettings(workbook));
+
+  const comparison = compareWithRevision(workbook, layout, oldSheetName, threshold);
+  const countOf = (status: string) => comparison.changes.filter(change => change.status === status).length;
+
+  console.log(`✅ ${countOf("Added")} added, ${countOf("Removed")} removed, ${countOf("Changed")} changed, ${comparison.unchangedCount} unchanged`);
+}
@@ -0,0 +1,119 @@
+/**
+ * ExcelScript Module: Delete Selected Activities and Refresh
+ *
+ * Automates:
+ * - Snapshotting the table to "BQ_History" (see Restore Last Snapshot)
+ * - Deleting user-selected activity rows
+ * - Reindexing item codes hierarchically
+ * - Reapplying formulas based on hierarchical structure
+ *
+ * @entryPoint `main(workbook: ExcelScript.Workbook)`
+ *
+ * @assumptions:
+ * - Table position is read from the "BQ_Config" sheet / BQ_ named ranges (default: header row 9, item codes in Column B)
+ * - Hierarchy denoted by hyphenated codes (e.g., A-1, A-1-1)
+ *
+ * @dependencies:
+ * - refreshActivityItemCodes
+ * - updateActivityRowFormulas
+ * - transformTableToActivityObjects
+ * - reindexItemCodes
+ */
+
+import { reindexItemCodes } from "../core/itemCodes";
+import type { TableLayout } from "../core/layout";
+import { updateActivityRowFormulas } from "../excel/activityFormulas";
+import { setColumnFormulas, transformTableToActivityObjects } from "../excel/activityTable";
+import { saveTableSnapshot } from "../excel/snapshotHistory";
+import { readTableLayout } from "../excel/tableLayout";
+
+// ===== MAIN FUNCTION ===== //
+function main(workbook: ExcelScript.Workbook) {
+
+  deleteSelectedActivitiesAndRefresh(workbook);
+
+}
+
+// ===== PROGRAM FUNCTION 01 - DELETE SELECTED ACTIVITIES AND REFRESH ===== //
+/**
+ * Deletes the currently selected activity row(s) from the active worksheet,
+ * then refreshes item codes and updates related formulas.
+ *
+ * @param {ExcelScript.Workbook} workbook - The workbook containing the active worksheet and selected range.
+ *
+ * @dependencies Dependencies are as follows:
+ *   - Requires `refreshActivityItemCodes`
+ *   - Requires `updateActivityRowFormulas`
+ *   - Relies on item codes in the layout's item code column
+ *   - Data range must be contiguous
+ */
+function deleteSelectedActivitiesAndRefresh(workbook: ExcelScript.Workbook) {
+
+  // 01 - Get the active cell and worksheet
+  const sheet = workbook.getActiveWorksheet();
+  const activeRange = workbook.getSelectedRange();
+  const layout = readTableLayout(workbook);
+
+  const activeRangeTopRow = activeRange.getRowIndex() + 1;
+  const activeRangeBottomRow = activeRangeTopRow + activeRange.getRowCount() - 1;
+
+  const {dataTopRow, dataBottomRow} = transformTableToActivityObjects(sheet, layout);
+
+  // 02 - Validate deletion range
+  if (activeRangeTopRow < dataTopRow || activeRangeBottomRow > dataBottomRow) throw new Error("Selected row not deleted - row not within data range!")
+
+  // 03 - Snapshot the table, then delete selected row(s)
+  saveTableSnapshot(workbook, layout, "Delete Selected Activities");
+  sheet.getRange(`${activeRangeTopRow}:${activeRangeBottomRow}`).delete(ExcelScript.DeleteShiftDirection.up);
+
+  // 04 - Reindex and reset itemCodes
+  refreshActivityItemCodes(workbook, layout);
+
+  // 05 - Update formulas for quantity, unit, rate, cost columns around the deleted rows
+  updateActivityRowFormulas(sheet, layout, { topRow: activeRangeTopRow - 1, bottomRow: activeRangeTopRow });
+
+}
+
+// ===== PROGRAM FUNCTION 02 - REFRESH ACTIVITY ITEM CODES ===== //
+
+/**
+ * Refreshes the activity item codes in the currently active worksheet of the workbook.
+ * 
+ * This function:
+ * - Extracts activity data from a structured table based on the provided header row.
+ * - Recalculates item codes using `reindexItemCodes()`.
+ * - Updates the item code column with the refreshed item codes for all detected activity rows.
+ * 
+ * @param {ExcelScript.Workbook} workbook - The Excel workbook containing the active worksheet.
+ * @param {TableLayout} layout - The table layout (used to identify the table range).
+ *
+ * @remarks
+ * Relies on the helper functions `transformTableToActivityObjects` and `reindexItemCodes`
+ * being available in the execution context.
+ *
+ * @example
+ * Refresh item codes for the table configured in the workbook
+ * refreshActivityItemCodes(workbook, readTableLayout(workbook));
+ */
+
+function refreshActivityItemCodes(workbook: ExcelScript.Workbook, layout: TableLayout): void {
+
+  // 01 - Get the currently active worksheet
+  let sheet = workbook.getActiveWorksheet();
+
+  // 02 - Extract structured activity data and table bounds from worksheet
+  const { activityObjectsArray, dataTopRow } = transformTableToActivityObjects(sheet, layout);
+
+
+  // 03 - Prepare array of itemCode and hierarchyLevel objects
+  const existingItemCodes = activityObjectsArray.map((activity) => {
+    return activity.itemCode;
+  });
+
+  // 04 - Generate refreshed activity itemCode array 
+  const newItemCodes = reindexItemCodes(existingItemCodes);
+
+  // 05 - Reapply itemCodes onto sheet
+  setColumnFormulas(sheet, layout.itemCodeColumn, dataTopRow, newItemCodes);
+
+}
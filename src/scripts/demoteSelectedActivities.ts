@@ -0,0 +1,17 @@
+/**
+ * ExcelScript Module: Demote Selected Activities
+ *
+ * Moves the selected activities (with their subtrees) down one hierarchy level,
+ * e.g. A-2 becomes A-1-3, the last child of its previous sibling A-1.
+ *
+ * @entryPoint `main(workbook: ExcelScript.Workbook)`
+ */
+
+import { changeSelectedActivitiesLevel } from "../excel/activityStructure";
+
+// ===== MAIN FUNCTION ===== //
+function main(workbook: ExcelScript.Workbook) {
+
+  changeSelectedActivitiesLevel(workbook, "demote");
+
+}
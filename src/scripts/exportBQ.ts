@@ -0,0 +1,23 @@
+/**
+ * ExcelScript Module: Export BQ
+ *
+ * Exports every activity (code, description, level, parent code, quantity,
+ * unit, rate, cost, has-child) to the "BQ Export" sheet as a flat CSV in
+ * column A and a nested JSON tree in column B, one line per cell, for
+ * cost-control and scheduling tools. The layout is versioned; see
+ * `BQ_EXPORT_SCHEMA_VERSION`.
+ *
+ * @entryPoint `main(workbook: ExcelScript.Workbook)`
+ */
+
+import { exportActivityTable } from "../excel/bqExport";
+import { readTableLayout } from "../excel/tableLayout";
+
+// ===== MAIN FUNCTION ===== //
+function main(workbook: ExcelScript.Workbook) {
+
+  const layout = readTableLayout(workbook);
+  const itemCount = exportActivityTable(workbook, layout);
+
+  console.log(`✅ Exported ${itemCount} item(s) to "BQ Export"`);
+}
@@ -0,0 +1,26 @@
+/**
+ * ExcelScript Module: Fill Rates From Library
+ *
+ * Fills leaf rates still showing "[rate]" from the master rate schedule on the
+ * "BQ_Rates" sheet, matching on the library reference column (if configured)
+ * or the closest description with the same unit. Unmatched rows are listed on
+ * the "BQ Issues" sheet, then all formulas are refreshed.
+ *
+ * @entryPoint `main(workbook: ExcelScript.Workbook)`
+ */
+
+import { updateActivityRowFormulas } from "../excel/activityFormulas";
+import { fillRatesFromLibrary } from "../excel/rateLibrary";
+import { readTableLayout } from "../excel/tableLayout";
+
+// ===== MAIN FUNCTION ===== //
+function main(workbook: ExcelScript.Workbook) {
+
+  const sheet = workbook.getActiveWorksheet();
+  const layout = readTableLayout(workbook);
+
+  const { filledCount, unmatchedCount } = fillRatesFromLibrary(workbook, layout);
+  updateActivityRowFormulas(sheet, layout);
+
+  console.log(`✅ ${filledCount} rate(s) filled from the library, ${unmatchedCount} row(s) unmatched - see "BQ Issues".`);
+}
@@ -0,0 +1,24 @@
+/**
+ * ExcelScript Module: Generate Summary of Bills
+ *
+ * Writes a "Summary of Bills" sheet listing each section (and, with
+ * "Summary Include Level 1" set to Yes, its level 1 items) with a live link
+ * to its cost cell, followed by the grand total. Run it again after adding,
+ * removing or renaming sections; the sheet is rebuilt from scratch each time.
+ *
+ * @entryPoint `main(workbook: ExcelScript.Workbook)`
+ */
+
+import { resolveBooleanSetting } from "../core/settings";
+import { generateBillSummarySheet } from "../excel/billSummary";
+import { readBQSettings, readTableLayout } from "../excel/tableLayout";
+
+// ===== MAIN FUNCTION ===== //
+function main(workbook: ExcelScript.Workbook) {
+
+  const layout = readTableLayout(workbook);
+  const includeLevel1 = resolveBooleanSetting(readBQSettings(workbook), "Summary Include Level 1", false);
+
+  const sectionCount = generateBillSummarySheet(workbook, layout, includeLevel1);
+  console.log(`✅ Summary of Bills written with ${sectionCount} section(s)`);
+}
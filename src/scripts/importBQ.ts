@@ -0,0 +1,28 @@
+/**
+ * ExcelScript Module: Import BQ
+ *
+ * Builds the whole activity table from an item list pasted onto the
+ * "BQ Import" sheet: a table with Code and Description (and optionally
+ * Quantity, Unit, Rate) columns, CSV lines, or the JSON from Export BQ.
+ * Codes are checked before anything is written; existing rows are saved to
+ * "BQ_History" and replaced, every row is formatted by level and the
+ * formulas are updated in the same run.
+ *
+ * @entryPoint `main(workbook: ExcelScript.Workbook)`
+ */
+
+import { updateActivityRowFormulas } from "../excel/activityFormulas";
+import { importActivityTable } from "../excel/bqImport";
+import { readTableLayout } from "../excel/tableLayout";
+
+// ===== MAIN FUNCTION ===== //
+function main(workbook: ExcelScript.Workbook) {
+
+  const sheet = workbook.getActiveWorksheet();
+  const layout = readTableLayout(workbook);
+
+  const itemCount = importActivityTable(workbook, layout);
+  updateActivityRowFormulas(sheet, layout);
+
+  console.log(`✅ Imported ${itemCount} item(s)`);
+}
@@ -0,0 +1,240 @@
+/**
+ * ExcelScript Module: Insert Child Activity Items
+ *
+ * Inserts the number of child rows given in cell M2 beneath the selected
+ * parent item, formats them by hierarchy level and refreshes all formulas.
+ *
+ * @entryPoint `main(workbook: ExcelScript.Workbook)`
+ */
+
+import { buildNewActivityRow } from "../core/activity";
+import { incrementLastItemCodeSegment } from "../core/itemCodes";
+import type { TableLayout } from "../core/layout";
+import type { RefreshScope } from "../core/refresh";
+import { updateActivityRowFormulas } from "../excel/activityFormulas";
+import { readInsertRowCount } from "../excel/activityInsertion";
+import { getTableRowsRange } from "../excel/activityTable";
+import { formatRowBlockByHierarchyLevel } from "../excel/rowFormatting";
+import { readTableLayout } from "../excel/tableLayout";
+
+// ====== MAIN FUNCTION ===== //
+function main(workbook: ExcelScript.Workbook) {
+
+  const sheet = workbook.getActiveWorksheet();
+  const layout = readTableLayout(workbook);
+
+  const scope = insertMultipleChildItemRows(workbook, layout);
+  updateActivityRowFormulas(sheet, layout, scope);
+
+}
+
+// ====== PROGRAM FUNCTION ===== //
+
+function insertMultipleChildItemRows(workbook: ExcelScript.Workbook, layout: TableLayout): RefreshScope | undefined {
+  const sheet = workbook.getActiveWorksheet();
+  const numChildren = readInsertRowCount(sheet);
+
+  if (!numChildren || numChildren < 1) {
+    console.log("No children to insert.");
+    return undefined;
+  }
+
+  const activeCellRowNumber = workbook.getActiveCell().getRowIndex() + 1;
+
+  // Get base insertion point & code for first child
+  const { newChildInsertionRow, newChildItemCode, newChildHierarchyLevel } =
+    computeNewChildItemCodeAndInsertionRow(sheet, layout, activeCellRowNumber);
+
+  // Generate all child item codes in memory
+  const childCodes: string[] = [];
+  let currentCode = newChildItemCode;
+  childCodes.push(currentCode);
+  for (let i = 1; i < numChildren; i++) {
+    currentCode = incrementLastItemCodeSegment(currentCode);
+    childCodes.push(currentCode);
+  }
+
+  // Insert rows in one call
+  sheet
+    .getRange(`${newChildInsertionRow}:${newChildInsertionRow + numChildren - 1}`)
+    .insert(ExcelScript.InsertShiftDirection.down);
+
+  // Build header values for all children
+  const headers = childCodes.map(code => buildNewActivityRow(code, layout));
+
+  // Set all headers at once
+  getTableRowsRange(sheet, layout, newChildInsertionRow, newChildInsertionRow + numChildren - 1)
+    .setValues(headers as string[][]);
+
+  // Format the entire block at once
+  formatRowBlockByHierarchyLevel(
+    workbook,
+    layout,
+    newChildHierarchyLevel,
+    newChildInsertionRow,
+    newChildInsertionRow + numChildren - 1
+  );
+
+  console.log(`✅ Inserted ${numChildren} children at row ${newChildInsertionRow} with hierarchy level ${newChildHierarchyLevel}`);
+  return { topRow: newChildInsertionRow, bottomRow: newChildInsertionRow + numChildren - 1 };
+}
+
+
+// ====== HELPER FUNCTIONS ===== //
+
+/**
+ * Retrieves all item codes from a table starting at a specific row in the item code column.
+ * Delegates to a general-purpose helper that scans downward from the given row.
+ *
+ * @param sheet The ExcelScript worksheet object.
+ * @param layout The table layout.
+ * @param itemCodeStartRow The row number (1-based) to start scanning from.
+ * @returns An array of objects, each containing the row number and corresponding item code string.
+ */
+function getAllItemCodesInTable(
+  sheet: ExcelScript.Worksheet,
+  layout: TableLayout,
+  itemCodeStartRow: number
+): { rowNumber: number, itemCode: string }[] {
+  return getAllItemCodesFromGivenRow(sheet, layout.itemCodeColumn, itemCodeStartRow);
+}
+
+
+/**
+ * Retrieves all non-empty item codes starting from a given row in a specified column,
+ * scanning downward until an empty cell is encountered.
+ *
+ * @param sheet The ExcelScript worksheet object.
+ * @param columnLetter The column letter (e.g. "B") that contains item codes.
+ * @param startRow The row number (1-based) to start scanning from.
+ * @returns An array of objects containing row numbers and corresponding item codes.
+ */
+function getAllItemCodesFromGivenRow(
+  sheet: ExcelScript.Worksheet,
+  columnLetter: string,
+  startRow: number
+): { rowNumber: number, itemCode: string }[] {
+
+  // Get all cell values from the start row downward in the target column
+  const values2D = sheet
+    .getRange(`${columnLetter}${startRow}`)
+    .getExtendedRange(ExcelScript.KeyboardDirection.down)
+    .getValues();
+
+  const itemCodes: { rowNumber: number, itemCode: string }[] = [];
+
+  if (!values2D) return itemCodes;
+
+  for (let i = 0; i < values2D.length; i++) {
+    const rowNumber = startRow + i;
+    const itemCode = values2D[i][0] as string;
+    itemCodes.push({ rowNumber, itemCode });
+  }
+
+  return itemCodes;
+}
+
+/**
+ * Returns all child activity items that belong to the given parent item row,
+ * based on the item code hierarchy in the item code column.
+ * 
+ * Child items are determined by:
+ * - Having item codes that start with the parent code followed by a hyphen.
+ * - Having a deeper hierarchy level (more hyphens) than the parent.
+ *
+ * @param sheet - The worksheet object.
+ * @param layout - The table layout.
+ * @param rowNumber - The row number (1-based) of the parent item.
+ * @returns An array of objects, each containing the row number and item code of a child activity.
+ */
+function getAllChildActivityItemCodes(
+  sheet: ExcelScript.Worksheet,
+  layout: TableLayout,
+  rowNumber: number
+): { rowNumber: number, itemCode: string }[] {
+
+  // Get parent item code and compute parent level from the item code column
+  const parentCode = sheet.getRange(`${layout.itemCodeColumn}${rowNumber}`).getValue() as string;
+  const parentLevel: number = (parentCode.match(/-/g) || []).length;
+
+  // Get all item codes below the parent row
+  const itemCodesBelow = getAllItemCodesFromGivenRow(sheet, layout.itemCodeColumn, rowNumber + 1);
+
+  // Accumulator for child items
+  const childrenActivities: { rowNumber: number, itemCode: string }[] = [];
+
+  // Loop through each item code below
+  itemCodesBelow.forEach(item => {
+    const itemLevel = (item.itemCode.match(/-/g) || []).length;
+
+    // Must start with parentCode + "-" and be at a deeper level
+    if (
+      item.itemCode.startsWith(`${parentCode}-`) &&
+      itemLevel > parentLevel
+    ) {
+      childrenActivities.push(item);
+    }
+  });
+
+  return childrenActivities;
+}
+
+
+
+/**
+ * Computes the new child item code and the row where it should be inserted,
+ * based on a selected parent row in the Excel worksheet.
+ *
+ * @param sheet - The ExcelScript worksheet containing the item codes.
+ * @param layout - The table layout.
+ * @param selectedParentRow - The row number (1-based) of the selected parent item.
+ * @returns An object containing:
+ *  - newChildInsertionRow: the row number to insert the new child,
+ *  - newChildItemCode: the generated item code for the new child,
+ *  - newChildHierarchyLevel: the depth level in the item hierarchy.
+ */
+function computeNewChildItemCodeAndInsertionRow(
+  sheet: ExcelScript.Worksheet,
+  layout: TableLayout,
+  selectedParentRow: number
+): { newChildInsertionRow: number, newChildItemCode: string, newChildHierarchyLevel: number } {
+
+  // Get the parent item code from the item code column of the selected row
+  const parentItemCode = sheet.getRange(`${layout.itemCodeColumn}${selectedParentRow}`).getValue() as string;
+
+  // Determine hierarchy depth from number of hyphens (e.g., A-1-2 = 2)
+  const parentHierarchyLevel: number = (parentItemCode.match(/-/g) || []).length;
+
+  // Retrieve all child activity items under the selected parent
+  const childItems = getAllChildActivityItemCodes(sheet, layout, selectedParentRow);
+
+  // CASE 1: No existing children — create the first child at next row
+  if (childItems.length === 0) {
+    const newChildInsertionRow: number = selectedParentRow + 1;
+    const newChildItemCode: string = parentItemCode + "-1";
+    const newChildHierarchyLevel: number = parentHierarchyLevel + 1;
+
+    return { newChildInsertionRow, newChildItemCode, newChildHierarchyLevel };
+
+  } else {
+    // CASE 2: Existing children — find the last one with the correct hierarchy level
+    const matchingLevelChildren: { rowNumber: number, itemCode: string }[] = [];
+
+    childItems.forEach((item) => {
+      const itemHierarchyLevel = (item.itemCode.match(/-/g) || []).length;
+      if (itemHierarchyLevel === parentHierarchyLevel + 1) {
+        matchingLevelChildren.push(item);
+      }
+    });
+
+    // Take the last matching child and increment its item code
+    const lastImmediateChild = matchingLevelChildren[matchingLevelChildren.length - 1];
+    const lastAbsoluteChild = childItems[childItems.length - 1];
+
+    const newChildInsertionRow: number = lastAbsoluteChild.rowNumber + 1;
+    const newChildItemCode: string = incrementLastItemCodeSegment(lastImmediateChild.itemCode);
+    const newChildHierarchyLevel: number = parentHierarchyLevel + 1;
+
+    return { newChildInsertionRow, newChildItemCode, newChildHierarchyLevel };
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * ExcelScript Module: Insert Section Above
+ *
+ * Inserts a new top-level section directly above the selected item's section.
+ * The section takes the next unused letter (… Z, AA, AB …) unless "Reletter
+ * Sections" is set to Yes on the BQ_Config sheet, in which case every section
+ * is re-lettered in order. The grand total is rebuilt to include the new section.
+ *
+ * @entryPoint `main(workbook: ExcelScript.Workbook)`
+ */
+
+import { resolveBooleanSetting } from "../core/settings";
+import { updateActivityRowFormulas } from "../excel/activityFormulas";
+import { insertSectionRow } from "../excel/activityInsertion";
+import { readBQSettings, readTableLayout } from "../excel/tableLayout";
+
+// ===== MAIN FUNCTION ===== //
+function main(workbook: ExcelScript.Workbook) {
+
+  const sheet = workbook.getActiveWorksheet();
+  const layout = readTableLayout(workbook);
+  const reletter = resolveBooleanSetting(readBQSettings(workbook), "Reletter Sections", false);
+
+  const scope = insertSectionRow(workbook, layout, "above", reletter);
+  updateActivityRowFormulas(sheet, layout, scope);
+
+}
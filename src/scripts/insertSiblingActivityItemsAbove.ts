@@ -0,0 +1,24 @@
+/**
+ * ExcelScript Module: Insert Sibling Activity Items Above
+ *
+ * Inserts the number of rows given in cell M2 at the same level as the
+ * selected item, directly above it, renumbering later siblings
+ * (e.g. a new A-1-2 between A-1-1 and the old A-1-2, which becomes A-1-3).
+ *
+ * @entryPoint `main(workbook: ExcelScript.Workbook)`
+ */
+
+import { updateActivityRowFormulas } from "../excel/activityFormulas";
+import { insertSiblingItemRows } from "../excel/activityInsertion";
+import { readTableLayout } from "../excel/tableLayout";
+
+// ===== MAIN FUNCTION ===== //
+function main(workbook: ExcelScript.Workbook) {
+
+  const sheet = workbook.getActiveWorksheet();
+  const layout = readTableLayout(workbook);
+
+  const scope = insertSiblingItemRows(workbook, layout, "above");
+  updateActivityRowFormulas(sheet, layout, scope);
+
+}
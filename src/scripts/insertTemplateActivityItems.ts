@@ -0,0 +1,24 @@
+/**
+ * ExcelScript Module: Insert Template Activity Items
+ *
+ * Inserts the template named in cell M3 from the "BQ_Templates" sheet as a
+ * whole subtree beneath the selected parent item, with hierarchical codes,
+ * units and default rates, then formats the rows and refreshes all formulas.
+ *
+ * @entryPoint `main(workbook: ExcelScript.Workbook)`
+ */
+
+import { updateActivityRowFormulas } from "../excel/activityFormulas";
+import { insertTemplateRows } from "../excel/activityInsertion";
+import { readTableLayout } from "../excel/tableLayout";
+
+// ===== MAIN FUNCTION ===== //
+function main(workbook: ExcelScript.Workbook) {
+
+  const sheet = workbook.getActiveWorksheet();
+  const layout = readTableLayout(workbook);
+
+  const scope = insertTemplateRows(workbook, layout);
+  updateActivityRowFormulas(sheet, layout, scope);
+
+}
@@ -0,0 +1,17 @@
+/**
+ * ExcelScript Module: Move Selected Activities Down
+ *
+ * Swaps the selected activities (with their subtrees) with the sibling block
+ * directly below, e.g. A-1-1 moves after A-1-2 and becomes A-1-2.
+ *
+ * @entryPoint `main(workbook: ExcelScript.Workbook)`
+ */
+
+import { moveSelectedActivities } from "../excel/activityStructure";
+
+// ===== MAIN FUNCTION ===== //
+function main(workbook: ExcelScript.Workbook) {
+
+  moveSelectedActivities(workbook, "down");
+
+}
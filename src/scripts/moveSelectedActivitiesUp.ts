@@ -0,0 +1,17 @@
+/**
+ * ExcelScript Module: Move Selected Activities Up
+ *
+ * Swaps the selected activities (with their subtrees) with the sibling block
+ * directly above, e.g. A-1-3 moves before A-1-2 and becomes A-1-2.
+ *
+ * @entryPoint `main(workbook: ExcelScript.Workbook)`
+ */
+
+import { moveSelectedActivities } from "../excel/activityStructure";
+
+// ===== MAIN FUNCTION ===== //
+function main(workbook: ExcelScript.Workbook) {
+
+  moveSelectedActivities(workbook, "up");
+
+}
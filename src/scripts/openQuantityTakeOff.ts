@@ -0,0 +1,33 @@
+/**
+ * ExcelScript Module: Open Quantity Take-off
+ *
+ * Creates or opens the dimension sheet (times, length, width, depth and
+ * deductions) for the selected leaf item on the "Take-off" sheet, links the
+ * item's quantity to the block's net total and refreshes formulas.
+ *
+ * @entryPoint `main(workbook: ExcelScript.Workbook)`
+ */
+
+import { TAKE_OFF_BLOCKS } from "../core/takeOff";
+import { updateActivityRowFormulas } from "../excel/activityFormulas";
+import { readTableLayout } from "../excel/tableLayout";
+import { openTakeOff } from "../excel/takeOff";
+
+// ===== MAIN FUNCTION ===== //
+function main(workbook: ExcelScript.Workbook) {
+
+  const sheet = workbook.getActiveWorksheet();
+  const layout = readTableLayout(workbook);
+
+  const { itemCode, block, created } = openTakeOff(workbook, layout);
+  updateActivityRowFormulas(sheet, layout);
+
+  // Show the take-off
+  const takeOffSheet = workbook.getWorksheet(TAKE_OFF_BLOCKS.sheetName);
+  if (takeOffSheet) {
+    takeOffSheet.activate();
+    takeOffSheet.getRange(`A${block.headerRow}:${TAKE_OFF_BLOCKS.totalColumn}${block.totalRow}`).select();
+  }
+
+  console.log(`✅ ${created ? "Created" : "Opened"} the take-off for ${itemCode} (Take-off rows ${block.headerRow}-${block.totalRow})`);
+}
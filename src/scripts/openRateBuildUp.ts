@@ -0,0 +1,33 @@
+/**
+ * ExcelScript Module: Open Rate Build-Up
+ *
+ * Creates or opens the rate build-up (labour, plant, material, subcontract,
+ * overhead % and profit %) for the selected leaf item on the "Rate Analysis"
+ * sheet, links the item's rate to the build-up total and refreshes formulas.
+ *
+ * @entryPoint `main(workbook: ExcelScript.Workbook)`
+ */
+
+import { BUILD_UP_BLOCKS } from "../core/rateAnalysis";
+import { updateActivityRowFormulas } from "../excel/activityFormulas";
+import { openRateBuildUp } from "../excel/rateAnalysis";
+import { readTableLayout } from "../excel/tableLayout";
+
+// ===== MAIN FUNCTION ===== //
+function main(workbook: ExcelScript.Workbook) {
+
+  const sheet = workbook.getActiveWorksheet();
+  const layout = readTableLayout(workbook);
+
+  const { itemCode, block, created } = openRateBuildUp(workbook, layout);
+  updateActivityRowFormulas(sheet, layout);
+
+  // Show the build-up
+  const analysisSheet = workbook.getWorksheet(BUILD_UP_BLOCKS.sheetName);
+  if (analysisSheet) {
+    analysisSheet.activate();
+    analysisSheet.getRange(`A${block.headerRow}:${BUILD_UP_BLOCKS.totalColumn}${block.totalRow}`).select();
+  }
+
+  console.log(`✅ ${created ? "Created" : "Opened"} the build-up for ${itemCode} (Rate Analysis rows ${block.headerRow}-${block.totalRow})`);
+}
@@ -0,0 +1,17 @@
+/**
+ * ExcelScript Module: Promote Selected Activities
+ *
+ * Moves the selected activities (with their subtrees) up one hierarchy level,
+ * e.g. A-1-2 becomes A-2 directly after A-1's subtree.
+ *
+ * @entryPoint `main(workbook: ExcelScript.Workbook)`
+ */
+
+import { changeSelectedActivitiesLevel } from "../excel/activityStructure";
+
+// ===== MAIN FUNCTION ===== //
+function main(workbook: ExcelScript.Workbook) {
+
+  changeSelectedActivitiesLevel(workbook, "promote");
+
+}
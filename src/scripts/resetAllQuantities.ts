@@ -0,0 +1,24 @@
+/**
+ * ExcelScript Module: Reset All Quantities
+ *
+ * Replaces the quantity (column G by default) of leaf activities with the "[qty]" placeholder.
+ * By default every leaf is reset; set "Reset Scope" on the BQ_Config sheet to
+ * limit it to the selected items' subtrees, a list of sections or a unit /
+ * description filter, and "Reset Preview" to Yes to see the count first.
+ * Quantities linked to the "Take-off" sheet are kept unless "Reset Linked
+ * Quantities" is Yes.
+ * The table is first saved to "BQ_History" so the reset can be undone.
+ *
+ * @entryPoint `main(workbook: ExcelScript.Workbook)`
+ */
+
+import { resetLeafValues } from "../excel/scopedReset";
+import { readTableLayout } from "../excel/tableLayout";
+
+// ===== MAIN FUNCTION ===== //
+function main(workbook: ExcelScript.Workbook) {
+
+  const layout = readTableLayout(workbook);
+  resetLeafValues(workbook, layout, "quantity");
+
+}
@@ -0,0 +1,22 @@
+/**
+ * ExcelScript Module: Reset All Rates
+ *
+ * Replaces the rate (column I by default) of leaf activities with the "[rate]" placeholder.
+ * By default every leaf is reset; set "Reset Scope" on the BQ_Config sheet to
+ * limit it to the selected items' subtrees, a list of sections or a unit /
+ * description filter, and "Reset Preview" to Yes to see the count first.
+ * The table is first saved to "BQ_History" so the reset can be undone.
+ *
+ * @entryPoint `main(workbook: ExcelScript.Workbook)`
+ */
+
+import { resetLeafValues } from "../excel/scopedReset";
+import { readTableLayout } from "../excel/tableLayout";
+
+// ===== MAIN FUNCTION ===== //
+function main(workbook: ExcelScript.Workbook) {
+
+  const layout = readTableLayout(workbook);
+  resetLeafValues(workbook, layout, "rate");
+
+}
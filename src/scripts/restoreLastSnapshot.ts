@@ -0,0 +1,27 @@
+/**
+ * ExcelScript Module: Restore Last Snapshot
+ *
+ * Undoes the most recent Delete Selected Activities, Reset All Rates or
+ * Reset All Quantities run by restoring the table rows (values, formulas and
+ * formats) saved on the hidden "BQ_History" sheet. Run it again to step
+ * further back.
+ *
+ * @entryPoint `main(workbook: ExcelScript.Workbook)`
+ */
+
+import { restoreLastSnapshot } from "../excel/snapshotHistory";
+import { readTableLayout } from "../excel/tableLayout";
+
+// ===== MAIN FUNCTION ===== //
+function main(workbook: ExcelScript.Workbook) {
+
+  const layout = readTableLayout(workbook);
+  const record = restoreLastSnapshot(workbook, layout);
+
+  if (!record) {
+    console.log("No snapshot to restore.");
+    return;
+  }
+
+  console.log(`✅ Restored "${record.sheetName}" to before ${record.operation} (${record.timestamp})`);
+}
@@ -0,0 +1,22 @@
+/**
+ * ExcelScript Module: Switch Roll-up Mode
+ *
+ * Cycles the selected parent items through the roll-up modes: LS (lump sum
+ * of the children), Rate (own quantity and unit kept, rate = SUM of the
+ * children) and Manual (left as typed). The mode is stored in the
+ * "Roll-up Mode Column" set on BQ_Config and honoured by every formula update.
+ *
+ * @entryPoint `main(workbook: ExcelScript.Workbook)`
+ */
+
+import { switchSelectedRollUpModes } from "../excel/rollUpModes";
+import { readTableLayout } from "../excel/tableLayout";
+
+// ===== MAIN FUNCTION ===== //
+function main(workbook: ExcelScript.Workbook) {
+
+  const layout = readTableLayout(workbook);
+  const { mode, itemCodes } = switchSelectedRollUpModes(workbook, layout);
+
+  console.log(`✅ Roll-up mode set to ${mode} for ${itemCodes.join(", ")}`);
+}
@@ -0,0 +1,41 @@
+/**
+ * ExcelScript Module: Validate BQ
+ *
+ * Checks the activity table for duplicate or malformed codes, numbering gaps,
+ * items without their parent, leftover placeholders and broken roll-up
+ * formulas, and lists the findings on the "BQ Issues" sheet with links back
+ * to each cell. Set "Highlight Issues" to Yes on the BQ_Config sheet to also
+ * fill the offending cells (errors red, warnings amber); the fills stay until
+ * the rows are reformatted.
+ *
+ * @entryPoint `main(workbook: ExcelScript.Workbook)`
+ */
+
+import { resolveBooleanSetting } from "../core/settings";
+import { validateBQTable } from "../core/validation";
+import { transformTableToActivityObjects } from "../excel/activityTable";
+import { highlightIssueCells, writeIssuesSheet } from "../excel/issuesReport";
+import { readBQSettings, readTableLayout } from "../excel/tableLayout";
+
+// ===== MAIN FUNCTION ===== //
+function main(workbook: ExcelScript.Workbook) {
+
+  // 01 - Read the table from the active worksheet
+  const sheet = workbook.getActiveWorksheet();
+  const layout = readTableLayout(workbook);
+  const highlight = resolveBooleanSetting(readBQSettings(workbook), "Highlight Issues", false);
+
+  const { activityObjectsArray } = transformTableToActivityObjects(sheet, layout);
+
+  // 02 - Validate and report
+  const issues = validateBQTable(activityObjectsArray, layout);
+  writeIssuesSheet(workbook, sheet.getName(), issues);
+
+  if (highlight) {
+    highlightIssueCells(sheet, issues);
+  }
+
+  // 03 - Log a summary
+  const errorCount = issues.filter(issue => issue.severity === "Error").length;
+  console.log(`Validate BQ: ${errorCount} error(s), ${issues.length - errorCount} warning(s) - see "BQ Issues".`);
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { buildNewActivityRow, parseActivityRow, parseBQTable } from "../src/core/activity";
+import { DEFAULT_TABLE_LAYOUT } from "../src/core/layout";
+import { SAMPLE_DATA_TOP_ROW, SAMPLE_GRID, REMARKS_LAYOUT, activityRow, remarksLayoutRow } from "./fixtures/grids";
+
+describe("parseActivityRow", () => {
+  it("maps B:J columns onto activity fields", () => {
+    const activity = parseActivityRow(activityRow("A-1-1", "Excavation", 120, "m3", 15.5, "=G12*I12"), 12, DEFAULT_TABLE_LAYOUT);
+
+    expect(activity).toEqual({
+      rowNumber: 12,
+      itemCode: "A-1-1",
+      activityName: "Excavation",
+      quantity: 120,
+      unit: "m3",
+      rate: 15.5,
+      cost: "=G12*I12",
+      itemType: "",
+      rollUpMode: "",
+      hierarchyLevel: 2,
+      hasChild: false
+    });
+  });
+
+  it("reads columns from a custom layout", () => {
+    const activity = parseActivityRow(remarksLayoutRow("A-1", "Formwork", "by others", 40, "m2", 22), 8, REMARKS_LAYOUT);
+
+    expect(activity.activityName).toBe("Formwork");
+    expect(activity.quantity).toBe(40);
+    expect(activity.unit).toBe("m2");
+    expect(activity.rate).toBe(22);
+  });
+});
+
+describe("parseBQTable", () => {
+  it("computes row bounds and marks parents", () => {
+    const table = parseBQTable(SAMPLE_GRID, SAMPLE_DATA_TOP_ROW, DEFAULT_TABLE_LAYOUT);
+
+    expect(table.dataTopRow).toBe(10);
+    expect(table.dataBottomRow).toBe(18);
+    expect(table.activityObjectsArray.filter(item => item.hasChild).map(item => item.itemCode))
+      .toEqual(["A", "A-1", "A-2", "B"]);
+  });
+
+  it("returns an empty table for an empty grid", () => {
+    const table = parseBQTable([], SAMPLE_DATA_TOP_ROW, DEFAULT_TABLE_LAYOUT);
+
+    expect(table.activityObjectsArray).toEqual([]);
+    expect(table.dataBottomRow).toBeLessThan(table.dataTopRow);
+  });
+});
+
+describe("buildNewActivityRow", () => {
+  it("places placeholders in the layout's columns", () => {
+    expect(buildNewActivityRow("A-1-3", DEFAULT_TABLE_LAYOUT)).toEqual(
+      ["A-1-3", "[Insert Activity/Item]", "", "", "", "[qty]", "[unit]", "[rate]", "[insert formula]"]
+    );
+    expect(buildNewActivityRow("A-2", REMARKS_LAYOUT)).toEqual(
+      ["A-2", "[Insert Activity/Item]", "", "", "", "", "[qty]", "[unit]", "[rate]", "[insert formula]"]
+    );
+  });
+});
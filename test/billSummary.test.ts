@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { parseBQTable } from "../src/core/activity";
+import { buildBillSummaryRows, buildSheetCellReference } from "../src/core/billSummary";
+import { DEFAULT_TABLE_LAYOUT } from "../src/core/layout";
+import { SAMPLE_DATA_TOP_ROW, SAMPLE_GRID } from "./fixtures/grids";
+
+const { activityObjectsArray } = parseBQTable(SAMPLE_GRID, SAMPLE_DATA_TOP_ROW, DEFAULT_TABLE_LAYOUT);
+
+describe("buildBillSummaryRows", () => {
+  it("lists each section with a live link to its cost and the grand total", () => {
+    const rows = buildBillSummaryRows(activityObjectsArray, "Bill 1", DEFAULT_TABLE_LAYOUT, 19, false);
+
+    expect(rows.map(row => row.kind)).toEqual(["header", "section", "section", "total"]);
+    expect(rows[1].cells).toEqual([
+      `=HYPERLINK("#'Bill 1'!B10", "A")`,
+      "Substructure",
+      "='Bill 1'!J10",
+    ]);
+    expect(rows[3].cells).toEqual(["", "Grand Total", "='Bill 1'!J19"]);
+  });
+
+  it("adds level 1 items under their section when asked", () => {
+    const rows = buildBillSummaryRows(activityObjectsArray, "Bill", DEFAULT_TABLE_LAYOUT, 19, true);
+
+    expect(rows.map(row => [row.kind, row.cells[1]])).toEqual([
+      ["header", "Description"],
+      ["section", "Substructure"],
+      ["item", "Earthworks"],
+      ["item", "Concrete footing"],
+      ["section", "Preliminaries"],
+      ["item", "Site setup"],
+      ["total", "Grand Total"],
+    ]);
+  });
+});
+
+describe("buildSheetCellReference", () => {
+  it("quotes sheet names", () => {
+    expect(buildSheetCellReference("John's Bill", "J12")).toBe("='John''s Bill'!J12");
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { parseBQTable } from "../src/core/activity";
+import { BQ_EXPORT_SCHEMA_VERSION, buildExportCsvLines, buildExportDocument, buildExportItems } from "../src/core/bqExport";
+import { DEFAULT_TABLE_LAYOUT } from "../src/core/layout";
+import { activityRow } from "./fixtures/grids";
+
+// Cell values as returned by `Range.getValues()`
+const VALUE_GRID = [
+  activityRow("A", "Substructure", 1, "LS", "", 2360),
+  activityRow("A-1", "Earthworks, bulk", 1, "LS", "", 1860),
+  activityRow("A-1-1", "Excavation", 120, "m3", 15.5, 1860),
+  activityRow("A-1-2", "Backfill \"type 1\"", "[qty]", "[unit]", "[rate]", 0),
+  activityRow("B", "Preliminaries", 1, "LS", 500, 500),
+];
+
+const { activityObjectsArray } = parseBQTable(VALUE_GRID, 10, DEFAULT_TABLE_LAYOUT);
+
+describe("buildExportItems", () => {
+  it("adds levels and parent codes and drops placeholders", () => {
+    const items = buildExportItems(activityObjectsArray);
+
+    expect(items[1]).toEqual({
+      code: "A-1", description: "Earthworks, bulk", level: 1, parentCode: "A",
+      quantity: 1, unit: "LS", rate: null, cost: 1860, hasChild: true,
+    });
+    expect(items[3]).toMatchObject({ parentCode: "A-1", quantity: null, unit: "", rate: null, cost: 0, hasChild: false });
+    expect(items[4]).toMatchObject({ parentCode: "", rate: 500, hasChild: false });
+  });
+
+  it("refuses tables with orphaned rows", () => {
+    const orphaned = parseBQTable([activityRow("A", "Sub"), activityRow("B-1", "Stray")], 10, DEFAULT_TABLE_LAYOUT);
+    expect(() => buildExportItems(orphaned.activityObjectsArray)).toThrow("Export not written - B-1 (row 11)");
+  });
+});
+
+describe("buildExportCsvLines", () => {
+  it("writes a header and quotes text with commas or quotes", () => {
+    expect(buildExportCsvLines(buildExportItems(activityObjectsArray))).toEqual([
+      "code,description,level,parentCode,quantity,unit,rate,cost,hasChild",
+      "A,Substructure,0,,1,LS,,2360,true",
+      "A-1,\"Earthworks, bulk\",1,A,1,LS,,1860,true",
+      "A-1-1,Excavation,2,A-1,120,m3,15.5,1860,false",
+      "A-1-2,\"Backfill \"\"type 1\"\"\",2,A-1,,,,0,false",
+      "B,Preliminaries,0,,1,LS,500,500,false",
+    ]);
+  });
+});
+
+describe("buildExportDocument", () => {
+  it("nests items under their parents with the schema version", () => {
+    const exported = buildExportDocument(buildExportItems(activityObjectsArray), "Bill 1", "2026-01-01T00:00:00.000Z");
+
+    expect(exported.schemaVersion).toBe(BQ_EXPORT_SCHEMA_VERSION);
+    expect(exported.items.map(item => item.code)).toEqual(["A", "B"]);
+    expect(exported.items[0].children[0].children.map(item => item.code)).toEqual(["A-1-1", "A-1-2"]);
+    expect(exported.items[1].children).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { parseBQTable } from "../src/core/activity";
+import { buildExportCsvLines, buildExportDocument, buildExportItems } from "../src/core/bqExport";
+import { assertValidImportItems, buildImportRows, parseImportGrid } from "../src/core/bqImport";
+import { DEFAULT_TABLE_LAYOUT } from "../src/core/layout";
+import { activityRow } from "./fixtures/grids";
+
+const EXPORTED_ITEMS = buildExportItems(parseBQTable([
+  activityRow("A", "Substructure", 1, "LS", "", 1860),
+  activityRow("A-1", "Excavation, bulk", 120, "m3", 15.5, 1860),
+  activityRow("B", "Preliminaries", "[qty]", "[unit]", "[rate]", 0),
+], 10, DEFAULT_TABLE_LAYOUT).activityObjectsArray);
+
+describe("parseImportGrid", () => {
+  it("reads a table by its header names", () => {
+    const items = parseImportGrid([
+      ["Unit", "Item", "Description", "Qty"],
+      ["", "a", "Substructure", ""],
+      ["", "", "", ""],
+      ["m3", "A-1", "Excavation", 120],
+    ]);
+
+    expect(items).toEqual([
+      { code: "A", description: "Substructure", quantity: "", unit: "", rate: "" },
+      { code: "A-1", description: "Excavation", quantity: 120, unit: "m3", rate: "" },
+    ]);
+  });
+
+  it("treats columns A and B as code and description without a header", () => {
+    expect(parseImportGrid([["A", "Substructure"], ["A-1", "Excavation"]]).map(item => [item.code, item.description]))
+      .toEqual([["A", "Substructure"], ["A-1", "Excavation"]]);
+  });
+
+  it("reads the CSV from Export BQ pasted into column A", () => {
+    const items = parseImportGrid(buildExportCsvLines(EXPORTED_ITEMS).map(line => [line, ""]));
+
+    expect(items[1]).toEqual({ code: "A-1", description: "Excavation, bulk", quantity: 120, unit: "m3", rate: 15.5 });
+    expect(items[2]).toEqual({ code: "B", description: "Preliminaries", quantity: "", unit: "", rate: "" });
+  });
+
+  it("reads the JSON from Export BQ, one line per cell", () => {
+    const json = JSON.stringify(buildExportDocument(EXPORTED_ITEMS, "Bill", "2026-01-01T00:00:00.000Z"), null, 2);
+    const items = parseImportGrid(json.split("\n").map(line => [line]));
+
+    expect(items.map(item => item.code)).toEqual(["A", "A-1", "B"]);
+    expect(items[1].rate).toBe(15.5);
+    expect(items[0].rate).toBe("");
+  });
+
+  it("rejects JSON from a newer schema", () => {
+    expect(() => parseImportGrid([['{ "schemaVersion": 99, "items": [] }']])).toThrow("schema version 1 or earlier");
+  });
+});
+
+describe("assertValidImportItems", () => {
+  const item = (code: string) => ({ code, description: "", quantity: "", unit: "", rate: "" });
+
+  it("lists every bad code", () => {
+    expect(() => assertValidImportItems([item("A"), item("A-x"), item("A"), item("B-1"), item("")]))
+      .toThrow('Import not written - "A-x" is not a valid item code; A appears more than once; B-1 has no parent B directly above it; item 5 has no code.');
+  });
+
+  it("accepts a well-formed list", () => {
+    expect(() => assertValidImportItems([item("A"), item("A-1"), item("A-1-1"), item("B")])).not.toThrow();
+  });
+});
+
+describe("buildImportRows", () => {
+  it("fills given values and keeps placeholders for the rest", () => {
+    expect(buildImportRows([{ code: "A-1", description: "Excavation", quantity: 120, unit: "", rate: "" }], DEFAULT_TABLE_LAYOUT))
+      .toEqual([["A-1", "Excavation", "", "", "", 120, "[unit]", "[rate]", "[insert formula]"]]);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Fixture grids shaped like `Range.getFormulas()` for columns B to J.
+ */
+
+import type { CellFormula } from "../../src/core/activity";
+import { DEFAULT_TABLE_LAYOUT, TableLayout } from "../../src/core/layout";
+
+/** Builds one B:J row; columns D to F are the merged description cells. */
+export function activityRow(
+  itemCode: string,
+  activityName: string,
+  quantity: CellFormula = "",
+  unit: CellFormula = "",
+  rate: CellFormula = "",
+  cost: CellFormula = ""
+): CellFormula[] {
+  return [itemCode, activityName, "", "", "", quantity, unit, rate, cost];
+}
+
+/** First data row of the sample table (header on row 9). */
+export const SAMPLE_DATA_TOP_ROW = 10;
+
+/**
+ * Two sections: a lump sum parent (A-1), a parent that keeps its own
+ * quantity and unit (A-2), and leaves with missing or broken values.
+ */
+export const SAMPLE_GRID: CellFormula[][] = [
+  activityRow("A", "Substructure", 1, "LS", "", "=SUM(J11,J14)"),            // 10
+  activityRow("A-1", "Earthworks", 1, "LS", "", "=SUM(J12,J13)"),           // 11
+  activityRow("A-1-1", "Excavation", 120, "m3", 15.5),                      // 12
+  activityRow("A-1-2", "Backfill"),                                         // 13
+  activityRow("A-2", "Concrete footing", 10, "m3"),                         // 14
+  activityRow("A-2-1", "Cement", 5, "t", 100),                              // 15
+  activityRow("A-2-2", "Aggregate", 8, "t", "#REF!"),                       // 16
+  activityRow("B", "Preliminaries", 1, "LS"),                               // 17
+  activityRow("B-1", "Site setup", "[qty]", "[unit]", "[rate]"),            // 18
+];
+
+/**
+ * Company template with a Remarks column (G) after the description and
+ * the priced columns shifted one to the right (H:K).
+ */
+export const REMARKS_LAYOUT: TableLayout = {
+  ...DEFAULT_TABLE_LAYOUT,
+  headerRow: 6,
+  quantityColumn: "H",
+  unitColumn: "I",
+  rateColumn: "J",
+  costColumn: "K",
+};
+
+/** Builds one B:K row for `REMARKS_LAYOUT`. */
+export function remarksLayoutRow(
+  itemCode: string,
+  activityName: string,
+  remarks: string,
+  quantity: CellFormula = "",
+  unit: CellFormula = "",
+  rate: CellFormula = "",
+  cost: CellFormula = ""
+): CellFormula[] {
+  return [itemCode, activityName, "", "", "", remarks, quantity, unit, rate, cost];
+}
+
+/** A template library sheet (header row first) with one two-level template. */
+export const TEMPLATE_LIBRARY_GRID: CellFormula[][] = [
+  ["Template", "Level", "Description", "Unit", "Rate"],
+  ["Reinforced concrete footing", 1, "Excavation", "m3", 12],
+  ["", 1, "Blinding", "m2", ""],
+  ["", 1, "Reinforced concrete", "", ""],
+  ["", 2, "Formwork", "m2", 25],
+  ["", 2, "Rebar", "kg", 1.8],
+  ["", 2, "Concrete C25/30", "m3", ""],
+  ["", "", "", "", ""],
+  ["Site clearance", 1, "Clear vegetation", "m2", 0.5],
+];
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { parseBQTable } from "../src/core/activity";
+import { buildGrandTotalFormula, computeActivityRowFormulas, isQtyAndUnitPreserved } from "../src/core/formulas";
+import { DEFAULT_TABLE_LAYOUT } from "../src/core/layout";
+import { REMARKS_LAYOUT, SAMPLE_DATA_TOP_ROW, SAMPLE_GRID, activityRow, remarksLayoutRow } from "./fixtures/grids";
+
+const qtyTimesRate = (row: number) =>
+  `=IFERROR(IF(G${row}="-", "-", G${row}*I${row}), "[pending values]")`;
+
+describe("computeActivityRowFormulas", () => {
+  const { activityObjectsArray } = parseBQTable(SAMPLE_GRID, SAMPLE_DATA_TOP_ROW, DEFAULT_TABLE_LAYOUT);
+  const rows = computeActivityRowFormulas(activityObjectsArray, DEFAULT_TABLE_LAYOUT);
+
+  it("rolls lump sum parents up as a SUM of their immediate children", () => {
+    expect(rows[0]).toEqual([1, "LS", "", "=SUM(J11,J14)"]);
+    expect(rows[1]).toEqual([1, "LS", "", "=SUM(J12,J13)"]);
+    expect(rows[7]).toEqual([1, "LS", "", "=SUM(J18)"]);
+  });
+
+  it("keeps quantity and unit on parents with a real quantity and sums children into the rate", () => {
+    expect(rows[4]).toEqual([10, "m3", "=SUM(J15,J16)", qtyTimesRate(14)]);
+  });
+
+  it("fills placeholders on leaves and prices them as qty * rate", () => {
+    expect(rows[2]).toEqual([120, "m3", 15.5, qtyTimesRate(12)]);
+    expect(rows[3]).toEqual(["[qty]", "[unit]", "[rate]", qtyTimesRate(13)]);
+    expect(rows[6]).toEqual([8, "t", "[rate]", qtyTimesRate(16)]);
+  });
+
+  it("does not modify the input activities", () => {
+    expect(activityObjectsArray[3].quantity).toBe("");
+  });
+
+  it("refuses to compute formulas when a row's parent is missing", () => {
+    const broken = parseBQTable([activityRow("A", "Substructure"), activityRow("A-2-1", "Cement")], SAMPLE_DATA_TOP_ROW, DEFAULT_TABLE_LAYOUT);
+
+    expect(() => computeActivityRowFormulas(broken.activityObjectsArray, DEFAULT_TABLE_LAYOUT))
+      .toThrow("A-2-1 (row 11) has no parent A-2 directly above it");
+  });
+});
+
+describe("computeActivityRowFormulas with a custom layout", () => {
+  it("references the configured quantity, rate and cost columns", () => {
+    const { activityObjectsArray } = parseBQTable([
+      remarksLayoutRow("A", "Structure", ""),
+      remarksLayoutRow("A-1", "Formwork", "by others", 40, "m2", 22),
+    ], 7, REMARKS_LAYOUT);
+
+    expect(computeActivityRowFormulas(activityObjectsArray, REMARKS_LAYOUT)).toEqual([
+      ["", "", "=SUM(K8)", `=IFERROR(IF(H7="-", "-", H7*J7), "[pending values]")`],
+      [40, "m2", 22, `=IFERROR(IF(H8="-", "-", H8*J8), "[pending values]")`],
+    ]);
+    expect(buildGrandTotalFormula(activityObjectsArray, REMARKS_LAYOUT)).toBe("=SUM(K7)");
+  });
+});
+
+describe("isQtyAndUnitPreserved", () => {
+  it("converts LS, unit quantity and placeholder parents to lump sums", () => {
+    const { activityObjectsArray } = parseBQTable(SAMPLE_GRID, SAMPLE_DATA_TOP_ROW, DEFAULT_TABLE_LAYOUT);
+
+    expect(isQtyAndUnitPreserved(activityObjectsArray[1])).toBe(false);
+    expect(isQtyAndUnitPreserved(activityObjectsArray[4])).toBe(true);
+    expect(isQtyAndUnitPreserved({ ...activityObjectsArray[4], quantity: "[qty]" })).toBe(false);
+  });
+});
+
+describe("buildGrandTotalFormula", () => {
+  it("sums every level-0 section", () => {
+    const { activityObjectsArray } = parseBQTable(SAMPLE_GRID, SAMPLE_DATA_TOP_ROW, DEFAULT_TABLE_LAYOUT);
+
+    expect(buildGrandTotalFormula(activityObjectsArray, DEFAULT_TABLE_LAYOUT)).toBe("=SUM(J10,J17)");
+  });
+});
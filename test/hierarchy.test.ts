@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { parseBQTable } from "../src/core/activity";
+import {
+  assertNoOrphanActivities,
+  buildActivityTree,
+  getHierarchyLevel,
+  getImmediateChildActivities,
+  isImmediateChildCode
+} from "../src/core/hierarchy";
+import { DEFAULT_TABLE_LAYOUT } from "../src/core/layout";
+import { SAMPLE_DATA_TOP_ROW, SAMPLE_GRID, activityRow } from "./fixtures/grids";
+
+describe("getHierarchyLevel", () => {
+  it("counts hyphens", () => {
+    expect(getHierarchyLevel("A")).toBe(0);
+    expect(getHierarchyLevel("A-1")).toBe(1);
+    expect(getHierarchyLevel("A-1-2-3")).toBe(3);
+  });
+});
+
+describe("isImmediateChildCode", () => {
+  it("accepts only codes exactly one level beneath the parent", () => {
+    expect(isImmediateChildCode("A-1", "A-1-2")).toBe(true);
+    expect(isImmediateChildCode("A-1", "A-1-2-1")).toBe(false);
+    expect(isImmediateChildCode("A-1", "A-10")).toBe(false);
+    expect(isImmediateChildCode("A-1", "B-1-1")).toBe(false);
+  });
+});
+
+describe("getImmediateChildActivities", () => {
+  it("returns direct children in worksheet order", () => {
+    const { activityObjectsArray } = parseBQTable(SAMPLE_GRID, SAMPLE_DATA_TOP_ROW, DEFAULT_TABLE_LAYOUT);
+    const sectionA = activityObjectsArray[0];
+
+    expect(getImmediateChildActivities(sectionA, activityObjectsArray).map(item => item.rowNumber))
+      .toEqual([11, 14]);
+  });
+});
+
+describe("buildActivityTree", () => {
+  it("links each row to the nearest row one level up", () => {
+    const tree = buildActivityTree(["A", "A-1", "A-1-1", "A-2", "B", "B-1"]);
+
+    expect(tree.parentIndices).toEqual([-1, 0, 1, 0, -1, 4]);
+    expect(tree.childIndices).toEqual([[1, 3], [2], [], [], [5], []]);
+    expect(tree.orphanIndices).toEqual([]);
+  });
+
+  it("treats a child whose parent is missing or out of order as an orphan", () => {
+    const tree = buildActivityTree(["A", "A-1", "B", "A-1-1", "B-2-1", "C-1"]);
+
+    expect(tree.orphanIndices).toEqual([3, 4, 5]);
+    expect(tree.childIndices[1]).toEqual([]);
+  });
+});
+
+describe("orphaned rows", () => {
+  const { activityObjectsArray } = parseBQTable([
+    activityRow("A", "Substructure"),
+    activityRow("A-1", "Earthworks"),
+    activityRow("B", "Superstructure"),
+    activityRow("A-1-1", "Excavation typed under B"),
+  ], SAMPLE_DATA_TOP_ROW, DEFAULT_TABLE_LAYOUT);
+
+  it("are not counted as children of an earlier item with a matching prefix", () => {
+    expect(activityObjectsArray.map(item => item.hasChild)).toEqual([true, false, false, false]);
+    expect(getImmediateChildActivities(activityObjectsArray[1], activityObjectsArray)).toEqual([]);
+  });
+
+  it("make the formula writer refuse to run", () => {
+    const tree = buildActivityTree(activityObjectsArray.map(item => item.itemCode));
+
+    expect(() => assertNoOrphanActivities(activityObjectsArray, tree))
+      .toThrow("Formulas not written - A-1-1 (row 13) has no parent A-1 directly above it.");
+  });
+});
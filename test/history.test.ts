@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { SNAPSHOT_MARKER, SnapshotRecord, buildSnapshotMarkerRow, findLastSnapshot, getSnapshotPlacement } from "../src/core/history";
+
+const record: SnapshotRecord = {
+  markerRow: 1,
+  timestamp: "2026-03-01T10:00:00.000Z",
+  operation: "Reset All Rates",
+  sheetName: "Bill 1",
+  sourceTopRow: 10,
+  rowCount: 4,
+  bodyTopRow: 10,
+};
+
+describe("getSnapshotPlacement", () => {
+  it("never places the copy above its source rows", () => {
+    expect(getSnapshotPlacement(1, 10)).toEqual({ markerRow: 1, bodyTopRow: 10 });
+    expect(getSnapshotPlacement(15, 10)).toEqual({ markerRow: 15, bodyTopRow: 16 });
+  });
+});
+
+describe("findLastSnapshot", () => {
+  it("round-trips the marker row and returns the latest snapshot", () => {
+    const later = { ...record, operation: "Delete Selected Activities", markerRow: 15, bodyTopRow: 16 };
+    const grid = new Array(20).fill(["", "", "", "", "", "", ""]);
+    grid[0] = buildSnapshotMarkerRow(record);
+    grid[14] = buildSnapshotMarkerRow(later);
+
+    expect(grid[0][0]).toBe(SNAPSHOT_MARKER);
+    expect(findLastSnapshot(grid)).toEqual(later);
+    expect(findLastSnapshot(grid.slice(0, 14))).toEqual(record);
+  });
+
+  it("returns undefined when there are no snapshots", () => {
+    expect(findLastSnapshot([["", "", "", "", "", "", ""]])).toBeUndefined();
+  });
+});
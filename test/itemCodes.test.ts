@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import {
+  getLaterSectionLetter,
+  incrementLastItemCodeSegment,
+  incrementSectionLetter,
+  reindexItemCodes,
+  reletterSections
+} from "../src/core/itemCodes";
+
+describe("incrementLastItemCodeSegment", () => {
+  it("increments the final numeric segment", () => {
+    expect(incrementLastItemCodeSegment("A-1-3")).toBe("A-1-4");
+    expect(incrementLastItemCodeSegment("A-9")).toBe("A-10");
+  });
+
+  it("throws on a non-numeric final segment", () => {
+    expect(() => incrementLastItemCodeSegment("A")).toThrow("Invalid numeric segment in code: A");
+  });
+});
+
+describe("reindexItemCodes", () => {
+  it("renumbers each level contiguously and keeps section letters", () => {
+    expect(reindexItemCodes(["A", "A-1", "A-1-1", "A-1-3", "A-2", "A-2-1", "A-3", "A-3-2"]))
+      .toEqual(["A", "A-1", "A-1-1", "A-1-2", "A-2", "A-2-1", "A-3", "A-3-1"]);
+  });
+
+  it("restarts child numbering under each new section", () => {
+    expect(reindexItemCodes(["A", "A-2", "B", "B-4", "B-4-2"]))
+      .toEqual(["A", "A-1", "B", "B-1", "B-1-1"]);
+  });
+});
+
+describe("section letters", () => {
+  it("increments letters and carries past Z", () => {
+    expect(incrementSectionLetter("C")).toBe("D");
+    expect(incrementSectionLetter("Z")).toBe("AA");
+    expect(incrementSectionLetter("AB")).toBe("AC");
+    expect(incrementSectionLetter("AZ")).toBe("BA");
+    expect(incrementSectionLetter("ZZ")).toBe("AAA");
+  });
+
+  it("throws on a non-letter code", () => {
+    expect(() => incrementSectionLetter("A-1")).toThrow("Invalid section letter: A-1");
+  });
+
+  it("orders longer letters after shorter ones", () => {
+    expect(getLaterSectionLetter("Z", "AA")).toBe("AA");
+    expect(getLaterSectionLetter("C", "B")).toBe("C");
+  });
+
+  it("re-letters sections in order and carries descendants along", () => {
+    expect(reletterSections(["A", "A-1", "C", "C-1", "C-1-1", "B"]))
+      .toEqual(["A", "A-1", "B", "B-1", "B-1-1", "C"]);
+  });
+});
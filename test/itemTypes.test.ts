@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { parseBQTable } from "../src/core/activity";
+import { computeActivityRowFormulas } from "../src/core/formulas";
+import { normalizeItemTypeMarker, resolveItemType } from "../src/core/itemTypes";
+import { DEFAULT_TABLE_LAYOUT, TableLayout } from "../src/core/layout";
+import { validateBQTable } from "../src/core/validation";
+import { computeValuationFormulas, getValuationRoles } from "../src/core/valuation";
+import { SAMPLE_DATA_TOP_ROW, activityRow } from "./fixtures/grids";
+
+const ITEM_TYPE_LAYOUT: TableLayout = { ...DEFAULT_TABLE_LAYOUT, itemTypeColumn: "K" };
+
+/** Section A with one leaf of each item type (rows 10 to 16), type marker in column K. */
+const ITEM_TYPE_GRID = [
+  [...activityRow("A", "Preliminaries", 1, "LS"), "PS"],
+  [...activityRow("A-1", "Excavation", 20, "m3", 15), ""],
+  [...activityRow("A-2", "Contingency sum", "", "", 5000), "Provisional Sum"],
+  [...activityRow("A-3", "Lift installation", 10, "Sum", 80000), "PC"],
+  [...activityRow("A-4", "Extra excavation in rock", "", "m3", 45), "RO"],
+  [...activityRow("A-5", "Labourer", 40, "hr", 12), "dw"],
+  [...activityRow("A-6", "Signage", 2, "nr", 30), "XX"],
+];
+
+const { activityObjectsArray } = parseBQTable(ITEM_TYPE_GRID, SAMPLE_DATA_TOP_ROW, ITEM_TYPE_LAYOUT);
+
+describe("resolveItemType", () => {
+  it("accepts short markers and long names in any case", () => {
+    expect(resolveItemType("PS")).toBe("PS");
+    expect(resolveItemType("Provisional Sum")).toBe("PS");
+    expect(resolveItemType("P.C. Sum")).toBe("PC");
+    expect(resolveItemType("rate only")).toBe("RO");
+    expect(resolveItemType("Dayworks")).toBe("DW");
+    expect(resolveItemType("")).toBe("");
+    expect(resolveItemType("Measured")).toBe("");
+  });
+
+  it("returns undefined for unknown markers", () => {
+    expect(resolveItemType("XX")).toBeUndefined();
+  });
+});
+
+describe("normalizeItemTypeMarker", () => {
+  it("rewrites recognised markers in their short form and keeps unknown ones", () => {
+    expect(normalizeItemTypeMarker("Prime Cost")).toBe("PC");
+    expect(normalizeItemTypeMarker("Measured")).toBe("");
+    expect(normalizeItemTypeMarker("XX")).toBe("XX");
+  });
+});
+
+describe("computeActivityRowFormulas with item types", () => {
+  const rows = computeActivityRowFormulas(activityObjectsArray, ITEM_TYPE_LAYOUT);
+
+  it("ignores the item type on parent rows", () => {
+    expect(rows[0]).toEqual([1, "LS", "", "=SUM(J11,J12,J13,J14,J15,J16)"]);
+  });
+
+  it("prices measured and daywork items as qty * rate", () => {
+    expect(rows[1][3]).toBe(`=IFERROR(IF(G11="-", "-", G11*I11), "[pending values]")`);
+    expect(rows[5][3]).toBe(`=IFERROR(IF(G15="-", "-", G15*I15), "[pending values]")`);
+  });
+
+  it("carries a provisional sum's amount to cost with no quantity", () => {
+    expect(rows[2]).toEqual(["", "sum", 5000, `=IFERROR(I12*1, "[pending values]")`]);
+  });
+
+  it("adds the attendance and profit % to a prime cost sum", () => {
+    expect(rows[3]).toEqual([10, "sum", 80000, `=IFERROR(I13*(1+G13/100), "[pending values]")`]);
+  });
+
+  it("keeps rate-only items out of the totals", () => {
+    expect(rows[4]).toEqual(["", "m3", 45, "Rate only"]);
+  });
+
+  it("prices unknown markers as measured items", () => {
+    expect(rows[6][3]).toBe(`=IFERROR(IF(G16="-", "-", G16*I16), "[pending values]")`);
+  });
+});
+
+describe("item types in validation and valuation", () => {
+  it("reports unknown markers and markers on parent rows", () => {
+    const issues = validateBQTable(activityObjectsArray, ITEM_TYPE_LAYOUT)
+      .filter(issue => issue.column === "K");
+
+    expect(issues).toEqual([
+      { severity: "Warning", rowNumber: 10, column: "K", itemCode: "A", message: "Item type ignored on a parent row" },
+      { severity: "Error", rowNumber: 16, column: "K", itemCode: "A-6", message: `Unknown item type "XX" (use PS, PC, RO or DW)` },
+    ]);
+  });
+
+  it("values sums by % complete and leaves rate-only items out of the valuation", () => {
+    expect(getValuationRoles(activityObjectsArray)).toEqual(["rollup", "measured", "sum", "sum", "none", "measured", "measured"]);
+  });
+
+  it("keeps the % complete entered on sums and values them against their cost", () => {
+    // ITEM_TYPE_GRID widened to B:P, with % complete (O) entered on A-2 and left as a measured formula on A-3
+    const layout: TableLayout = { ...ITEM_TYPE_LAYOUT, valuationStartColumn: "L" };
+    const grid = ITEM_TYPE_GRID.map((row, i) => [...row, "", "", "", ...(i === 2 ? [0.25] : i === 3 ? ["=IFERROR(N13/G13, 0)"] : [""]), ""]);
+    const rows = computeValuationFormulas(parseBQTable(grid, SAMPLE_DATA_TOP_ROW, layout).activityObjectsArray, grid, layout);
+
+    expect(rows[2]).toEqual(["", "", "", 0.25, "=IFERROR(O12*J12, 0)"]);
+    expect(rows[3]).toEqual(["", "", "", 0, "=IFERROR(O13*J13, 0)"]);
+    expect(rows[4]).toEqual(["", "", "", "", ""]);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_TABLE_LAYOUT,
+  columnLetterToNumber,
+  columnNumberToLetter,
+  getColumnOffset,
+  getTableColumnSpan,
+  resolveTableLayout
+} from "../src/core/layout";
+
+describe("column letter conversion", () => {
+  it("round-trips single and multi-letter columns", () => {
+    expect(columnLetterToNumber("A")).toBe(1);
+    expect(columnLetterToNumber("j")).toBe(10);
+    expect(columnLetterToNumber("AA")).toBe(27);
+    expect(columnNumberToLetter(10)).toBe("J");
+    expect(columnNumberToLetter(28)).toBe("AB");
+  });
+
+  it("rejects non-letters", () => {
+    expect(() => columnLetterToNumber("B2")).toThrow("Invalid column letter: B2");
+  });
+});
+
+describe("getTableColumnSpan / getColumnOffset", () => {
+  it("spans B to J for the default layout", () => {
+    expect(getTableColumnSpan(DEFAULT_TABLE_LAYOUT)).toEqual({ firstColumn: "B", lastColumn: "J" });
+    expect(getColumnOffset(DEFAULT_TABLE_LAYOUT, "G")).toBe(5);
+  });
+});
+
+describe("resolveTableLayout", () => {
+  it("returns the default layout when nothing is configured", () => {
+    expect(resolveTableLayout([])).toEqual(DEFAULT_TABLE_LAYOUT);
+  });
+
+  it("accepts config sheet labels and BQ_ named ranges, ignoring unknown keys", () => {
+    const layout = resolveTableLayout([
+      ["Header Row", 12],
+      ["Description End Column", "G"],
+      ["Quantity Column", "h"],
+      ["Remarks", "whatever"],
+      ["BQ_UnitColumn", "I"],
+      ["BQ_RateColumn", "J"],
+      ["bq_cost_column", "K"],
+    ]);
+
+    expect(layout).toEqual({
+      headerRow: 12,
+      itemCodeColumn: "B",
+      descriptionStartColumn: "C",
+      descriptionEndColumn: "G",
+      quantityColumn: "H",
+      unitColumn: "I",
+      rateColumn: "J",
+      costColumn: "K",
+      itemTypeColumn: "",
+      rollUpModeColumn: "",
+      valuationStartColumn: "",
+      pricingStartColumn: "",
+      pricingNames: [],
+    });
+  });
+
+  it("lets later settings override earlier ones", () => {
+    expect(resolveTableLayout([["Header Row", 12], ["BQ_HeaderRow", 4]]).headerRow).toBe(4);
+  });
+
+  it("rejects invalid values and overlapping columns", () => {
+    expect(() => resolveTableLayout([["Header Row", "nine"]])).toThrow("is not a row number");
+    expect(() => resolveTableLayout([["Cost Column", "J1"]])).toThrow("is not a column letter");
+    expect(() => resolveTableLayout([["Cost Column", "I"]])).toThrow("column I is assigned more than once");
+    expect(() => resolveTableLayout([["Quantity Column", "D"]])).toThrow("column D is assigned more than once");
+    expect(() => resolveTableLayout([["Description End Column", "A"]])).toThrow("are reversed");
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_TABLE_LAYOUT } from "../src/core/layout";
+import {
+  LinkedBlockSheet,
+  buildLinkedBlock,
+  buildLinkedBlockFormula,
+  findLinkedBlock,
+  findLinkedBlockByTotalRow,
+  getLinkedBlockTotalRow,
+  isLinkedBlockFormula
+} from "../src/core/linkedBlocks";
+import { BUILD_UP_BLOCKS } from "../src/core/rateAnalysis";
+import { TAKE_OFF_BLOCKS } from "../src/core/takeOff";
+
+describe.each<[string, LinkedBlockSheet, string]>([
+  ["take-off", TAKE_OFF_BLOCKS, "='Take-off'!$G$10"],
+  ["rate build-up", BUILD_UP_BLOCKS, "='Rate Analysis'!$F$10"],
+])("%s blocks", (_, blockSheet, link) => {
+  const otherSheet = blockSheet === TAKE_OFF_BLOCKS ? BUILD_UP_BLOCKS : TAKE_OFF_BLOCKS;
+
+  it("recognises links to the sheet's block totals", () => {
+    expect(buildLinkedBlockFormula(blockSheet, 10)).toBe(link);
+    expect(isLinkedBlockFormula(blockSheet, link)).toBe(true);
+    expect(isLinkedBlockFormula(blockSheet, buildLinkedBlockFormula(otherSheet, 10))).toBe(false);
+    expect(isLinkedBlockFormula(blockSheet, "=BQ_Rates!$D$2")).toBe(false);
+    expect(isLinkedBlockFormula(blockSheet, 120)).toBe(false);
+    expect(getLinkedBlockTotalRow(blockSheet, link)).toBe(10);
+    expect(getLinkedBlockTotalRow(blockSheet, `='${blockSheet.sheetName}'!#REF!`)).toBeUndefined();
+  });
+
+  it("links the header to the BQ row and ends on the total row", () => {
+    const { formulas, block } = buildLinkedBlock(blockSheet, 3, "Bill 1", 14, DEFAULT_TABLE_LAYOUT);
+    const totalColumnOffset = blockSheet.totalColumn.charCodeAt(0) - "A".charCodeAt(0);
+
+    expect(block).toEqual({ headerRow: 3, totalRow: 3 + formulas.length - 1 });
+    expect(formulas[0].slice(0, 3)).toEqual(["Item", "='Bill 1'!$B$14", "='Bill 1'!$C$14"]);
+    expect(formulas[0][totalColumnOffset]).toBe("='Bill 1'!$H$14");
+    expect(formulas[formulas.length - 1][0]).toBe(blockSheet.totalLabel);
+    formulas.forEach(row => expect(row).toHaveLength(totalColumnOffset + 1));
+  });
+
+  it("finds a block by item code or by its linked total row", () => {
+    const grid = [
+      ["Item", "A-1-1"], ["", ""], [1, 4], [blockSheet.totalLabel, ""],
+      ["", ""],
+      ["Item", "A-1-2"], ["", ""], [1, 2], [2, 3], [blockSheet.totalLabel, ""],
+    ];
+
+    expect(findLinkedBlock(blockSheet, grid, "A-1-2")).toEqual({ headerRow: 6, totalRow: 10 });
+    expect(findLinkedBlock(blockSheet, grid, "B-1")).toBeUndefined();
+    expect(findLinkedBlockByTotalRow(blockSheet, grid, 4)).toEqual({ headerRow: 1, totalRow: 4 });
+    expect(findLinkedBlockByTotalRow(blockSheet, grid, 3)).toBeUndefined();
+    expect(findLinkedBlock(otherSheet, grid, "A-1-2")).toBeUndefined();
+  });
+});
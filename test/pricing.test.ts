@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { CellFormula, parseBQTable } from "../src/core/activity";
+import { DEFAULT_TABLE_LAYOUT, TableLayout, getPricingColumns, resolveTableLayout } from "../src/core/layout";
+import { buildLowestBidFormula, buildPricingTotalFormula, buildTenderComparisonRows, computePricingFormulas } from "../src/core/pricing";
+import { SAMPLE_DATA_TOP_ROW, SAMPLE_GRID } from "./fixtures/grids";
+
+const PRICING_LAYOUT: TableLayout = { ...DEFAULT_TABLE_LAYOUT, pricingStartColumn: "L", pricingNames: ["Estimate", "Bidder 1"] };
+
+// SAMPLE_GRID widened to B:O; Estimate rates in L, Bidder 1 rates in N
+const PRICING_GRID: CellFormula[][] = SAMPLE_GRID.map((row, i) => [...row, "", i === 2 ? 14 : "", "", i === 2 ? 16 : "", ""]);
+
+const { activityObjectsArray } = parseBQTable(PRICING_GRID, SAMPLE_DATA_TOP_ROW, PRICING_LAYOUT);
+
+describe("pricing layout", () => {
+  it("places rate/cost pairs side by side from the start column", () => {
+    expect(getPricingColumns(PRICING_LAYOUT)).toEqual([
+      { name: "Estimate", rateColumn: "L", costColumn: "M" },
+      { name: "Bidder 1", rateColumn: "N", costColumn: "O" },
+    ]);
+  });
+
+  it("reads the names from settings and needs a start column", () => {
+    expect(resolveTableLayout([["Pricing Names", "Estimate; Bidder 1, "], ["Pricing Start Column", "l"]]).pricingNames)
+      .toEqual(["Estimate", "Bidder 1"]);
+    expect(() => resolveTableLayout([["Pricing Names", "Estimate"]])).toThrow('set "Pricing Start Column"');
+    expect(() => resolveTableLayout([["Pricing Names", "A, B"], ["Pricing Start Column", "I"]])).toThrow("column I is assigned more than once");
+  });
+});
+
+describe("computePricingFormulas", () => {
+  const bidder = getPricingColumns(PRICING_LAYOUT)[1];
+  const rows = computePricingFormulas(activityObjectsArray, PRICING_GRID, PRICING_LAYOUT, bidder);
+
+  it("rolls each pair up like the main cost column", () => {
+    expect(rows[0]).toEqual(["", "=SUM(O11,O14)"]);                                              // A (lump sum)
+    expect(rows[2]).toEqual([16, '=IFERROR(IF(G12="-", "-", G12*N12), "[pending values]")']);     // A-1-1
+    expect(rows[3][0]).toBe("[rate]");                                                           // A-1-2 unpriced
+    expect(rows[4]).toEqual(["=SUM(O15,O16)", '=IFERROR(IF(G14="-", "-", G14*N14), "[pending values]")']); // A-2 keeps qty
+    expect(buildPricingTotalFormula(activityObjectsArray, PRICING_LAYOUT, bidder)).toBe("=SUM(O10,O17)");
+  });
+});
+
+describe("buildLowestBidFormula", () => {
+  it("compares the row against every pricing cost column", () => {
+    expect(buildLowestBidFormula(PRICING_LAYOUT, "O", 10)).toBe("=AND(ISNUMBER($O10), $O10=MIN($M10,$O10))");
+  });
+});
+
+describe("buildTenderComparisonRows", () => {
+  it("links each section's totals and picks the lowest bid", () => {
+    const rows = buildTenderComparisonRows(activityObjectsArray, "Bill", PRICING_LAYOUT, 19);
+
+    expect(rows[0]).toEqual(["Section", "Description", "Estimate", "Bidder 1", "Lowest", "Lowest Bid"]);
+    expect(rows[1]).toEqual([
+      "A", "Substructure", "='Bill'!M10", "='Bill'!O10", "=MIN(C2:D2)",
+      '=IFERROR(INDEX($C$1:$D$1, MATCH(E2, C2:D2, 0)), "")',
+    ]);
+    expect(rows[3].slice(0, 4)).toEqual(["", "Grand Total", "='Bill'!M19", "='Bill'!O19"]);
+  });
+});
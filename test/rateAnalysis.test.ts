@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { getLeafRate } from "../src/core/formulas";
+import { DEFAULT_TABLE_LAYOUT } from "../src/core/layout";
+import { buildLinkedBlock } from "../src/core/linkedBlocks";
+import { BUILD_UP_BLOCKS, isBuildUpRateFormula } from "../src/core/rateAnalysis";
+
+describe("build-up links", () => {
+  it("recognises rates linked to the Rate Analysis sheet", () => {
+    expect(isBuildUpRateFormula("='Rate Analysis'!$F$12")).toBe(true);
+    expect(isBuildUpRateFormula("=BQ_Rates!$D$2")).toBe(false);
+  });
+
+  it("keeps linked rates on leaves and reverts broken links to the placeholder", () => {
+    expect(getLeafRate("='Rate Analysis'!$F$12")).toBe("='Rate Analysis'!$F$12");
+    expect(getLeafRate("='Rate Analysis'!#REF!")).toBe("[rate]");
+    expect(getLeafRate("#REF!")).toBe("[rate]");
+    expect(getLeafRate(15.5)).toBe(15.5);
+  });
+});
+
+describe("build-up blocks", () => {
+  const { formulas, block } = buildLinkedBlock(BUILD_UP_BLOCKS, 3, "Bill 1", 14, DEFAULT_TABLE_LAYOUT);
+
+  it("totals the resources with overhead and profit", () => {
+    expect(block).toEqual({ headerRow: 3, totalRow: 12 });
+    expect(formulas).toHaveLength(10);
+    expect(formulas[0]).toEqual(["Item", "='Bill 1'!$B$14", "='Bill 1'!$C$14", "", "Unit", "='Bill 1'!$H$14"]);
+    expect(formulas[2]).toEqual(["Labour", "", "", 0, 0, "=D5*E5"]);
+    expect(formulas[6][5]).toBe("=SUM(F5:F8)");
+    expect(formulas[8][5]).toBe("=(F9+F10)*E11");
+    expect(formulas[9]).toEqual(["Rate", "", "", "", "", "=F9+F10+F11"]);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { CellFormula, parseBQTable } from "../src/core/activity";
+import { DEFAULT_TABLE_LAYOUT } from "../src/core/layout";
+import {
+  buildRateLookupFormula,
+  findRateMatch,
+  getDescriptionSimilarity,
+  parseRateLibrary,
+  planRateFill,
+  resolveRateFillOptions
+} from "../src/core/rateLibrary";
+import { SAMPLE_DATA_TOP_ROW, SAMPLE_GRID } from "./fixtures/grids";
+
+const LIBRARY_GRID: CellFormula[][] = [
+  ["Code", "Description", "Unit", "Rate", "Source", "Date"],
+  ["EW-01", "Backfill with selected material", "m3", 9.5, "Supplier A", "2026-01-10"],
+  ["CN-01", "Cement", "t", 180, "Supplier B", "2026-02-01"],
+  ["CN-02", "Aggregate 20mm", "t", 42, "Quarry", "2026-02-01"],
+  ["", "", "", "", "", ""],
+  ["PR-01", "Site setup and establishment", "LS", 2500, "", ""],
+];
+
+const library = parseRateLibrary(LIBRARY_GRID);
+const { activityObjectsArray } = parseBQTable(SAMPLE_GRID, SAMPLE_DATA_TOP_ROW, DEFAULT_TABLE_LAYOUT);
+
+describe("parseRateLibrary", () => {
+  it("reads entries below the header and skips blank rows", () => {
+    expect(library.map(entry => [entry.rowNumber, entry.code, entry.rate])).toEqual([[2, "EW-01", 9.5], [3, "CN-01", 180], [4, "CN-02", 42], [6, "PR-01", 2500]]);
+  });
+
+  it("numbers rows and columns from where the table starts on the sheet", () => {
+    const [entry] = parseRateLibrary(LIBRARY_GRID.slice(0, 2), 3, "b");
+
+    expect([entry.rowNumber, entry.codeColumn, entry.rateColumn]).toEqual([4, "B", "E"]);
+    expect(buildRateLookupFormula(entry, "BQ_Rates")).toBe(`=INDEX('BQ_Rates'!$E:$E, MATCH("EW-01", 'BQ_Rates'!$B:$B, 0))`);
+    expect(buildRateLookupFormula({ ...entry, code: "" }, "BQ_Rates")).toBe("='BQ_Rates'!$E$4");
+  });
+
+  it("rejects non-numeric rates", () => {
+    expect(() => parseRateLibrary([["Code"], ["X", "Thing", "m", "tbc"]])).toThrow('Invalid rate library row 2: rate "tbc" is not a number');
+  });
+});
+
+describe("getDescriptionSimilarity", () => {
+  it("ignores case, punctuation and word order", () => {
+    expect(getDescriptionSimilarity("Aggregate, 20mm", "20MM aggregate")).toBe(1);
+    expect(getDescriptionSimilarity("Aggregate", "Aggregate 20mm")).toBeCloseTo(2 / 3);
+    expect(getDescriptionSimilarity("Cement", "Aggregate")).toBe(0);
+  });
+});
+
+describe("planRateFill", () => {
+  it("fills only placeholder rates on leaves, by description and unit", () => {
+    // Leaves: A-1-1 (typed 15.5), A-1-2 (blank, no unit), A-2-1 (typed), A-2-2 (#REF!, t), B-1 ([rate], [unit])
+    const options = resolveRateFillOptions([["Rate Match Threshold", 0.5]]);
+    const { fills, unmatchedIndices } = planRateFill(activityObjectsArray, [], library, options, "BQ_Rates");
+
+    expect(fills.map(fill => [fill.index, fill.rate, fill.method])).toEqual([[6, 42, "description"]]);
+    expect(unmatchedIndices).toEqual([3, 8]);
+  });
+
+  it("matches on the reference column and writes lookup formulas", () => {
+    const options = resolveRateFillOptions([["Rate Reference Column", "l"], ["Rate Fill Mode", "Formula"]]);
+    const references = ["", "", "", "EW-01", "", "", "", "", "XX-99"];
+    const { fills, unmatchedIndices } = planRateFill(activityObjectsArray, references, library, options, "BQ_Rates");
+
+    expect(options.referenceColumn).toBe("L");
+    expect(fills.map(fill => [fill.index, fill.method])).toEqual([[3, "reference"], [6, "description"]]);
+    expect(fills[0].rate).toBe(`=INDEX('BQ_Rates'!$D:$D, MATCH("EW-01", 'BQ_Rates'!$A:$A, 0))`);
+    expect(unmatchedIndices).toEqual([8]);
+  });
+
+  it("treats a rate formula with a broken reference as a placeholder", () => {
+    const activities = activityObjectsArray.map((activity, i) => (i === 5 ? { ...activity, rate: "=#REF!*1.1" } : activity));
+    const options = resolveRateFillOptions([["Rate Match Threshold", 0.5]]);
+
+    expect(planRateFill(activities, [], library, options, "BQ_Rates").fills.map(fill => [fill.index, fill.rate])).toEqual([[5, 180], [6, 42]]);
+  });
+
+  it("matches units in their catalogue form", () => {
+    const match = findRateMatch({ ...activityObjectsArray[6], unit: "Tonnes" }, "", library, 0.5);
+    expect(match?.entry.code).toBe("CN-02");
+  });
+
+  it("overwrites typed rates only when asked", () => {
+    const options = resolveRateFillOptions([["Rate Overwrite", "Yes"], ["Rate Match Threshold", 0.5]]);
+    const { fills } = planRateFill(activityObjectsArray, [], library, options, "BQ_Rates");
+
+    expect(fills.map(fill => [fill.index, fill.rate])).toEqual([[5, 180], [6, 42]]);
+    expect(() => resolveRateFillOptions([["Rate Fill Mode", "Link"]])).toThrow('Invalid setting "Rate Fill Mode"');
+  });
+});
+
+describe("buildRateLookupFormula", () => {
+  it("references the cell directly when the entry has no code", () => {
+    expect(buildRateLookupFormula({ ...library[0], code: "" }, "BQ_Rates")).toBe("='BQ_Rates'!$D$2");
+  });
+});
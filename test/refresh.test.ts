@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_TABLE_LAYOUT } from "../src/core/layout";
+import { MAX_COLUMN_RUNS, getChangedColumnRuns, getColumnFormulas, getRefreshIndices, isSameCellFormula } from "../src/core/refresh";
+
+const CODES = ["A", "A-1", "A-1-1", "A-1-2", "A-1-2-1", "A-1-3", "A-2", "A-2-1", "B", "B-1"];
+
+describe("refresh indices", () => {
+  it("covers a touched row's subtree and its ancestors", () => {
+    expect(getRefreshIndices(CODES, [3])).toEqual([0, 1, 3, 4]);
+    expect(getRefreshIndices(CODES, [6])).toEqual([0, 6, 7]);
+  });
+
+  it("merges several touched rows without repeating shared ancestors", () => {
+    expect(getRefreshIndices(CODES, [2, 5])).toEqual([0, 1, 2, 5]);
+    expect(getRefreshIndices(CODES, [5, 6])).toEqual([0, 1, 5, 6, 7]);
+  });
+
+  it("ignores indices outside the table", () => {
+    expect(getRefreshIndices(CODES, [-1, 9, 10])).toEqual([8, 9]);
+    expect(getRefreshIndices(CODES, [])).toEqual([]);
+  });
+});
+
+describe("changed column runs", () => {
+  it("treats numbers read back from the sheet as equal to their text", () => {
+    expect(isSameCellFormula(1, "1")).toBe(true);
+    expect(isSameCellFormula("=SUM(J11:J12)", "=SUM(J11:J12)")).toBe(true);
+    expect(isSameCellFormula("=SUM(J11:J12)", "=SUM(J11:J13)")).toBe(false);
+    expect(isSameCellFormula("", 0)).toBe(false);
+  });
+
+  it("groups changed cells into runs of consecutive rows", () => {
+    const current = ["=A", 1, "m", "=B", "=C", ""];
+    const next = ["=A", 2, "m2", "=B", "=D", "LS"];
+
+    expect(getChangedColumnRuns(current, next)).toEqual([
+      { startIndex: 1, formulas: [2, "m2"] },
+      { startIndex: 4, formulas: ["=D", "LS"] },
+    ]);
+  });
+
+  it("only considers the given rows", () => {
+    const current = ["", "", "", ""];
+    const next = ["a", "b", "c", "d"];
+
+    expect(getChangedColumnRuns(current, next, [0, 2, 3])).toEqual([
+      { startIndex: 0, formulas: ["a"] },
+      { startIndex: 2, formulas: ["c", "d"] },
+    ]);
+  });
+
+  it("merges the runs into one span when there are too many", () => {
+    // Every other row changes, giving one run per changed row
+    const rowCount = 2 * (MAX_COLUMN_RUNS + 2);
+    const current = Array.from({ length: rowCount }, (_, i) => `=OLD${i}`);
+    const next = current.map((formula, i) => (i % 2 === 1 ? `=NEW${i}` : formula));
+
+    expect(getChangedColumnRuns(current, next, [0, 1, 2, 3, 4, 5, 6, 7, 8, 9])).toHaveLength(5);
+
+    const runs = getChangedColumnRuns(current, next);
+    expect(runs).toEqual([{ startIndex: 1, formulas: next.slice(1) }]);
+
+    // Rows that are not considered keep what was read from the sheet
+    const considered = next.map((_, i) => i).filter(i => i !== 3);
+    const [run] = getChangedColumnRuns(current, next, considered);
+    expect(run.formulas[2]).toBe("=OLD3");
+    expect(run.formulas[4]).toBe("=NEW5");
+  });
+
+  it("returns no runs when nothing changed", () => {
+    expect(getChangedColumnRuns([1, "=X"], [1, "=X"])).toEqual([]);
+  });
+
+  it("extracts one column from rows read across the table", () => {
+    const row = (tag: string) => ["B", "C", "D", "E", "F", "G", "H"].map(column => `${tag}${column}`);
+
+    expect(getColumnFormulas([row("9"), row("10")], DEFAULT_TABLE_LAYOUT, "G")).toEqual(["9G", "10G"]);
+  });
+});
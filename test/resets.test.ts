@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { parseBQTable } from "../src/core/activity";
+import { DEFAULT_TABLE_LAYOUT } from "../src/core/layout";
+import { describeResetScope, getResetIndices, resolveResetOptions } from "../src/core/resets";
+import { SAMPLE_DATA_TOP_ROW, SAMPLE_GRID } from "./fixtures/grids";
+
+// Leaves in SAMPLE_GRID: A-1-1 (2), A-1-2 (3), A-2-1 (5), A-2-2 (6), B-1 (8)
+const { activityObjectsArray } = parseBQTable(SAMPLE_GRID, SAMPLE_DATA_TOP_ROW, DEFAULT_TABLE_LAYOUT);
+
+describe("resolveResetOptions", () => {
+  it("defaults to resetting the whole table without a preview", () => {
+    expect(resolveResetOptions([])).toEqual({ scope: "all", sections: [], units: [], descriptionFilter: "", preview: false, clearLinkedQuantities: false });
+  });
+
+  it("parses lists and rejects scopes with nothing to match", () => {
+    const options = resolveResetOptions([["Reset Scope", "Sections"], ["Reset Sections", "a; C"], ["Reset Preview", "yes"]]);
+
+    expect(options.sections).toEqual(["A", "C"]);
+    expect(options.preview).toBe(true);
+    expect(() => resolveResetOptions([["Reset Scope", "Filter"]])).toThrow("neither");
+    expect(() => resolveResetOptions([["Reset Scope", "Everything"]])).toThrow('Invalid setting "Reset Scope"');
+  });
+});
+
+describe("getResetIndices", () => {
+  it("resets every leaf by default", () => {
+    expect(getResetIndices(activityObjectsArray, resolveResetOptions([]), "rate")).toEqual([2, 3, 5, 6, 8]);
+  });
+
+  it("limits the reset to the selected subtrees", () => {
+    const options = resolveResetOptions([["Reset Scope", "Selection"]]);
+
+    expect(getResetIndices(activityObjectsArray, options, "quantity", { startIndex: 4, endIndex: 4 })).toEqual([5, 6]);
+    expect(() => getResetIndices(activityObjectsArray, options, "rate")).toThrow("selection is not within the table");
+  });
+
+  it("limits the reset to listed sections", () => {
+    const options = resolveResetOptions([["Reset Scope", "Sections"], ["Reset Sections", "B"]]);
+
+    expect(getResetIndices(activityObjectsArray, options, "rate")).toEqual([8]);
+    expect(describeResetScope(options)).toBe("sections B");
+  });
+
+  it("limits the reset to leaves matching the unit and description filters", () => {
+    const options = resolveResetOptions([["Reset Scope", "Filter"], ["Reset Unit Filter", "T"], ["Reset Description Filter", "agg"]]);
+
+    expect(getResetIndices(activityObjectsArray, options, "rate")).toEqual([6]);
+    expect(describeResetScope(options)).toBe('unit t and description containing "agg"');
+  });
+
+  it("compares the unit filter in catalogue form", () => {
+    const options = resolveResetOptions([["Reset Scope", "Filter"], ["Reset Unit Filter", "Tonnes"]]);
+    const metric = activityObjectsArray.map(activity => activity.itemCode === "A-2-2" ? { ...activity, unit: "tonne" } : activity);
+
+    expect(getResetIndices(metric, options, "rate")).toEqual([5, 6]);
+  });
+});
+
+describe("getResetIndices with item types", () => {
+  const typed = activityObjectsArray.map(activity => {
+    const itemTypes: Record<string, string> = { "A-1-1": "PS", "A-1-2": "Prime Cost", "A-2-1": "RO", "A-2-2": "DW" };
+    return { ...activity, itemType: itemTypes[activity.itemCode] || "" };
+  });
+
+  it("keeps the amounts of provisional and prime cost sums", () => {
+    expect(getResetIndices(typed, resolveResetOptions([]), "rate")).toEqual([5, 6, 8]);
+  });
+
+  it("keeps the quantity cells of sums and skips rate-only items", () => {
+    expect(getResetIndices(typed, resolveResetOptions([]), "quantity")).toEqual([6, 8]);
+  });
+});
+
+describe("getResetIndices with build-up rates", () => {
+  it("never resets a rate linked to the Rate Analysis sheet", () => {
+    const linked = activityObjectsArray.map(activity => activity.itemCode === "A-1-1"
+      ? { ...activity, rate: "='Rate Analysis'!$F$12" }
+      : activity);
+
+    expect(getResetIndices(linked, resolveResetOptions([]), "rate")).toEqual([3, 5, 6, 8]);
+    expect(getResetIndices(linked, resolveResetOptions([]), "quantity")).toEqual([2, 3, 5, 6, 8]);
+  });
+});
+
+describe("getResetIndices with take-off quantities", () => {
+  const linked = activityObjectsArray.map(activity => activity.itemCode === "A-2-1"
+    ? { ...activity, quantity: "='Take-off'!$G$10" }
+    : activity);
+
+  it("keeps quantities linked to the Take-off sheet by default", () => {
+    expect(getResetIndices(linked, resolveResetOptions([]), "quantity")).toEqual([2, 3, 6, 8]);
+    expect(getResetIndices(linked, resolveResetOptions([]), "rate")).toEqual([2, 3, 5, 6, 8]);
+  });
+
+  it("clears them when Reset Linked Quantities is Yes", () => {
+    const options = resolveResetOptions([["Reset Linked Quantities", "Yes"]]);
+
+    expect(getResetIndices(linked, options, "quantity")).toEqual([2, 3, 5, 6, 8]);
+  });
+});
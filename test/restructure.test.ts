@@ -0,0 +1,197 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyBlockMove,
+  getNextSiblingIndex,
+  getPreviousSiblingIndex,
+  getSelectedSubtreeRoots,
+  getSubtreeEndIndex,
+  planChildInsertion,
+  planDemotion,
+  planPromotion,
+  planSectionInsertion,
+  planSiblingInsertion,
+  planSiblingMove
+} from "../src/core/restructure";
+
+const CODES = ["A", "A-1", "A-1-1", "A-1-2", "A-1-2-1", "A-1-3", "A-2", "A-2-1", "B", "B-1"];
+
+describe("subtree navigation", () => {
+  it("finds the end of a subtree block", () => {
+    expect(getSubtreeEndIndex(CODES, 1)).toBe(5);
+    expect(getSubtreeEndIndex(CODES, 3)).toBe(4);
+    expect(getSubtreeEndIndex(CODES, 5)).toBe(5);
+    expect(getSubtreeEndIndex(CODES, 0)).toBe(7);
+  });
+
+  it("collapses a selection to its subtree roots", () => {
+    expect(getSelectedSubtreeRoots(CODES, 3, 5)).toEqual([3, 5]);
+    expect(getSelectedSubtreeRoots(CODES, 1, 2)).toEqual([1]);
+  });
+
+  it("finds previous and next siblings", () => {
+    expect(getPreviousSiblingIndex(CODES, 6)).toBe(1);
+    expect(getPreviousSiblingIndex(CODES, 2)).toBe(-1);
+    expect(getPreviousSiblingIndex(CODES, 8)).toBe(0);
+    expect(getNextSiblingIndex(CODES, 1)).toBe(6);
+    expect(getNextSiblingIndex(CODES, 5)).toBe(-1);
+    expect(getNextSiblingIndex(CODES, 9)).toBe(-1);
+  });
+});
+
+describe("applyBlockMove", () => {
+  it("moves a block down and up", () => {
+    const items = ["a", "b", "c", "d", "e"];
+
+    expect(applyBlockMove(items, { startIndex: 0, endIndex: 1, insertBeforeIndex: 4 })).toEqual(["c", "d", "a", "b", "e"]);
+    expect(applyBlockMove(items, { startIndex: 3, endIndex: 4, insertBeforeIndex: 1 })).toEqual(["a", "d", "e", "b", "c"]);
+  });
+});
+
+describe("planDemotion", () => {
+  it("makes an item and its subtree the last child of its previous sibling", () => {
+    const plan = planDemotion(CODES, [6]);
+
+    expect(plan.itemCodes).toEqual(["A", "A-1", "A-1-1", "A-1-2", "A-1-2-1", "A-1-3", "A-1-4", "A-1-4-1", "B", "B-1"]);
+    expect(plan.moves).toEqual([]);
+    expect(plan.levelChangedIndices).toEqual([6, 7]);
+  });
+
+  it("demotes consecutive siblings under the same new parent", () => {
+    const plan = planDemotion(["A", "A-1", "A-2", "A-3"], [2, 3]);
+
+    expect(plan.itemCodes).toEqual(["A", "A-1", "A-1-1", "A-1-2"]);
+  });
+
+  it("demotes a section into the previous section", () => {
+    expect(planDemotion(CODES, [8]).itemCodes.slice(8)).toEqual(["A-3", "A-3-1"]);
+  });
+
+  it("refuses to demote a first child", () => {
+    expect(() => planDemotion(CODES, [2])).toThrow("Cannot demote A-1-1: it has no previous sibling");
+  });
+});
+
+describe("planPromotion", () => {
+  it("moves the subtree below its former parent and renumbers", () => {
+    const plan = planPromotion(CODES, [3]);
+
+    expect(plan.moves).toEqual([{ startIndex: 3, endIndex: 4, insertBeforeIndex: 6 }]);
+    expect(plan.itemCodes).toEqual(["A", "A-1", "A-1-1", "A-1-2", "A-2", "A-2-1", "A-3", "A-3-1", "B", "B-1"]);
+    expect(plan.levelChangedIndices).toEqual([4, 5]);
+  });
+
+  it("does not move a last child", () => {
+    const plan = planPromotion(CODES, [5]);
+
+    expect(plan.moves).toEqual([]);
+    expect(plan.itemCodes.slice(5, 7)).toEqual(["A-2", "A-3"]);
+  });
+
+  it("keeps the order of several promoted siblings", () => {
+    const plan = planPromotion(["A", "A-1", "A-1-1", "A-1-2", "A-1-3"], [3, 4]);
+
+    expect(plan.itemCodes).toEqual(["A", "A-1", "A-1-1", "A-2", "A-3"]);
+  });
+
+  it("refuses to create a section", () => {
+    expect(() => planPromotion(CODES, [1])).toThrow("Cannot promote A-1");
+  });
+
+  it("refuses an item whose parent row is missing", () => {
+    expect(() => planPromotion(["A", "A-1", "A-2-1"], [2])).toThrow("Cannot promote A-2-1: it has no parent A-2");
+  });
+});
+
+describe("planSiblingMove", () => {
+  it("swaps a subtree with the previous sibling block", () => {
+    const plan = planSiblingMove(CODES, [5], "up");
+
+    expect(plan.moves).toEqual([{ startIndex: 5, endIndex: 5, insertBeforeIndex: 3 }]);
+    expect(plan.itemCodes).toEqual(["A", "A-1", "A-1-1", "A-1-2", "A-1-3", "A-1-3-1", "A-2", "A-2-1", "B", "B-1"]);
+  });
+
+  it("swaps a subtree with the next sibling block", () => {
+    const plan = planSiblingMove(CODES, [1], "down");
+
+    expect(plan.moves).toEqual([{ startIndex: 1, endIndex: 5, insertBeforeIndex: 8 }]);
+    expect(plan.itemCodes).toEqual(["A", "A-1", "A-1-1", "A-2", "A-2-1", "A-2-2", "A-2-2-1", "A-2-3", "B", "B-1"]);
+  });
+
+  it("moves consecutive selected siblings together", () => {
+    const plan = planSiblingMove(["A", "A-1", "A-2", "A-3"], [2, 3], "up");
+
+    expect(plan.moves).toEqual([{ startIndex: 2, endIndex: 3, insertBeforeIndex: 1 }]);
+  });
+
+  it("moves sections without re-lettering them", () => {
+    expect(planSiblingMove(CODES, [8], "up").itemCodes).toEqual(["B", "B-1", "A", "A-1", "A-1-1", "A-1-2", "A-1-2-1", "A-1-3", "A-2", "A-2-1"]);
+  });
+
+  it("refuses to move past the first or last sibling", () => {
+    expect(() => planSiblingMove(CODES, [2], "up")).toThrow("Cannot move A-1-1 up");
+    expect(() => planSiblingMove(CODES, [6], "down")).toThrow("Cannot move A-2 down");
+  });
+});
+
+describe("planSiblingInsertion", () => {
+  it("inserts after the selected subtree and shifts later siblings", () => {
+    const plan = planSiblingInsertion(CODES, 3, "below", 1);
+
+    expect(plan.insertionIndex).toBe(5);
+    expect(plan.itemCodes.slice(1, 8)).toEqual(["A-1", "A-1-1", "A-1-2", "A-1-2-1", "A-1-3", "A-1-4", "A-2"]);
+  });
+
+  it("inserts several rows above the selected item", () => {
+    const plan = planSiblingInsertion(CODES, 2, "above", 2);
+
+    expect(plan.insertionIndex).toBe(2);
+    expect(plan.itemCodes.slice(1, 8)).toEqual(["A-1", "A-1-1", "A-1-2", "A-1-3", "A-1-4", "A-1-4-1", "A-1-5"]);
+  });
+
+  it("refuses sections", () => {
+    expect(() => planSiblingInsertion(CODES, 0, "below", 1)).toThrow("Cannot insert a sibling of section A");
+  });
+});
+
+describe("planSectionInsertion", () => {
+  it("appends the next letter after the selected section's subtree", () => {
+    const plan = planSectionInsertion(CODES, 9, "below", false);
+
+    expect(plan.insertionIndex).toBe(10);
+    expect(plan.itemCodes.slice(8)).toEqual(["B", "B-1", "C"]);
+  });
+
+  it("keeps existing letters between sections unless re-lettering", () => {
+    expect(planSectionInsertion(CODES, 3, "below", false).itemCodes.slice(7, 11)).toEqual(["A-2-1", "C", "B", "B-1"]);
+    expect(planSectionInsertion(CODES, 3, "below", true).itemCodes.slice(7, 11)).toEqual(["A-2-1", "B", "C", "C-1"]);
+  });
+
+  it("inserts above the selected section", () => {
+    const plan = planSectionInsertion(CODES, 2, "above", true);
+
+    expect(plan.insertionIndex).toBe(0);
+    expect(plan.itemCodes.slice(0, 3)).toEqual(["A", "B", "B-1"]);
+  });
+
+  it("starts an empty table with section A", () => {
+    expect(planSectionInsertion([], 0, "below", false)).toEqual({ insertionIndex: 0, rowCount: 1, itemCodes: ["A"] });
+  });
+
+  it("refuses a table without sections", () => {
+    expect(() => planSectionInsertion(["A-1", "A-1-1"], 1, "below", false)).toThrow("has no section (level 0) rows");
+  });
+});
+
+describe("planChildInsertion", () => {
+  it("appends a multi-level subtree after the parent's existing children", () => {
+    const plan = planChildInsertion(CODES, 1, [1, 2, 2, 1]);
+
+    expect(plan.insertionIndex).toBe(6);
+    expect(plan.rowCount).toBe(4);
+    expect(plan.itemCodes.slice(5, 11)).toEqual(["A-1-3", "A-1-4", "A-1-4-1", "A-1-4-2", "A-1-5", "A-2"]);
+  });
+
+  it("numbers the first children of a leaf from 1", () => {
+    expect(planChildInsertion(CODES, 9, [1, 1]).itemCodes.slice(9)).toEqual(["B-1", "B-1-1", "B-1-2"]);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { parseBQTable } from "../src/core/activity";
+import { DEFAULT_TABLE_LAYOUT } from "../src/core/layout";
+import { compareRevisions, resolveCompareOptions } from "../src/core/revisionCompare";
+import { activityRow } from "./fixtures/grids";
+
+const activitiesOf = (rows: ReturnType<typeof activityRow>[]) => parseBQTable(rows, 10, DEFAULT_TABLE_LAYOUT).activityObjectsArray;
+
+const REV_A = activitiesOf([
+  activityRow("A", "Substructure", 1, "LS", "", 2900),
+  activityRow("A-1", "Site clearance", 1, "LS", 400, 400),
+  activityRow("A-2", "Excavation to footings", 100, "m3", 15, 1500),
+  activityRow("A-3", "Blinding concrete", 10, "m3", 100, 1000),
+  activityRow("B", "Preliminaries", 1, "LS", 500, 500),
+]);
+
+// A-1 deleted (A-2, A-3 reindexed), blinding quantity up, new section C
+const REV_B = activitiesOf([
+  activityRow("A", "Substructure", 1, "LS", "", 2700),
+  activityRow("A-1", "Excavation to footings", 100, "m3", 15, 1500),
+  activityRow("A-2", "Blinding concrete", 12, "m3", 100, 1200),
+  activityRow("B", "Preliminaries", 1, "LS", 500, 500),
+  activityRow("C", "Drainage", 1, "LS", 800, 800),
+]);
+
+describe("compareRevisions", () => {
+  const { changes, sectionVariances, unchangedCount } = compareRevisions(REV_A, REV_B, 0.6);
+
+  it("aligns reindexed items by description and lists added and removed items", () => {
+    expect(changes.map(change => [change.status, change.oldItem?.itemCode, change.newItem?.itemCode, change.costDelta])).toEqual([
+      ["Changed", "A-2", "A-1", 0],
+      ["Changed", "A-3", "A-2", 200],
+      ["Added", undefined, "C", 800],
+      ["Removed", "A-1", undefined, -400],
+    ]);
+    expect(changes[1].changes).toEqual(["Code A-3 → A-2", "Qty 10 → 12", "Cost 1000 → 1200"]);
+    expect(unchangedCount).toBe(1);
+  });
+
+  it("totals the variance per section", () => {
+    expect(sectionVariances).toEqual([
+      { section: "A", description: "Substructure", oldTotal: 2900, newTotal: 2700, variance: -200 },
+      { section: "B", description: "Preliminaries", oldTotal: 500, newTotal: 500, variance: 0 },
+      { section: "C", description: "Drainage", oldTotal: 0, newTotal: 800, variance: 800 },
+    ]);
+  });
+
+  it("follows items into their new section when a section is inserted above", () => {
+    const before = activitiesOf([
+      activityRow("A", "Substructure", 1, "LS", "", 1500),
+      activityRow("A-1", "Excavation to footings", 100, "m3", 15, 1500),
+      activityRow("B", "Superstructure", 1, "LS", "", 3000),
+      activityRow("B-1", "Blockwork walls", 100, "m2", 20, 2000),
+      activityRow("B-2", "Lintels", 10, "nr", 100, 1000),
+    ]);
+    const after = activitiesOf([
+      activityRow("A", "Preliminaries", 1, "LS", 500, 500),
+      activityRow("B", "Substructure", 1, "LS", "", 1500),
+      activityRow("B-1", "Excavation to footings", 100, "m3", 15, 1500),
+      activityRow("C", "Superstructure", 1, "LS", "", 2400),
+      activityRow("C-1", "Blockwork walls", 120, "m2", 20, 2400),
+    ]);
+
+    expect(compareRevisions(before, after, 0.6).sectionVariances).toEqual([
+      { section: "A", description: "Preliminaries", oldTotal: 0, newTotal: 500, variance: 500 },
+      { section: "B", description: "Substructure", oldTotal: 1500, newTotal: 1500, variance: 0 },
+      { section: "C", description: "Superstructure", oldTotal: 3000, newTotal: 2400, variance: -600 },
+    ]);
+  });
+
+  it("keeps a removed section under its old letter", () => {
+    const before = activitiesOf([
+      activityRow("A", "Substructure", 1, "LS", 1500, 1500),
+      activityRow("B", "Demolition", 1, "LS", "", 900),
+      activityRow("B-1", "Strip out existing fittings", 1, "LS", 900, 900),
+    ]);
+    const after = activitiesOf([
+      activityRow("A", "Substructure", 1, "LS", 1500, 1500),
+      activityRow("B", "Landscaping", 1, "LS", 700, 700),
+    ]);
+
+    expect(compareRevisions(before, after, 0.6).sectionVariances).toEqual([
+      { section: "A", description: "Substructure", oldTotal: 1500, newTotal: 1500, variance: 0 },
+      { section: "B", description: "Landscaping", oldTotal: 0, newTotal: 700, variance: 700 },
+      { section: "B", description: "Demolition", oldTotal: 900, newTotal: 0, variance: -900 },
+    ]);
+  });
+
+  it("falls back to the code when the description was reworded", () => {
+    const reworded = activitiesOf([activityRow("A", "Earthworks, bulk excavation", 1, "LS", 400, 400)]);
+    const { changes } = compareRevisions(activitiesOf([activityRow("A", "Site strip", 1, "LS", 400, 400)]), reworded, 0.6);
+
+    expect(changes.map(change => change.changes)).toEqual([["Description Site strip → Earthworks, bulk excavation"]]);
+  });
+});
+
+describe("resolveCompareOptions", () => {
+  it("reads the old sheet name and threshold", () => {
+    expect(resolveCompareOptions([["Compare Against Sheet", " Rev A "]])).toEqual({ oldSheetName: "Rev A", threshold: 0.6 });
+    expect(() => resolveCompareOptions([["Compare Match Threshold", 2]])).toThrow("Compare Match Threshold");
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { parseBQTable } from "../src/core/activity";
+import { computeActivityRowFormulas, isQtyAndUnitPreserved } from "../src/core/formulas";
+import { DEFAULT_TABLE_LAYOUT, TableLayout } from "../src/core/layout";
+import { getNextRollUpMode, getRollUpMode, normalizeRollUpModeMarker, resolveRollUpMode } from "../src/core/rollUpModes";
+import { validateBQTable } from "../src/core/validation";
+import { getValuationRoles } from "../src/core/valuation";
+import { SAMPLE_DATA_TOP_ROW, activityRow } from "./fixtures/grids";
+
+const ROLL_UP_LAYOUT: TableLayout = { ...DEFAULT_TABLE_LAYOUT, rollUpModeColumn: "K" };
+
+/** One parent per mode (rows 10 to 17), mode marker in column K. */
+const ROLL_UP_GRID = [
+  [...activityRow("A", "Substructure", 1, "LS", "", "=SUM(J11,J13,J15)"), ""],
+  [...activityRow("A-1", "Footing concrete", 1, "m3"), "Composite Rate"],
+  [...activityRow("A-1-1", "Cement", 0.3, "t", 120), ""],
+  [...activityRow("A-2", "Blinding", 20, "m2"), "ls"],
+  [...activityRow("A-2-1", "Lean mix", 1, "m3", 90), ""],
+  [...activityRow("A-3", "Piling (agreed)", 12, "nr", 850, 10200), "Manual"],
+  [...activityRow("A-3-1", "Piles", 12, "nr", 800), ""],
+  [...activityRow("B", "Sundries", 1, "LS", "", "=SUM(J17)"), "XX"],
+];
+
+const { activityObjectsArray } = parseBQTable(
+  [...ROLL_UP_GRID, [...activityRow("B-1", "Cleaning", 1, "item", 50), "Rate"]],
+  SAMPLE_DATA_TOP_ROW,
+  ROLL_UP_LAYOUT
+);
+
+describe("resolveRollUpMode", () => {
+  it("accepts the canonical modes and their long names", () => {
+    expect(resolveRollUpMode("LS")).toBe("LS");
+    expect(resolveRollUpMode("Lump Sum")).toBe("LS");
+    expect(resolveRollUpMode("composite rate")).toBe("Rate");
+    expect(resolveRollUpMode("Override")).toBe("Manual");
+    expect(resolveRollUpMode("")).toBe("");
+    expect(resolveRollUpMode("XX")).toBeUndefined();
+    expect(normalizeRollUpModeMarker("Composite Rate")).toBe("Rate");
+    expect(normalizeRollUpModeMarker("XX")).toBe("XX");
+  });
+
+  it("cycles LS, Rate and Manual", () => {
+    expect(getNextRollUpMode("LS")).toBe("Rate");
+    expect(getNextRollUpMode("Rate")).toBe("Manual");
+    expect(getNextRollUpMode("Manual")).toBe("LS");
+  });
+});
+
+describe("getRollUpMode", () => {
+  it("honours the explicit mode over the quantity and unit guess", () => {
+    expect(getRollUpMode(activityObjectsArray[1])).toBe("Rate");
+    expect(getRollUpMode(activityObjectsArray[3])).toBe("LS");
+    expect(getRollUpMode(activityObjectsArray[5])).toBe("Manual");
+  });
+
+  it("falls back to the guess without a recognised mode", () => {
+    expect(getRollUpMode(activityObjectsArray[0])).toBe("LS");
+    expect(getRollUpMode(activityObjectsArray[7])).toBe("LS");
+    expect(getRollUpMode({ ...activityObjectsArray[3], rollUpMode: "" })).toBe("Rate");
+    expect(isQtyAndUnitPreserved({ ...activityObjectsArray[1], rollUpMode: "" })).toBe(false);
+  });
+});
+
+describe("computeActivityRowFormulas with roll-up modes", () => {
+  const rows = computeActivityRowFormulas(activityObjectsArray, ROLL_UP_LAYOUT);
+
+  it("keeps a quantity of 1 m3 when the parent is set to Rate", () => {
+    expect(rows[1]).toEqual([1, "m3", "=SUM(J12)", `=IFERROR(IF(G11="-", "-", G11*I11), "[pending values]")`]);
+  });
+
+  it("converts a measured parent set to LS into a lump sum", () => {
+    expect(rows[3]).toEqual([1, "LS", "", "=SUM(J14)"]);
+  });
+
+  it("leaves a Manual parent as typed", () => {
+    expect(rows[5]).toEqual([12, "nr", 850, 10200]);
+  });
+});
+
+describe("roll-up modes in validation and valuation", () => {
+  it("reports unknown modes and modes on leaf rows", () => {
+    const issues = validateBQTable(activityObjectsArray, ROLL_UP_LAYOUT).filter(issue => issue.column === "K");
+
+    expect(issues.map(issue => [issue.severity, issue.rowNumber, issue.message])).toEqual([
+      ["Error", 17, `Unknown roll-up mode "XX" (use LS, Rate or Manual)`],
+      ["Warning", 18, "Roll-up mode ignored on a leaf row"],
+    ]);
+  });
+
+  it("values Manual parents as measured rows", () => {
+    expect(getValuationRoles(activityObjectsArray).slice(0, 7)).toEqual(["rollup", "measured", "none", "rollup", "measured", "measured", "none"]);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import type { CellFormula } from "../src/core/activity";
+import {
+  findSetting,
+  normalizeSettingKey,
+  resolveBooleanSetting,
+  resolveFractionSetting,
+  toSettingValue
+} from "../src/core/settings";
+
+describe("normalizeSettingKey", () => {
+  it("ignores case, separators and the BQ prefix", () => {
+    expect(normalizeSettingKey("BQ_Reletter Sections")).toBe("relettersections");
+    expect(normalizeSettingKey("Header Row")).toBe(normalizeSettingKey("bq_headerrow"));
+  });
+});
+
+describe("findSetting / resolveBooleanSetting", () => {
+  const settings: [string, CellFormula][] = [
+    ["Reletter Sections", "no"],
+    ["BQ_ReletterSections", "Yes"],
+    ["Header Row", ""],
+  ];
+
+  it("returns the last non-empty value", () => {
+    expect(findSetting(settings, "reletter sections")).toBe("Yes");
+    expect(findSetting(settings, "Header Row")).toBeUndefined();
+  });
+
+  it("parses yes/no values and falls back to the default", () => {
+    expect(resolveBooleanSetting(settings, "Reletter Sections", false)).toBe(true);
+    expect(resolveBooleanSetting([["Reletter Sections", false]], "Reletter Sections", true)).toBe(false);
+    expect(resolveBooleanSetting([], "Reletter Sections", true)).toBe(true);
+  });
+
+  it("rejects anything else", () => {
+    expect(() => resolveBooleanSetting([["Reletter Sections", "maybe"]], "Reletter Sections", false))
+      .toThrow('Invalid setting "Reletter Sections": maybe is not yes or no');
+  });
+});
+
+describe("toSettingValue / resolveFractionSetting", () => {
+  it("reads percentage-formatted numbers as their displayed percentage", () => {
+    expect(toSettingValue(0.1, "0.0%")).toBe("10%");
+    expect(toSettingValue(0.005, "0.00%")).toBe("0.5%");
+    expect(toSettingValue(0.1, "General")).toBe(0.1);
+    expect(toSettingValue(2, '0 "% off"')).toBe(2);
+    expect(toSettingValue("Yes", "0%")).toBe("Yes");
+  });
+
+  it("reads fractions given as numbers or percentages", () => {
+    expect(resolveFractionSetting([["Rate Match Threshold", 0.7]], "Rate Match Threshold", 0.6)).toBe(0.7);
+    expect(resolveFractionSetting([["Rate Match Threshold", "75%"]], "Rate Match Threshold", 0.6)).toBe(0.75);
+    expect(resolveFractionSetting([], "Rate Match Threshold", 0.6)).toBe(0.6);
+    expect(resolveFractionSetting([["Rate Match Threshold", "high"]], "Rate Match Threshold", 0.6)).toBeNaN();
+  });
+});
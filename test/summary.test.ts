@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_TABLE_LAYOUT } from "../src/core/layout";
+import { buildSummaryBlock, mergeSummaryLines, parseSummaryBlock, resolveSummaryLines } from "../src/core/summary";
+
+// Columns B:J → offsets: description 1, unit 6, rate 7, cost 8
+const column = (rows: (string | number | boolean)[][], offset: number) => rows.map(row => row[offset]);
+
+describe("resolveSummaryLines", () => {
+  it("shows every line at 0% by default", () => {
+    expect(resolveSummaryLines([]).map(line => [line.kind, line.label, line.percent])).toEqual([
+      ["markup", "Preliminaries", 0],
+      ["markup", "Contingency", 0],
+      ["markup", "Overhead & Profit", 0],
+      ["discount", "Discount", 0],
+      ["tax", "VAT", 0],
+    ]);
+  });
+
+  it("reads percentages, turns lines off and renames the tax line", () => {
+    const lines = resolveSummaryLines([
+      ["Preliminaries %", 10],
+      ["Contingency %", "5%"],
+      ["Overhead and Profit %", "Off"],
+      ["Discount %", 2],
+      ["Tax Label", "GST"],
+    ]);
+
+    expect(lines.map(line => [line.label, line.percent])).toEqual([
+      ["Preliminaries", 0.1], ["Contingency", 0.05], ["Discount", 0.02], ["GST", 0],
+    ]);
+    expect(() => resolveSummaryLines([["Tax %", "lots"]])).toThrow('Invalid setting "Tax %": lots is not a percentage');
+  });
+
+  it("reads bare numbers as percentage points, including 1 and below", () => {
+    const lines = resolveSummaryLines([["Preliminaries %", "1"], ["Contingency %", "0.5"], ["Discount %", 0.5], ["Tax %", "0.5%"]]);
+
+    expect(lines.map(line => line.percent)).toEqual([0.01, 0.005, 0, 0.005, 0.005]);
+  });
+});
+
+describe("buildSummaryBlock", () => {
+  const lines = resolveSummaryLines([["Preliminaries %", 10], ["Contingency %", "Off"], ["Overhead and Profit %", "Off"], ["Discount %", 2], ["Tax %", 16]]);
+  const rows = buildSummaryBlock(lines, 22, 20, DEFAULT_TABLE_LAYOUT);
+
+  it("runs markups on the running total and tax on the total before tax", () => {
+    expect(column(rows, 1)).toEqual(["SUMMARY", "Subtotal", "Preliminaries", "Discount", "Total before tax", "VAT", "Grand Total"]);
+    expect(column(rows, 7)).toEqual(["", "", 0.1, 0.02, "", 0.16, ""]);
+    expect(column(rows, 8)).toEqual([
+      "",
+      "=J20",
+      "=SUM(J23:J23)*I24",
+      "=-SUM(J23:J24)*I25",
+      "=SUM(J23:J25)",
+      "=J26*I27",
+      "=SUM(J26:J27)",
+    ]);
+  });
+
+  it("round-trips through parseSummaryBlock, keeping typed percentages", () => {
+    const edited = rows.map(row => row.slice());
+    edited[2][7] = 0.125;
+
+    const parsed = parseSummaryBlock([...edited, ["", "", "", "", "", "", "", "", ""]], DEFAULT_TABLE_LAYOUT);
+    expect(parsed?.rowCount).toBe(7);
+    expect(parsed?.lines).toEqual([
+      { kind: "markup", label: "Preliminaries", percent: 0.125 },
+      { kind: "discount", label: "Discount", percent: 0.02 },
+      { kind: "tax", label: "VAT", percent: 0.16 },
+    ]);
+
+    expect(mergeSummaryLines(resolveSummaryLines([]), parsed!.lines).map(line => line.percent)).toEqual([0.125, 0, 0, 0.02, 0.16]);
+  });
+
+  it("ends with a plain total when there is no tax line", () => {
+    const noTax = buildSummaryBlock(resolveSummaryLines([["Tax %", "off"], ["Discount %", "off"]]), 22, 20, DEFAULT_TABLE_LAYOUT);
+    expect(noTax[noTax.length - 1][8]).toBe("=SUM(J23:J26)");
+  });
+
+  it("returns undefined when there is no block", () => {
+    expect(parseSummaryBlock([["", "", "", "", "", "", "", "", ""]], DEFAULT_TABLE_LAYOUT)).toBeUndefined();
+  });
+});
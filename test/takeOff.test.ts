@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { getLeafQuantity } from "../src/core/formulas";
+import { DEFAULT_TABLE_LAYOUT } from "../src/core/layout";
+import { buildLinkedBlock } from "../src/core/linkedBlocks";
+import { TAKE_OFF_BLOCKS, isTakeOffQuantityFormula } from "../src/core/takeOff";
+
+describe("take-off links", () => {
+  it("recognises quantities linked to the Take-off sheet", () => {
+    expect(isTakeOffQuantityFormula("='Take-off'!$G$10")).toBe(true);
+    expect(isTakeOffQuantityFormula("='Rate Analysis'!$F$12")).toBe(false);
+  });
+
+  it("keeps linked quantities on leaves and reverts broken links to the placeholder", () => {
+    expect(getLeafQuantity("='Take-off'!$G$10")).toBe("='Take-off'!$G$10");
+    expect(getLeafQuantity("='Take-off'!#REF!")).toBe("[qty]");
+    expect(getLeafQuantity("")).toBe("[qty]");
+    expect(getLeafQuantity(120)).toBe(120);
+  });
+});
+
+describe("take-off blocks", () => {
+  const { formulas, block } = buildLinkedBlock(TAKE_OFF_BLOCKS, 3, "Bill 1", 14, DEFAULT_TABLE_LAYOUT);
+
+  it("nets the deductions off the gross", () => {
+    expect(block).toEqual({ headerRow: 3, totalRow: 12 });
+    expect(formulas).toHaveLength(10);
+    expect(formulas[0]).toEqual(["Item", "='Bill 1'!$B$14", "='Bill 1'!$C$14", "", "", "Unit", "='Bill 1'!$H$14"]);
+    expect(formulas[2]).toEqual([1, "", "", "", "", "", `=IF(COUNT(B5:D5)=0, 0, A5*PRODUCT(B5:D5)*IF(OR(F5="Yes", F5="Y"), -1, 1))`]);
+    expect(formulas[7]).toEqual(["Gross", "", "", "", "", "", `=SUMIF(G5:G9, ">0")`]);
+    expect(formulas[8][6]).toBe(`=-SUMIF(G5:G9, "<0")`);
+    expect(formulas[9]).toEqual(["Net", "", "", "", "", "", "=G10-G11"]);
+  });
+});
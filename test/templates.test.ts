@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_TABLE_LAYOUT } from "../src/core/layout";
+import { buildTemplateActivityRow, findTemplate, parseTemplateLibrary } from "../src/core/templates";
+import { TEMPLATE_LIBRARY_GRID } from "./fixtures/grids";
+
+describe("parseTemplateLibrary", () => {
+  it("groups rows under the last template name and skips blank rows", () => {
+    const library = parseTemplateLibrary(TEMPLATE_LIBRARY_GRID);
+
+    expect(Object.keys(library)).toEqual(["Reinforced concrete footing", "Site clearance"]);
+    expect(library["Reinforced concrete footing"].map(item => item.depth)).toEqual([1, 1, 1, 2, 2, 2]);
+    expect(library["Reinforced concrete footing"][4]).toEqual({ depth: 2, description: "Rebar", unit: "kg", rate: 1.8 });
+  });
+
+  it("rejects skipped levels and rows without a template", () => {
+    expect(() => parseTemplateLibrary([["Template"], ["Footing", 2, "Rebar", "kg", ""]]))
+      .toThrow('Invalid template "Footing" at row 2: level 2 must be between 1 and 1');
+    expect(() => parseTemplateLibrary([["Template"], ["", 1, "Rebar", "kg", ""]]))
+      .toThrow("Invalid template library row 2: no template name");
+  });
+});
+
+describe("findTemplate", () => {
+  const library = parseTemplateLibrary(TEMPLATE_LIBRARY_GRID);
+
+  it("matches names ignoring case and spaces", () => {
+    expect(findTemplate(library, " site CLEARANCE ")).toHaveLength(1);
+  });
+
+  it("throws for an unknown template", () => {
+    expect(() => findTemplate(library, "Roofing")).toThrow('Template "Roofing" not found in the template library');
+  });
+});
+
+describe("buildTemplateActivityRow", () => {
+  it("fills description, unit and rate, keeping placeholders for blanks", () => {
+    const row = buildTemplateActivityRow("A-1-1", { depth: 1, description: "Blinding", unit: "m2", rate: "" }, DEFAULT_TABLE_LAYOUT);
+
+    expect(row).toEqual(["A-1-1", "Blinding", "", "", "", "[qty]", "m2", "[rate]", "[insert formula]"]);
+  });
+});
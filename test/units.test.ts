@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { parseBQTable } from "../src/core/activity";
+import { computeActivityRowFormulas, isQtyAndUnitPreserved } from "../src/core/formulas";
+import { DEFAULT_TABLE_LAYOUT } from "../src/core/layout";
+import { findCatalogueUnit, isLumpSumUnit, isSameUnit, normalizeUnit } from "../src/core/units";
+import { SAMPLE_DATA_TOP_ROW, activityRow } from "./fixtures/grids";
+
+describe("normalizeUnit", () => {
+  it("rewrites common variants in their catalogue form", () => {
+    expect(normalizeUnit("m²")).toBe("m2");
+    expect(normalizeUnit("Sq. m")).toBe("m2");
+    expect(normalizeUnit("cu.m")).toBe("m3");
+    expect(normalizeUnit("M^3")).toBe("m3");
+    expect(normalizeUnit("Tonnes")).toBe("t");
+    expect(normalizeUnit("No.")).toBe("nr");
+    expect(normalizeUnit("l.s.")).toBe("LS");
+  });
+
+  it("keeps units outside the catalogue and placeholders unchanged", () => {
+    expect(normalizeUnit("box")).toBe("box");
+    expect(normalizeUnit("[unit]")).toBe("[unit]");
+    expect(findCatalogueUnit("")).toBeUndefined();
+  });
+});
+
+describe("isLumpSumUnit", () => {
+  it("treats LS, sum and their variants as lump sums", () => {
+    expect(isLumpSumUnit("LS")).toBe(true);
+    expect(isLumpSumUnit("Lump Sum")).toBe(true);
+    expect(isLumpSumUnit("Sum")).toBe(true);
+    expect(isLumpSumUnit("item")).toBe(false);
+    expect(isLumpSumUnit("m3")).toBe(false);
+  });
+});
+
+describe("isSameUnit", () => {
+  it("compares units in their catalogue form", () => {
+    expect(isSameUnit("m²", "m2")).toBe(true);
+    expect(isSameUnit("sqm", "Sq. m")).toBe(true);
+    expect(isSameUnit("Box", "box")).toBe(true);
+    expect(isSameUnit("m2", "m3")).toBe(false);
+  });
+});
+
+describe("unit-aware formula generation", () => {
+  const { activityObjectsArray } = parseBQTable([
+    activityRow("A", "Substructure", 1, "Lump sum"),  // 10
+    activityRow("A-1", "Footings", 12, "cum"),        // 11
+    activityRow("A-1-1", "Concrete", 1, "m³", 95),    // 12
+    activityRow("A-2", "Mesh", 40, "sqm", 6),         // 13
+  ], SAMPLE_DATA_TOP_ROW, DEFAULT_TABLE_LAYOUT);
+
+  const rows = computeActivityRowFormulas(activityObjectsArray, DEFAULT_TABLE_LAYOUT);
+
+  it("never keeps the quantity of a lump sum parent, whatever its spelling", () => {
+    expect(isQtyAndUnitPreserved({ ...activityObjectsArray[0], quantity: 3 })).toBe(false);
+    expect(rows[0]).toEqual([1, "LS", "", "=SUM(J11,J13)"]);
+  });
+
+  it("writes parent and leaf units in their catalogue form", () => {
+    expect(rows[1].slice(0, 2)).toEqual([12, "m3"]);
+    expect(rows[2].slice(0, 2)).toEqual([1, "m3"]);
+    expect(rows[3].slice(0, 2)).toEqual([40, "m2"]);
+  });
+});
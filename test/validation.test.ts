@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { parseBQTable } from "../src/core/activity";
+import { DEFAULT_TABLE_LAYOUT } from "../src/core/layout";
+import { buildCellLinkFormula, validateBQTable } from "../src/core/validation";
+import { SAMPLE_DATA_TOP_ROW, SAMPLE_GRID, activityRow } from "./fixtures/grids";
+
+const validate = (grid: ReturnType<typeof activityRow>[]) =>
+  validateBQTable(parseBQTable(grid, SAMPLE_DATA_TOP_ROW, DEFAULT_TABLE_LAYOUT).activityObjectsArray, DEFAULT_TABLE_LAYOUT);
+
+describe("validateBQTable", () => {
+  it("reports stale roll-ups and leftover placeholders in the sample table", () => {
+    const issues = validate(SAMPLE_GRID);
+
+    expect(issues.map(issue => [issue.severity, `${issue.column}${issue.rowNumber}`])).toEqual([
+      ["Error", "J14"],
+      ["Error", "J17"],
+      ["Warning", "G18"],
+      ["Warning", "H18"],
+      ["Warning", "I18"],
+    ]);
+    expect(issues[1].message).toBe("Cost formula does not match the expected roll-up =SUM(J18)");
+  });
+
+  it("reports malformed, duplicate, orphaned and gapped codes", () => {
+    const issues = validate([
+      activityRow("A", "Section", 1, "LS", "", "=SUM(J11,J12)"),   // 10
+      activityRow("A-1", "Item", 1, "m", 5),                       // 11
+      activityRow("A-3", "Item", 1, "m", 5),                       // 12
+      activityRow("A-3", "Item", 1, "m", 5),                       // 13
+      activityRow("A-2-1-1", "Item", 1, "m", 5),                   // 14
+      activityRow("A-x", "Item", 1, "m", 5),                       // 15
+    ]);
+
+    expect(issues.filter(issue => issue.column === "B").map(issue => [issue.rowNumber, issue.message])).toEqual([
+      [12, "Numbering gap: expected A-2"],
+      [13, "Duplicate item code (also on row 12)"],
+      [13, "Numbering gap: expected A-4"],
+      [14, "Parent A-2-1 not found directly above this item"],
+      [15, "Invalid item code: expected a section letter followed by numeric segments (e.g. A-1-2)"],
+    ]);
+  });
+});
+
+describe("buildCellLinkFormula", () => {
+  it("quotes the sheet name", () => {
+    expect(buildCellLinkFormula("Bill 1", "B12")).toBe('=HYPERLINK("#\'Bill 1\'!B12", "B12")');
+    expect(buildCellLinkFormula("Owner's BQ", "J5")).toBe('=HYPERLINK("#\'Owner\'\'s BQ\'!J5", "J5")');
+  });
+});
+
+describe("validateBQTable units", () => {
+  it("warns about leaf units outside the catalogue and children that do not make sense per unit", () => {
+    const issues = validate([
+      activityRow("A", "Walls", 20, "m2", "=SUM(J11,J12,J13)", `=IFERROR(IF(G10="-", "-", G10*I10), "[pending values]")`), // 10
+      activityRow("A-1", "Blockwork", 1, "m2", 30),                // 11
+      activityRow("A-2", "Scaffold", 1, "LS", 400),                // 12
+      activityRow("A-3", "Plaster", 2, "sqm", 8),                  // 13
+      activityRow("B", "Sundries", 1, "LS", "", "=SUM(J15)"),      // 14
+      activityRow("B-1", "Fixings", 3, "box", 5),                  // 15
+    ]).filter(issue => issue.column === "G" || issue.column === "H");
+
+    expect(issues.map(issue => [`${issue.column}${issue.rowNumber}`, issue.message])).toEqual([
+      ["H12", "Lump sum under A is priced per m2 and multiplied by its quantity"],
+      ["G13", "2 m2 per m2 of A - check the quantity is per unit of the parent"],
+      ["H15", `Unit "box" is not in the units catalogue`],
+    ]);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { CellFormula, parseBQTable } from "../src/core/activity";
+import { DEFAULT_TABLE_LAYOUT, TableLayout, getTableColumnSpan, getValuationColumns, resolveTableLayout } from "../src/core/layout";
+import { buildValuationTotalFormulas, closeValuationPeriod, computeValuationFormulas, getValuationRoles } from "../src/core/valuation";
+import { SAMPLE_DATA_TOP_ROW, SAMPLE_GRID } from "./fixtures/grids";
+
+const VALUATION_LAYOUT: TableLayout = { ...DEFAULT_TABLE_LAYOUT, valuationStartColumn: "L" };
+
+// SAMPLE_GRID widened to B:P, with previous / this period quantities on A-1-1 (L, M)
+const VALUATION_GRID: CellFormula[][] = SAMPLE_GRID.map((row, i) =>
+  [...row, "", ...(i === 2 ? [40, 20] : ["", ""]), "", "", ""]);
+
+const { activityObjectsArray } = parseBQTable(VALUATION_GRID, SAMPLE_DATA_TOP_ROW, VALUATION_LAYOUT);
+
+describe("valuation layout", () => {
+  it("places five columns from the start column and widens the table span", () => {
+    expect(getValuationColumns(DEFAULT_TABLE_LAYOUT)).toBeUndefined();
+    expect(getValuationColumns(VALUATION_LAYOUT)).toEqual({
+      previousQuantityColumn: "L",
+      periodQuantityColumn: "M",
+      cumulativeQuantityColumn: "N",
+      percentCompleteColumn: "O",
+      valueToDateColumn: "P",
+    });
+    expect(getTableColumnSpan(VALUATION_LAYOUT)).toEqual({ firstColumn: "B", lastColumn: "P" });
+  });
+
+  it("rejects valuation columns that overlap the table", () => {
+    expect(() => resolveTableLayout([["Valuation Start Column", "H"]])).toThrow("column H is assigned more than once");
+  });
+});
+
+describe("getValuationRoles", () => {
+  it("measures leaves and quantity parents, rolls up lump sums and skips rate components", () => {
+    expect(getValuationRoles(activityObjectsArray)).toEqual([
+      "rollup",   // A
+      "rollup",   // A-1 (LS)
+      "measured", // A-1-1
+      "measured", // A-1-2
+      "measured", // A-2 (10 m3, rate = SUM of children)
+      "none",     // A-2-1
+      "none",     // A-2-2
+      "rollup",   // B
+      "measured", // B-1
+    ]);
+  });
+});
+
+describe("computeValuationFormulas", () => {
+  const rows = computeValuationFormulas(activityObjectsArray, VALUATION_GRID, VALUATION_LAYOUT);
+
+  it("keeps entered quantities and values measured rows at cumulative * rate", () => {
+    expect(rows[2]).toEqual([40, 20, "=L12+M12", "=IFERROR(N12/G12, 0)", "=IFERROR(N12*I12, 0)"]);
+    expect(rows[3].slice(0, 2)).toEqual([0, 0]);
+  });
+
+  it("rolls lump sum parents up like their cost", () => {
+    expect(rows[0]).toEqual(["", "", "", "=IFERROR(P10/J10, 0)", "=SUM(P11,P14)"]);
+    expect(rows[1][4]).toBe("=SUM(P12,P13)");
+    expect(rows[5]).toEqual(["", "", "", "", ""]);
+  });
+
+  it("totals the sections on the grand total row", () => {
+    expect(buildValuationTotalFormulas(activityObjectsArray, 19, VALUATION_LAYOUT))
+      .toEqual(["", "", "", "=IFERROR(P19/J19, 0)", "=SUM(P10,P17)"]);
+  });
+});
+
+describe("closeValuationPeriod", () => {
+  it("rolls cumulative into previous and resets this period on measured rows", () => {
+    expect(closeValuationPeriod(["rollup", "measured", "measured", "none"], ["", 60, "#VALUE!", ""]))
+      .toEqual([["", ""], [60, 0], [0, 0], ["", ""]]);
+  });
+});
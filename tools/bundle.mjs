@@ -0,0 +1,170 @@
+/**
+ * Build Step: Bundle ExcelScript Files
+ *
+ * Office Scripts must be a single self-contained file without imports.
+ * This tool takes every entry file in `src/scripts`, resolves its relative
+ * imports, and concatenates the entry followed by each imported module
+ * (with `import` lines removed and `export` keywords stripped) into
+ * `script/<name>.ts`, ready to paste into the Excel Code Editor.
+ *
+ * Usage:
+ *   node tools/bundle.mjs           Write all bundles to script/
+ *   node tools/bundle.mjs --check   Fail if any bundle in script/ is out of date
+ */
+
+import { existsSync, readFileSync, readdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const ROOT_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const ENTRY_DIR = path.join(ROOT_DIR, "src", "scripts");
+const OUTPUT_DIR = path.join(ROOT_DIR, "script");
+
+const IMPORT_PATTERN = /^import\s+(?:type\s+)?\{[^}]*\}\s+from\s+["'](\.{1,2}\/[^"']+)["'];?[ \t]*\r?\n?/gm;
+const EXPORT_PATTERN = /^export\s+(?=(?:function|class|interface|type|const|let|enum|abstract)\b)/gm;
+const DECLARATION_PATTERN = /^(?:function|class|interface|type|const|let|enum|abstract\s+class)\s+([A-Za-z_$][\w$]*)/gm;
+
+/**
+ * Resolves a relative import specifier to an absolute `.ts` file path.
+ */
+function resolveImport(fromFile, specifier) {
+  const resolved = path.resolve(path.dirname(fromFile), specifier);
+  const candidates = [resolved, `${resolved}.ts`, path.join(resolved, "index.ts")];
+  const match = candidates.find(candidate => candidate.endsWith(".ts") && existsSync(candidate));
+
+  if (!match) {
+    throw new Error(`Cannot resolve import "${specifier}" from ${path.relative(ROOT_DIR, fromFile)}`);
+  }
+
+  return match;
+}
+
+/**
+ * Reads a source file, returning its body without imports and the files it imports.
+ */
+function readModule(filePath) {
+  const source = readFileSync(filePath, "utf8");
+  const dependencies = [];
+
+  for (const match of source.matchAll(IMPORT_PATTERN)) {
+    dependencies.push(resolveImport(filePath, match[1]));
+  }
+
+  if (/^import\s/m.test(source.replace(IMPORT_PATTERN, ""))) {
+    throw new Error(`Unsupported import form in ${path.relative(ROOT_DIR, filePath)}: only named relative imports are bundled`);
+  }
+
+  if (/^export\s+(?:default|\{|\*)/m.test(source)) {
+    throw new Error(`Unsupported export form in ${path.relative(ROOT_DIR, filePath)}: only exported declarations are bundled`);
+  }
+
+  const body = source
+    .replace(IMPORT_PATTERN, "")
+    .replace(EXPORT_PATTERN, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  return { body, dependencies };
+}
+
+/**
+ * Collects the entry file's transitive dependencies in depth-first order.
+ */
+function collectModules(entryFile) {
+  const ordered = [];
+  const visited = new Set();
+
+  const visit = (filePath) => {
+    if (visited.has(filePath)) return;
+    visited.add(filePath);
+
+    const module = readModule(filePath);
+    ordered.push({ filePath, ...module });
+    module.dependencies.forEach(visit);
+  };
+
+  visit(entryFile);
+  return ordered;
+}
+
+/**
+ * Throws if two bundled modules declare the same top-level name.
+ */
+function assertUniqueDeclarations(modules, entryFile) {
+  const owners = new Map();
+
+  for (const module of modules) {
+    for (const match of module.body.matchAll(DECLARATION_PATTERN)) {
+      const name = match[1];
+      const owner = owners.get(name);
+
+      if (owner && owner !== module.filePath) {
+        throw new Error(
+          `Duplicate declaration "${name}" in ${path.relative(ROOT_DIR, owner)} and ` +
+          `${path.relative(ROOT_DIR, module.filePath)} (bundling ${path.relative(ROOT_DIR, entryFile)})`
+        );
+      }
+
+      owners.set(name, module.filePath);
+    }
+  }
+}
+
+/**
+ * Bundles one entry file into the text of a self-contained ExcelScript file.
+ */
+function bundleScript(entryFile) {
+  const modules = collectModules(entryFile);
+  assertUniqueDeclarations(modules, entryFile);
+
+  const toPosix = (filePath) => path.relative(ROOT_DIR, filePath).split(path.sep).join("/");
+
+  const sections = modules.map((module, i) => (i === 0)
+    ? module.body
+    : `// ===== BUNDLED MODULE - ${toPosix(module.filePath)} ===== //\n\n${module.body}`
+  );
+
+  return [
+    `// GENERATED FILE - do not edit. Source: ${toPosix(entryFile)} (rebuild with \`npm run build\`)`,
+    "",
+    sections.join("\n\n\n"),
+    ""
+  ].join("\n");
+}
+
+/**
+ * Returns the entry files in `src/scripts`, sorted by name.
+ */
+function listEntryFiles() {
+  return readdirSync(ENTRY_DIR)
+    .filter(fileName => fileName.endsWith(".ts"))
+    .sort()
+    .map(fileName => path.join(ENTRY_DIR, fileName));
+}
+
+function main(args) {
+  const checkOnly = args.includes("--check");
+  const stale = [];
+
+  for (const entryFile of listEntryFiles()) {
+    const outputFile = path.join(OUTPUT_DIR, path.basename(entryFile));
+    const bundle = bundleScript(entryFile);
+
+    if (checkOnly) {
+      const current = existsSync(outputFile) ? readFileSync(outputFile, "utf8") : null;
+      if (current !== bundle) stale.push(path.relative(ROOT_DIR, outputFile));
+    } else {
+      writeFileSync(outputFile, bundle);
+      console.log(`Bundled ${path.relative(ROOT_DIR, outputFile)}`);
+    }
+  }
+
+  if (stale.length > 0) {
+    console.error(`Out-of-date bundles (run \`npm run build\`):\n  ${stale.join("\n  ")}`);
+    process.exit(1);
+  }
+}
+
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  main(process.argv.slice(2));
+}
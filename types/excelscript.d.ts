@@ -0,0 +1,153 @@
+/**
+ * ExcelScript API Declarations
+ *
+ * The subset of the Office Scripts `ExcelScript` namespace used by src/excel
+ * and src/scripts, so that `npm run typecheck` covers the adapters and entry
+ * scripts. Signatures follow the Office Scripts reference; extend this file
+ * when an adapter starts using another member.
+ */
+
+declare namespace ExcelScript {
+
+  interface Workbook {
+    getActiveWorksheet(): Worksheet;
+    getActiveCell(): Range;
+    getSelectedRange(): Range;
+    getWorksheet(name: string): Worksheet | undefined;
+    addWorksheet(name?: string): Worksheet;
+    getNames(): NamedItem[];
+  }
+
+  interface Worksheet {
+    getName(): string;
+    activate(): void;
+    setVisibility(visibility: SheetVisibility): void;
+    getRange(address?: string): Range;
+    getRangeByIndexes(startRow: number, startColumn: number, rowCount: number, columnCount: number): Range;
+    getUsedRange(valuesOnly?: boolean): Range | undefined;
+  }
+
+  interface NamedItem {
+    getName(): string;
+    getType(): NamedItemType;
+    getRange(): Range;
+  }
+
+  interface Range {
+    getRowIndex(): number;
+    getColumnIndex(): number;
+    getRowCount(): number;
+    getValue(): string | number | boolean;
+    getValues(): (string | number | boolean)[][];
+    getFormulas(): string[][];
+    getNumberFormat(): string;
+    getNumberFormats(): string[][];
+    setValue(value: string | number | boolean): void;
+    setValues(values: (string | number | boolean)[][]): void;
+    setFormula(formula: string): void;
+    setFormulas(formulas: string[][]): void;
+    setNumberFormatLocal(numberFormatLocal: string): void;
+    getFormat(): RangeFormat;
+    getDataValidation(): DataValidation;
+    getExtendedRange(direction: KeyboardDirection, activeCell?: Range | string): Range;
+    getRangeEdge(direction: KeyboardDirection, activeCell?: Range | string): Range;
+    insert(shift: InsertShiftDirection): Range;
+    delete(shift: DeleteShiftDirection): void;
+    clear(applyTo?: ClearApplyTo): void;
+    copyFrom(sourceRange: Range | string, copyType?: RangeCopyType, skipBlanks?: boolean, transpose?: boolean): void;
+    moveTo(destinationRange: Range | string): void;
+    select(): void;
+    addConditionalFormat(type: ConditionalFormatType): ConditionalFormat;
+    getConditionalFormats(): ConditionalFormat[];
+    clearAllConditionalFormats(): void;
+  }
+
+  interface RangeFormat {
+    getFill(): RangeFill;
+    getFont(): RangeFont;
+    getRangeBorder(index: BorderIndex): RangeBorder;
+    setHorizontalAlignment(horizontalAlignment: HorizontalAlignment): void;
+    setVerticalAlignment(verticalAlignment: VerticalAlignment): void;
+    setIndentLevel(indentLevel: number): void;
+    autofitColumns(): void;
+  }
+
+  interface RangeFill {
+    setColor(color: string): void;
+    clear(): void;
+  }
+
+  interface RangeFont {
+    setBold(bold: boolean): void;
+    setColor(color: string): void;
+    setSize(size: number): void;
+  }
+
+  interface RangeBorder {
+    setStyle(style: BorderLineStyle): void;
+    setColor(color: string): void;
+  }
+
+  interface ConditionalFormat {
+    getCustom(): CustomConditionalFormat;
+  }
+
+  interface CustomConditionalFormat {
+    getFormat(): ConditionalRangeFormat;
+    getRule(): ConditionalFormatRule;
+  }
+
+  interface ConditionalRangeFormat {
+    getFill(): ConditionalRangeFill;
+    getFont(): ConditionalRangeFont;
+  }
+
+  interface ConditionalRangeFill {
+    setColor(color: string): void;
+  }
+
+  interface ConditionalRangeFont {
+    setBold(bold: boolean): void;
+    setColor(color: string): void;
+  }
+
+  interface ConditionalFormatRule {
+    setFormula(formula: string): void;
+  }
+
+  interface DataValidation {
+    clear(): void;
+    setRule(rule: DataValidationRule): void;
+    setIgnoreBlanks(ignoreBlanks: boolean): void;
+    setErrorAlert(errorAlert: DataValidationErrorAlert): void;
+  }
+
+  interface DataValidationRule {
+    list?: { inCellDropDown: boolean, source: string },
+  }
+
+  interface DataValidationErrorAlert {
+    message: string,
+    showAlert: boolean,
+    style: DataValidationAlertStyle,
+    title: string,
+  }
+
+  enum BorderIndex { edgeTop, edgeBottom, edgeLeft, edgeRight }
+  enum BorderLineStyle { none, continuous, dash, dot }
+  enum ClearApplyTo { all, formats, contents }
+  enum ConditionalFormatType { custom }
+  enum DataValidationAlertStyle { stop, warning, information }
+  enum DeleteShiftDirection { up, left }
+  enum HorizontalAlignment { general, left, center, right }
+  enum InsertShiftDirection { down, right }
+  enum KeyboardDirection { left, right, up, down }
+  enum NamedItemType { string, integer, double, boolean, range, error, array }
+  enum RangeCopyType { all, formulas, values, formats }
+  enum SheetVisibility { visible, hidden, veryHidden }
+  enum VerticalAlignment { top, center, bottom }
+}
+
+declare const console: {
+  log(...data: unknown[]): void,
+};